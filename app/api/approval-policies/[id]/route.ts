@@ -0,0 +1,138 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { parseApprovalSteps } from '@/lib/approvals';
+import { hasCapability } from '@/types/user';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { id: policyId } = await params;
+    const body = await request.json();
+    const { name, branch, department, steps, is_active } = body;
+
+    const updateData: any = { updated_at: new Date().toISOString() };
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return NextResponse.json({ success: false, error: 'Name is required' }, { status: 400 });
+      }
+      updateData.name = name.trim();
+    }
+    if (branch !== undefined) {
+      updateData.branch = typeof branch === 'string' && branch.trim() ? branch.trim() : null;
+    }
+    if (department !== undefined) {
+      updateData.department = typeof department === 'string' && department.trim() ? department.trim() : null;
+    }
+    if (steps !== undefined) {
+      const parsed = parseApprovalSteps(steps);
+      if (!parsed.ok) {
+        return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+      }
+      updateData.steps = parsed.steps;
+    }
+    if (is_active !== undefined) updateData.is_active = !!is_active;
+
+    const { data: policy, error } = await supabaseAdmin
+      .from('approval_policies')
+      .update(updateData)
+      .eq('id', policyId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { success: false, error: 'A policy for this branch and department already exists' },
+          { status: 409 }
+        );
+      }
+      throw new Error(`Failed to update approval policy: ${error.message}`);
+    }
+
+    console.log(`Approval policy ${policyId} updated by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.update',
+      entityType: 'approval_policy',
+      entityId: policyId,
+      summary: `Updated approval policy "${policy.name}"`,
+      details: { changes: updateData },
+    });
+
+    return NextResponse.json({ success: true, policy });
+
+  } catch (error: any) {
+    console.error('Error updating approval policy:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update approval policy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { id: policyId } = await params;
+
+    const { error } = await supabaseAdmin
+      .from('approval_policies')
+      .delete()
+      .eq('id', policyId);
+
+    if (error) {
+      throw new Error(`Failed to delete approval policy: ${error.message}`);
+    }
+
+    console.log(`Approval policy ${policyId} deleted by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.delete',
+      entityType: 'approval_policy',
+      entityId: policyId,
+      summary: 'Deleted an approval policy',
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: any) {
+    console.error('Error deleting approval policy:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete approval policy' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { getApprovalPolicies, parseApprovalSteps } from '@/lib/approvals';
+import { hasCapability } from '@/types/user';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const policies = await getApprovalPolicies();
+
+    return NextResponse.json({ success: true, policies });
+
+  } catch (error: any) {
+    console.error('Error fetching approval policies:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch approval policies' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a policy. Body: { name, branch?, department?, steps }; a blank
+ * branch or department matches any.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const branch = typeof body.branch === 'string' && body.branch.trim() ? body.branch.trim() : null;
+    const department = typeof body.department === 'string' && body.department.trim() ? body.department.trim() : null;
+
+    if (!name) {
+      return NextResponse.json({ success: false, error: 'Name is required' }, { status: 400 });
+    }
+    const parsed = parseApprovalSteps(body.steps);
+    if (!parsed.ok) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+
+    const { data: policy, error } = await supabaseAdmin
+      .from('approval_policies')
+      .insert({
+        name,
+        branch,
+        department,
+        steps: parsed.steps,
+        is_active: true,
+        created_by: session.user.email!.toLowerCase(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { success: false, error: 'A policy for this branch and department already exists' },
+          { status: 409 }
+        );
+      }
+      throw new Error(`Failed to create approval policy: ${error.message}`);
+    }
+
+    console.log(`Approval policy "${name}" created by ${session.user.email}: ${branch || 'any branch'} / ${department || 'any department'}, ${parsed.steps.length} steps`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.create',
+      entityType: 'approval_policy',
+      entityId: policy.id,
+      summary: `Created approval policy "${name}"`,
+      details: { branch, department, steps: parsed.steps },
+    });
+
+    return NextResponse.json({ success: true, policy });
+
+  } catch (error: any) {
+    console.error('Error creating approval policy:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create approval policy' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, AuditEvent } from '@/types/audit';
+import { hasCapability } from '@/types/user';
+
+const MAX_ROWS = 500;
+// Exports are for controllers pulling a period, so allow far more rows
+const MAX_EXPORT_ROWS = 10000;
+
+const CSV_COLUMNS: (keyof AuditEvent)[] = [
+  'occurred_at', 'actor_email', 'actor_name', 'action', 'entity_type', 'entity_id', 'summary', 'details',
+];
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(events: AuditEvent[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const event of events) {
+    lines.push(CSV_COLUMNS.map(column => csvCell(event[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Admin view of the audit trail, newest first. Optional filters: actor
+ * (substring of email or name), action, entityType, entityId, from / to
+ * (YYYY-MM-DD, inclusive). `format=csv` downloads the matching rows instead.
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const actor = searchParams.get('actor')?.trim();
+    const action = searchParams.get('action');
+    const entityType = searchParams.get('entityType');
+    const entityId = searchParams.get('entityId')?.trim();
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const asCsv = searchParams.get('format') === 'csv';
+    const limit = asCsv ? MAX_EXPORT_ROWS : MAX_ROWS;
+
+    let query = supabaseAdmin
+      .from('audit_events')
+      .select('id, occurred_at, actor_email, actor_name, action, entity_type, entity_id, summary, details')
+      .order('occurred_at', { ascending: false })
+      .limit(limit);
+
+    if (actor) {
+      // Drop the characters or() uses as separators, then escape LIKE wildcards
+      const term = actor.replace(/[,()"]/g, '').replace(/[%_\\]/g, '\\$&');
+      const pattern = `%${term}%`;
+      query = query.or(`actor_email.ilike.${pattern},actor_name.ilike.${pattern}`);
+    }
+    if (action && action in AUDIT_ACTION_LABELS) {
+      query = query.eq('action', action);
+    }
+    if (entityType && entityType in AUDIT_ENTITY_LABELS) {
+      query = query.eq('entity_type', entityType);
+    }
+    if (entityId) {
+      query = query.eq('entity_id', entityId);
+    }
+    // Dates are business days in Arizona time (UTC-7, no DST)
+    if (from && /^\d{4}-\d{2}-\d{2}$/.test(from)) {
+      query = query.gte('occurred_at', `${from}T00:00:00-07:00`);
+    }
+    if (to && /^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      query = query.lte('occurred_at', `${to}T23:59:59.999-07:00`);
+    }
+
+    const { data: events, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch audit events: ${error.message}`);
+    }
+
+    if (asCsv) {
+      console.log(`Audit log exported (${events.length} rows) by ${session.user.email}`);
+      const stamp = new Date().toISOString().substring(0, 10);
+      return new NextResponse(toCsv(events as AuditEvent[]), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="audit-log-${stamp}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      events,
+      truncated: events.length === limit,
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching audit events:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch audit events' },
+      { status: 500 }
+    );
+  }
+}
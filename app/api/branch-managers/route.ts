@@ -0,0 +1,122 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { hasCapability } from '@/types/user';
+
+/** Branch managers (escalation targets) for the Admin dashboard. */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { data: managers, error } = await supabaseAdmin
+      .from('branch_managers')
+      .select('*')
+      .order('branch', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch branch managers: ${error.message}`);
+    }
+
+    return NextResponse.json({ success: true, managers });
+
+  } catch (error: any) {
+    console.error('Error fetching branch managers:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch branch managers' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Set (`user_id`) or clear (`user_id: null`) the manager for a branch. */
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { branch, user_id } = body;
+
+    if (typeof branch !== 'string' || !branch.trim()) {
+      return NextResponse.json({ success: false, error: 'Branch is required' }, { status: 400 });
+    }
+
+    if (!user_id) {
+      const { error } = await supabaseAdmin
+        .from('branch_managers')
+        .delete()
+        .eq('branch', branch);
+
+      if (error) {
+        throw new Error(`Failed to clear branch manager: ${error.message}`);
+      }
+
+      console.log(`Branch manager for ${branch} cleared by ${session.user.email}`);
+
+      await recordAuditEvent({
+        actor: auditActor(session.user),
+        action: 'settings.delete',
+        entityType: 'branch_manager',
+        entityId: branch,
+        summary: `Cleared the branch manager for ${branch}`,
+      });
+      return NextResponse.json({ success: true, manager: null });
+    }
+
+    const { data: manager, error } = await supabaseAdmin
+      .from('branch_managers')
+      .upsert({
+        branch,
+        user_id,
+        updated_by: session.user.email!.toLowerCase(),
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to set branch manager: ${error.message}`);
+    }
+
+    console.log(`Branch manager for ${branch} set to ${user_id} by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.update',
+      entityType: 'branch_manager',
+      entityId: branch,
+      summary: `Set the branch manager for ${branch}`,
+      details: { user_id },
+    });
+
+    return NextResponse.json({ success: true, manager });
+
+  } catch (error: any) {
+    console.error('Error setting branch manager:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to set branch manager' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,170 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { findTakenBranchAlias, getBranches, parseBranchAliases, replaceBranchAliases } from '@/lib/branches';
+import { BRANCH_SOURCE_LABELS, getBranchSubtree } from '@/types/branch';
+import { hasCapability } from '@/types/user';
+
+// Branches can be moved and re-aliased but not renamed: expenses, grants and
+// Slack routes refer to them by name.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { id: branchId } = await params;
+    const body = await request.json();
+
+    const branches = await getBranches();
+    const branch = branches.find(b => b.id === branchId);
+    if (!branch) {
+      return NextResponse.json({ success: false, error: 'Branch not found' }, { status: 404 });
+    }
+
+    // Everything is validated before anything is written, so a refused save
+    // leaves the branch as it was
+    const parsedAliases = body.aliases === undefined ? null : parseBranchAliases(body.aliases);
+    if (parsedAliases && !parsedAliases.ok) {
+      return NextResponse.json({ success: false, error: parsedAliases.error }, { status: 400 });
+    }
+    const takenAlias = parsedAliases ? await findTakenBranchAlias(branchId, parsedAliases.aliases) : null;
+    if (takenAlias) {
+      return NextResponse.json(
+        { success: false, error: `${BRANCH_SOURCE_LABELS[takenAlias.source]} name "${takenAlias.alias}" is already mapped to another branch` },
+        { status: 409 }
+      );
+    }
+
+    const parentId: string | null = body.parent_id || null;
+    const parent = parentId ? branches.find(b => b.id === parentId) : null;
+    if (body.parent_id !== undefined) {
+      if (parentId && !parent) {
+        return NextResponse.json({ success: false, error: 'Parent branch not found' }, { status: 400 });
+      }
+      // A branch can't sit under itself or one of its own sub-branches
+      if (parent && getBranchSubtree(branches, branch.name).includes(parent.name)) {
+        return NextResponse.json(
+          { success: false, error: `${parent.name} is inside ${branch.name}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const changes: Record<string, unknown> = {};
+    if (parsedAliases) {
+      const savedAliases = await replaceBranchAliases(branchId, parsedAliases.aliases);
+      if (!savedAliases.ok) {
+        return NextResponse.json({ success: false, error: savedAliases.error }, { status: 409 });
+      }
+      changes.aliases = parsedAliases.aliases;
+    }
+
+    if (body.parent_id !== undefined) {
+      const { error } = await supabaseAdmin
+        .from('branches')
+        .update({ parent_id: parentId })
+        .eq('id', branchId);
+
+      if (error) {
+        throw new Error(`Failed to update branch: ${error.message}`);
+      }
+      changes.parent = parent?.name ?? null;
+    }
+
+    console.log(`Branch ${branch.name} updated by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.update',
+      entityType: 'branch',
+      entityId: branchId,
+      summary: `Updated branch ${branch.name}`,
+      details: { changes },
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: any) {
+    console.error('Error updating branch:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update branch' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { id: branchId } = await params;
+
+    const branches = await getBranches();
+    const branch = branches.find(b => b.id === branchId);
+    if (!branch) {
+      return NextResponse.json({ success: false, error: 'Branch not found' }, { status: 404 });
+    }
+    if (branches.some(b => b.parent_id === branchId)) {
+      return NextResponse.json(
+        { success: false, error: `Move or delete the branches under ${branch.name} first` },
+        { status: 409 }
+      );
+    }
+
+    // Aliases go with it (on delete cascade); expenses keep the name
+    const { error } = await supabaseAdmin
+      .from('branches')
+      .delete()
+      .eq('id', branchId);
+
+    if (error) {
+      throw new Error(`Failed to delete branch: ${error.message}`);
+    }
+
+    console.log(`Branch ${branch.name} deleted by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.delete',
+      entityType: 'branch',
+      entityId: branchId,
+      summary: `Deleted branch ${branch.name}`,
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: any) {
+    console.error('Error deleting branch:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete branch' },
+      { status: 500 }
+    );
+  }
+}
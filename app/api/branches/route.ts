@@ -0,0 +1,118 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { findTakenBranchAlias, getBranches, getBranchesWithAliases, parseBranchAliases, replaceBranchAliases } from '@/lib/branches';
+import { BRANCH_SOURCE_LABELS } from '@/types/branch';
+import { hasCapability } from '@/types/user';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const branches = await getBranchesWithAliases();
+
+    return NextResponse.json({ success: true, branches });
+
+  } catch (error: any) {
+    console.error('Error fetching branches:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch branches' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const parentId: string | null = body.parent_id || null;
+
+    if (!name) {
+      return NextResponse.json({ success: false, error: 'Branch name is required' }, { status: 400 });
+    }
+
+    const parsedAliases = parseBranchAliases(body.aliases ?? []);
+    if (!parsedAliases.ok) {
+      return NextResponse.json({ success: false, error: parsedAliases.error }, { status: 400 });
+    }
+    const takenAlias = await findTakenBranchAlias(null, parsedAliases.aliases);
+    if (takenAlias) {
+      return NextResponse.json(
+        { success: false, error: `${BRANCH_SOURCE_LABELS[takenAlias.source]} name "${takenAlias.alias}" is already mapped to another branch` },
+        { status: 409 }
+      );
+    }
+
+    const parent = parentId ? (await getBranches()).find(b => b.id === parentId) : null;
+    if (parentId && !parent) {
+      return NextResponse.json({ success: false, error: 'Parent branch not found' }, { status: 400 });
+    }
+
+    const { data: branch, error } = await supabaseAdmin
+      .from('branches')
+      .insert({ name, parent_id: parentId })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { success: false, error: `"${name}" already exists` },
+          { status: 409 }
+        );
+      }
+      throw new Error(`Failed to create branch: ${error.message}`);
+    }
+
+    const savedAliases = await replaceBranchAliases(branch.id, parsedAliases.aliases);
+    if (!savedAliases.ok) {
+      await supabaseAdmin.from('branches').delete().eq('id', branch.id);
+      return NextResponse.json({ success: false, error: savedAliases.error }, { status: 409 });
+    }
+
+    console.log(`Branch created by ${session.user.email}: ${name}${parent ? ` under ${parent.name}` : ''}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.create',
+      entityType: 'branch',
+      entityId: branch.id,
+      summary: `Created branch ${name}${parent ? ` under ${parent.name}` : ''}`,
+      details: { parent: parent?.name ?? null, aliases: parsedAliases.aliases },
+    });
+
+    return NextResponse.json({ success: true, branch: { ...branch, aliases: parsedAliases.aliases } });
+
+  } catch (error: any) {
+    console.error('Error creating branch:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create branch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+import { runDueDigests } from '@/lib/digests';
+import { recordAuditEvent, SYSTEM_AUDIT_ACTOR } from '@/lib/audit';
+
+export const maxDuration = 300;
+
+/**
+ * Scheduled Slack department digests: posts every digest_schedules row due
+ * today. Authenticated with CRON_SECRET like /api/cron/sync.
+ */
+async function handler(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  console.log('=== Scheduled digests started ===');
+
+  try {
+    const stats = await runDueDigests();
+    console.log(`=== Scheduled digests finished: ${stats.sent} sent, ${stats.skipped} skipped, ${stats.failed} failed ===`);
+    if (stats.sent > 0 || stats.failed > 0) {
+      await recordAuditEvent({
+        actor: SYSTEM_AUDIT_ACTOR,
+        action: 'slack.digest_run',
+        entityType: 'digest_schedule',
+        summary: `Scheduled digests: ${stats.sent} sent, ${stats.failed} failed`,
+        details: { ...stats },
+      });
+    }
+    return NextResponse.json(
+      { success: stats.failed === 0, stats },
+      { status: stats.failed === 0 ? 200 : 500 }
+    );
+  } catch (error: any) {
+    console.error('Scheduled digests failed:', error);
+    return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+  }
+}
+
+export const GET = handler;
+export const POST = handler;
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+import { runEscalations } from '@/lib/escalations';
+import { recordAuditEvent, SYSTEM_AUDIT_ACTOR } from '@/lib/audit';
+
+export const maxDuration = 300;
+
+/**
+ * Escalating reminders for flagged expenses the purchaser hasn't resolved
+ * (rules in escalation_rules). Authenticated with CRON_SECRET like
+ * /api/cron/sync.
+ */
+async function handler(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  console.log('=== Escalations started ===');
+
+  try {
+    const stats = await runEscalations();
+    console.log(`=== Escalations finished: ${stats.reminded} reminded, ${stats.escalated} escalated, ${stats.failed} failed ===`);
+    if (stats.candidates > 0) {
+      await recordAuditEvent({
+        actor: SYSTEM_AUDIT_ACTOR,
+        action: 'slack.escalation_run',
+        entityType: 'escalation_rule',
+        summary: `Escalations: ${stats.reminded} reminded, ${stats.escalated} escalated, ${stats.failed} failed`,
+        details: { ...stats },
+      });
+    }
+    return NextResponse.json(
+      { success: stats.failed === 0, stats },
+      { status: stats.failed === 0 ? 200 : 500 }
+    );
+  } catch (error: any) {
+    console.error('Escalations failed:', error);
+    return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+  }
+}
+
+export const GET = handler;
+export const POST = handler;
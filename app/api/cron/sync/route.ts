@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+import { runVendorBillSync, VendorBillSyncMode } from '@/lib/vendorBillSync';
+import { runCreditCardSync } from '@/lib/creditCardSync';
+import { recordAuditEvent, SYSTEM_AUDIT_ACTOR } from '@/lib/audit';
+
+// Both syncs run back to back in one invocation.
+export const maxDuration = 300;
+
+type StepResult =
+  | { status: 'completed'; message: string; stats: any }
+  | { status: 'skipped'; reason: string }
+  | { status: 'failed'; error: string };
+
+async function runStep(
+  name: string,
+  run: () => Promise<{ busy: true } | { busy: false; message: string; stats: any }>
+): Promise<StepResult> {
+  try {
+    const result = await run();
+    if (result.busy) {
+      console.log(`Scheduled ${name} skipped: another sync is running`);
+      return { status: 'skipped', reason: 'Another sync is already running' };
+    }
+    return { status: 'completed', message: result.message, stats: result.stats };
+  } catch (error: any) {
+    console.error(`Scheduled ${name} failed:`, error);
+    return { status: 'failed', error: error.message };
+  }
+}
+
+/**
+ * Scheduled sync runner: NetSuite vendor bills, then Bill.com credit cards.
+ * Authenticated with CRON_SECRET rather than a session so any cron caller can
+ * hit it (Vercel Cron uses GET; POST is accepted for other schedulers).
+ * `?mode=full` runs the vendor-bill full reconcile instead of incremental.
+ */
+async function handler(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const mode: VendorBillSyncMode = searchParams.get('mode') === 'full' ? 'full' : 'incremental';
+
+  console.log(`=== Scheduled sync started (vendor bills: ${mode}) ===`);
+
+  // Sequential on purpose: the sync_logs mutex would make the second one
+  // skip if they overlapped.
+  const vendorBills = await runStep('vendor bill sync', () =>
+    runVendorBillSync({ mode, trigger: 'scheduled', triggeredBy: null })
+  );
+  const creditCards = await runStep('credit card sync', () =>
+    runCreditCardSync({ trigger: 'scheduled', triggeredBy: null })
+  );
+
+  const failed = vendorBills.status === 'failed' || creditCards.status === 'failed';
+
+  await recordAuditEvent({
+    actor: SYSTEM_AUDIT_ACTOR,
+    action: 'sync.run',
+    entityType: 'sync',
+    summary: `Scheduled sync: vendor bills ${vendorBills.status}, credit cards ${creditCards.status}`,
+    details: { mode, vendorBills: vendorBills.status, creditCards: creditCards.status },
+  });
+  console.log(`=== Scheduled sync finished: vendor bills ${vendorBills.status}, credit cards ${creditCards.status} ===`);
+
+  return NextResponse.json(
+    { success: !failed, results: { vendorBills, creditCards } },
+    { status: failed ? 500 : 200 }
+  );
+}
+
+export const GET = handler;
+export const POST = handler;
@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getCurrentUserWithPermissions } from '@/lib/currentUser';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { toDelegationWithUsers, DELEGATION_COLUMNS } from '@/lib/delegations';
+import { hasCapability } from '@/types/user';
+
+/**
+ * Revoke a delegation (the delegator or an admin). The row is kept with
+ * revoked_at set, so past approvals made under it still make sense.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getCurrentUserWithPermissions(session.user.email);
+    if (!user || !user.is_active) {
+      return NextResponse.json({ success: false, error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id: delegationId } = await params;
+    const { data: existing } = await supabaseAdmin
+      .from('approval_delegations')
+      .select(DELEGATION_COLUMNS)
+      .eq('id', delegationId)
+      .maybeSingle();
+
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Delegation not found' }, { status: 404 });
+    }
+
+    const delegation = toDelegationWithUsers(existing);
+    if (delegation.delegator_user_id !== user.id && !hasCapability(user, 'manage_users')) {
+      return NextResponse.json(
+        { success: false, error: 'Only the person who delegated or an admin can revoke this' },
+        { status: 403 }
+      );
+    }
+    if (delegation.revoked_at) {
+      return NextResponse.json({ success: true });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('approval_delegations')
+      .update({
+        revoked_at: new Date().toISOString(),
+        revoked_by: session.user.email.toLowerCase(),
+      })
+      .eq('id', delegationId);
+
+    if (error) {
+      throw new Error(`Failed to revoke delegation: ${error.message}`);
+    }
+
+    console.log(`Delegation ${delegationId} revoked by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(user),
+      action: 'delegation.revoke',
+      entityType: 'delegation',
+      entityId: delegationId,
+      summary: `Revoked ${delegation.delegator_name}'s delegation to ${delegation.delegate_name}`,
+      details: { startsOn: delegation.starts_on, endsOn: delegation.ends_on },
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: any) {
+    console.error('Error revoking delegation:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke delegation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,174 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getCurrentUserWithPermissions } from '@/lib/currentUser';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { businessToday } from '@/lib/digests';
+import { DELEGATION_COLUMNS, toDelegationWithUsers } from '@/lib/delegations';
+import { hasCapability } from '@/types/user';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Current and upcoming delegations. By default those the signed-in user gave
+ * or received, plus the users they can delegate to; `scope=all` lists every
+ * user's (admins only).
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getCurrentUserWithPermissions(session.user.email);
+    if (!user || !user.is_active) {
+      return NextResponse.json({ success: false, error: 'Forbidden' }, { status: 403 });
+    }
+
+    const showAll = new URL(request.url).searchParams.get('scope') === 'all';
+    if (showAll && !hasCapability(user, 'manage_users')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const today = businessToday();
+    let query = supabaseAdmin
+      .from('approval_delegations')
+      .select(DELEGATION_COLUMNS)
+      .is('revoked_at', null)
+      .gte('ends_on', today)
+      .order('starts_on', { ascending: true });
+
+    if (!showAll) {
+      query = query.or(`delegator_user_id.eq.${user.id},delegate_user_id.eq.${user.id}`);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch delegations: ${error.message}`);
+    }
+
+    const { data: candidates, error: candidatesError } = await supabaseAdmin
+      .from('users')
+      .select('id, full_name')
+      .eq('is_active', true)
+      .neq('id', user.id)
+      .order('full_name', { ascending: true });
+
+    if (candidatesError) {
+      throw new Error(`Failed to fetch users: ${candidatesError.message}`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      delegations: (data || []).map(toDelegationWithUsers),
+      candidates,
+      currentUserId: user.id,
+      today,
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching delegations:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch delegations' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delegate approval rights for a date range. Body: { delegateUserId,
+ * startsOn, endsOn, reason? }. Admins may also pass delegatorUserId to set
+ * one up for a manager who left without doing it.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getCurrentUserWithPermissions(session.user.email);
+    if (!user || !user.is_active) {
+      return NextResponse.json({ success: false, error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { delegateUserId, delegatorUserId, startsOn, endsOn, reason } = await request.json();
+    const delegatorId = delegatorUserId || user.id;
+
+    if (delegatorId !== user.id && !hasCapability(user, 'manage_users')) {
+      return NextResponse.json(
+        { success: false, error: 'Only an admin can delegate on behalf of someone else' },
+        { status: 403 }
+      );
+    }
+    if (typeof delegateUserId !== 'string' || !delegateUserId) {
+      return NextResponse.json({ success: false, error: 'Choose who to delegate to' }, { status: 400 });
+    }
+    if (delegateUserId === delegatorId) {
+      return NextResponse.json({ success: false, error: "You can't delegate to yourself" }, { status: 400 });
+    }
+    if (!DATE_PATTERN.test(startsOn ?? '') || !DATE_PATTERN.test(endsOn ?? '') || endsOn < startsOn) {
+      return NextResponse.json({ success: false, error: 'Enter a valid date range' }, { status: 400 });
+    }
+    if (endsOn < businessToday()) {
+      return NextResponse.json({ success: false, error: 'The date range has already ended' }, { status: 400 });
+    }
+
+    const { data: people, error: peopleError } = await supabaseAdmin
+      .from('users')
+      .select('id, email, full_name, is_active')
+      .in('id', [delegatorId, delegateUserId]);
+
+    if (peopleError) {
+      throw new Error(`Failed to load users: ${peopleError.message}`);
+    }
+
+    const delegator = people.find(p => p.id === delegatorId);
+    const delegate = people.find(p => p.id === delegateUserId);
+    if (!delegator || !delegate || !delegate.is_active) {
+      return NextResponse.json({ success: false, error: 'User not found or inactive' }, { status: 404 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('approval_delegations')
+      .insert({
+        delegator_user_id: delegatorId,
+        delegate_user_id: delegateUserId,
+        starts_on: startsOn,
+        ends_on: endsOn,
+        reason: typeof reason === 'string' && reason.trim() ? reason.trim() : null,
+        created_by: session.user.email.toLowerCase(),
+      })
+      .select(DELEGATION_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create delegation: ${error.message}`);
+    }
+
+    const delegation = toDelegationWithUsers(data);
+
+    console.log(`Delegation ${delegator.email} -> ${delegate.email} (${startsOn} to ${endsOn}) created by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(user),
+      action: 'delegation.create',
+      entityType: 'delegation',
+      entityId: delegation.id,
+      summary: `Delegated ${delegator.full_name}'s approvals to ${delegate.full_name} from ${startsOn} to ${endsOn}`,
+      details: { delegator: delegator.email, delegate: delegate.email, startsOn, endsOn },
+    });
+
+    return NextResponse.json({ success: true, delegation });
+
+  } catch (error: any) {
+    console.error('Error creating delegation:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create delegation' },
+      { status: 500 }
+    );
+  }
+}
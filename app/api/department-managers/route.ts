@@ -0,0 +1,122 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { hasCapability } from '@/types/user';
+
+/** Department managers (approval chain approvers) for the Admin dashboard. */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { data: managers, error } = await supabaseAdmin
+      .from('department_managers')
+      .select('*')
+      .order('department', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch department managers: ${error.message}`);
+    }
+
+    return NextResponse.json({ success: true, managers });
+
+  } catch (error: any) {
+    console.error('Error fetching department managers:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch department managers' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Set (`user_id`) or clear (`user_id: null`) the manager for a department. */
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { department, user_id } = body;
+
+    if (typeof department !== 'string' || !department.trim()) {
+      return NextResponse.json({ success: false, error: 'Department is required' }, { status: 400 });
+    }
+
+    if (!user_id) {
+      const { error } = await supabaseAdmin
+        .from('department_managers')
+        .delete()
+        .eq('department', department);
+
+      if (error) {
+        throw new Error(`Failed to clear department manager: ${error.message}`);
+      }
+
+      console.log(`Department manager for ${department} cleared by ${session.user.email}`);
+
+      await recordAuditEvent({
+        actor: auditActor(session.user),
+        action: 'settings.delete',
+        entityType: 'department_manager',
+        entityId: department,
+        summary: `Cleared the department manager for ${department}`,
+      });
+      return NextResponse.json({ success: true, manager: null });
+    }
+
+    const { data: manager, error } = await supabaseAdmin
+      .from('department_managers')
+      .upsert({
+        department,
+        user_id,
+        updated_by: session.user.email!.toLowerCase(),
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to set department manager: ${error.message}`);
+    }
+
+    console.log(`Department manager for ${department} set to ${user_id} by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.update',
+      entityType: 'department_manager',
+      entityId: department,
+      summary: `Set the department manager for ${department}`,
+      details: { user_id },
+    });
+
+    return NextResponse.json({ success: true, manager });
+
+  } catch (error: any) {
+    console.error('Error setting department manager:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to set department manager' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { DIGEST_CADENCE_LABELS } from '@/types/digest';
+import { hasCapability } from '@/types/user';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { id: scheduleId } = await params;
+    const body = await request.json();
+    const { cadence, weekday, days_before_month_end, is_active } = body;
+
+    // Branch/department are fixed once created; delete and re-add to move a digest
+    const updateData: any = { updated_at: new Date().toISOString() };
+    if (cadence !== undefined) {
+      if (!(cadence in DIGEST_CADENCE_LABELS)) {
+        return NextResponse.json({ success: false, error: 'Invalid cadence' }, { status: 400 });
+      }
+      if (cadence === 'weekly' && !(Number.isInteger(weekday) && weekday >= 0 && weekday <= 6)) {
+        return NextResponse.json({ success: false, error: 'Weekday is required for weekly digests' }, { status: 400 });
+      }
+      if (cadence === 'month_end' && !(Number.isInteger(days_before_month_end) && days_before_month_end >= 0 && days_before_month_end <= 27)) {
+        return NextResponse.json({ success: false, error: 'Days before month end must be between 0 and 27' }, { status: 400 });
+      }
+      updateData.cadence = cadence;
+      updateData.weekday = cadence === 'weekly' ? weekday : null;
+      updateData.days_before_month_end = cadence === 'month_end' ? days_before_month_end : null;
+    }
+    if (is_active !== undefined) updateData.is_active = !!is_active;
+
+    const { data: schedule, error } = await supabaseAdmin
+      .from('digest_schedules')
+      .update(updateData)
+      .eq('id', scheduleId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update digest schedule: ${error.message}`);
+    }
+
+    console.log(`Digest schedule ${scheduleId} updated by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.update',
+      entityType: 'digest_schedule',
+      entityId: scheduleId,
+      summary: `Updated digest for ${schedule.branch} / ${schedule.department}`,
+      details: { changes: updateData },
+    });
+
+    return NextResponse.json({ success: true, schedule });
+
+  } catch (error: any) {
+    console.error('Error updating digest schedule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update digest schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { id: scheduleId } = await params;
+
+    // History rows keep their branch/department; schedule_id is set null
+    const { error } = await supabaseAdmin
+      .from('digest_schedules')
+      .delete()
+      .eq('id', scheduleId);
+
+    if (error) {
+      throw new Error(`Failed to delete digest schedule: ${error.message}`);
+    }
+
+    console.log(`Digest schedule ${scheduleId} deleted by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.delete',
+      entityType: 'digest_schedule',
+      entityId: scheduleId,
+      summary: 'Deleted a digest schedule',
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: any) {
+    console.error('Error deleting digest schedule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete digest schedule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { resolveDepartmentChannel } from '@/lib/slackChannels';
+import { DIGEST_CADENCE_LABELS } from '@/types/digest';
+import { hasCapability } from '@/types/user';
+
+/** Digest schedules plus the most recent sends, for the Admin dashboard. */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { data: schedules, error } = await supabaseAdmin
+      .from('digest_schedules')
+      .select('*')
+      .order('branch', { ascending: true })
+      .order('department', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch digest schedules: ${error.message}`);
+    }
+
+    const { data: history, error: historyError } = await supabaseAdmin
+      .from('digest_history')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (historyError) {
+      throw new Error(`Failed to fetch digest history: ${historyError.message}`);
+    }
+
+    return NextResponse.json({ success: true, schedules, history });
+
+  } catch (error: any) {
+    console.error('Error fetching digest schedules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch digest schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { branch, department, cadence, weekday, days_before_month_end } = body;
+
+    if (!(cadence in DIGEST_CADENCE_LABELS)) {
+      return NextResponse.json({ success: false, error: 'Invalid cadence' }, { status: 400 });
+    }
+    if (cadence === 'weekly' && !(Number.isInteger(weekday) && weekday >= 0 && weekday <= 6)) {
+      return NextResponse.json({ success: false, error: 'Weekday is required for weekly digests' }, { status: 400 });
+    }
+    if (cadence === 'month_end' && !(Number.isInteger(days_before_month_end) && days_before_month_end >= 0 && days_before_month_end <= 27)) {
+      return NextResponse.json({ success: false, error: 'Days before month end must be between 0 and 27' }, { status: 400 });
+    }
+    if (!branch || !department || !(await resolveDepartmentChannel(branch, department))) {
+      return NextResponse.json(
+        { success: false, error: `No Slack channel configured for ${department || 'that department'} in ${branch || 'that branch'}` },
+        { status: 400 }
+      );
+    }
+
+    const { data: schedule, error } = await supabaseAdmin
+      .from('digest_schedules')
+      .insert({
+        branch,
+        department,
+        cadence,
+        weekday: cadence === 'weekly' ? weekday : null,
+        days_before_month_end: cadence === 'month_end' ? days_before_month_end : null,
+        is_active: true,
+        created_by: session.user.email!.toLowerCase(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { success: false, error: `${branch} / ${department} already has a digest schedule` },
+          { status: 409 }
+        );
+      }
+      throw new Error(`Failed to create digest schedule: ${error.message}`);
+    }
+
+    console.log(`Digest schedule created by ${session.user.email}: ${branch} / ${department} (${cadence})`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.create',
+      entityType: 'digest_schedule',
+      entityId: schedule.id,
+      summary: `Created ${cadence} digest for ${branch} / ${department}`,
+    });
+
+    return NextResponse.json({ success: true, schedule });
+
+  } catch (error: any) {
+    console.error('Error creating digest schedule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create digest schedule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { ESCALATION_TARGET_LABELS } from '@/types/escalation';
+import { hasCapability } from '@/types/user';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { id: ruleId } = await params;
+    const body = await request.json();
+    const { reminder_after_days, max_reminders, escalate_to, is_active } = body;
+
+    const updateData: any = { updated_at: new Date().toISOString() };
+    if (reminder_after_days !== undefined) {
+      if (!Number.isInteger(reminder_after_days) || reminder_after_days < 1) {
+        return NextResponse.json({ success: false, error: 'Days between reminders must be at least 1' }, { status: 400 });
+      }
+      updateData.reminder_after_days = reminder_after_days;
+    }
+    if (max_reminders !== undefined) {
+      if (!Number.isInteger(max_reminders) || max_reminders < 1) {
+        return NextResponse.json({ success: false, error: 'Number of reminders must be at least 1' }, { status: 400 });
+      }
+      updateData.max_reminders = max_reminders;
+    }
+    if (escalate_to !== undefined) {
+      if (!(escalate_to in ESCALATION_TARGET_LABELS)) {
+        return NextResponse.json({ success: false, error: 'Invalid escalation target' }, { status: 400 });
+      }
+      updateData.escalate_to = escalate_to;
+    }
+    if (is_active !== undefined) updateData.is_active = !!is_active;
+
+    const { data: rule, error } = await supabaseAdmin
+      .from('escalation_rules')
+      .update(updateData)
+      .eq('id', ruleId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update escalation rule: ${error.message}`);
+    }
+
+    console.log(`Escalation rule ${ruleId} updated by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.update',
+      entityType: 'escalation_rule',
+      entityId: ruleId,
+      summary: `Updated escalation rule for ${rule.flag_category}`,
+      details: { changes: updateData },
+    });
+
+    return NextResponse.json({ success: true, rule });
+
+  } catch (error: any) {
+    console.error('Error updating escalation rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update escalation rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { id: ruleId } = await params;
+
+    const { error } = await supabaseAdmin
+      .from('escalation_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) {
+      throw new Error(`Failed to delete escalation rule: ${error.message}`);
+    }
+
+    console.log(`Escalation rule ${ruleId} deleted by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.delete',
+      entityType: 'escalation_rule',
+      entityId: ruleId,
+      summary: 'Deleted an escalation rule',
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: any) {
+    console.error('Error deleting escalation rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete escalation rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { FLAG_CATEGORIES } from '@/types/expense';
+import { ESCALATION_TARGET_LABELS } from '@/types/escalation';
+import { hasCapability } from '@/types/user';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { data: rules, error } = await supabaseAdmin
+      .from('escalation_rules')
+      .select('*')
+      .order('flag_category', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch escalation rules: ${error.message}`);
+    }
+
+    return NextResponse.json({ success: true, rules });
+
+  } catch (error: any) {
+    console.error('Error fetching escalation rules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch escalation rules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { flag_category, reminder_after_days, max_reminders, escalate_to } = body;
+
+    if (!FLAG_CATEGORIES.includes(flag_category) || !(escalate_to in ESCALATION_TARGET_LABELS)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid flag category or escalation target' },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(reminder_after_days) || reminder_after_days < 1 ||
+        !Number.isInteger(max_reminders) || max_reminders < 1) {
+      return NextResponse.json(
+        { success: false, error: 'Days between reminders and number of reminders must be at least 1' },
+        { status: 400 }
+      );
+    }
+
+    const { data: rule, error } = await supabaseAdmin
+      .from('escalation_rules')
+      .insert({
+        flag_category,
+        reminder_after_days,
+        max_reminders,
+        escalate_to,
+        is_active: true,
+        created_by: session.user.email!.toLowerCase(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { success: false, error: `"${flag_category}" already has an escalation rule` },
+          { status: 409 }
+        );
+      }
+      throw new Error(`Failed to create escalation rule: ${error.message}`);
+    }
+
+    console.log(`Escalation rule created by ${session.user.email}: ${flag_category} every ${reminder_after_days}d, ${max_reminders} reminders, then ${escalate_to}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.create',
+      entityType: 'escalation_rule',
+      entityId: rule.id,
+      summary: `Created escalation rule for ${flag_category}`,
+      details: { reminder_after_days, max_reminders, escalate_to },
+    });
+
+    return NextResponse.json({ success: true, rule });
+
+  } catch (error: any) {
+    console.error('Error creating escalation rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create escalation rule' },
+      { status: 500 }
+    );
+  }
+}
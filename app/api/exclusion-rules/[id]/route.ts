@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { EXCLUSION_ACTION_LABELS, EXCLUSION_MATCH_FIELD_LABELS } from '@/types/exclusionRule';
+import { hasCapability } from '@/types/user';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { id: ruleId } = await params;
+    const body = await request.json();
+    const { match_field, match_value, action, note, is_active } = body;
+
+    const updateData: any = { updated_at: new Date().toISOString() };
+    if (match_field !== undefined) {
+      if (!(match_field in EXCLUSION_MATCH_FIELD_LABELS)) {
+        return NextResponse.json({ success: false, error: 'Invalid match field' }, { status: 400 });
+      }
+      updateData.match_field = match_field;
+    }
+    if (match_value !== undefined) {
+      const value = typeof match_value === 'string' ? match_value.trim() : '';
+      if (!value) {
+        return NextResponse.json({ success: false, error: 'Match value is required' }, { status: 400 });
+      }
+      updateData.match_value = value;
+    }
+    if (action !== undefined) {
+      if (!(action in EXCLUSION_ACTION_LABELS)) {
+        return NextResponse.json({ success: false, error: 'Invalid action' }, { status: 400 });
+      }
+      updateData.action = action;
+    }
+    if (note !== undefined) updateData.note = typeof note === 'string' && note.trim() ? note.trim() : null;
+    if (is_active !== undefined) updateData.is_active = !!is_active;
+
+    const { data: rule, error } = await supabaseAdmin
+      .from('exclusion_rules')
+      .update(updateData)
+      .eq('id', ruleId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update exclusion rule: ${error.message}`);
+    }
+
+    console.log(`Exclusion rule ${ruleId} updated by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.update',
+      entityType: 'exclusion_rule',
+      entityId: ruleId,
+      summary: `Updated exclusion rule ${rule.match_field}=${rule.match_value}`,
+      details: { changes: updateData },
+    });
+
+    return NextResponse.json({ success: true, rule });
+
+  } catch (error: any) {
+    console.error('Error updating exclusion rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update exclusion rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { id: ruleId } = await params;
+
+    const { error } = await supabaseAdmin
+      .from('exclusion_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) {
+      throw new Error(`Failed to delete exclusion rule: ${error.message}`);
+    }
+
+    console.log(`Exclusion rule ${ruleId} deleted by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.delete',
+      entityType: 'exclusion_rule',
+      entityId: ruleId,
+      summary: 'Deleted an exclusion rule',
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: any) {
+    console.error('Error deleting exclusion rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete exclusion rule' },
+      { status: 500 }
+    );
+  }
+}
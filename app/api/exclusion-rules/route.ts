@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { EXCLUSION_ACTION_LABELS, EXCLUSION_MATCH_FIELD_LABELS } from '@/types/exclusionRule';
+import { hasCapability } from '@/types/user';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    // Inactive rules are included so admins can re-enable them
+    const { data: rules, error } = await supabaseAdmin
+      .from('exclusion_rules')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch exclusion rules: ${error.message}`);
+    }
+
+    return NextResponse.json({ success: true, rules });
+
+  } catch (error: any) {
+    console.error('Error fetching exclusion rules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch exclusion rules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { match_field, match_value, action, note } = body;
+
+    if (!(match_field in EXCLUSION_MATCH_FIELD_LABELS) || !(action in EXCLUSION_ACTION_LABELS)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid match field or action' },
+        { status: 400 }
+      );
+    }
+
+    const value = typeof match_value === 'string' ? match_value.trim() : '';
+    if (!value) {
+      return NextResponse.json(
+        { success: false, error: 'Match value is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: rule, error } = await supabaseAdmin
+      .from('exclusion_rules')
+      .insert({
+        match_field,
+        match_value: value,
+        action,
+        note: typeof note === 'string' && note.trim() ? note.trim() : null,
+        is_active: true,
+        created_by: session.user.email!.toLowerCase(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create exclusion rule: ${error.message}`);
+    }
+
+    console.log(`Exclusion rule created by ${session.user.email}: ${match_field}=${value} (${action})`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.create',
+      entityType: 'exclusion_rule',
+      entityId: rule.id,
+      summary: `Created exclusion rule ${match_field}=${value} (${action})`,
+    });
+
+    return NextResponse.json({ success: true, rule });
+
+  } catch (error: any) {
+    console.error('Error creating exclusion rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create exclusion rule' },
+      { status: 500 }
+    );
+  }
+}
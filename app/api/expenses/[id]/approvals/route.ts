@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getAccessibleExpense } from '@/lib/expenseAccess';
+import { getApprovalPolicies, getStepApprover, resolveApprovingUser } from '@/lib/approvals';
+import { ApprovalChainStepStatus, ExpenseApprovalStep, findApprovalPolicy, getApprovalChain } from '@/types/approval';
+
+/**
+ * The approval chain for one expense: each step with its approver and
+ * decision, the policy it comes from, and whether the signed-in user can act
+ * on the current step, themselves or through a delegation. An empty chain
+ * means no policy applies.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: expenseId } = await params;
+    const access = await getAccessibleExpense(
+      session.user.email,
+      expenseId,
+      'id, branch, department, amount, approval_status, approval_step'
+    );
+    if (!access.ok) {
+      return NextResponse.json({ success: false, error: access.error }, { status: access.status });
+    }
+
+    const expense = access.expense;
+    const policies = await getApprovalPolicies();
+    const policy = findApprovalPolicy(policies, expense);
+    const chain = getApprovalChain(policies, expense);
+
+    const { data: decisions, error } = await supabaseAdmin
+      .from('expense_approval_steps')
+      .select('*')
+      .eq('expense_id', expenseId)
+      .order('step_order', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching approval steps:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch approval steps' },
+        { status: 500 }
+      );
+    }
+
+    const currentIndex = expense.approval_status ? -1 : (expense.approval_step ?? 0);
+    const steps: ApprovalChainStepStatus[] = await Promise.all(chain.map(async (step, index) => {
+      const decision = (decisions as ExpenseApprovalStep[]).find(d => d.step_order === index);
+      const approver = await getStepApprover(step, expense);
+      return {
+        step_order: index,
+        approver_role: step.approver_role,
+        approver_name: approver?.full_name ?? null,
+        status: decision ? decision.decision : index === currentIndex ? 'current' : 'upcoming',
+        decided_by: decision?.decided_by ?? null,
+        decided_at: decision?.decided_at ?? null,
+      };
+    }));
+
+    const currentStep = chain[currentIndex];
+    const canAct = currentStep ? (await resolveApprovingUser(access.user, expense, currentStep)) !== null : false;
+
+    return NextResponse.json({
+      success: true,
+      policyName: policy?.name ?? null,
+      steps,
+      canAct,
+    });
+  } catch (error: any) {
+    console.error('Error in expense approvals API:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getAccessibleExpense } from '@/lib/expenseAccess';
+
+/** Field-level change history for one expense, newest first. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: expenseId } = await params;
+    const access = await getAccessibleExpense(session.user.email, expenseId);
+    if (!access.ok) {
+      return NextResponse.json({ success: false, error: access.error }, { status: access.status });
+    }
+
+    const { data: changes, error } = await supabaseAdmin
+      .from('expense_changes')
+      .select('id, expense_id, field, old_value, new_value, source, changed_by, changed_at')
+      .eq('expense_id', expenseId)
+      .order('changed_at', { ascending: false })
+      .limit(200);
+
+    if (error) {
+      console.error('Error fetching expense changes:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch change history' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, changes: changes || [] });
+  } catch (error: any) {
+    console.error('Error in expense changes API:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getAccessibleExpense } from '@/lib/expenseAccess';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { EXPENSE_COMMENT_COLUMNS, MAX_COMMENT_LENGTH, toExpenseComment } from '@/lib/expenseComments';
+
+/** The comment, if it belongs to the expense. */
+async function loadComment(expenseId: string, commentId: string) {
+  const { data } = await supabaseAdmin
+    .from('expense_comments')
+    .select('id, expense_id, source, author_user_id')
+    .eq('id', commentId)
+    .eq('expense_id', expenseId)
+    .maybeSingle();
+  return data;
+}
+
+/**
+ * Update a comment. Body: { body } edits the text (author only, dashboard
+ * comments only); { resolved: boolean } resolves or reopens it (anyone who
+ * can see the expense). Mentions aren't re-sent on edit.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: expenseId, commentId } = await params;
+    const access = await getAccessibleExpense(session.user.email, expenseId);
+    if (!access.ok) {
+      return NextResponse.json({ success: false, error: access.error }, { status: access.status });
+    }
+
+    const comment = await loadComment(expenseId, commentId);
+    if (!comment) {
+      return NextResponse.json({ success: false, error: 'Comment not found' }, { status: 404 });
+    }
+
+    const input = await request.json();
+    const updates: Record<string, unknown> = {};
+
+    if (input.body !== undefined) {
+      if (comment.source !== 'dashboard' || comment.author_user_id !== access.user.id) {
+        return NextResponse.json(
+          { success: false, error: 'Only the author can edit a comment' },
+          { status: 403 }
+        );
+      }
+      const body = typeof input.body === 'string' ? input.body.trim() : '';
+      if (!body) {
+        return NextResponse.json({ success: false, error: 'Comment cannot be empty' }, { status: 400 });
+      }
+      if (body.length > MAX_COMMENT_LENGTH) {
+        return NextResponse.json(
+          { success: false, error: `Comment must be ${MAX_COMMENT_LENGTH} characters or fewer` },
+          { status: 400 }
+        );
+      }
+      updates.body = body;
+      updates.updated_at = new Date().toISOString();
+    }
+
+    if (input.resolved !== undefined) {
+      if (typeof input.resolved !== 'boolean') {
+        return NextResponse.json({ success: false, error: 'resolved must be true or false' }, { status: 400 });
+      }
+      updates.resolved_at = input.resolved ? new Date().toISOString() : null;
+      updates.resolved_by = input.resolved ? (access.user.full_name || access.user.email) : null;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ success: false, error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('expense_comments')
+      .update(updates)
+      .eq('id', commentId)
+      .select(EXPENSE_COMMENT_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update comment: ${error.message}`);
+    }
+
+    await recordAuditEvent({
+      actor: auditActor(access.user),
+      action: 'comment.update',
+      entityType: 'comment',
+      entityId: commentId,
+      summary: updates.body !== undefined
+        ? 'Edited a comment'
+        : `${input.resolved ? 'Resolved' : 'Reopened'} a comment`,
+      details: { expenseId, fields: Object.keys(updates) },
+    });
+
+    return NextResponse.json({ success: true, comment: toExpenseComment(data) });
+  } catch (error: any) {
+    console.error('Error updating expense comment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update comment' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Delete a comment. Allowed for its author and for admins. */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: expenseId, commentId } = await params;
+    const access = await getAccessibleExpense(session.user.email, expenseId);
+    if (!access.ok) {
+      return NextResponse.json({ success: false, error: access.error }, { status: access.status });
+    }
+
+    const comment = await loadComment(expenseId, commentId);
+    if (!comment) {
+      return NextResponse.json({ success: false, error: 'Comment not found' }, { status: 404 });
+    }
+    if (comment.author_user_id !== access.user.id && !access.user.is_admin) {
+      return NextResponse.json(
+        { success: false, error: 'Only the author or an admin can delete a comment' },
+        { status: 403 }
+      );
+    }
+
+    const { error } = await supabaseAdmin
+      .from('expense_comments')
+      .delete()
+      .eq('id', commentId);
+
+    if (error) {
+      throw new Error(`Failed to delete comment: ${error.message}`);
+    }
+
+    await recordAuditEvent({
+      actor: auditActor(access.user),
+      action: 'comment.delete',
+      entityType: 'comment',
+      entityId: commentId,
+      summary: comment.author_user_id === access.user.id ? 'Deleted their comment' : "Deleted another user's comment",
+      details: { expenseId, source: comment.source, authorUserId: comment.author_user_id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting expense comment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete comment' },
+      { status: 500 }
+    );
+  }
+}
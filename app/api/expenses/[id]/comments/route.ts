@@ -0,0 +1,154 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getAccessibleExpense } from '@/lib/expenseAccess';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import {
+  EXPENSE_COMMENT_COLUMNS,
+  MAX_COMMENT_LENGTH,
+  getMentionableUsers,
+  notifyMentionedUsers,
+  resolveMentions,
+  toExpenseComment,
+} from '@/lib/expenseComments';
+
+/**
+ * Comments on one expense, oldest first, with each author's name resolved
+ * from their dashboard user, plus the users who can be mentioned on it and
+ * what the signed-in user may edit or delete.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: expenseId } = await params;
+    const access = await getAccessibleExpense(session.user.email, expenseId);
+    if (!access.ok) {
+      return NextResponse.json({ success: false, error: access.error }, { status: access.status });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('expense_comments')
+      .select(EXPENSE_COMMENT_COLUMNS)
+      .eq('expense_id', expenseId)
+      .order('created_at', { ascending: true })
+      .limit(200);
+
+    if (error) {
+      console.error('Error fetching expense comments:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch comments' },
+        { status: 500 }
+      );
+    }
+
+    const mentionableUsers = await getMentionableUsers(access.expense);
+
+    return NextResponse.json({
+      success: true,
+      comments: (data || []).map(toExpenseComment),
+      mentionableUsers,
+      currentUserId: access.user.id,
+      canDeleteAny: access.user.is_admin,
+    });
+  } catch (error: any) {
+    console.error('Error in expense comments API:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Add a comment as the signed-in user. Body: { body, mentionedUserIds? }.
+ * Mentioned users who can see the expense and appear in the text as
+ * "@Full Name" get a Slack DM with the comment.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: expenseId } = await params;
+    const access = await getAccessibleExpense(
+      session.user.email,
+      expenseId,
+      'id, branch, department, vendor_name, amount, transaction_date'
+    );
+    if (!access.ok) {
+      return NextResponse.json({ success: false, error: access.error }, { status: access.status });
+    }
+
+    const { body: rawBody, mentionedUserIds } = await request.json();
+    const body = typeof rawBody === 'string' ? rawBody.trim() : '';
+    if (!body) {
+      return NextResponse.json({ success: false, error: 'Comment cannot be empty' }, { status: 400 });
+    }
+    if (body.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Comment must be ${MAX_COMMENT_LENGTH} characters or fewer` },
+        { status: 400 }
+      );
+    }
+
+    const requestedIds = Array.isArray(mentionedUserIds)
+      ? mentionedUserIds.filter((id: unknown): id is string => typeof id === 'string')
+      : [];
+    const mentioned = requestedIds.length > 0
+      ? resolveMentions(body, requestedIds, await getMentionableUsers(access.expense))
+      : [];
+
+    const { data, error } = await supabaseAdmin
+      .from('expense_comments')
+      .insert({
+        expense_id: expenseId,
+        source: 'dashboard',
+        author_user_id: access.user.id,
+        body,
+        mentioned_user_ids: mentioned,
+      })
+      .select(EXPENSE_COMMENT_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save comment: ${error.message}`);
+    }
+
+    await recordAuditEvent({
+      actor: auditActor(access.user),
+      action: 'comment.create',
+      entityType: 'comment',
+      entityId: data.id,
+      summary: `Commented on ${access.expense.vendor_name || 'an expense'}${mentioned.length > 0 ? ` mentioning ${mentioned.length} user${mentioned.length === 1 ? '' : 's'}` : ''}`,
+      details: { expenseId, mentionedUserIds: mentioned },
+    });
+
+    const notified = await notifyMentionedUsers({
+      userIds: mentioned.filter(id => id !== access.user.id),
+      authorName: access.user.full_name || access.user.email,
+      expense: access.expense,
+      body,
+    });
+
+    return NextResponse.json({ success: true, comment: toExpenseComment(data), notified });
+  } catch (error: any) {
+    console.error('Error adding expense comment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to add comment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { getAccessibleExpense } from '@/lib/expenseAccess';
+import { applyCorrection, CorrectionValues } from '@/lib/expenseCorrections';
+import { hasCapability } from '@/types/user';
+
+// Resolving ids/values and the update are several NetSuite or Bill.com round trips
+export const maxDuration = 60;
+
+/** Corrections made on one expense, newest first. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: expenseId } = await params;
+    const access = await getAccessibleExpense(session.user.email, expenseId);
+    if (!access.ok) {
+      return NextResponse.json({ success: false, error: access.error }, { status: access.status });
+    }
+
+    const { data: corrections, error } = await supabaseAdmin
+      .from('expense_corrections')
+      .select('*')
+      .eq('expense_id', expenseId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error fetching expense corrections:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch corrections' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, corrections: corrections || [] });
+  } catch (error: any) {
+    console.error('Error in expense corrections API:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Write a corrected branch/department/category to the source transaction:
+ * the NetSuite expense line, or the Bill.com custom fields for credit cards
+ * (optionally marking the transaction reviewed). Needs the flag capability
+ * and the expense in scope. The expense itself isn't touched: the next sync
+ * pulls the corrected values back and confirms the correction.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: expenseId } = await params;
+    const access = await getAccessibleExpense(
+      session.user.email,
+      expenseId,
+      'id, netsuite_id, transaction_type, branch, department, category'
+    );
+    if (!access.ok) {
+      return NextResponse.json({ success: false, error: access.error }, { status: access.status });
+    }
+    if (!hasCapability(access.user, 'flag')) {
+      return NextResponse.json({ success: false, error: 'Forbidden' }, { status: 403 });
+    }
+
+    const expense = access.expense;
+
+    // Only send fields that are set and actually differ from what we show
+    const body = await request.json();
+    const values: CorrectionValues = {};
+    for (const field of ['branch', 'department', 'category'] as const) {
+      const value = typeof body[field] === 'string' ? body[field].trim() : '';
+      if (value && value !== expense[field]) values[field] = value;
+    }
+    if (Object.keys(values).length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No changes to apply' },
+        { status: 400 }
+      );
+    }
+
+    const requestedBy = access.user.full_name || session.user.email;
+    console.log(`Correction for ${expense.netsuite_id} by ${requestedBy}:`, values);
+    const correction = await applyCorrection(expense, values, requestedBy, {
+      markReviewed: body.markReviewed === true,
+    });
+
+    await recordAuditEvent({
+      actor: auditActor(access.user),
+      action: 'expense.correction',
+      entityType: 'expense',
+      entityId: expenseId,
+      summary: `Corrected ${Object.keys(values).join(', ')} on ${expense.netsuite_id}${correction.status === 'failed' ? ' (failed)' : ''}`,
+      details: {
+        from: Object.fromEntries(Object.keys(values).map(field => [field, expense[field]])),
+        to: values,
+        status: correction.status,
+        markReviewed: body.markReviewed === true,
+      },
+    });
+
+    if (correction.status === 'failed') {
+      return NextResponse.json(
+        { success: false, error: correction.error, correction },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ success: true, correction });
+  } catch (error: any) {
+    console.error('Error applying expense correction:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getAccessibleExpense } from '@/lib/expenseAccess';
+
+/**
+ * Slack messages sent about one expense, newest first, with recipient Slack
+ * IDs resolved to names where the user is known.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: expenseId } = await params;
+    const access = await getAccessibleExpense(session.user.email, expenseId);
+    if (!access.ok) {
+      return NextResponse.json({ success: false, error: access.error }, { status: access.status });
+    }
+
+    const { data: notifications, error } = await supabaseAdmin
+      .from('slack_notifications')
+      .select('id, expense_id, kind, sent_by, target, recipient_slack_ids, text, status, error, slack_channel, slack_ts, thread_ts, created_at')
+      .eq('expense_id', expenseId)
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      console.error('Error fetching expense notifications:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch notification history' },
+        { status: 500 }
+      );
+    }
+
+    const slackIds = [...new Set((notifications || []).flatMap(n => n.recipient_slack_ids || []))];
+    const recipientNames: Record<string, string> = {};
+    if (slackIds.length > 0) {
+      const { data: users } = await supabaseAdmin
+        .from('users')
+        .select('slack_id, full_name')
+        .in('slack_id', slackIds);
+      for (const u of users || []) {
+        recipientNames[u.slack_id] = u.full_name;
+      }
+    }
+
+    return NextResponse.json({ success: true, notifications: notifications || [], recipientNames });
+  } catch (error: any) {
+    console.error('Error in expense notifications API:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getAccessibleExpense } from '@/lib/expenseAccess';
+import { createBillClient } from '@/lib/bill';
+
+// Types safe to render from our origin. Anything else (HTML, SVG, ...) could
+// run script as the dashboard, so it is downloaded instead.
+const INLINE_CONTENT_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf'];
+
+/**
+ * Stream one receipt file from Bill.com: images and PDFs inline, anything
+ * else as a download. The download link is looked up from the transaction's
+ * own receipt list rather than taken from the request, so this can't be used
+ * to fetch arbitrary URLs.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; receiptId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: expenseId, receiptId } = await params;
+    const access = await getAccessibleExpense(
+      session.user.email,
+      expenseId,
+      'id, netsuite_id, transaction_type, branch, department'
+    );
+    if (!access.ok) {
+      return NextResponse.json({ success: false, error: access.error }, { status: access.status });
+    }
+
+    const expense = access.expense;
+    if (expense.transaction_type !== 'Credit Card') {
+      return NextResponse.json({ success: false, error: 'Receipt not found' }, { status: 404 });
+    }
+
+    const billClient = createBillClient();
+    const receipts = await billClient.getTransactionReceipts(expense.netsuite_id.replace('BILL-', ''));
+    const receipt = receipts.find(r => r.id === receiptId);
+    if (!receipt) {
+      return NextResponse.json({ success: false, error: 'Receipt not found' }, { status: 404 });
+    }
+
+    const file = await billClient.fetchReceiptFile(receipt.url);
+    const sourceType = (file.headers.get('content-type') || receipt.contentType || '').split(';')[0].trim().toLowerCase();
+    const inline = INLINE_CONTENT_TYPES.includes(sourceType);
+    const fileName = (receipt.fileName || `receipt-${receipt.id}`).replace(/["\\\r\n]/g, '');
+
+    return new Response(file.body, {
+      headers: {
+        'Content-Type': inline ? sourceType : 'application/octet-stream',
+        'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename="${fileName}"`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error: any) {
+    console.error('Error proxying receipt:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to load receipt' },
+      { status: 502 }
+    );
+  }
+}
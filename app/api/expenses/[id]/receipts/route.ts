@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getAccessibleExpense } from '@/lib/expenseAccess';
+import { createBillClient } from '@/lib/bill';
+
+/**
+ * Receipts attached to a credit-card expense in Bill.com. File URLs are not
+ * returned; the client loads each file through the [receiptId] proxy route.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: expenseId } = await params;
+    const access = await getAccessibleExpense(
+      session.user.email,
+      expenseId,
+      'id, netsuite_id, transaction_type, receipt_status, branch, department'
+    );
+    if (!access.ok) {
+      return NextResponse.json({ success: false, error: access.error }, { status: access.status });
+    }
+
+    const expense = access.expense;
+    if (expense.transaction_type !== 'Credit Card') {
+      return NextResponse.json(
+        { success: false, error: 'Receipts are only available for credit card transactions' },
+        { status: 400 }
+      );
+    }
+
+    const billClient = createBillClient();
+    const receipts = await billClient.getTransactionReceipts(expense.netsuite_id.replace('BILL-', ''));
+
+    return NextResponse.json({
+      success: true,
+      receiptStatus: expense.receipt_status,
+      receipts: receipts.map(r => ({
+        id: r.id,
+        fileName: r.fileName || null,
+        contentType: r.contentType || null,
+        createdTime: r.createdTime || null,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Error fetching receipts:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch receipts' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getExpenseAggregates, parseExpenseFilters, resolveQueryUser } from '@/lib/expenseQueries';
+
+/**
+ * KPI totals and breakdowns for the dashboard filters, computed in Postgres.
+ * Takes the same filter and viewAs parameters as GET /api/expenses.
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = new URL(request.url).searchParams;
+    const queryUser = await resolveQueryUser(session.user.email, params.get('viewAs'));
+    if (!queryUser.ok) {
+      return NextResponse.json({ success: false, error: queryUser.error }, { status: queryUser.status });
+    }
+
+    const aggregates = await getExpenseAggregates(queryUser.client, queryUser.userId, parseExpenseFilters(params));
+
+    return NextResponse.json({ success: true, aggregates });
+
+  } catch (error: any) {
+    console.error('Error aggregating expenses:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to aggregate expenses' },
+      { status: 500 }
+    );
+  }
+}
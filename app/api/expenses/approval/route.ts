@@ -1,13 +1,9 @@
 // app/api/expenses/approval/route.ts
 import { NextResponse } from 'next/server';
-import { supabaseAdmin } from '@/lib/supabase';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { getCurrentUserWithPermissions } from '@/lib/currentUser';
-import { hasAccessToExpense } from '@/lib/permissions';
-import { Expense } from '@/types/expense';
-
-const VALID_APPROVAL_STATUSES = ['approved', 'rejected', null];
+import { setApprovalStatus, VALID_APPROVAL_STATUSES } from '@/lib/approvals';
 
 export async function PATCH(request: Request) {
   try {
@@ -47,54 +43,18 @@ export async function PATCH(request: Request) {
       );
     }
 
-    // Load the target expense and verify the user is allowed to act on it
-    const { data: expense, error: fetchError } = await supabaseAdmin
-      .from('expenses')
-      .select('id, branch, department')
-      .eq('id', expenseId)
-      .single();
-
-    if (fetchError || !expense) {
-      return NextResponse.json(
-        { success: false, error: 'Expense not found' },
-        { status: 404 }
-      );
-    }
-
-    if (!hasAccessToExpense(user, expense as Expense)) {
-      return NextResponse.json(
-        { success: false, error: 'Forbidden' },
-        { status: 403 }
-      );
-    }
-
-    const username = user.full_name || user.email;
-
-    // Update the expense with new approval status and tracking info
-    const updateData = {
-      approval_status: approvalStatus,
-      approval_modified_by: username,
-      approval_modified_at: new Date().toISOString(),
-    };
-
-    const { data, error } = await supabaseAdmin
-      .from('expenses')
-      .update(updateData)
-      .eq('id', expenseId)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error updating approval:', error);
+    // Same update (access check, tracking fields, history) as the Slack buttons
+    const result = await setApprovalStatus(user, expenseId, approvalStatus);
+    if (!result.ok) {
       return NextResponse.json(
-        { success: false, error: 'Failed to update approval' },
-        { status: 500 }
+        { success: false, error: result.error },
+        { status: result.status }
       );
     }
 
     return NextResponse.json({
       success: true,
-      data: data,
+      data: result.expense,
     });
   } catch (error: any) {
     console.error('Error in approval API:', error);
@@ -2,8 +2,11 @@ import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { getCurrentUserWithPermissions } from '@/lib/currentUser';
+import { getAccessibleExpense } from '@/lib/expenseAccess';
 import { FLAG_CATEGORIES } from '@/types/expense';
+import { recordExpenseChanges } from '@/lib/expenseChanges';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { hasCapability } from '@/types/user';
 
 export async function PATCH(request: Request) {
   try {
@@ -12,12 +15,6 @@ export async function PATCH(request: Request) {
       return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Flagging is an admin-only action (the flag column is admin-only in the UI).
-    const user = await getCurrentUserWithPermissions(session.user.email);
-    if (!user || !user.is_active || !user.is_admin) {
-      return NextResponse.json({ success: false, error: 'Forbidden' }, { status: 403 });
-    }
-
     const body = await request.json();
     const { expenseId, flagCategory } = body;
 
@@ -37,10 +34,28 @@ export async function PATCH(request: Request) {
       );
     }
 
-    const updateData = {
+    // Read the current flag (so the change history has the old value) as the
+    // user, so an expense outside their scope is not found
+    const access = await getAccessibleExpense(session.user.email, expenseId, 'id, flag_category, vendor_name');
+    if (!access.ok) {
+      return NextResponse.json({ success: false, error: access.error }, { status: access.status });
+    }
+    const { user, expense: before } = access;
+
+    // Flagging needs the flag capability (the flag column is hidden without it).
+    if (!hasCapability(user, 'flag')) {
+      return NextResponse.json({ success: false, error: 'Forbidden' }, { status: 403 });
+    }
+
+    const updateData: Record<string, any> = {
       flag_category: normalizedFlag,
       updated_at: new Date().toISOString(),
     };
+    // A new flag is a new problem; let the escalation cycle start over
+    if (before.flag_category !== normalizedFlag) {
+      updateData.escalated_at = null;
+      updateData.escalated_to = null;
+    }
 
     const { data, error } = await supabaseAdmin
       .from('expenses')
@@ -57,6 +72,28 @@ export async function PATCH(request: Request) {
       );
     }
 
+    if (before.flag_category !== normalizedFlag) {
+      await recordExpenseChanges([{
+        expense_id: expenseId,
+        field: 'flag_category',
+        old_value: before.flag_category,
+        new_value: normalizedFlag,
+        source: 'flag',
+        changed_by: user.full_name || user.email,
+      }]);
+
+      await recordAuditEvent({
+        actor: auditActor(user),
+        action: 'expense.flag',
+        entityType: 'expense',
+        entityId: expenseId,
+        summary: normalizedFlag
+          ? `Flagged ${before.vendor_name || 'expense'} as ${normalizedFlag}`
+          : `Cleared the flag on ${before.vendor_name || 'expense'}`,
+        details: { from: before.flag_category, to: normalizedFlag },
+      });
+    }
+
     return NextResponse.json({
       success: true,
       data,
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getExpenseFilterOptions, resolveQueryUser } from '@/lib/expenseQueries';
+
+/**
+ * Filter dropdown values in a user's scope. The page renders with the
+ * signed-in user's; this is for admins switching View As (viewAs).
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = new URL(request.url).searchParams;
+    const queryUser = await resolveQueryUser(session.user.email, params.get('viewAs'));
+    if (!queryUser.ok) {
+      return NextResponse.json({ success: false, error: queryUser.error }, { status: queryUser.status });
+    }
+
+    const options = await getExpenseFilterOptions(queryUser.client, queryUser.userId);
+
+    return NextResponse.json({ success: true, options });
+
+  } catch (error: any) {
+    console.error('Error loading filter options:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load filter options' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  getExpensePage,
+  MAX_PAGE_SIZE,
+  parseExpenseFilters,
+  parseSortField,
+  resolveQueryUser,
+} from '@/lib/expenseQueries';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * A page of the dashboard table. Query: the dashboard filters (array filters
+ * comma-separated), sort, direction (asc|desc), limit, cursor (nextCursor of
+ * the previous page) and, for admins, viewAs.
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = new URL(request.url).searchParams;
+    const queryUser = await resolveQueryUser(session.user.email, params.get('viewAs'));
+    if (!queryUser.ok) {
+      return NextResponse.json({ success: false, error: queryUser.error }, { status: queryUser.status });
+    }
+
+    const cursor = params.get('cursor');
+    if (cursor && !UUID_PATTERN.test(cursor)) {
+      return NextResponse.json({ success: false, error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    const limit = Math.min(Math.max(Number(params.get('limit')) || 100, 1), MAX_PAGE_SIZE);
+    const page = await getExpensePage(queryUser.client, queryUser.userId, parseExpenseFilters(params), {
+      sort: parseSortField(params.get('sort')),
+      descending: params.get('direction') !== 'asc',
+      cursor,
+      limit,
+    });
+
+    return NextResponse.json({ success: true, ...page });
+
+  } catch (error: any) {
+    console.error('Error fetching expenses:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch expenses' },
+      { status: 500 }
+    );
+  }
+}
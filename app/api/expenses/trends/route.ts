@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getExpenseTrends, resolveQueryUser } from '@/lib/expenseQueries';
+import { TrendsDimension } from '@/types/expenseQuery';
+
+const DIMENSIONS: TrendsDimension[] = ['department', 'purchaser', 'vendor', 'category'];
+
+/**
+ * Monthly totals for the Trends tab. Query: dateFrom, dateTo (YYYY-MM-DD,
+ * either may be empty), dimension, and for admins viewAs.
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = new URL(request.url).searchParams;
+    const queryUser = await resolveQueryUser(session.user.email, params.get('viewAs'));
+    if (!queryUser.ok) {
+      return NextResponse.json({ success: false, error: queryUser.error }, { status: queryUser.status });
+    }
+
+    const dimension = params.get('dimension') as TrendsDimension;
+    const rows = await getExpenseTrends(queryUser.client, queryUser.userId, {
+      dateFrom: params.get('dateFrom') || '',
+      dateTo: params.get('dateTo') || '',
+      dimension: DIMENSIONS.includes(dimension) ? dimension : 'department',
+    });
+
+    return NextResponse.json({ success: true, rows });
+
+  } catch (error: any) {
+    console.error('Error fetching expense trends:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch expense trends' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { hasCapability } from '@/types/user';
+
+/**
+ * Record an admin starting or ending "View As". Masquerading itself happens in
+ * the browser (the admin already has every expense), so this route only
+ * writes the audit trail. Body: { userId } to start, { userId: null } to end,
+ * with the user being left as `previousUserId`.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'masquerade')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { userId, previousUserId } = await request.json();
+    const subjectId = userId || previousUserId;
+    if (typeof subjectId !== 'string' || !subjectId) {
+      return NextResponse.json({ success: false, error: 'userId or previousUserId is required' }, { status: 400 });
+    }
+
+    const { data: subject } = await supabaseAdmin
+      .from('users')
+      .select('email, full_name')
+      .eq('id', subjectId)
+      .maybeSingle();
+    const subjectLabel = subject ? `${subject.full_name} (${subject.email})` : subjectId;
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: userId ? 'masquerade.start' : 'masquerade.end',
+      entityType: 'user',
+      entityId: subjectId,
+      summary: userId ? `Started viewing as ${subjectLabel}` : `Stopped viewing as ${subjectLabel}`,
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: any) {
+    console.error('Error recording masquerade:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to record masquerade' },
+      { status: 500 }
+    );
+  }
+}
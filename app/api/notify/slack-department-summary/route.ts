@@ -1,13 +1,10 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
 import { supabaseAdmin } from '@/lib/supabase';
-import { DEPARTMENT_SLACK_CHANNELS } from '@/lib/slackChannels';
-import { formatCurrency } from '@/lib/format';
-import { postSlackMessage } from '@/lib/slack';
-
-// Vendors to exclude from Slack notifications (kept in DB but hidden from dashboard)
-const EXCLUDED_VENDORS = ['Blue Cross - Portal'];
+import { departmentSummaryLabel, sendDepartmentSummary } from '@/lib/departmentSummary';
+import { hasCapability } from '@/types/user';
 
 interface DepartmentSummaryRequest {
   branch: string;
@@ -47,14 +44,14 @@ export async function POST(request: Request) {
 
     console.log('Authenticated user:', session.user.email);
 
-    // Authorization: same gate the UI uses (admin or can_send_slack). Any
+    // Authorization: same gate the UI uses (the notify capability). Any
     // domain login auto-provisions an account, so a session alone isn't enough.
     const { data: authUser } = await supabaseAdmin
       .from('users')
-      .select('is_admin, can_send_slack, is_active')
+      .select('role, can_send_slack, is_active')
       .eq('email', session.user.email.toLowerCase())
       .single();
-    if (!authUser || !authUser.is_active || (!authUser.is_admin && !authUser.can_send_slack)) {
+    if (!authUser || !authUser.is_active || !hasCapability(authUser, 'notify')) {
       console.log('Forbidden: user lacks Slack notification permission');
       return NextResponse.json(
         { success: false, error: 'Forbidden - Slack notification permission required' },
@@ -82,8 +79,8 @@ export async function POST(request: Request) {
       dashboardUrl,
     } = body;
     // Note: client-supplied totals are intentionally ignored. The unapproved
-    // count/amount are computed server-side below from the same query that
-    // builds the thread reply, so the header and the listed items can't diverge.
+    // count/amount are computed server-side by sendDepartmentSummary from the
+    // same query that builds the thread reply, so the header and the listed items can't diverge.
 
     // Validate required fields
     if (!branch || !department || !month) {
@@ -93,299 +90,30 @@ export async function POST(request: Request) {
       }, { status: 400 });
     }
 
-    // Find the Slack channel for this branch/department combination
-    const branchChannels = DEPARTMENT_SLACK_CHANNELS[branch];
-    if (!branchChannels) {
-      console.log('No Slack channels configured for branch:', branch);
-      return NextResponse.json({
-        success: false,
-        error: `No Slack channels configured for branch: ${branch}`,
-        suggestion: 'This branch/department combination needs to be added to the channel mapping.',
-      }, { status: 404 });
-    }
-
-    // Try to find the department channel (handle variations like "Maintenance" vs "Maintenance : Maintenance")
-    let channelId = branchChannels[department];
-    
-    // If not found directly, try to find a partial match
-    if (!channelId) {
-      const departmentKeys = Object.keys(branchChannels);
-      
-      // Special handling for Maintenance variations - normalize and match
-      const normalizedDept = department.toLowerCase().replace(/\s*:\s*/g, ' ').trim();
-      const isMaintenanceVariant = normalizedDept.includes('maintenance');
-      
-      if (isMaintenanceVariant) {
-        // Find any maintenance key in the branch channels
-        const maintenanceKey = departmentKeys.find(key => 
-          key.toLowerCase().includes('maintenance')
-        );
-        if (maintenanceKey) {
-          channelId = branchChannels[maintenanceKey];
-        }
-      } else {
-        // For non-maintenance, try standard partial matching
-        const matchingKey = departmentKeys.find(key => 
-          department.includes(key) || key.includes(department)
-        );
-        if (matchingKey) {
-          channelId = branchChannels[matchingKey];
-        }
-      }
-    }
-
-    if (!channelId) {
-      console.log('No Slack channel configured for department:', department, 'in branch:', branch);
+    const result = await sendDepartmentSummary({ branch, department, month, dashboardUrl });
+    if (!result.ok) {
       return NextResponse.json({
         success: false,
-        error: `No Slack channel configured for ${department} in ${branch}`,
-        suggestion: 'This department needs to be added to the channel mapping.',
-      }, { status: 404 });
-    }
-
-    console.log('Found Slack channel:', channelId, 'for', branch, '/', department);
-
-    // Format the month for display - parse manually to avoid timezone issues
-    const [year, monthNum] = month.split('-');
-    const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 
-                        'July', 'August', 'September', 'October', 'November', 'December'];
-    const monthDisplay = `${monthNames[parseInt(monthNum, 10) - 1]} ${year}`;
-
-    // Clean department name for display
-    const cleanDepartmentName = (dept: string) => {
-      if (dept.startsWith('Maintenance : Maintenance')) {
-        return dept.replace('Maintenance : ', '');
-      }
-      return dept;
-    };
-
-    // Get department emoji based on department name
-    const getDepartmentEmoji = (dept: string): string => {
-      const lower = dept.toLowerCase();
-      if (lower.includes('arbor')) return ':palm_tree:';
-      if (lower.includes('enhancement')) return ':enh:';
-      if (lower.includes('maintenance')) return ':agave:';
-      if (lower.includes('irrigation')) return ':droplet:';
-      if (lower.includes('spray') || lower.includes('phc')) return ':pesticide:';
-      if (lower.includes('safety')) return ':safety_vest:';
-      if (lower.includes('fleet') || lower.includes('equipment')) return ':truck:';
-      if (lower.includes('office') || lower.includes('operations')) return ':office:';
-      return ':clipboard:'; // Default
-    };
-
-    // Get month emoji (e.g., :jan:, :feb:, :dec:)
-    const monthAbbreviations = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 
-                                 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
-    const monthEmoji = `:${monthAbbreviations[parseInt(monthNum, 10) - 1]}:`;
-    const deptEmoji = getDepartmentEmoji(department);
-
-    // Load the unapproved transactions for this branch/department/month ONCE. Both
-    // the header figures and the thread reply are derived from this list so they
-    // always agree.
-    const monthStart = `${month}-01`;
-    const [rangeY, rangeM] = month.split('-').map(Number);
-    const nextMonth = rangeM === 12
-      ? `${rangeY + 1}-01-01`
-      : `${rangeY}-${String(rangeM + 1).padStart(2, '0')}-01`;
-
-    const { data: unapprovedRows, error: unapprovedError } = await supabaseAdmin
-      .from('expenses')
-      .select('vendor_name, amount, transaction_date, cardholder, memo, flag_category')
-      .eq('branch', branch)
-      .ilike('department', `%${department.replace(/ : /g, '%')}%`)
-      .gte('transaction_date', monthStart)
-      .lt('transaction_date', nextMonth)
-      .or('approval_status.neq.approved,approval_status.is.null')
-      .order('transaction_date', { ascending: false });
-
-    if (unapprovedError) {
-      console.error('Failed to load unapproved transactions:', unapprovedError.message);
-      return NextResponse.json(
-        { success: false, error: 'Failed to load transactions' },
-        { status: 500 }
-      );
-    }
-
-    // Exclude hidden vendors in JS. A PostgREST `.neq` filter would also drop rows
-    // with a null vendor_name (neq evaluates to null for nulls), silently hiding
-    // legitimate unapproved bills.
-    const unapprovedExpenses = (unapprovedRows || []).filter(
-      e => !e.vendor_name || !EXCLUDED_VENDORS.includes(e.vendor_name)
-    );
-    const unapprovedCount = unapprovedExpenses.length;
-    const unapprovedAmount = unapprovedExpenses.reduce(
-      (sum, e) => sum + (parseFloat(e.amount) || 0),
-      0
-    );
-
-    // Build blocks for the Slack message
-    const blocks: any[] = [
-      {
-        type: 'header',
-        text: {
-          type: 'plain_text',
-          text: `${branch} - ${cleanDepartmentName(department)}`,
-          emoji: true,
-        },
-      },
-      {
-        type: 'section',
-        text: {
-          type: 'mrkdwn',
-          text: `${deptEmoji} ${cleanDepartmentName(department)}  |  ${monthEmoji} ${monthDisplay}`,
-        },
-      },
-    ];
-
-    if (unapprovedCount > 0) {
-      blocks.push(
-        {
-          type: 'section',
-          fields: [
-            {
-              type: 'mrkdwn',
-              text: `*⚠️ Unapproved*\n*${formatCurrency(unapprovedAmount)}*`,
-            },
-            {
-              type: 'mrkdwn',
-              text: `*Pending Review*\n*${unapprovedCount}* transactions`,
-            },
-          ],
-        }
-      );
-    } else {
-      blocks.push(
-        {
-          type: 'section',
-          text: {
-            type: 'mrkdwn',
-            text: '✅ All transactions approved!',
-          },
-        }
-      );
-    }
-
-    // Add dashboard link if provided
-    if (dashboardUrl) {
-      blocks.push(
-        {
-          type: 'divider',
-        },
-        {
-          type: 'section',
-          text: {
-            type: 'mrkdwn',
-            text: `<${dashboardUrl}|View in Expense Dashboard →>`,
-          },
-        }
-      );
-    }
-
-    // Check for Slack token
-    const slackToken = process.env.SLACK_API_TOKEN;
-    if (!slackToken) {
-      console.error('SLACK_API_TOKEN not configured');
-      return NextResponse.json({
-        success: false,
-        error: 'Slack API token not configured on server',
-      }, { status: 500 });
-    }
-
-    // Build Slack message
-    const message = {
-      channel: channelId,
-      text: `${branch} - ${cleanDepartmentName(department)} (${monthDisplay}): ${unapprovedCount > 0 ? `${unapprovedCount} unapproved (${formatCurrency(unapprovedAmount)})` : 'All approved!'}`,
-      blocks: blocks,
-      unfurl_links: false,
-      unfurl_media: false,
-    };
-
-    console.log('Sending message to Slack channel:', channelId);
-
-    // Send to Slack (retries once on 429)
-    let slackResponse;
-    try {
-      slackResponse = await postSlackMessage(slackToken, message);
-
-      console.log('Slack API response status:', slackResponse.status);
-    } catch (fetchError: any) {
-      console.error('Fetch error:', fetchError);
-      return NextResponse.json({
-        success: false,
-        error: `Failed to connect to Slack: ${fetchError.message}`,
-      }, { status: 500 });
-    }
-
-    // Parse Slack response
-    let slackData;
-    try {
-      const responseText = await slackResponse.text();
-      console.log('Slack response length:', responseText.length);
-      
-      if (!responseText || responseText.trim() === '') {
-        throw new Error('Empty response from Slack');
-      }
-
-      slackData = JSON.parse(responseText);
-      console.log('Slack response parsed. OK:', slackData.ok);
-    } catch (parseError: any) {
-      console.error('Failed to parse Slack response:', parseError);
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid response from Slack API',
-      }, { status: 500 });
-    }
-
-    if (!slackData.ok) {
-      console.error('Slack API error:', slackData.error);
-      return NextResponse.json({
-        success: false,
-        error: `Slack API error: ${slackData.error}`,
-        slackError: slackData.error,
-      }, { status: 500 });
+        error: result.error,
+        ...(result.suggestion && { suggestion: result.suggestion }),
+      }, { status: result.status });
     }
 
     console.log('=== Slack department summary sent successfully ===');
-    console.log('Message ID:', slackData.ts);
-
-    // Post a thread reply listing all unapproved transactions (reusing the list
-    // already fetched above so it matches the header count exactly).
-    if (unapprovedCount > 0) {
-      try {
-        if (unapprovedExpenses.length > 0) {
-          const lines = unapprovedExpenses.map(e => {
-            const date = e.transaction_date?.substring(0, 10) || 'N/A';
-            const amt = formatCurrency(parseFloat(e.amount) || 0);
-            const vendor = e.vendor_name || 'Unknown';
-            const purchaser = e.cardholder || 'Vendor Bill';
-            const detail = e.memo && e.memo !== e.vendor_name ? `  |  _${e.memo}_` : '';
-            const flag = e.flag_category ? ` · _${e.flag_category}_` : '';
-            return `• ${date}  |  ${vendor}  |  ${amt}  |  ${purchaser}${detail}${flag}`;
-          });
-
-          const threadText = `📋 *Unapproved transactions* (${unapprovedExpenses.length}):\n\n${lines.join('\n')}`;
 
-          await postSlackMessage(slackToken, {
-            channel: channelId,
-            thread_ts: slackData.ts,
-            text: threadText,
-            unfurl_links: false,
-            unfurl_media: false,
-          });
-
-          console.log(`Posted thread reply with ${unapprovedExpenses.length} unapproved transactions`);
-        }
-      } catch (threadError) {
-        // Don't fail the whole request if the thread reply fails
-        console.error('Failed to post thread reply:', threadError);
-      }
-    }
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'slack.department_summary',
+      entityType: 'expense',
+      summary: `Sent the ${month} summary for ${departmentSummaryLabel(branch, department)}`,
+      details: { branch, department, month, channel: result.channelId, ts: result.slackTs },
+    });
 
     return NextResponse.json({
       success: true,
-      message: `Summary sent to ${branch} - ${cleanDepartmentName(department)} channel`,
-      slackMessageId: slackData.ts,
-      slackChannel: slackData.channel,
+      message: `Summary sent to ${departmentSummaryLabel(branch, department)} channel`,
+      slackMessageId: result.slackTs,
+      slackChannel: result.channelId,
     });
 
   } catch (error: any) {
@@ -3,7 +3,11 @@ import { supabaseAdmin } from '@/lib/supabase';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { formatCurrency, ordinal } from '@/lib/format';
-import { postSlackMessage } from '@/lib/slack';
+import { buildExpenseActionsBlock } from '@/lib/slack';
+import { sendExpenseNotification } from '@/lib/slackNotifications';
+import { findPurchaserUser, PurchaserUser } from '@/lib/purchasers';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { hasCapability } from '@/types/user';
 
 interface SlackNotificationRequest {
   expenseId: string;
@@ -52,14 +56,14 @@ export async function POST(request: Request) {
 
     console.log('Authenticated user:', session.user.email);
 
-    // Authorization: same gate the UI uses (admin or can_send_slack). Any
+    // Authorization: same gate the UI uses (the notify capability). Any
     // domain login auto-provisions an account, so a session alone isn't enough.
     const { data: authUser } = await supabaseAdmin
       .from('users')
-      .select('is_admin, can_send_slack, is_active')
+      .select('full_name, role, can_send_slack, is_active')
       .eq('email', session.user.email.toLowerCase())
       .single();
-    if (!authUser || !authUser.is_active || (!authUser.is_admin && !authUser.can_send_slack)) {
+    if (!authUser || !authUser.is_active || !hasCapability(authUser, 'notify')) {
       console.log('Forbidden: user lacks Slack notification permission');
       return NextResponse.json(
         { success: false, error: 'Forbidden - Slack notification permission required' },
@@ -110,79 +114,22 @@ export async function POST(request: Request) {
     } = body;
 
     // Find user by name (cardholder) - skip for channel sends and vendor bills with no purchaser
-    let targetUser: { id: string; full_name: string; email: string; slack_id: string; slack_display_name: string | null } | null = null;
+    let targetUser: PurchaserUser | null = null;
 
     if (purchaserName && !channelOverride) {
       console.log('Searching for user:', purchaserName);
 
-      let users;
-      try {
-        // Try exact match first
-        let result = await supabaseAdmin
-          .from('users')
-          .select('id, full_name, email, slack_id, slack_display_name')
-          .ilike('full_name', purchaserName);
-
-        if (result.error) {
-          throw new Error(`Database error: ${result.error.message}`);
-        }
-
-        users = result.data;
-
-        // Fallback: if no exact match, try starts-with match
-        // (handles "Keylon Ross" matching "Keylon Ross Sr" / "Jr" etc.)
-        if ((!users || users.length === 0) && purchaserName.trim()) {
-          console.log('No exact match, trying starts-with for:', purchaserName);
-          result = await supabaseAdmin
-            .from('users')
-            .select('id, full_name, email, slack_id, slack_display_name')
-            .ilike('full_name', `${purchaserName}%`);
-
-          if (result.error) {
-            throw new Error(`Database error: ${result.error.message}`);
-          }
-          users = result.data;
-        }
-
-        console.log('Users found:', users?.length || 0);
-      } catch (dbError: any) {
-        console.error('Database error:', dbError);
-        return NextResponse.json({
-          success: false,
-          error: `Failed to find user: ${dbError.message}`,
-        }, { status: 500 });
-      }
-
-      if (!users || users.length === 0) {
-        console.log('No user found with name:', purchaserName);
-        return NextResponse.json({
-          success: false,
-          error: `No user found with name: ${purchaserName}`,
-          suggestion: 'User may need to be created first. Try the "Auto-Create Users" button in Admin.',
-        }, { status: 404 });
-      }
-
-      if (users.length > 1) {
-        const matchedNames = users.map(u => u.full_name).join(', ');
-        console.log('Ambiguous purchaser match:', matchedNames);
+      const lookup = await findPurchaserUser(purchaserName);
+      if (!lookup.ok) {
         return NextResponse.json({
           success: false,
-          error: `Multiple users match "${purchaserName}": ${matchedNames}. Please disambiguate.`,
-        }, { status: 400 });
+          error: lookup.error,
+          ...(lookup.suggestion && { suggestion: lookup.suggestion }),
+        }, { status: lookup.status });
       }
 
-      targetUser = users[0];
+      targetUser = lookup.user;
       console.log('Target user:', targetUser.email, 'Slack ID:', targetUser.slack_id);
-
-      // Check if user has Slack ID
-      if (!targetUser.slack_id) {
-        console.log('User has no Slack ID');
-        return NextResponse.json({
-          success: false,
-          error: `User ${purchaserName} doesn't have a Slack ID`,
-          suggestion: 'Run "Sync Slack Users" in Admin to link their Slack account.',
-        }, { status: 400 });
-      }
     } else if (!channelOverride) {
       // No purchaser (vendor bill) and no channel override - must have additional recipients
       if (!additionalSlackIds || additionalSlackIds.length === 0) {
@@ -383,6 +330,11 @@ export async function POST(request: Request) {
       }
     }
 
+    // Approve / Reject / Request correction, handled by /api/slack/interactions
+    if (expenseId) {
+      blocks.push(buildExpenseActionsBlock(expenseId));
+    }
+
     // Check for Slack token
     const slackToken = process.env.SLACK_API_TOKEN;
     if (!slackToken) {
@@ -461,62 +413,38 @@ export async function POST(request: Request) {
       }, { status: 400 });
     }
 
-    // Build Slack message
-    const message = {
-      channel: channelId,
-      text: greetingText,
-      blocks: blocks,
-      unfurl_links: false,
-      unfurl_media: false,
-    };
+    const sentBy = authUser.full_name || session.user.email;
+    const recipientSlackIds = channelOverride
+      ? []
+      : [...(targetUser ? [targetUser.slack_id] : []), ...(additionalSlackIds || [])];
 
     console.log('Sending message to Slack...');
 
-    // Send to Slack (retries once on 429)
-    let slackResponse;
-    try {
-      slackResponse = await postSlackMessage(slackToken, message);
-
-      console.log('Slack API response status:', slackResponse.status);
-    } catch (fetchError: any) {
-      console.error('Fetch error:', fetchError);
-      return NextResponse.json({
-        success: false,
-        error: `Failed to connect to Slack: ${fetchError.message}`,
-      }, { status: 500 });
-    }
-
-    // Parse Slack response
-    let slackData;
-    try {
-      const responseText = await slackResponse.text();
-      console.log('Slack response length:', responseText.length);
-      
-      if (!responseText || responseText.trim() === '') {
-        throw new Error('Empty response from Slack');
-      }
-
-      slackData = JSON.parse(responseText);
-      console.log('Slack response parsed. OK:', slackData.ok);
-    } catch (parseError: any) {
-      console.error('Failed to parse Slack response:', parseError);
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid response from Slack API',
-      }, { status: 500 });
-    }
+    // Send to Slack (retries once on 429) and log it. Follow-ups thread onto
+    // the first notice sent to the same recipients.
+    const sendResult = await sendExpenseNotification({
+      slackToken,
+      expenseId,
+      kind: 'correction',
+      sentBy,
+      target: channelId,
+      recipientSlackIds,
+      text: greetingText,
+      blocks,
+      threadFollowUp: currentNotificationCount > 0,
+    });
 
-    if (!slackData.ok) {
-      console.error('Slack API error:', slackData.error);
+    if (!sendResult.ok) {
+      console.error('Slack send failed:', sendResult.error);
       return NextResponse.json({
         success: false,
-        error: `Slack API error: ${slackData.error}`,
-        slackError: slackData.error,
+        error: sendResult.error,
+        ...(sendResult.slackError && { slackError: sendResult.slackError }),
       }, { status: 500 });
     }
 
     console.log('=== Slack notification sent successfully ===');
-    console.log('Message ID:', slackData.ts);
+    console.log('Message ID:', sendResult.ts, sendResult.threaded ? '(threaded)' : '');
 
     // When sending to a channel override, additional recipients still get a DM copy
     if (channelOverride && additionalSlackIds && additionalSlackIds.length > 0) {
@@ -539,14 +467,20 @@ export async function POST(request: Request) {
         if (!conversationData.ok) {
           console.error('Failed to open DM conversation for additional recipients:', conversationData.error);
         } else {
-          const dmResponse = await postSlackMessage(slackToken, {
-            ...message,
-            channel: conversationData.channel.id,
+          const dmResult = await sendExpenseNotification({
+            slackToken,
+            expenseId,
+            kind: 'correction',
+            sentBy,
+            target: conversationData.channel.id,
+            recipientSlackIds: additionalSlackIds,
+            text: greetingText,
+            blocks,
+            threadFollowUp: currentNotificationCount > 0,
           });
-          const dmData = await dmResponse.json();
 
-          if (!dmData.ok) {
-            console.error('Failed to send DM copy to additional recipients:', dmData.error);
+          if (!dmResult.ok) {
+            console.error('Failed to send DM copy to additional recipients:', dmResult.error);
           } else {
             console.log('DM copy sent to additional recipients');
 
@@ -592,11 +526,20 @@ export async function POST(request: Request) {
         .eq('id', expenseId);
     }
 
+    await recordAuditEvent({
+      actor: auditActor({ email: session.user.email, full_name: authUser.full_name }),
+      action: 'slack.notify',
+      entityType: 'expense',
+      entityId: expenseId,
+      summary: `Sent a correction notice about ${vendor || 'an expense'} to ${recipientNames}`,
+      details: { purchaser: purchaserName, channel: sendResult.channel, ts: sendResult.ts, notification: currentNotificationCount + 1 },
+    });
+
     return NextResponse.json({
       success: true,
       message: `Notification sent to ${recipientNames}`,
-      slackMessageId: slackData.ts,
-      slackChannel: slackData.channel,
+      slackMessageId: sendResult.ts,
+      slackChannel: sendResult.channel,
     });
 
   } catch (error: any) {
@@ -0,0 +1,150 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { lookupSlackChannel } from '@/lib/slackChannels';
+import { hasCapability } from '@/types/user';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { id: routeId } = await params;
+    const body = await request.json();
+    const { branch, department_pattern, channel, priority, is_active } = body;
+
+    const updateData: any = { updated_at: new Date().toISOString() };
+    if (branch !== undefined) {
+      const value = typeof branch === 'string' ? branch.trim() : '';
+      if (!value) {
+        return NextResponse.json({ success: false, error: 'Branch is required' }, { status: 400 });
+      }
+      updateData.branch = value;
+    }
+    if (department_pattern !== undefined) {
+      const value = typeof department_pattern === 'string' ? department_pattern.trim() : '';
+      if (!value) {
+        return NextResponse.json({ success: false, error: 'Department pattern is required' }, { status: 400 });
+      }
+      updateData.department_pattern = value;
+    }
+    if (channel !== undefined) {
+      const slackChannel = typeof channel === 'string' && channel.trim() ? await lookupSlackChannel(channel) : null;
+      if (!slackChannel) {
+        return NextResponse.json(
+          { success: false, error: `Slack channel "${channel}" not found. Private channels need the app invited first.` },
+          { status: 400 }
+        );
+      }
+      updateData.channel_id = slackChannel.channelId;
+      updateData.channel_name = slackChannel.name;
+    }
+    if (priority !== undefined) {
+      if (!Number.isInteger(priority)) {
+        return NextResponse.json({ success: false, error: 'Priority must be a whole number' }, { status: 400 });
+      }
+      updateData.priority = priority;
+    }
+    if (is_active !== undefined) updateData.is_active = !!is_active;
+
+    const { data: route, error } = await supabaseAdmin
+      .from('slack_channel_routes')
+      .update(updateData)
+      .eq('id', routeId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { success: false, error: 'That branch already has a route for this department pattern' },
+          { status: 409 }
+        );
+      }
+      throw new Error(`Failed to update Slack channel route: ${error.message}`);
+    }
+
+    console.log(`Slack channel route ${routeId} updated by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.update',
+      entityType: 'slack_channel_route',
+      entityId: routeId,
+      summary: `Updated the route for ${route.branch} / ${route.department_pattern}`,
+      details: { changes: updateData },
+    });
+
+    return NextResponse.json({ success: true, route });
+
+  } catch (error: any) {
+    console.error('Error updating Slack channel route:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update Slack channel route' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { id: routeId } = await params;
+
+    const { error } = await supabaseAdmin
+      .from('slack_channel_routes')
+      .delete()
+      .eq('id', routeId);
+
+    if (error) {
+      throw new Error(`Failed to delete Slack channel route: ${error.message}`);
+    }
+
+    console.log(`Slack channel route ${routeId} deleted by ${session.user.email}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.delete',
+      entityType: 'slack_channel_route',
+      entityId: routeId,
+      summary: 'Deleted a Slack channel route',
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: any) {
+    console.error('Error deleting Slack channel route:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete Slack channel route' },
+      { status: 500 }
+    );
+  }
+}
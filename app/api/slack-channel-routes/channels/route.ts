@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createSlackClient } from '@/lib/slack';
+import { hasCapability } from '@/types/user';
+
+/** Channels in the Slack workspace, for picking a route's channel by name. */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const channels = await createSlackClient().fetchChannels();
+
+    return NextResponse.json({ success: true, channels });
+
+  } catch (error: any) {
+    console.error('Error fetching Slack workspace channels:', error);
+    return NextResponse.json(
+      { success: false, error: `Failed to fetch Slack channels: ${error.message}` },
+      { status: 500 }
+    );
+  }
+}
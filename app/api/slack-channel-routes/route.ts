@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { findUnroutedCombinations, lookupSlackChannel } from '@/lib/slackChannels';
+import { SlackChannelRoute } from '@/types/slackChannelRoute';
+import { hasCapability } from '@/types/user';
+
+/** All routes plus the branch/department combinations none of them cover. */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    // Inactive routes are included so admins can re-enable them
+    const { data: routes, error } = await supabaseAdmin
+      .from('slack_channel_routes')
+      .select('*')
+      .order('branch', { ascending: true })
+      .order('priority', { ascending: false })
+      .order('department_pattern', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch Slack channel routes: ${error.message}`);
+    }
+
+    const unrouted = await findUnroutedCombinations(routes as SlackChannelRoute[]);
+
+    return NextResponse.json({ success: true, routes, unrouted });
+
+  } catch (error: any) {
+    console.error('Error fetching Slack channel routes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch Slack channel routes' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { branch, department_pattern, channel, priority } = body;
+
+    const branchValue = typeof branch === 'string' ? branch.trim() : '';
+    const pattern = typeof department_pattern === 'string' ? department_pattern.trim() : '';
+    if (!branchValue || !pattern || typeof channel !== 'string' || !channel.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Branch, department pattern and channel are required' },
+        { status: 400 }
+      );
+    }
+    if (priority !== undefined && !Number.isInteger(priority)) {
+      return NextResponse.json({ success: false, error: 'Priority must be a whole number' }, { status: 400 });
+    }
+
+    const slackChannel = await lookupSlackChannel(channel);
+    if (!slackChannel) {
+      return NextResponse.json(
+        { success: false, error: `Slack channel "${channel}" not found. Private channels need the app invited first.` },
+        { status: 400 }
+      );
+    }
+
+    const { data: route, error } = await supabaseAdmin
+      .from('slack_channel_routes')
+      .insert({
+        branch: branchValue,
+        department_pattern: pattern,
+        channel_id: slackChannel.channelId,
+        channel_name: slackChannel.name,
+        priority: priority ?? 0,
+        is_active: true,
+        created_by: session.user.email!.toLowerCase(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { success: false, error: `${branchValue} already has a route for "${pattern}"` },
+          { status: 409 }
+        );
+      }
+      throw new Error(`Failed to create Slack channel route: ${error.message}`);
+    }
+
+    console.log(`Slack channel route created by ${session.user.email}: ${branchValue} / ${pattern} → #${slackChannel.name}`);
+
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'settings.create',
+      entityType: 'slack_channel_route',
+      entityId: route.id,
+      summary: `Routed ${branchValue} / ${pattern} to #${slackChannel.name}`,
+    });
+
+    return NextResponse.json({ success: true, route });
+
+  } catch (error: any) {
+    console.error('Error creating Slack channel route:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create Slack channel route' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { getChannelOptions } from '@/lib/slackChannels';
+import { getChannelOptions, getSlackChannelRoutes } from '@/lib/slackChannels';
 
 export async function GET() {
   const session = await getServerSession(authOptions);
@@ -9,5 +9,11 @@ export async function GET() {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  return NextResponse.json({ channels: getChannelOptions() });
+  try {
+    const routes = await getSlackChannelRoutes();
+    return NextResponse.json({ channels: getChannelOptions(routes) });
+  } catch (error: any) {
+    console.error('Error fetching Slack channels:', error);
+    return NextResponse.json({ error: 'Failed to load Slack channels' }, { status: 500 });
+  }
 }
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { SLACK_NOTIFICATION_KIND_LABELS } from '@/types/slackNotification';
+import { hasCapability } from '@/types/user';
+
+const MAX_ROWS = 200;
+
+/**
+ * Admin log of Slack notifications, newest first. Optional filters: status,
+ * kind, sentBy (substring), from / to (YYYY-MM-DD, inclusive).
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: authUser } = await supabaseAdmin
+      .from('users').select('role, can_send_slack')
+      .eq('email', session.user.email!.toLowerCase()).single();
+    if (!authUser || !hasCapability(authUser, 'manage_settings')) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const kind = searchParams.get('kind');
+    const sentBy = searchParams.get('sentBy')?.trim();
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    let query = supabaseAdmin
+      .from('slack_notifications')
+      .select('id, expense_id, kind, sent_by, target, recipient_slack_ids, text, status, error, slack_channel, slack_ts, thread_ts, created_at, expenses(vendor_name, amount, transaction_date, branch, department, cardholder)')
+      .order('created_at', { ascending: false })
+      .limit(MAX_ROWS);
+
+    if (status === 'sent' || status === 'failed') {
+      query = query.eq('status', status);
+    }
+    if (kind && kind in SLACK_NOTIFICATION_KIND_LABELS) {
+      query = query.eq('kind', kind);
+    }
+    if (sentBy) {
+      query = query.ilike('sent_by', `%${sentBy.replace(/[%_\\]/g, '\\$&')}%`);
+    }
+    // Dates are business days in Arizona time (UTC-7, no DST)
+    if (from && /^\d{4}-\d{2}-\d{2}$/.test(from)) {
+      query = query.gte('created_at', `${from}T00:00:00-07:00`);
+    }
+    if (to && /^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      query = query.lte('created_at', `${to}T23:59:59.999-07:00`);
+    }
+
+    const { data: notifications, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch Slack notifications: ${error.message}`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      notifications,
+      truncated: notifications.length === MAX_ROWS,
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching Slack notifications:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch Slack notifications' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,288 @@
+import { NextResponse } from 'next/server';
+import { createUserClient } from '@/lib/supabase';
+import { verifySlackSignature } from '@/lib/slack';
+import { getUserWithPermissionsBySlackId } from '@/lib/currentUser';
+import { getBranches } from '@/lib/branches';
+import { getExclusionRules, isHiddenFromDashboard } from '@/lib/exclusionRules';
+import { buildDashboardUrl } from '@/lib/dashboardLinks';
+import { formatCurrency } from '@/lib/format';
+import { Expense } from '@/types/expense';
+import { getBranchSubtree } from '@/types/branch';
+import { UserWithPermissions } from '@/types/user';
+
+// Earliest data the dashboard shows (see dashboard_expenses in the
+// dashboard_expense_queries migration)
+const DASHBOARD_START_DATE = '2025-10-01';
+
+// Rows listed in a reply before falling back to "...and N more"
+const MAX_LISTED = 15;
+
+// Rows read per request, and the most a reply will total before saying it
+// stopped short (Slack wants an answer within a few seconds)
+const PAGE = 1000;
+const MAX_ROWS = 10000;
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'];
+
+const COLUMNS = 'id, transaction_date, vendor_name, amount, branch, department, category, cardholder, transaction_type, flag_category, approval_status';
+
+const HELP_TEXT = [
+  '*Expense Dashboard commands*',
+  '`/expenses pending [month]` – transactions awaiting approval',
+  '`/expenses flagged [month]` – flagged transactions',
+  '`/expenses summary <branch> [month]` – totals by department',
+  '`/expenses find <vendor>` – recent transactions from a vendor',
+  '_Month is `2026-10` or a name like `oct`; defaults to the current month._',
+].join('\n');
+
+// YYYY-MM in the business timezone
+function currentMonth(): string {
+  return new Date().toLocaleDateString('en-CA', { timeZone: 'America/Phoenix' }).substring(0, 7);
+}
+
+/** "2026-10", "oct" or "October" → YYYY-MM (a bare name means its most recent occurrence). */
+function parseMonth(token: string | undefined): string | null {
+  if (!token) return null;
+  if (/^\d{4}-\d{2}$/.test(token)) return token;
+  if (token.length < 3) return null;
+
+  const index = MONTH_NAMES.findIndex(name => name.toLowerCase().startsWith(token.toLowerCase().slice(0, 3)));
+  if (index === -1) return null;
+
+  const [year, month] = currentMonth().split('-').map(Number);
+  const resolvedYear = index + 1 > month ? year - 1 : year;
+  return `${resolvedYear}-${String(index + 1).padStart(2, '0')}`;
+}
+
+function formatMonth(month: string): string {
+  const [year, monthNum] = month.split('-');
+  return `${MONTH_NAMES[parseInt(monthNum, 10) - 1]} ${year}`;
+}
+
+/**
+ * Expenses the caller may see, with the same exclusion rules and permission
+ * scoping as the dashboard page. Newest first, up to MAX_ROWS; `truncated`
+ * says the cap was hit and older rows were left out.
+ */
+async function loadVisibleExpenses(
+  user: UserWithPermissions,
+  options: { month?: string; branch?: string; vendor?: string }
+): Promise<{ expenses: Expense[]; truncated: boolean }> {
+  // Runs as the user, so row-level security applies their scope (including
+  // active delegations) before the cap rather than after it
+  const branches = await getBranches();
+  const client = createUserClient(user);
+  const known = options.branch
+    ? branches.find(b => b.name.toLowerCase() === options.branch!.toLowerCase())
+    : undefined;
+
+  const rows: Expense[] = [];
+  let truncated = false;
+  // Paginated: PostgREST caps unpaged reads at 1000 rows
+  for (let pageStart = 0; ; pageStart += PAGE) {
+    let query = client
+      .from('expenses')
+      .select(COLUMNS)
+      .gte('transaction_date', DASHBOARD_START_DATE);
+
+    if (options.month) {
+      const [year, month] = options.month.split('-').map(Number);
+      const nextMonth = month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, '0')}-01`;
+      query = query.gte('transaction_date', `${options.month}-01`).lt('transaction_date', nextMonth);
+    }
+    if (options.branch) {
+      // A region covers its branches; unknown names fall back to a loose match
+      query = known
+        ? query.in('branch', getBranchSubtree(branches, known.name))
+        : query.ilike('branch', options.branch);
+    }
+    if (options.vendor) {
+      query = query.ilike('vendor_name', `%${options.vendor.replace(/[%_\\]/g, '\\$&')}%`);
+    }
+
+    const { data: page, error } = await query
+      .order('transaction_date', { ascending: false })
+      .order('id')
+      .range(pageStart, pageStart + PAGE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load expenses: ${error.message}`);
+    }
+    rows.push(...((page || []) as unknown as Expense[]));
+    if (!page || page.length < PAGE) break;
+    if (rows.length >= MAX_ROWS) {
+      truncated = true;
+      break;
+    }
+  }
+
+  const exclusionRules = await getExclusionRules();
+  return { expenses: rows.filter(e => !isHiddenFromDashboard(exclusionRules, e)), truncated };
+}
+
+// Context line for a reply whose totals stopped at MAX_ROWS
+function truncatedNote(): any {
+  return {
+    type: 'context',
+    elements: [{
+      type: 'mrkdwn',
+      text: `_Only the ${MAX_ROWS.toLocaleString()} most recent transactions were counted, so totals are incomplete. The dashboard has the full figures._`,
+    }],
+  };
+}
+
+function expenseLine(e: Expense): string {
+  const date = e.transaction_date?.substring(0, 10) || 'N/A';
+  const where = [e.branch, e.department].filter(Boolean).join(' · ');
+  const flag = e.flag_category ? ` · _${e.flag_category}_` : '';
+  return `• ${date}  |  ${e.vendor_name || 'Unknown'}  |  ${formatCurrency(Number(e.amount) || 0, { cents: true })}  |  ${e.cardholder || e.transaction_type}${where ? `  |  ${where}` : ''}${flag}`;
+}
+
+/**
+ * Heading, up to MAX_LISTED rows and a dashboard link, as Block Kit, with a
+ * note when the rows were capped.
+ */
+function listBlocks(heading: string, expenses: Expense[], dashboardUrl: string, truncated: boolean): any[] {
+  const total = expenses.reduce((sum, e) => sum + (Number(e.amount) || 0), 0);
+  const blocks: any[] = [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `${heading}: *${expenses.length}* transactions, *${formatCurrency(total)}*` },
+    },
+  ];
+
+  if (expenses.length > 0) {
+    let lines = expenses.slice(0, MAX_LISTED).map(expenseLine).join('\n');
+    if (expenses.length > MAX_LISTED) {
+      lines += `\n_…and ${expenses.length - MAX_LISTED} more_`;
+    }
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: lines } });
+  }
+
+  if (truncated) blocks.push(truncatedNote());
+  blocks.push({
+    type: 'context',
+    elements: [{ type: 'mrkdwn', text: `<${dashboardUrl}|Open in Expense Dashboard →>` }],
+  });
+  return blocks;
+}
+
+function ephemeral(text: string, blocks?: any[]) {
+  return NextResponse.json({ response_type: 'ephemeral', text, ...(blocks && { blocks }) });
+}
+
+/**
+ * `/expenses` slash command (Request URL in the Slack app config). Resolves
+ * the caller through users.slack_id and only ever shows expenses they could
+ * see on the dashboard. Replies are ephemeral. Authenticated by the Slack
+ * request signature, so it is excluded from the auth middleware.
+ */
+export async function POST(request: Request) {
+  try {
+    const rawBody = await request.text();
+    if (!verifySlackSignature(request, rawBody)) {
+      console.log('Rejected Slack command: bad signature');
+      return NextResponse.json({ success: false, error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const form = new URLSearchParams(rawBody);
+    const slackUserId = form.get('user_id') || '';
+    const [subcommand = 'help', ...args] = (form.get('text') || '').trim().split(/\s+/).filter(Boolean);
+    console.log(`Slack command /expenses ${subcommand} from ${slackUserId}`);
+
+    const user = await getUserWithPermissionsBySlackId(slackUserId);
+    if (!user || !user.is_active) {
+      return ephemeral("Your Slack account isn't linked to an active Expense Dashboard user. Ask an admin to run \"Sync Slack Users\".");
+    }
+
+    switch (subcommand.toLowerCase()) {
+      case 'pending':
+      case 'flagged': {
+        const month = args.length > 0 ? parseMonth(args[0]) : currentMonth();
+        if (!month) return ephemeral(`I don't recognize the month "${args[0]}".\n\n${HELP_TEXT}`);
+
+        const { expenses, truncated } = await loadVisibleExpenses(user, { month });
+        if (subcommand.toLowerCase() === 'pending') {
+          const pending = expenses.filter(e => e.approval_status === null);
+          const heading = `⏳ Pending approval, ${formatMonth(month)}`;
+          return ephemeral(heading, listBlocks(heading, pending, buildDashboardUrl({ months: [month], approvalStatus: ['pending'] }), truncated));
+        }
+
+        // Same definition as the dashboard's "Flagged" filter
+        const flagged = expenses.filter(e => e.flag_category && e.flag_category !== 'Good to Sync');
+        const heading = `🚩 Flagged, ${formatMonth(month)}`;
+        return ephemeral(heading, listBlocks(heading, flagged, buildDashboardUrl({ months: [month], showFlagged: 'flagged' }), truncated));
+      }
+
+      case 'summary': {
+        // Branch names contain spaces ("Phoenix - North"), so the month is
+        // only taken from the last word when it parses as one
+        const lastAsMonth = args.length > 1 ? parseMonth(args[args.length - 1]) : null;
+        const branch = (lastAsMonth ? args.slice(0, -1) : args).join(' ');
+        const month = lastAsMonth || currentMonth();
+        if (!branch) return ephemeral(`Which branch?\n\n${HELP_TEXT}`);
+
+        const { expenses, truncated } = await loadVisibleExpenses(user, { month, branch });
+        if (expenses.length === 0) {
+          return ephemeral(`No expenses you can see for "${branch}" in ${formatMonth(month)}.`);
+        }
+
+        const branchName = expenses[0].branch || branch;
+        const byDepartment: Record<string, { amount: number; count: number; unapprovedAmount: number; unapprovedCount: number }> = {};
+        for (const e of expenses) {
+          const department = e.department || 'No Department';
+          byDepartment[department] ??= { amount: 0, count: 0, unapprovedAmount: 0, unapprovedCount: 0 };
+          byDepartment[department].amount += Number(e.amount) || 0;
+          byDepartment[department].count += 1;
+          if (e.approval_status !== 'approved') {
+            byDepartment[department].unapprovedAmount += Number(e.amount) || 0;
+            byDepartment[department].unapprovedCount += 1;
+          }
+        }
+
+        const total = expenses.reduce((sum, e) => sum + (Number(e.amount) || 0), 0);
+        const lines = Object.entries(byDepartment)
+          .sort((a, b) => b[1].amount - a[1].amount)
+          .map(([department, d]) =>
+            `• *${department}*: ${formatCurrency(d.amount)} (${d.count})` +
+            (d.unapprovedCount > 0 ? `  ·  ⚠️ ${d.unapprovedCount} unapproved, ${formatCurrency(d.unapprovedAmount)}` : '')
+          );
+
+        const heading = `📊 ${branchName}, ${formatMonth(month)}`;
+        return ephemeral(heading, [
+          { type: 'section', text: { type: 'mrkdwn', text: `${heading}: *${formatCurrency(total)}* across *${expenses.length}* transactions` } },
+          { type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } },
+          ...(truncated ? [truncatedNote()] : []),
+          {
+            type: 'context',
+            elements: [{ type: 'mrkdwn', text: `<${buildDashboardUrl({ months: [month], branch: branchName })}|Open in Expense Dashboard →>` }],
+          },
+        ]);
+      }
+
+      case 'find': {
+        const vendor = args.join(' ');
+        if (!vendor) return ephemeral(`Which vendor?\n\n${HELP_TEXT}`);
+
+        const { expenses, truncated } = await loadVisibleExpenses(user, { vendor });
+        // The dashboard's vendor filter is an exact match, so only deep link
+        // to it when the search hit a single vendor
+        const vendorNames = [...new Set(expenses.map(e => e.vendor_name))];
+        const dashboardUrl = vendorNames.length === 1
+          ? buildDashboardUrl({ months: ['all'], vendor: vendorNames[0] })
+          : buildDashboardUrl({ months: ['all'] });
+
+        const heading = `🔎 Vendors matching "${vendor}"`;
+        return ephemeral(heading, listBlocks(heading, expenses, dashboardUrl, truncated));
+      }
+
+      default:
+        return ephemeral(HELP_TEXT);
+    }
+  } catch (error: any) {
+    console.error('Error in Slack commands API:', error);
+    // Slack shows a non-200 as a generic failure; reply with the reason instead
+    return ephemeral('Something went wrong looking that up. Please try again or use the dashboard.');
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { verifySlackSignature } from '@/lib/slack';
+import { recordSlackReply, SlackMessageEvent } from '@/lib/expenseComments';
+
+interface SlackEventPayload {
+  type: string;
+  challenge?: string;
+  event_id?: string;
+  event?: SlackMessageEvent;
+}
+
+/**
+ * Slack Events API endpoint (Event Subscriptions Request URL in the Slack app
+ * config). Answers the one-time URL verification challenge and stores replies
+ * in our notification threads as expense comments. Authenticated by the Slack
+ * request signature rather than a session, so it is excluded from the auth
+ * middleware.
+ */
+export async function POST(request: Request) {
+  try {
+    const rawBody = await request.text();
+    if (!verifySlackSignature(request, rawBody)) {
+      console.log('Rejected Slack event: bad signature');
+      return NextResponse.json({ success: false, error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const payload: SlackEventPayload = JSON.parse(rawBody);
+
+    if (payload.type === 'url_verification') {
+      return NextResponse.json({ challenge: payload.challenge });
+    }
+
+    if (payload.type !== 'event_callback' || payload.event?.type !== 'message') {
+      // Not one we subscribe to; acknowledge so Slack doesn't retry
+      return new Response(null, { status: 200 });
+    }
+
+    const result = await recordSlackReply(payload.event);
+    if (result.recorded) {
+      console.log(`Slack reply ${payload.event_id} saved as a comment on expense ${result.expenseId}`);
+    }
+
+    return new Response(null, { status: 200 });
+  } catch (error: any) {
+    console.error('Error in Slack events API:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextResponse } from 'next/server';
+import {
+  EXPENSE_ACTIONS,
+  EXPENSE_ACTIONS_BLOCK_PREFIX,
+  updateSlackMessage,
+  verifySlackSignature,
+} from '@/lib/slack';
+import { getUserWithPermissionsBySlackId } from '@/lib/currentUser';
+import { requestCorrection, ReviewActionResult, setApprovalStatus } from '@/lib/approvals';
+
+interface SlackBlockAction {
+  action_id: string;
+  block_id: string;
+  value?: string;
+}
+
+interface SlackBlockActionsPayload {
+  type: string;
+  user: { id: string };
+  channel?: { id: string };
+  message?: { ts: string; text?: string; blocks?: any[] };
+  response_url?: string;
+  actions?: SlackBlockAction[];
+}
+
+const ACTION_RESULTS: Record<string, string> = {
+  [EXPENSE_ACTIONS.approve]: '✅ Approved',
+  [EXPENSE_ACTIONS.reject]: '❌ Rejected',
+  [EXPENSE_ACTIONS.requestCorrection]: '✏️ Correction requested',
+};
+
+/** Reply privately to the person who clicked, without touching the message. */
+async function replyEphemeral(responseUrl: string | undefined, text: string) {
+  if (!responseUrl) return;
+  try {
+    await fetch(responseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ response_type: 'ephemeral', replace_original: false, text }),
+      signal: AbortSignal.timeout(15000),
+    });
+  } catch (error) {
+    console.error('Failed to send ephemeral Slack reply:', error);
+  }
+}
+
+/**
+ * Slack interactivity endpoint (Request URL in the Slack app config). Handles
+ * the Approve / Reject / Request correction buttons on expense notifications
+ * and department summary threads. Authenticated by the Slack request
+ * signature rather than a session, so it is excluded from the auth middleware.
+ */
+export async function POST(request: Request) {
+  try {
+    const rawBody = await request.text();
+    if (!verifySlackSignature(request, rawBody)) {
+      console.log('Rejected Slack interaction: bad signature');
+      return NextResponse.json({ success: false, error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const payloadJson = new URLSearchParams(rawBody).get('payload');
+    if (!payloadJson) {
+      return NextResponse.json({ success: false, error: 'Missing payload' }, { status: 400 });
+    }
+    const payload: SlackBlockActionsPayload = JSON.parse(payloadJson);
+
+    const action = payload.actions?.[0];
+    if (payload.type !== 'block_actions' || !action || !ACTION_RESULTS[action.action_id] || !action.value) {
+      // Not one of ours (or a button with nothing to do); acknowledge so Slack doesn't retry
+      return new Response(null, { status: 200 });
+    }
+
+    const expenseId = action.value;
+    console.log(`Slack interaction ${action.action_id} on expense ${expenseId} by ${payload.user.id}`);
+
+    const user = await getUserWithPermissionsBySlackId(payload.user.id);
+    if (!user || !user.is_active) {
+      await replyEphemeral(
+        payload.response_url,
+        "Your Slack account isn't linked to an active Expense Dashboard user. Ask an admin to run \"Sync Slack Users\"."
+      );
+      return new Response(null, { status: 200 });
+    }
+
+    let result: ReviewActionResult;
+    if (action.action_id === EXPENSE_ACTIONS.requestCorrection) {
+      result = await requestCorrection(user, expenseId, 'slack');
+    } else {
+      result = await setApprovalStatus(
+        user,
+        expenseId,
+        action.action_id === EXPENSE_ACTIONS.approve ? 'approved' : 'rejected',
+        'slack'
+      );
+    }
+
+    if (!result.ok) {
+      // Approval-chain refusals (wrong step, already decided) explain themselves
+      const reason = result.status === 409 || (result.status === 403 && result.error !== 'Forbidden')
+        ? `${result.error}.`
+        : result.status === 403
+          ? "You don't have access to this expense."
+          : result.status === 404 ? 'This expense no longer exists.' : 'Something went wrong, please try again from the dashboard.';
+      await replyEphemeral(payload.response_url, reason);
+      return new Response(null, { status: 200 });
+    }
+
+    // Swap this expense's buttons for who acted; other expenses in the same
+    // message (department summary threads) keep theirs
+    const slackToken = process.env.SLACK_API_TOKEN;
+    if (slackToken && payload.channel && payload.message?.blocks) {
+      const actedBy = user.slack_display_name || user.full_name || user.email;
+      // An approval that isn't the chain's last step leaves the expense pending
+      const actionResult = result.chain && action.action_id === EXPENSE_ACTIONS.approve && result.chain.approved < result.chain.total
+        ? `✅ Approved step ${result.chain.approved} of ${result.chain.total}`
+        : ACTION_RESULTS[action.action_id];
+      // Slack date token renders in each viewer's own timezone
+      const actedAt = `<!date^${Math.floor(Date.now() / 1000)}^{date_short} {time}|${new Date().toISOString()}>`;
+      const blocks = payload.message.blocks.map(block =>
+        block.block_id === `${EXPENSE_ACTIONS_BLOCK_PREFIX}${expenseId}`
+          ? {
+              type: 'context',
+              block_id: block.block_id,
+              elements: [{
+                type: 'mrkdwn',
+                text: `${actionResult} by *${actedBy}* · ${actedAt}`,
+              }],
+            }
+          : block
+      );
+
+      const updateResponse = await updateSlackMessage(slackToken, {
+        channel: payload.channel.id,
+        ts: payload.message.ts,
+        text: payload.message.text,
+        blocks,
+      });
+      const updateData = await updateResponse.json();
+      if (!updateData.ok) {
+        console.error('Failed to update Slack message:', updateData.error);
+      }
+    }
+
+    return new Response(null, { status: 200 });
+  } catch (error: any) {
+    console.error('Error in Slack interactions API:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,19 @@
 import { NextResponse } from 'next/server';
-import { createBillClient } from '@/lib/bill';
 import { supabaseAdmin } from '@/lib/supabase';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { runCreditCardSync } from '@/lib/creditCardSync';
+import { SYNC_IN_PROGRESS_ERROR } from '@/lib/syncLog';
+import { hasCapability } from '@/types/user';
 
 // This import can take several minutes; without this the platform default
 // (~15s) kills the run mid-upsert and leaves the sync_log stuck "running".
 export const maxDuration = 300;
 
+const HISTORICAL_FROM_DATE = '2026-05-01';
+
 export async function POST() {
-  // Hoisted so the catch can mark an in-progress sync_log as failed instead of
-  // leaving it stuck "running" forever.
-  let syncLogId: string | null = null;
   try {
     const session = await getServerSession(authOptions);
     if (!session || !session.user) {
@@ -19,428 +21,41 @@ export async function POST() {
     }
 
     const { data: authUser } = await supabaseAdmin
-      .from('users').select('is_admin')
+      .from('users').select('role, can_send_slack')
       .eq('email', session.user.email!.toLowerCase()).single();
-    if (!authUser || !authUser.is_admin) {
-      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
-    }
-
-    console.log('=== Starting HISTORICAL Credit Card Import ===');
-    console.log('Import range: May 1, 2026 to present');
-
-    // Cheap mutex: refuse to start while another sync is running, so interleaved
-    // upsert phases can't clobber each other. "running" rows older than 10
-    // minutes are treated as dead (crashed before the catch could mark them).
-    const staleCutoff = new Date(Date.now() - 10 * 60 * 1000).toISOString();
-    const { data: activeSyncs } = await supabaseAdmin
-      .from('sync_logs')
-      .select('id')
-      .eq('status', 'running')
-      .gte('sync_started_at', staleCutoff)
-      .limit(1);
-    if (activeSyncs && activeSyncs.length > 0) {
-      return NextResponse.json(
-        { success: false, error: 'Another sync is already running. Please wait for it to finish.' },
-        { status: 409 }
-      );
-    }
-
-    // Create sync log
-    const { data: syncLog, error: syncLogError } = await supabaseAdmin
-      .from('sync_logs')
-      .insert({
-        status: 'running',
-        sync_started_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
-
-    if (syncLogError) {
-      throw new Error(`Failed to create sync log: ${syncLogError.message}`);
-    }
-
-    syncLogId = syncLog.id;
-    console.log('Sync log created with ID:', syncLog.id);
-
-    // Initialize Bill.com client
-    const billClient = createBillClient();
-    console.log('Bill.com client initialized');
-
-    // Calculate days back from May 1, 2026 to today
-    const startDate = new Date('2026-05-01');
-    const today = new Date();
-    const daysBack = Math.ceil((today.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-
-    console.log(`Fetching ALL credit card transactions from May 1, 2026 (${daysBack} days back)...`);
-    console.log('⚠️  This may take several minutes for large transaction volumes...');
-    
-    // Fetch transactions by sync status to get complete coverage (same approach as daily sync)
-    let allTransactions: Array<{ transaction: any; knownSyncStatus: string | null }> = [];
-    
-    try {
-      // We'll use the historical fetch method but split by sync status for accuracy
-      console.log('Fetching SYNCED transactions...');
-      const syncedTransactions = await billClient.fetchTransactionsBySyncStatusHistorical(daysBack, 'SYNCED');
-      console.log(`Found ${syncedTransactions.length} SYNCED transactions`);
-      allTransactions.push(...syncedTransactions.map(t => ({ transaction: t, knownSyncStatus: 'SYNCED' })));
-      
-      console.log('Fetching MANUAL_SYNCED transactions...');
-      const manualSyncedTransactions = await billClient.fetchTransactionsBySyncStatusHistorical(daysBack, 'MANUAL_SYNCED');
-      console.log(`Found ${manualSyncedTransactions.length} MANUAL_SYNCED transactions`);
-      allTransactions.push(...manualSyncedTransactions.map(t => ({ transaction: t, knownSyncStatus: 'SYNCED' })));
-      
-      console.log('Fetching NOT_SYNCED transactions...');
-      const notSyncedTransactions = await billClient.fetchTransactionsBySyncStatusHistorical(daysBack, 'NOT_SYNCED');
-      console.log(`Found ${notSyncedTransactions.length} NOT_SYNCED transactions`);
-      allTransactions.push(...notSyncedTransactions.map(t => ({ transaction: t, knownSyncStatus: null })));
-      
-      console.log('Fetching ERROR transactions...');
-      const errorTransactions = await billClient.fetchTransactionsBySyncStatusHistorical(daysBack, 'ERROR');
-      console.log(`Found ${errorTransactions.length} ERROR transactions`);
-      allTransactions.push(...errorTransactions.map(t => ({ transaction: t, knownSyncStatus: 'ERROR' })));
-      
-      // Remove duplicates
-      const uniqueTransactions = new Map<string, { transaction: any; knownSyncStatus: string | null }>();
-      allTransactions.forEach(item => {
-        const existingItem = uniqueTransactions.get(item.transaction.id);
-        if (!existingItem) {
-          uniqueTransactions.set(item.transaction.id, item);
-        } else {
-          if (item.knownSyncStatus && !existingItem.knownSyncStatus) {
-            uniqueTransactions.set(item.transaction.id, item);
-          }
-        }
-      });
-      
-      allTransactions = Array.from(uniqueTransactions.values());
-      console.log(`✓ Total unique transactions after deduplication: ${allTransactions.length}`);
-      
-    } catch (fetchError: any) {
-      console.error('Error fetching transactions:', fetchError.message);
-      
-      // Update sync log with error
-      await supabaseAdmin
-        .from('sync_logs')
-        .update({
-          sync_completed_at: new Date().toISOString(),
-          status: 'failed',
-          errors: [{ error: fetchError.message }],
-        })
-        .eq('id', syncLog.id);
-      
-      throw new Error(`Failed to fetch transactions from Bill.com: ${fetchError.message}`);
-    }
-
-    // Get user name mapping
-    console.log('Fetching user mappings...');
-    const userMapping = await billClient.getUserNameMapping();
-    console.log(`Loaded ${Object.keys(userMapping).length} user mappings`);
-
-    // Get custom field UUIDs
-    console.log('Fetching custom fields...');
-    const purchaseCategoryUuid = await billClient.getCustomFieldUuidByName('Purchase Category');
-    const branchUuid = await billClient.getCustomFieldUuidByName('Branch');
-    const departmentUuid = await billClient.getCustomFieldUuidByName('Department');
-    
-    if (purchaseCategoryUuid) console.log(`✓ Purchase Category field found`);
-    if (branchUuid) console.log(`✓ Branch field found`);
-    if (departmentUuid) console.log(`✓ Department field found`);
-
-    // Batch the existing-record fetching to avoid connection issues with large queries.
-    // Map holds the full set of fields we preserve across syncs (flag + approval state).
-    console.log('Fetching existing records for flag/approval preservation and change detection...');
-    const netsuiteIds = allTransactions.map(t => `BILL-${t.transaction.id}`);
-    console.log(`Built ${netsuiteIds.length} NetSuite IDs to check`);
-
-    interface PreservedFields {
-      flag_category: string | null;
-      approval_status: string | null;
-      approval_modified_by: string | null;
-      approval_modified_at: string | null;
-    }
-    const batchSize = 100;
-    const existingMap = new Map<string, PreservedFields>();
-
-    for (let i = 0; i < netsuiteIds.length; i += batchSize) {
-      const batch = netsuiteIds.slice(i, i + batchSize);
-
-      try {
-        const { data: batchRows, error: fetchError } = await supabaseAdmin
-          .from('expenses')
-          .select('netsuite_id, flag_category, approval_status, approval_modified_by, approval_modified_at')
-          .in('netsuite_id', batch);
-
-        if (fetchError) {
-          console.error(`Error fetching batch ${Math.floor(i / batchSize) + 1}:`, fetchError);
-        } else {
-          (batchRows || []).forEach(e => {
-            existingMap.set(e.netsuite_id, {
-              flag_category: e.flag_category,
-              approval_status: e.approval_status,
-              approval_modified_by: e.approval_modified_by,
-              approval_modified_at: e.approval_modified_at,
-            });
-          });
-        }
-      } catch (batchError: any) {
-        console.error(`Exception in batch ${Math.floor(i / batchSize) + 1}:`, batchError.message);
-      }
-
-      if (i + batchSize < netsuiteIds.length) {
-        console.log(`  Checked ${Math.min(i + batchSize, netsuiteIds.length)}/${netsuiteIds.length} transactions...`);
-      }
-    }
-
-    console.log(`✓ Loaded ${existingMap.size} existing records into map`);
-    const recordsWithActualFlags = Array.from(existingMap.values()).filter(v => v.flag_category !== null).length;
-    console.log(`Records with non-null flags: ${recordsWithActualFlags}`);
-
-    let recordsCreated = 0;
-    let recordsUpdated = 0;
-    let flagsPreserved = 0;
-    const errors: any[] = [];
-    
-    // Track sync status statistics
-    const syncStatusBreakdown: Record<string, number> = {
-      'SYNCED': 0,
-      'NOT_SYNCED': 0,
-      'ERROR': 0,
-    };
-
-    // Helper function to normalize Bill.com branch names to match NetSuite format
-    const normalizeBranchName = (branchName: string | null): string | null => {
-      if (!branchName) return null;
-      
-      const branchMapping: Record<string, string> = {
-        'Phoenix:Phx - SouthEast': 'Phoenix - SouthEast',
-        'Phoenix:Phx - SouthWest': 'Phoenix - SouthWest',
-        'Phoenix:Phx - North': 'Phoenix - North',
-        'Las Vegas': 'Las Vegas',
-        'Corporate': 'Corporate',
-      };
-      
-      if (branchMapping[branchName]) {
-        return branchMapping[branchName];
-      }
-      
-      if (branchName.startsWith('Phoenix:Phx')) {
-        return branchName.replace('Phoenix:Phx', 'Phoenix');
-      }
-      
-      return branchName;
-    };
-
-    console.log(`Building ${allTransactions.length} expense rows...`);
-
-    // Build expense data + tally created/updated/preserved counts.
-    //
-    // Only sync-owned columns are written. Manual columns (flag_category,
-    // approval_*) are omitted from the upsert payload so the DB keeps whatever
-    // value is there — including edits made while this import is running, which
-    // the old read-snapshot/write-back approach would silently revert.
-    // flag_category appears only on NEW rows (for the reimbursement auto-flag);
-    // new and existing rows are upserted separately since PostgREST requires
-    // uniform keys within a batch.
-    interface ExpenseRow {
-      netsuite_id: string;
-      transaction_date: string;
-      vendor_name: string;
-      amount: number;
-      currency: string;
-      status: string;
-      department: string | null;
-      branch: string | null;
-      memo: string | null;
-      category: string | null;
-      transaction_type: string;
-      cardholder: string;
-      bill_sync_status: string | null;
-      last_synced_at: string;
-      flag_category?: string | null;
-    }
-    const newRows: ExpenseRow[] = [];
-    const existingRows: ExpenseRow[] = [];
-
-    for (const { transaction, knownSyncStatus } of allTransactions) {
-      try {
-        const vendorName = transaction.merchantName || 'Unknown Merchant';
-        const cardholderName = userMapping[transaction.userId] || 'Unknown User';
-
-        const amount = transaction.amount;
-        if (amount > 10000) {
-          console.warn(`Large transaction amount $${amount} for ${vendorName} (id ${transaction.id}) — verify Bill.com is returning dollars, not cents`);
-        }
-
-        let memo = null;
-        if (transaction.customFields && transaction.customFields.length > 0) {
-          const descriptionField = transaction.customFields.find((cf: any) => cf.note);
-          if (descriptionField && descriptionField.note && descriptionField.note.trim() !== '') {
-            memo = descriptionField.note;
-          }
-        }
-
-        let category = null;
-        if (purchaseCategoryUuid) {
-          const purchaseCategory = billClient.extractCustomFieldValue(transaction, purchaseCategoryUuid);
-          if (purchaseCategory) category = purchaseCategory;
-        }
-
-        let branch = null;
-        if (branchUuid) {
-          const branchValue = billClient.extractCustomFieldValue(transaction, branchUuid);
-          if (branchValue) branch = normalizeBranchName(branchValue);
-        }
-        if (!branch && transaction.budgetId) {
-          const budgetId = transaction.budgetId;
-          if (!budgetId.includes('=') && !budgetId.includes('-') && budgetId.length < 50) {
-            branch = normalizeBranchName(budgetId);
-          }
-        }
-
-        let department = null;
-        if (departmentUuid) {
-          const departmentValue = billClient.extractCustomFieldValue(transaction, departmentUuid);
-          if (departmentValue) department = departmentValue;
-        }
-
-        const status = transaction.complete ? 'Complete' : 'Incomplete';
-
-        const netsuiteId = `BILL-${transaction.id}`;
-        const existing = existingMap.get(netsuiteId);
-        if (existing && (existing.flag_category || existing.approval_status)) flagsPreserved++;
-
-        const billSyncStatus = knownSyncStatus;
-        if (billSyncStatus === 'SYNCED') syncStatusBreakdown['SYNCED']++;
-        else if (billSyncStatus === 'ERROR') syncStatusBreakdown['ERROR']++;
-        else syncStatusBreakdown['NOT_SYNCED']++;
-
-        if (existing) recordsUpdated++;
-        else recordsCreated++;
-
-        const row: ExpenseRow = {
-          netsuite_id: netsuiteId,
-          // occurredTime is UTC; truncating it directly dates evening purchases
-          // on the next day. Use the business timezone (en-CA gives YYYY-MM-DD).
-          transaction_date: new Date(transaction.occurredTime).toLocaleDateString('en-CA', { timeZone: 'America/Phoenix' }),
-          vendor_name: vendorName,
-          amount: parseFloat(amount.toString()) || 0,
-          currency: 'USD',
-          status,
-          department,
-          branch,
-          memo,
-          category,
-          transaction_type: 'Credit Card',
-          cardholder: cardholderName,
-          bill_sync_status: billSyncStatus,
-          last_synced_at: new Date().toISOString(),
-        };
-
-        if (existing) {
-          existingRows.push(row);
-        } else {
-          row.flag_category =
-            category && category.toLowerCase().includes('reimburse') ? 'Needs Review' : null;
-          newRows.push(row);
-        }
-      } catch (error: any) {
-        console.error(`Error processing transaction ${transaction.id}:`, error);
-        errors.push({
-          netsuite_id: `BILL-${transaction.id}`,
-          transaction_id: transaction.id,
-          vendor: transaction.merchantName,
-          error: error.message,
-        });
-      }
+    if (!authUser || !hasCapability(authUser, 'sync')) {
+      return NextResponse.json({ success: false, error: 'Sync access required' }, { status: 403 });
     }
 
-    // Batch upsert (with per-record fallback on failure)
-    console.log(`Upserting ${newRows.length + existingRows.length} records (${newRows.length} new, ${existingRows.length} existing)...`);
-    const UPSERT_BATCH = 200;
-    const upsertBatches = async (rows: ExpenseRow[]) => {
-      for (let i = 0; i < rows.length; i += UPSERT_BATCH) {
-        const batch = rows.slice(i, i + UPSERT_BATCH);
-        const { error: batchError } = await supabaseAdmin
-          .from('expenses')
-          .upsert(batch, { onConflict: 'netsuite_id', ignoreDuplicates: false });
+    console.log(`Import range: ${HISTORICAL_FROM_DATE} to present`);
 
-        if (batchError) {
-          console.log(`Batch upsert failed at offset ${i}, falling back to per-record...`);
-          for (const item of batch) {
-            const { error: itemError } = await supabaseAdmin
-              .from('expenses')
-              .upsert(item, { onConflict: 'netsuite_id', ignoreDuplicates: false });
-            if (itemError) {
-              errors.push({
-                netsuite_id: item.netsuite_id,
-                vendor: item.vendor_name,
-                error: itemError.message,
-              });
-            }
-          }
-        } else if ((i / UPSERT_BATCH) % 5 === 0 && i + UPSERT_BATCH < rows.length) {
-          console.log(`  Upserted ${i + batch.length}/${rows.length} records...`);
-        }
-      }
-    };
-    await upsertBatches(newRows);
-    await upsertBatches(existingRows);
+    const result = await runCreditCardSync({
+      trigger: 'manual',
+      triggeredBy: session.user.email!.toLowerCase(),
+      historicalFrom: HISTORICAL_FROM_DATE,
+    });
 
-    // Decrement created/updated for any rows that failed to persist
-    const errorIds = new Set(errors.map(e => e.netsuite_id).filter(Boolean));
-    for (const eid of errorIds) {
-      if (existingMap.has(eid)) recordsUpdated--;
-      else recordsCreated--;
+    if (result.busy) {
+      return NextResponse.json({ success: false, error: SYNC_IN_PROGRESS_ERROR }, { status: 409 });
     }
 
-    console.log(`✓ Processing complete: ${recordsCreated} created, ${recordsUpdated} updated`);
-    console.log('Sync status breakdown:', syncStatusBreakdown);
-    console.log(`Flags preserved: ${flagsPreserved}`);
-
-    // Update sync log
-    await supabaseAdmin
-      .from('sync_logs')
-      .update({
-        sync_completed_at: new Date().toISOString(),
-        records_fetched: allTransactions.length,
-        records_created: recordsCreated,
-        records_updated: recordsUpdated,
-        errors: errors.length > 0 ? errors : null,
-        status: allTransactions.length > 0 && errors.length === allTransactions.length ? 'failed' : errors.length > 0 ? 'partial' : 'success',
-      })
-      .eq('id', syncLog.id);
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'sync.run',
+      entityType: 'sync',
+      summary: `Ran a historical credit card import from ${HISTORICAL_FROM_DATE}`,
+      details: { sync: 'credit_cards', historicalFrom: HISTORICAL_FROM_DATE, message: result.message },
+    });
 
     return NextResponse.json({
       success: true,
-      message: `Historical import completed: ${recordsCreated} created, ${recordsUpdated} updated, ${flagsPreserved} flags preserved`,
-      stats: {
-        fetched: allTransactions.length,
-        created: recordsCreated,
-        updated: recordsUpdated,
-        flagsPreserved: flagsPreserved,
-        errors: errors.length,
-        dateRange: `May 1, 2026 - ${new Date().toLocaleDateString()}`,
-        daysImported: daysBack,
-        syncStatusBreakdown,
-      },
-      errors: errors.length > 0 ? errors : undefined,
+      message: result.message,
+      stats: result.stats,
+      errors: result.errors,
     });
 
   } catch (error: any) {
     console.error('Historical credit card import error:', error);
-
-    // Don't leave the sync_log stuck "running" if we threw partway through.
-    if (syncLogId) {
-      await supabaseAdmin
-        .from('sync_logs')
-        .update({
-          status: 'failed',
-          sync_completed_at: new Date().toISOString(),
-          errors: [{ error: error?.message || 'Unknown error' }],
-        })
-        .eq('id', syncLogId);
-    }
-
     return NextResponse.json(
       {
         success: false,
@@ -449,4 +64,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
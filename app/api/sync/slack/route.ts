@@ -3,6 +3,8 @@ import { supabaseAdmin } from '@/lib/supabase';
 import { createSlackClient } from '@/lib/slack';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { hasCapability } from '@/types/user';
 
 export async function POST(request: Request) {
   // Wrap everything in try-catch to ensure we always return JSON
@@ -32,17 +34,17 @@ export async function POST(request: Request) {
 
     console.log('User email:', session.user.email);
 
-    // Verify user is admin
+    // Verify user can manage users
     let user;
     try {
       const result = await supabaseAdmin
         .from('users')
-        .select('is_admin')
+        .select('role, can_send_slack')
         .eq('email', session.user.email.toLowerCase())
         .single();
       
       user = result.data;
-      console.log('User found:', !!user, 'Is admin:', user?.is_admin);
+      console.log('User found:', !!user, 'Role:', user?.role);
       
       if (result.error) {
         console.error('Supabase error fetching user:', result.error);
@@ -55,8 +57,8 @@ export async function POST(request: Request) {
       );
     }
 
-    if (!user || !user.is_admin) {
-      console.log('Access denied: Not admin');
+    if (!user || !hasCapability(user, 'manage_users')) {
+      console.log('Access denied: cannot manage users');
       return NextResponse.json(
         { success: false, error: 'Admin access required' },
         { status: 403 }
@@ -153,7 +155,7 @@ export async function POST(request: Request) {
               slack_id: slackUser.slackId,
               slack_display_name: slackUser.displayName,
               slack_synced_at: new Date().toISOString(),
-              is_admin: false,
+              role: 'viewer',
             });
 
           if (insertError) {
@@ -216,6 +218,14 @@ export async function POST(request: Request) {
     console.log('=== Slack sync completed ===');
     console.log('Stats:', stats);
 
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'user.slack_sync',
+      entityType: 'user',
+      summary: `Synced Slack users: ${stats.matched} matched, ${stats.updated} updated`,
+      details: stats,
+    });
+
     return NextResponse.json({
       success: true,
       message: `Synced ${updated} users with Slack data`,
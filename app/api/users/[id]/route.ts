@@ -2,6 +2,14 @@ import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { parseAccessGrants } from '@/lib/permissions';
+import { AccessGrant, formatAccessGrant, hasCapability, isSameAccessGrant, USER_ROLES } from '@/types/user';
+
+const AUDITED_USER_FIELDS = ['full_name', 'role', 'is_active', 'can_send_slack', 'is_finance_approver'] as const;
+
+const sameGrants = (a: AccessGrant[], b: AccessGrant[]) =>
+  a.length === b.length && a.every(grant => b.some(other => isSameAccessGrant(grant, other)));
 
 export async function PATCH(
   request: Request,
@@ -14,22 +22,46 @@ export async function PATCH(
     }
 
     const { data: authUser } = await supabaseAdmin
-      .from('users').select('is_admin')
+      .from('users').select('role, can_send_slack')
       .eq('email', session.user.email!.toLowerCase()).single();
-    if (!authUser || !authUser.is_admin) {
+    if (!authUser || !hasCapability(authUser, 'manage_users')) {
       return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
     }
 
     const { id: userId } = await params;
     const body = await request.json();
-    const { full_name, is_admin, is_active, can_send_slack, branches, departments } = body;
+    const { full_name, role, is_active, can_send_slack, is_finance_approver } = body;
+
+    if (role !== undefined && !USER_ROLES.includes(role)) {
+      return NextResponse.json(
+        { success: false, error: `role must be one of: ${USER_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const parsedGrants = body.grants === undefined ? null : parseAccessGrants(body.grants);
+    if (parsedGrants && !parsedGrants.ok) {
+      return NextResponse.json({ success: false, error: parsedGrants.error }, { status: 400 });
+    }
+
+    // Snapshot for the audit trail
+    const { data: before } = await supabaseAdmin
+      .from('users')
+      .select('email, full_name, role, is_active, can_send_slack, is_finance_approver')
+      .eq('id', userId)
+      .single();
+    const { data: beforeGrants } = await supabaseAdmin
+      .from('user_access_grants')
+      .select('branch, department')
+      .eq('user_id', userId);
 
     // Update user basic info
     const updateData: any = {};
     if (full_name !== undefined) updateData.full_name = full_name;
-    if (is_admin !== undefined) updateData.is_admin = is_admin;
+    if (role !== undefined) updateData.role = role;
     if (is_active !== undefined) updateData.is_active = is_active;
     if (can_send_slack !== undefined) updateData.can_send_slack = can_send_slack;
+    if (is_finance_approver !== undefined) updateData.is_finance_approver = !!is_finance_approver;
 
     let user = null;
     if (Object.keys(updateData).length > 0) {
@@ -58,73 +90,61 @@ export async function PATCH(
       user = data;
     }
 
-    // Update branch permissions if provided
-    if (branches !== undefined) {
-      // Delete existing permissions
-      await supabaseAdmin
-        .from('user_branch_permissions')
-        .delete()
-        .eq('user_id', userId);
-
-      // Add new permissions
-      if (branches.length > 0) {
-        const branchPermissions = branches.map((branch: string) => ({
-          user_id: userId,
-          branch_name: branch,
-        }));
-
-        const { error: branchError } = await supabaseAdmin
-          .from('user_branch_permissions')
-          .insert(branchPermissions);
-
-        if (branchError) {
-          console.error('Failed to update branch permissions:', branchError);
-        }
-      }
-    }
+    // Replace access grants if provided, in one transaction so a failure keeps
+    // the old grants rather than leaving the user with none
+    if (parsedGrants) {
+      const { error: grantsError } = await supabaseAdmin
+        .rpc('replace_user_access_grants', { p_user_id: userId, p_grants: parsedGrants.grants });
 
-    // Update department permissions if provided
-    if (departments !== undefined) {
-      // Delete existing permissions
-      await supabaseAdmin
-        .from('user_department_permissions')
-        .delete()
-        .eq('user_id', userId);
-
-      // Add new permissions
-      if (departments.length > 0) {
-        const departmentPermissions = departments.map((department: string) => ({
-          user_id: userId,
-          department_name: department,
-        }));
-
-        const { error: departmentError } = await supabaseAdmin
-          .from('user_department_permissions')
-          .insert(departmentPermissions);
-
-        if (departmentError) {
-          console.error('Failed to update department permissions:', departmentError);
-        }
+      if (grantsError) {
+        throw new Error(`Failed to update access grants: ${grantsError.message}`);
       }
     }
 
-    // Fetch updated permissions
-    const { data: branchPermissions } = await supabaseAdmin
-      .from('user_branch_permissions')
-      .select('branch_name')
+    // Fetch updated grants
+    const { data: grants } = await supabaseAdmin
+      .from('user_access_grants')
+      .select('branch, department')
       .eq('user_id', userId);
 
-    const { data: departmentPermissions } = await supabaseAdmin
-      .from('user_department_permissions')
-      .select('department_name')
-      .eq('user_id', userId);
+    const actor = auditActor(session.user);
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    for (const field of AUDITED_USER_FIELDS) {
+      if (before && updateData[field] !== undefined && before[field] !== updateData[field]) {
+        changes[field] = { from: before[field], to: updateData[field] };
+      }
+    }
+    if (Object.keys(changes).length > 0) {
+      await recordAuditEvent({
+        actor,
+        action: 'user.update',
+        entityType: 'user',
+        entityId: userId,
+        summary: `Updated ${user.email}: ${Object.keys(changes).join(', ')}`,
+        details: changes,
+      });
+    }
+
+    const oldGrants: AccessGrant[] = beforeGrants || [];
+    const newGrants: AccessGrant[] = grants || [];
+    if (!sameGrants(oldGrants, newGrants)) {
+      await recordAuditEvent({
+        actor,
+        action: 'user.permissions',
+        entityType: 'user',
+        entityId: userId,
+        summary: `Changed permissions for ${user.email}`,
+        details: {
+          grants: { from: oldGrants.map(formatAccessGrant), to: newGrants.map(formatAccessGrant) },
+        },
+      });
+    }
 
     return NextResponse.json({
       success: true,
       user: {
         ...user,
-        branches: branchPermissions?.map(bp => bp.branch_name) || [],
-        departments: departmentPermissions?.map(dp => dp.department_name) || [],
+        grants: newGrants,
       },
     });
 
@@ -148,14 +168,20 @@ export async function DELETE(
     }
 
     const { data: authUser } = await supabaseAdmin
-      .from('users').select('is_admin')
+      .from('users').select('role, can_send_slack')
       .eq('email', session.user.email!.toLowerCase()).single();
-    if (!authUser || !authUser.is_admin) {
+    if (!authUser || !hasCapability(authUser, 'manage_users')) {
       return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
     }
 
     const { id: userId } = await params;
 
+    const { data: deleted } = await supabaseAdmin
+      .from('users')
+      .select('email, full_name')
+      .eq('id', userId)
+      .single();
+
     // Delete user (cascade will handle permissions)
     const { error } = await supabaseAdmin
       .from('users')
@@ -166,6 +192,15 @@ export async function DELETE(
       throw new Error(`Failed to delete user: ${error.message}`);
     }
 
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'user.delete',
+      entityType: 'user',
+      entityId: userId,
+      summary: `Deleted user ${deleted?.email || userId}`,
+      details: deleted ? { email: deleted.email, full_name: deleted.full_name } : undefined,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'User deleted successfully',
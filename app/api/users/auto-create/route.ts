@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { hasCapability } from '@/types/user';
 
 export async function POST() {
   try {
@@ -15,14 +17,14 @@ export async function POST() {
       );
     }
 
-    // Verify user is admin
+    // Verify user can manage users
     const { data: user } = await supabaseAdmin
       .from('users')
-      .select('is_admin')
+      .select('role, can_send_slack')
       .eq('email', session.user.email.toLowerCase())
       .single();
 
-    if (!user || !user.is_admin) {
+    if (!user || !hasCapability(user, 'manage_users')) {
       return NextResponse.json(
         { success: false, error: 'Admin access required' },
         { status: 403 }
@@ -98,7 +100,7 @@ export async function POST() {
           .insert({
             email: email,
             full_name: purchaser,
-            is_admin: false,
+            role: 'viewer',
             is_active: true,
           })
           .select()
@@ -125,6 +127,16 @@ export async function POST() {
     console.log('=== Auto-Create Users Completed ===');
     console.log(`Created: ${created}, Skipped: ${skipped}, Errors: ${errors.length}`);
 
+    if (created > 0) {
+      await recordAuditEvent({
+        actor: auditActor(session.user),
+        action: 'user.auto_create',
+        entityType: 'user',
+        summary: `Auto-created ${created} user${created === 1 ? '' : 's'} from purchasers`,
+        details: { created, skipped, errorCount: errors.length },
+      });
+    }
+
     return NextResponse.json({
       success: true,
       message: `Created ${created} users from purchasers`,
@@ -2,6 +2,9 @@ import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { parseAccessGrants } from '@/lib/permissions';
+import { formatAccessGrant, hasCapability, USER_ROLE_LABELS, USER_ROLES, UserRole } from '@/types/user';
 
 export async function GET() {
   try {
@@ -11,9 +14,9 @@ export async function GET() {
     }
 
     const { data: authUser } = await supabaseAdmin
-      .from('users').select('is_admin')
+      .from('users').select('role, can_send_slack')
       .eq('email', session.user.email!.toLowerCase()).single();
-    if (!authUser || !authUser.is_admin) {
+    if (!authUser || !hasCapability(authUser, 'manage_users')) {
       return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
     }
 
@@ -27,33 +30,21 @@ export async function GET() {
       throw new Error(`Failed to fetch users: ${usersError.message}`);
     }
 
-    // Fetch all branch permissions
-    const { data: branchPermissions, error: branchError } = await supabaseAdmin
-      .from('user_branch_permissions')
-      .select('*');
+    // Fetch all access grants
+    const { data: grants, error: grantsError } = await supabaseAdmin
+      .from('user_access_grants')
+      .select('user_id, branch, department');
 
-    if (branchError) {
-      throw new Error(`Failed to fetch branch permissions: ${branchError.message}`);
+    if (grantsError) {
+      throw new Error(`Failed to fetch access grants: ${grantsError.message}`);
     }
 
-    // Fetch all department permissions
-    const { data: departmentPermissions, error: departmentError } = await supabaseAdmin
-      .from('user_department_permissions')
-      .select('*');
-
-    if (departmentError) {
-      throw new Error(`Failed to fetch department permissions: ${departmentError.message}`);
-    }
-
-    // Combine users with their permissions
+    // Combine users with their grants
     const usersWithPermissions = users.map(user => ({
       ...user,
-      branches: branchPermissions
-        .filter(bp => bp.user_id === user.id)
-        .map(bp => bp.branch_name),
-      departments: departmentPermissions
-        .filter(dp => dp.user_id === user.id)
-        .map(dp => dp.department_name),
+      grants: grants
+        .filter(grant => grant.user_id === user.id)
+        .map(grant => ({ branch: grant.branch, department: grant.department })),
     }));
 
     return NextResponse.json({
@@ -78,14 +69,14 @@ export async function POST(request: Request) {
     }
 
     const { data: authUser } = await supabaseAdmin
-      .from('users').select('is_admin')
+      .from('users').select('role, can_send_slack')
       .eq('email', session.user.email!.toLowerCase()).single();
-    if (!authUser || !authUser.is_admin) {
+    if (!authUser || !hasCapability(authUser, 'manage_users')) {
       return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
     }
 
     const body = await request.json();
-    const { email, full_name, is_admin, can_send_slack, branches, departments } = body;
+    const { email, full_name, role, can_send_slack, is_finance_approver } = body;
 
     if (!email || !full_name) {
       return NextResponse.json(
@@ -94,6 +85,13 @@ export async function POST(request: Request) {
       );
     }
 
+    if (role !== undefined && !USER_ROLES.includes(role)) {
+      return NextResponse.json(
+        { success: false, error: `role must be one of: ${USER_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     // Normalize + validate the email against the allowed domain. The session/jwt
     // callbacks look users up by lowercased email, so a mixed-case or off-domain
     // row would never match a real login (silent dead row / allowlist bypass).
@@ -106,9 +104,11 @@ export async function POST(request: Request) {
       );
     }
 
-    // Coerce permission lists to string arrays of known-shape values.
-    const branchList: string[] = Array.isArray(branches) ? branches.filter((b: unknown) => typeof b === 'string') : [];
-    const departmentList: string[] = Array.isArray(departments) ? departments.filter((d: unknown) => typeof d === 'string') : [];
+    const parsedGrants = parseAccessGrants(body.grants ?? []);
+    if (!parsedGrants.ok) {
+      return NextResponse.json({ success: false, error: parsedGrants.error }, { status: 400 });
+    }
+    const grantList = parsedGrants.grants;
 
     // Create user
     const { data: user, error: userError } = await supabaseAdmin
@@ -116,9 +116,10 @@ export async function POST(request: Request) {
       .insert({
         email: normalizedEmail,
         full_name,
-        is_admin: is_admin || false,
+        role: role || 'viewer',
         is_active: true,
         can_send_slack: can_send_slack || false,
+        is_finance_approver: is_finance_approver || false,
       })
       .select()
       .single();
@@ -127,44 +128,36 @@ export async function POST(request: Request) {
       throw new Error(`Failed to create user: ${userError.message}`);
     }
 
-    // Add branch permissions
-    if (branchList.length > 0) {
-      const branchPermissions = branchList.map((branch: string) => ({
-        user_id: user.id,
-        branch_name: branch,
-      }));
-
-      const { error: branchError } = await supabaseAdmin
-        .from('user_branch_permissions')
-        .insert(branchPermissions);
+    // Add access grants
+    if (grantList.length > 0) {
+      const { error: grantsError } = await supabaseAdmin
+        .from('user_access_grants')
+        .insert(grantList.map(grant => ({ user_id: user.id, ...grant })));
 
-      if (branchError) {
-        console.error('Failed to add branch permissions:', branchError);
+      if (grantsError) {
+        throw new Error(`Created user ${normalizedEmail} but failed to add access grants: ${grantsError.message}`);
       }
     }
 
-    // Add department permissions
-    if (departmentList.length > 0) {
-      const departmentPermissions = departmentList.map((department: string) => ({
-        user_id: user.id,
-        department_name: department,
-      }));
-
-      const { error: departmentError } = await supabaseAdmin
-        .from('user_department_permissions')
-        .insert(departmentPermissions);
-
-      if (departmentError) {
-        console.error('Failed to add department permissions:', departmentError);
-      }
-    }
+    await recordAuditEvent({
+      actor: auditActor(session.user),
+      action: 'user.create',
+      entityType: 'user',
+      entityId: user.id,
+      summary: `Created user ${normalizedEmail} (${USER_ROLE_LABELS[user.role as UserRole]})`,
+      details: {
+        role: user.role,
+        can_send_slack: user.can_send_slack,
+        is_finance_approver: user.is_finance_approver,
+        grants: grantList.map(formatAccessGrant),
+      },
+    });
 
     return NextResponse.json({
       success: true,
       user: {
         ...user,
-        branches: branchList,
-        departments: departmentList,
+        grants: grantList,
       },
     });
 
@@ -1,18 +1,56 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { UserWithPermissions } from '@/types/user';
+import {
+  AccessGrant,
+  CAPABILITY_LABELS,
+  formatAccessGrant,
+  isSameAccessGrant,
+  ROLE_CAPABILITIES,
+  USER_ROLE_DESCRIPTIONS,
+  USER_ROLE_LABELS,
+  USER_ROLES,
+  UserRole,
+  UserWithPermissions,
+} from '@/types/user';
+import { Branch, flattenBranchTree } from '@/types/branch';
 import SlackSyncButton from './SlackSyncButton';
 import AutoCreateUsersButton from './AutoCreateUsersButton';
+import ExclusionRulesPanel from './ExclusionRulesPanel';
+import DigestSchedulesPanel from './DigestSchedulesPanel';
+import EscalationRulesPanel from './EscalationRulesPanel';
+import ApprovalPoliciesPanel from './ApprovalPoliciesPanel';
+import DelegationsPanel from './DelegationsPanel';
+import SlackChannelRoutesPanel from './SlackChannelRoutesPanel';
+import SlackNotificationLogPanel from './SlackNotificationLogPanel';
+import AuditLogPanel from './AuditLogPanel';
+import BranchesPanel from './BranchesPanel';
 import { toast } from 'sonner';
 
 interface AdminDashboardProps {
   availableBranches: string[];
+  branches: Branch[];
   availableDepartments: string[];
   onUsersChange?: () => void;
 }
 
-export default function AdminDashboard({ availableBranches, availableDepartments, onUsersChange }: AdminDashboardProps) {
+type AdminSection = 'users' | 'branches' | 'exclusions' | 'channels' | 'digests' | 'escalations' | 'approvals' | 'delegations' | 'notifications' | 'audit';
+
+const ADMIN_SECTIONS: Array<{ key: AdminSection; label: string }> = [
+  { key: 'users', label: 'Users' },
+  { key: 'branches', label: 'Branches' },
+  { key: 'exclusions', label: 'Exclusion Rules' },
+  { key: 'channels', label: 'Slack Channels' },
+  { key: 'digests', label: 'Slack Digests' },
+  { key: 'escalations', label: 'Escalations' },
+  { key: 'approvals', label: 'Approvals' },
+  { key: 'delegations', label: 'Delegations' },
+  { key: 'notifications', label: 'Slack Log' },
+  { key: 'audit', label: 'Audit' },
+];
+
+export default function AdminDashboard({ availableBranches, branches, availableDepartments, onUsersChange }: AdminDashboardProps) {
+  const [section, setSection] = useState<AdminSection>('users');
   const [users, setUsers] = useState<UserWithPermissions[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -24,12 +62,14 @@ export default function AdminDashboard({ availableBranches, availableDepartments
   const [formData, setFormData] = useState({
     email: '',
     full_name: '',
-    is_admin: false,
+    role: 'viewer' as UserRole,
     is_active: true,
     can_send_slack: false,
-    branches: [] as string[],
-    departments: [] as string[],
+    is_finance_approver: false,
+    grants: [] as AccessGrant[],
   });
+  // Grant being composed in the user form; '' means any
+  const [newGrant, setNewGrant] = useState({ branch: '', department: '' });
 
   useEffect(() => {
     fetchUsers();
@@ -159,12 +199,13 @@ export default function AdminDashboard({ availableBranches, availableDepartments
     setFormData({
       email: '',
       full_name: '',
-      is_admin: false,
+      role: 'viewer',
       is_active: true,
       can_send_slack: false,
-      branches: [],
-      departments: [],
+      is_finance_approver: false,
+      grants: [],
     });
+    setNewGrant({ branch: '', department: '' });
   };
 
   const openEditModal = (user: UserWithPermissions) => {
@@ -172,64 +213,165 @@ export default function AdminDashboard({ availableBranches, availableDepartments
     setFormData({
       email: user.email,
       full_name: user.full_name,
-      is_admin: user.is_admin,
+      role: user.role,
       is_active: user.is_active,
       can_send_slack: user.can_send_slack,
-      branches: user.branches,
-      departments: user.departments,
+      is_finance_approver: user.is_finance_approver,
+      grants: user.grants,
     });
+    setNewGrant({ branch: '', department: '' });
   };
 
-  const toggleBranch = (branch: string) => {
-    setFormData(prev => ({
-      ...prev,
-      branches: prev.branches.includes(branch)
-        ? prev.branches.filter(b => b !== branch)
-        : [...prev.branches, branch],
-    }));
+  const addGrant = () => {
+    const grant: AccessGrant = { branch: newGrant.branch || null, department: newGrant.department || null };
+    setFormData(prev => (
+      prev.grants.some(existing => isSameAccessGrant(existing, grant))
+        ? prev
+        : { ...prev, grants: [...prev.grants, grant] }
+    ));
+    setNewGrant({ branch: '', department: '' });
   };
 
-  const toggleDepartment = (department: string) => {
+  const removeGrant = (grant: AccessGrant) => {
     setFormData(prev => ({
       ...prev,
-      departments: prev.departments.includes(department)
-        ? prev.departments.filter(d => d !== department)
-        : [...prev.departments, department],
+      grants: prev.grants.filter(existing => !isSameAccessGrant(existing, grant)),
     }));
   };
 
-  const selectAllBranches = () => {
-    setFormData(prev => ({
-      ...prev,
-      branches: prev.branches.length === availableBranches.length ? [] : [...availableBranches],
-    }));
-  };
+  const sectionNav = (
+    <div className="flex gap-2 border-b border-gray-200">
+      {ADMIN_SECTIONS.map(s => (
+        <button
+          key={s.key}
+          onClick={() => setSection(s.key)}
+          className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+            section === s.key ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          {s.label}
+        </button>
+      ))}
+    </div>
+  );
 
-  const selectAllDepartments = () => {
-    setFormData(prev => ({
-      ...prev,
-      departments: prev.departments.length === availableDepartments.length ? [] : [...availableDepartments],
-    }));
-  };
+  if (section === 'branches') {
+    return (
+      <div className="space-y-6">
+        {sectionNav}
+        <BranchesPanel />
+      </div>
+    );
+  }
+
+  if (section === 'exclusions') {
+    return (
+      <div className="space-y-6">
+        {sectionNav}
+        <ExclusionRulesPanel
+          availableBranches={availableBranches}
+          availableDepartments={availableDepartments}
+        />
+      </div>
+    );
+  }
+
+  if (section === 'channels') {
+    return (
+      <div className="space-y-6">
+        {sectionNav}
+        <SlackChannelRoutesPanel availableBranches={availableBranches} />
+      </div>
+    );
+  }
+
+  if (section === 'digests') {
+    return (
+      <div className="space-y-6">
+        {sectionNav}
+        <DigestSchedulesPanel
+          availableBranches={availableBranches}
+          availableDepartments={availableDepartments}
+        />
+      </div>
+    );
+  }
+
+  if (section === 'escalations') {
+    return (
+      <div className="space-y-6">
+        {sectionNav}
+        <EscalationRulesPanel availableBranches={availableBranches} users={users} />
+      </div>
+    );
+  }
+
+  if (section === 'approvals') {
+    return (
+      <div className="space-y-6">
+        {sectionNav}
+        <ApprovalPoliciesPanel
+          availableBranches={availableBranches}
+          availableDepartments={availableDepartments}
+          users={users}
+        />
+      </div>
+    );
+  }
+
+  if (section === 'delegations') {
+    return (
+      <div className="space-y-6">
+        {sectionNav}
+        <DelegationsPanel users={users} />
+      </div>
+    );
+  }
+
+  if (section === 'notifications') {
+    return (
+      <div className="space-y-6">
+        {sectionNav}
+        <SlackNotificationLogPanel />
+      </div>
+    );
+  }
+
+  if (section === 'audit') {
+    return (
+      <div className="space-y-6">
+        {sectionNav}
+        <AuditLogPanel />
+      </div>
+    );
+  }
 
   if (loading) {
     return (
-      <div className="flex items-center justify-center py-12">
-        <div className="text-gray-700">Loading users...</div>
+      <div className="space-y-6">
+        {sectionNav}
+        <div className="flex items-center justify-center py-12">
+          <div className="text-gray-700">Loading users...</div>
+        </div>
       </div>
     );
   }
 
   if (error) {
     return (
-      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-        <p className="text-red-800">Error: {error}</p>
+      <div className="space-y-6">
+        {sectionNav}
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">Error: {error}</p>
+        </div>
       </div>
     );
   }
 
   return (
     <div className="space-y-6">
+      {sectionNav}
+
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
@@ -278,10 +420,7 @@ export default function AdminDashboard({ availableBranches, availableDepartments
                   Status
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
-                  Branches
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
-                  Departments
+                  Access
                 </th>
                 <th className="px-6 py-3 text-center text-xs font-medium text-gray-700 uppercase tracking-wider">
                   Actions
@@ -315,13 +454,13 @@ export default function AdminDashboard({ availableBranches, availableDepartments
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                      user.is_admin ? 'bg-purple-100 text-purple-800' : 'bg-gray-100 text-gray-800'
-                    }`}>
-                      {user.is_admin ? 'Admin' : 'User'}
+                      user.role === 'admin' ? 'bg-purple-100 text-purple-800' : 'bg-gray-100 text-gray-800'
+                    }`} title={USER_ROLE_DESCRIPTIONS[user.role]}>
+                      {USER_ROLE_LABELS[user.role]}
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-center">
-                    {user.is_admin ? (
+                    {ROLE_CAPABILITIES[user.role].includes('notify') ? (
                       <span className="text-xs text-gray-400 italic">Always</span>
                     ) : (
                       <button
@@ -347,23 +486,16 @@ export default function AdminDashboard({ availableBranches, availableDepartments
                   </td>
                   <td className="px-6 py-4">
                     <div className="text-sm text-gray-700">
-                      {user.is_admin ? (
-                        <span className="italic">All branches</span>
-                      ) : user.branches.length > 0 ? (
+                      {user.role === 'admin' ? (
+                        <span className="italic">All branches and departments</span>
+                      ) : user.grants.length > 0 ? (
                         <div className="flex flex-wrap gap-1">
-                          {user.branches.map(branch => (
-                            <span 
-                              key={branch} 
-                              className={`inline-flex items-center px-2 py-0.5 rounded text-xs ${
-                                branch === 'Phoenix - North' ? 'bg-green-100 text-green-800' :
-                                branch === 'Phoenix - SouthEast' ? 'bg-red-100 text-red-800' :
-                                branch === 'Phoenix - SouthWest' ? 'bg-blue-100 text-blue-800' :
-                                branch === 'Las Vegas' ? 'bg-yellow-100 text-yellow-800' :
-                                branch === 'Corporate' ? 'bg-gray-100 text-gray-800' :
-                                'bg-purple-100 text-purple-800'
-                              }`}
+                          {user.grants.map(grant => (
+                            <span
+                              key={`${grant.branch ?? '*'}|${grant.department ?? '*'}`}
+                              className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-green-100 text-green-800"
                             >
-                              {branch}
+                              {formatAccessGrant(grant)}
                             </span>
                           ))}
                         </div>
@@ -372,23 +504,6 @@ export default function AdminDashboard({ availableBranches, availableDepartments
                       )}
                     </div>
                   </td>
-                  <td className="px-6 py-4">
-                    <div className="text-sm text-gray-700">
-                      {user.is_admin ? (
-                        <span className="italic">All departments</span>
-                      ) : user.departments.length > 0 ? (
-                        <div className="flex flex-wrap gap-1">
-                          {user.departments.map(dept => (
-                            <span key={dept} className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-green-100 text-green-800">
-                              {dept}
-                            </span>
-                          ))}
-                        </div>
-                      ) : (
-                        <span className="text-gray-700">No restrictions</span>
-                      )}
-                    </div>
-                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-center">
                     <button
                       onClick={() => openEditModal(user)}
@@ -448,16 +563,28 @@ export default function AdminDashboard({ availableBranches, availableDepartments
                 />
               </div>
 
-              <div className="flex gap-6">
-                <label className="flex items-center gap-2">
-                  <input
-                    type="checkbox"
-                    checked={formData.is_admin}
-                    onChange={(e) => setFormData({ ...formData, is_admin: e.target.checked })}
-                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-                  />
-                  <span className="text-sm font-medium text-gray-700">Admin</span>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Role
                 </label>
+                <select
+                  value={formData.role}
+                  onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {USER_ROLES.map(role => (
+                    <option key={role} value={role}>{USER_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-700 mt-1">
+                  {USER_ROLE_DESCRIPTIONS[formData.role]}
+                  {ROLE_CAPABILITIES[formData.role].length > 0 && (
+                    <> ({ROLE_CAPABILITIES[formData.role].map(capability => CAPABILITY_LABELS[capability]).join(', ')})</>
+                  )}
+                </p>
+              </div>
+
+              <div className="flex gap-6">
 
                 <label className="flex items-center gap-2">
                   <input
@@ -469,7 +596,7 @@ export default function AdminDashboard({ availableBranches, availableDepartments
                   <span className="text-sm font-medium text-gray-700">Active</span>
                 </label>
 
-                {!formData.is_admin && (
+                {!ROLE_CAPABILITIES[formData.role].includes('notify') && (
                   <label className="flex items-center gap-2">
                     <input
                       type="checkbox"
@@ -480,75 +607,91 @@ export default function AdminDashboard({ availableBranches, availableDepartments
                     <span className="text-sm font-medium text-gray-700">Can Send Slack</span>
                   </label>
                 )}
+
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.is_finance_approver}
+                    onChange={(e) => setFormData({ ...formData, is_finance_approver: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-sm font-medium text-gray-700">Finance Approver</span>
+                </label>
               </div>
 
-              {!formData.is_admin && (
-                <>
-                  <div>
-                    <div className="flex items-center justify-between mb-2">
-                      <label className="block text-sm font-medium text-gray-700">
-                        Branch Access
-                      </label>
-                      <button
-                        type="button"
-                        onClick={selectAllBranches}
-                        className="text-xs text-blue-600 hover:text-blue-800"
+              {formData.role !== 'admin' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Access
+                  </label>
+                  <div className="p-3 border border-gray-300 rounded-md space-y-3">
+                    {formData.grants.length > 0 ? (
+                      <div className="flex flex-wrap gap-2">
+                        {formData.grants.map(grant => (
+                          <span
+                            key={`${grant.branch ?? '*'}|${grant.department ?? '*'}`}
+                            className="inline-flex items-center gap-1 px-2 py-1 rounded text-xs bg-green-100 text-green-800"
+                          >
+                            {formatAccessGrant(grant)}
+                            <button
+                              type="button"
+                              onClick={() => removeGrant(grant)}
+                              className="text-green-800 hover:text-red-700"
+                              aria-label={`Remove ${formatAccessGrant(grant)}`}
+                            >
+                              ×
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-700">No access yet</p>
+                    )}
+                    <div className="flex gap-2">
+                      <select
+                        value={newGrant.department}
+                        onChange={(e) => setNewGrant({ ...newGrant, department: e.target.value })}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                       >
-                        {formData.branches.length === availableBranches.length ? 'Deselect All' : 'Select All'}
-                      </button>
-                    </div>
-                    <div className="grid grid-cols-2 gap-2 p-3 border border-gray-300 rounded-md max-h-40 overflow-y-auto">
-                      {availableBranches.map(branch => (
-                        <label key={branch} className="flex items-center gap-2 text-sm">
-                          <input
-                            type="checkbox"
-                            checked={formData.branches.includes(branch)}
-                            onChange={() => toggleBranch(branch)}
-                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-                          />
-                          <span className="text-gray-700">{branch}</span>
-                        </label>
-                      ))}
-                    </div>
-                    <p className="text-xs text-gray-700 mt-1">
-                      Leave empty for no access
-                    </p>
-                  </div>
-
-                  <div>
-                    <div className="flex items-center justify-between mb-2">
-                      <label className="block text-sm font-medium text-gray-700">
-                        Department Restrictions
-                      </label>
+                        <option value="">All departments</option>
+                        {availableDepartments.map(department => (
+                          <option key={department} value={department}>{department}</option>
+                        ))}
+                      </select>
+                      <span className="self-center text-sm text-gray-700">in</span>
+                      <select
+                        value={newGrant.branch}
+                        onChange={(e) => setNewGrant({ ...newGrant, branch: e.target.value })}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">All branches</option>
+                        {flattenBranchTree(branches).map(({ branch, depth }) => (
+                          <option key={branch.id} value={branch.name}>
+                            {'\u00A0\u00A0'.repeat(depth)}{branch.name}
+                          </option>
+                        ))}
+                        {availableBranches
+                          .filter(name => !branches.some(branch => branch.name === name))
+                          .map(branch => (
+                            <option key={branch} value={branch}>{branch}</option>
+                          ))}
+                      </select>
                       <button
                         type="button"
-                        onClick={selectAllDepartments}
-                        className="text-xs text-blue-600 hover:text-blue-800"
+                        onClick={addGrant}
+                        className="px-3 py-2 text-sm font-medium text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 transition-colors"
                       >
-                        {formData.departments.length === availableDepartments.length ? 'Deselect All' : 'Select All'}
+                        Add
                       </button>
                     </div>
-                    <div className="grid grid-cols-2 gap-2 p-3 border border-gray-300 rounded-md max-h-40 overflow-y-auto">
-                      {availableDepartments.map(department => (
-                        <label key={department} className="flex items-center gap-2 text-sm">
-                          <input
-                            type="checkbox"
-                            checked={formData.departments.includes(department)}
-                            onChange={() => toggleDepartment(department)}
-                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-                          />
-                          <span className="text-gray-700">{department}</span>
-                        </label>
-                      ))}
-                    </div>
-                    <p className="text-xs text-gray-700 mt-1">
-                      Leave empty for no department restrictions
-                    </p>
                   </div>
-                </>
+                  <p className="text-xs text-gray-700 mt-1">
+                    Each entry is a department and branch the user can see together; a region includes the branches under it. Leave empty for no access.
+                  </p>
+                </div>
               )}
 
-              {formData.is_admin && (
+              {formData.role === 'admin' && (
                 <div className="bg-purple-50 border border-purple-200 rounded-md p-3">
                   <p className="text-sm text-purple-800">
                     <strong>Admin users</strong> have access to all branches and departments automatically.
@@ -0,0 +1,531 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import {
+  ApprovalPolicy,
+  ApprovalPolicyStep,
+  ApproverRole,
+  APPROVER_ROLES,
+  APPROVER_ROLE_LABELS,
+  DepartmentManager,
+} from '@/types/approval';
+import { formatCurrency } from '@/lib/format';
+import { User } from '@/types/user';
+
+interface ApprovalPoliciesPanelProps {
+  availableBranches: string[];
+  availableDepartments: string[];
+  users: User[];
+}
+
+// Amounts are edited as text so a blank maximum can mean "no limit"
+interface StepForm {
+  approver_role: ApproverRole;
+  min_amount: string;
+  max_amount: string;
+}
+
+const emptyStep: StepForm = { approver_role: 'department_manager', min_amount: '0', max_amount: '' };
+
+const emptyForm = {
+  name: '',
+  branch: '',
+  department: '',
+  steps: [emptyStep],
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function describeRange(step: ApprovalPolicyStep): string {
+  const min = formatCurrency(step.min_amount);
+  if (step.max_amount === null) return step.min_amount === 0 ? 'Any amount' : `${min} and up`;
+  return `${min} to under ${formatCurrency(step.max_amount)}`;
+}
+
+export default function ApprovalPoliciesPanel({ availableBranches, availableDepartments, users }: ApprovalPoliciesPanelProps) {
+  const [policies, setPolicies] = useState<ApprovalPolicy[]>([]);
+  const [managers, setManagers] = useState<DepartmentManager[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingPolicy, setEditingPolicy] = useState<ApprovalPolicy | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  const fetchPolicies = async () => {
+    try {
+      setLoading(true);
+      const [policiesResponse, managersResponse] = await Promise.all([
+        fetch('/api/approval-policies'),
+        fetch('/api/department-managers'),
+      ]);
+      const policiesData = await policiesResponse.json();
+      const managersData = await managersResponse.json();
+
+      if (policiesData.success && managersData.success) {
+        setPolicies(policiesData.policies);
+        setManagers(managersData.managers);
+      } else {
+        setError(policiesData.error || managersData.error);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeModal = () => {
+    setShowCreateModal(false);
+    setEditingPolicy(null);
+    setFormData(emptyForm);
+  };
+
+  const openEditModal = (policy: ApprovalPolicy) => {
+    setEditingPolicy(policy);
+    setFormData({
+      name: policy.name,
+      branch: policy.branch || '',
+      department: policy.department || '',
+      steps: policy.steps.map(step => ({
+        approver_role: step.approver_role,
+        min_amount: String(step.min_amount),
+        max_amount: step.max_amount === null ? '' : String(step.max_amount),
+      })),
+    });
+  };
+
+  const updateStep = (index: number, changes: Partial<StepForm>) => {
+    setFormData(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => i === index ? { ...step, ...changes } : step),
+    }));
+  };
+
+  const moveStep = (index: number, offset: -1 | 1) => {
+    setFormData(prev => {
+      const steps = [...prev.steps];
+      [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+      return { ...prev, steps };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      toast.warning('Name is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(editingPolicy ? `/api/approval-policies/${editingPolicy.id}` : '/api/approval-policies', {
+        method: editingPolicy ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          branch: formData.branch,
+          department: formData.department,
+          steps: formData.steps.map(step => ({
+            approver_role: step.approver_role,
+            min_amount: step.min_amount.trim() === '' ? 0 : Number(step.min_amount),
+            max_amount: step.max_amount.trim() === '' ? null : Number(step.max_amount),
+          })),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setPolicies(prev => editingPolicy
+          ? prev.map(p => p.id === data.policy.id ? data.policy : p)
+          : [...prev, data.policy]);
+        toast.success(editingPolicy ? 'Approval policy updated' : 'Approval policy created');
+        closeModal();
+      } else {
+        toast.error(`Failed to save policy: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (policy: ApprovalPolicy) => {
+    const newValue = !policy.is_active;
+    // Optimistic update
+    setPolicies(prev => prev.map(p => p.id === policy.id ? { ...p, is_active: newValue } : p));
+    try {
+      const response = await fetch(`/api/approval-policies/${policy.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_active: newValue }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setPolicies(prev => prev.map(p => p.id === policy.id ? { ...p, is_active: !newValue } : p));
+        toast.error(`Failed to update: ${data.error}`);
+      }
+    } catch (err: any) {
+      setPolicies(prev => prev.map(p => p.id === policy.id ? { ...p, is_active: !newValue } : p));
+      toast.error(`Failed to update: ${err.message}`);
+    }
+  };
+
+  const handleDelete = async (policy: ApprovalPolicy) => {
+    if (!confirm(`Delete the "${policy.name}" approval policy? Expenses it covers fall back to single-step approval.`)) return;
+
+    try {
+      const response = await fetch(`/api/approval-policies/${policy.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        setPolicies(prev => prev.filter(p => p.id !== policy.id));
+      } else {
+        toast.error(`Failed to delete policy: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    }
+  };
+
+  const handleManagerChange = async (department: string, userId: string) => {
+    try {
+      const response = await fetch('/api/department-managers', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ department, user_id: userId || null }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setManagers(prev => [
+          ...prev.filter(m => m.department !== department),
+          ...(data.manager ? [data.manager] : []),
+        ]);
+        toast.success(userId ? `Manager set for ${department}` : `Manager cleared for ${department}`);
+      } else {
+        toast.error(`Failed to update manager: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-gray-700">Loading approval policies...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-800">Error: {error}</p>
+      </div>
+    );
+  }
+
+  const activeUsers = users.filter(u => u.is_active);
+  const financeApprovers = activeUsers.filter(u => u.is_finance_approver);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Approval Policies</h2>
+          <p className="text-sm text-gray-700 mt-1">
+            Who approves an expense, step by step, by branch, department and amount. Expenses no policy covers can be approved by anyone who can see them.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          + Add Policy
+        </button>
+      </div>
+
+      {/* Policies Table */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Policy
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Applies To
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Steps
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Active
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {policies.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-700">
+                    No approval policies. Every expense is approved in a single step.
+                  </td>
+                </tr>
+              ) : policies.map(policy => (
+                <tr key={policy.id} className={`hover:bg-gray-50 align-top ${policy.is_active ? '' : 'opacity-60'}`}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {policy.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {policy.branch || 'Any branch'}
+                    <div className="text-xs text-gray-700">{policy.department || 'Any department'}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    <ol className="space-y-1">
+                      {policy.steps.map((step, index) => (
+                        <li key={index}>
+                          {index + 1}. {APPROVER_ROLE_LABELS[step.approver_role]}
+                          <span className="text-xs text-gray-700"> · {describeRange(step)}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center">
+                    <button
+                      onClick={() => handleToggleActive(policy)}
+                      className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                        policy.is_active ? 'bg-blue-600' : 'bg-gray-300'
+                      }`}
+                      title={policy.is_active ? 'Pause policy' : 'Resume policy'}
+                    >
+                      <span className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform ${
+                        policy.is_active ? 'translate-x-[18px]' : 'translate-x-[2px]'
+                      }`} />
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center">
+                    <button
+                      onClick={() => openEditModal(policy)}
+                      className="text-blue-600 hover:text-blue-800 text-sm font-medium mr-3"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(policy)}
+                      className="text-red-600 hover:text-red-800 text-sm font-medium"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Department Managers */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Department Managers</h3>
+        <p className="text-sm text-gray-700 mt-1 mb-3">
+          Who approves &quot;Department manager&quot; steps. Branch managers are set under Escalations. When a step has nobody assigned, admins approve it.
+        </p>
+        <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-200">
+          {availableDepartments.map(department => {
+            const manager = managers.find(m => m.department === department);
+            return (
+              <div key={department} className="flex items-center justify-between px-6 py-3 gap-4">
+                <div className="text-sm font-medium text-gray-900">{department}</div>
+                <select
+                  value={manager?.user_id || ''}
+                  onChange={(e) => handleManagerChange(department, e.target.value)}
+                  className="w-64 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">No manager</option>
+                  {activeUsers.map(u => (
+                    <option key={u.id} value={u.id}>{u.full_name}</option>
+                  ))}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-sm text-gray-700 mt-3">
+          <span className="font-medium">Finance approvers:</span>{' '}
+          {financeApprovers.length > 0
+            ? financeApprovers.map(u => u.full_name).join(', ')
+            : 'none yet. Tick "Finance Approver" on a user to add one.'}
+        </p>
+      </div>
+
+      {/* Create/Edit Modal */}
+      {(showCreateModal || editingPolicy) && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">
+                {editingPolicy ? `Edit Policy: ${editingPolicy.name}` : 'New Approval Policy'}
+              </h3>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g. Standard chain"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Branch
+                  </label>
+                  <select
+                    value={formData.branch}
+                    onChange={(e) => setFormData({ ...formData, branch: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Any branch</option>
+                    {availableBranches.map(branch => (
+                      <option key={branch} value={branch}>{branch}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Department
+                  </label>
+                  <select
+                    value={formData.department}
+                    onChange={(e) => setFormData({ ...formData, department: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Any department</option>
+                    {availableDepartments.map(department => (
+                      <option key={department} value={department}>{department}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <p className="text-xs text-gray-700 -mt-2">
+                The most specific active policy wins: branch and department, then branch, then department, then the default.
+              </p>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Steps, in order
+                </label>
+                <div className="space-y-2">
+                  {formData.steps.map((step, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="text-sm text-gray-700 w-5">{index + 1}.</span>
+                      <select
+                        value={step.approver_role}
+                        onChange={(e) => updateStep(index, { approver_role: e.target.value as ApproverRole })}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {APPROVER_ROLES.map(role => (
+                          <option key={role} value={role}>{APPROVER_ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min={0}
+                        value={step.min_amount}
+                        onChange={(e) => updateStep(index, { min_amount: e.target.value })}
+                        className="w-28 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="From $"
+                        title="Applies from this amount"
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        value={step.max_amount}
+                        onChange={(e) => updateStep(index, { max_amount: e.target.value })}
+                        className="w-28 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="No limit"
+                        title="Applies below this amount; blank for no limit"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => moveStep(index, -1)}
+                        disabled={index === 0}
+                        className="text-gray-700 hover:text-gray-900 disabled:opacity-30 px-1"
+                        title="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveStep(index, 1)}
+                        disabled={index === formData.steps.length - 1}
+                        className="text-gray-700 hover:text-gray-900 disabled:opacity-30 px-1"
+                        title="Move down"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setFormData(prev => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }))}
+                        disabled={formData.steps.length === 1}
+                        className="text-red-600 hover:text-red-800 text-sm font-medium disabled:opacity-30"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, steps: [...prev.steps, { ...emptyStep }] }))}
+                  className="mt-2 text-sm text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  + Add step
+                </button>
+                <p className="text-xs text-gray-700 mt-1">
+                  A step applies when the expense amount is at least &quot;From&quot; and below the upper limit. For example, a finance step from 10000 only joins the chain for expenses of $10,000 or more.
+                </p>
+              </div>
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={closeModal}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+              >
+                {saving ? 'Saving...' : editingPolicy ? 'Update Policy' : 'Create Policy'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import {
+  AuditAction,
+  AuditEntityType,
+  AuditEvent,
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  SYSTEM_ACTOR,
+} from '@/types/audit';
+
+const emptyFilters = {
+  actor: '',
+  action: '',
+  entityType: '',
+  from: '',
+  to: '',
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function toQuery(filters: typeof emptyFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(key, value.trim());
+  }
+  return params;
+}
+
+export default function AuditLogPanel() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState(emptyFilters);
+  // The filters behind the rows on screen, which is what Export CSV downloads
+  const [applied, setApplied] = useState(emptyFilters);
+
+  useEffect(() => {
+    fetchEvents(emptyFilters);
+  }, []);
+
+  const fetchEvents = async (nextFilters: typeof emptyFilters) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setApplied(nextFilters);
+      const response = await fetch(`/api/audit-events?${toQuery(nextFilters)}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setEvents(data.events);
+        setTruncated(data.truncated);
+      } else {
+        setError(data.error);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchEvents(filters);
+  };
+
+  const handleReset = () => {
+    setFilters(emptyFilters);
+    fetchEvents(emptyFilters);
+  };
+
+  const exportParams = toQuery(applied);
+  exportParams.set('format', 'csv');
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Audit Log</h2>
+          <p className="text-sm text-gray-700 mt-1">
+            Every change made through the dashboard, Slack or a scheduled job. Entries can't be edited or deleted.
+          </p>
+        </div>
+        <a
+          href={`/api/audit-events?${exportParams}`}
+          className="px-4 py-2 border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 transition-colors whitespace-nowrap"
+        >
+          Export CSV
+        </a>
+      </div>
+
+      {/* Filters */}
+      <form onSubmit={handleApply} className="bg-white border border-gray-200 rounded-lg p-4 grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Actor</label>
+          <input
+            type="text"
+            value={filters.actor}
+            onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+            className={inputClass}
+            placeholder="Name, email or system"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Action</label>
+          <select
+            value={filters.action}
+            onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">All</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+              <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Entity</label>
+          <select
+            value={filters.entityType}
+            onChange={(e) => setFilters({ ...filters, entityType: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">All</option>
+            {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(entityType => (
+              <option key={entityType} value={entityType}>{AUDIT_ENTITY_LABELS[entityType]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={handleReset}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">Error: {error}</p>
+        </div>
+      )}
+
+      {/* Audit Table */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  When
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Actor
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Action
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Entity
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Summary
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {loading ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-700">
+                    Loading audit log...
+                  </td>
+                </tr>
+              ) : events.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-700">
+                    No audit events match these filters.
+                  </td>
+                </tr>
+              ) : events.map(event => (
+                <tr key={event.id} className="hover:bg-gray-50 align-top">
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-700">
+                    {format(new Date(event.occurred_at), 'MMM d, yyyy h:mm a')}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-900">
+                    {event.actor_email === SYSTEM_ACTOR ? 'Automatic' : (event.actor_name || event.actor_email)}
+                    {event.actor_name && event.actor_email !== SYSTEM_ACTOR && (
+                      <div className="text-xs text-gray-500">{event.actor_email}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                    {AUDIT_ACTION_LABELS[event.action] || event.action}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                    {AUDIT_ENTITY_LABELS[event.entity_type] || event.entity_type}
+                    {event.entity_id && (
+                      <div className="text-xs text-gray-500 font-mono">{event.entity_id.substring(0, 8)}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-900">
+                    {event.summary}
+                    {event.details && (
+                      <details className="mt-1">
+                        <summary className="text-xs text-gray-500 cursor-pointer">Details</summary>
+                        <pre className="mt-1 text-xs text-gray-700 bg-gray-50 rounded p-2 whitespace-pre-wrap break-all">
+                          {JSON.stringify(event.details, null, 2)}
+                        </pre>
+                      </details>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {truncated && (
+        <p className="text-xs text-gray-700">
+          Showing the most recent {events.length} events. Narrow the filters to see older ones, or use Export CSV.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import {
+  BRANCH_SOURCE_LABELS,
+  BRANCH_SOURCES,
+  BranchSource,
+  BranchWithAliases,
+  flattenBranchTree,
+  getBranchSubtree,
+} from '@/types/branch';
+
+const emptyForm = {
+  name: '',
+  parentId: '',
+  // One source-system name per line
+  aliases: { bill: '', netsuite: '' } as Record<BranchSource, string>,
+};
+
+export default function BranchesPanel() {
+  const [branches, setBranches] = useState<BranchWithAliases[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingBranch, setEditingBranch] = useState<BranchWithAliases | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchBranches();
+  }, []);
+
+  const fetchBranches = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/branches');
+      const data = await response.json();
+
+      if (data.success) {
+        setBranches(data.branches);
+      } else {
+        setError(data.error);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditingBranch(null);
+    setFormData(emptyForm);
+    setShowModal(true);
+  };
+
+  const openEdit = (branch: BranchWithAliases) => {
+    const aliasesFor = (source: BranchSource) =>
+      branch.aliases.filter(a => a.source === source).map(a => a.alias).join('\n');
+    setEditingBranch(branch);
+    setFormData({
+      name: branch.name,
+      parentId: branch.parent_id ?? '',
+      aliases: { bill: aliasesFor('bill'), netsuite: aliasesFor('netsuite') },
+    });
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingBranch(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSave = async () => {
+    if (!editingBranch && !formData.name.trim()) {
+      toast.warning('Branch name is required');
+      return;
+    }
+
+    const aliases = BRANCH_SOURCES.flatMap(source =>
+      formData.aliases[source].split('\n').map(alias => ({ source, alias: alias.trim() })).filter(a => a.alias)
+    );
+
+    try {
+      setSaving(true);
+      const response = await fetch(editingBranch ? `/api/branches/${editingBranch.id}` : '/api/branches', {
+        method: editingBranch ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(!editingBranch && { name: formData.name }),
+          parent_id: formData.parentId || null,
+          aliases,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(editingBranch ? 'Branch updated' : 'Branch created');
+        closeModal();
+        await fetchBranches();
+      } else {
+        toast.error(`Failed to save branch: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (branch: BranchWithAliases) => {
+    if (!confirm(`Delete ${branch.name}? Expenses keep the name, but grants on it stop covering other branches.`)) return;
+
+    try {
+      const response = await fetch(`/api/branches/${branch.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        setBranches(prev => prev.filter(b => b.id !== branch.id));
+      } else {
+        toast.error(`Failed to delete branch: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-gray-700">Loading branches...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-800">Error: {error}</p>
+      </div>
+    );
+  }
+
+  // A branch can't move under itself or one of its own sub-branches
+  const excludedParents = editingBranch ? getBranchSubtree(branches, editingBranch.name) : [];
+  const parentOptions = flattenBranchTree(branches).filter(({ branch }) => !excludedParents.includes(branch.name));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Branches</h2>
+          <p className="text-sm text-gray-700 mt-1">
+            Regions and the branches under them. Access granted on a region covers its branches, and the dashboard&apos;s By Branch cards roll up the same way.
+            Bill.com and NetSuite names listed here are mapped to the branch when syncing.
+          </p>
+        </div>
+        <button
+          onClick={openCreate}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          + Add Branch
+        </button>
+      </div>
+
+      {/* Branches Table */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Branch
+                </th>
+                {BRANCH_SOURCES.map(source => (
+                  <th key={source} className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                    {BRANCH_SOURCE_LABELS[source]} Name
+                  </th>
+                ))}
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {branches.length === 0 ? (
+                <tr>
+                  <td colSpan={BRANCH_SOURCES.length + 2} className="px-6 py-8 text-center text-sm text-gray-700">
+                    No branches yet.
+                  </td>
+                </tr>
+              ) : flattenBranchTree(branches).map(({ branch, depth }) => {
+                const withAliases = branches.find(b => b.id === branch.id)!;
+                const hasChildren = branches.some(b => b.parent_id === branch.id);
+                return (
+                  <tr key={branch.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <span style={{ paddingLeft: `${depth * 1.5}rem` }} className={hasChildren ? 'font-semibold' : ''}>
+                        {depth > 0 && <span className="text-gray-400 mr-1">└</span>}
+                        {branch.name}
+                      </span>
+                    </td>
+                    {BRANCH_SOURCES.map(source => {
+                      const names = withAliases.aliases.filter(a => a.source === source).map(a => a.alias);
+                      return (
+                        <td key={source} className="px-6 py-4 text-sm text-gray-700">
+                          {names.length > 0 ? names.join(', ') : <span className="text-gray-400">Same</span>}
+                        </td>
+                      );
+                    })}
+                    <td className="px-6 py-4 whitespace-nowrap text-center text-sm font-medium space-x-3">
+                      <button
+                        onClick={() => openEdit(withAliases)}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(withAliases)}
+                        disabled={hasChildren}
+                        title={hasChildren ? 'Move or delete the branches under it first' : undefined}
+                        className="text-red-600 hover:text-red-800 disabled:text-gray-300 disabled:cursor-not-allowed"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Create/Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">
+                {editingBranch ? `Edit ${editingBranch.name}` : 'New Branch'}
+              </h3>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {!editingBranch && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Name *
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g. Phoenix - North"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="text-xs text-gray-700 mt-1">
+                    Can&apos;t be changed later: expenses, access and Slack routes refer to branches by name.
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Part of
+                </label>
+                <select
+                  value={formData.parentId}
+                  onChange={(e) => setFormData({ ...formData, parentId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Nothing (top level)</option>
+                  {parentOptions.map(({ branch, depth }) => (
+                    <option key={branch.id} value={branch.id}>
+                      {'  '.repeat(depth)}{branch.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {BRANCH_SOURCES.map(source => (
+                <div key={source}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {BRANCH_SOURCE_LABELS[source]} names
+                  </label>
+                  <textarea
+                    rows={2}
+                    value={formData.aliases[source]}
+                    onChange={(e) => setFormData({ ...formData, aliases: { ...formData.aliases, [source]: e.target.value } })}
+                    placeholder={source === 'bill' ? 'e.g. Phoenix:Phx - North' : undefined}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="text-xs text-gray-700 mt-1">
+                    One per line. Leave empty if {BRANCH_SOURCE_LABELS[source]} uses the same name.
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={closeModal}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+              >
+                {saving ? 'Saving...' : editingBranch ? 'Save Changes' : 'Create Branch'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
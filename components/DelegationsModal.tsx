@@ -0,0 +1,268 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import {
+  ApprovalDelegationWithUsers,
+  formatDelegationDates,
+  getDelegationState,
+} from '@/types/delegation';
+
+interface DelegationsModalProps {
+  onClose: () => void;
+}
+
+interface Candidate {
+  id: string;
+  full_name: string;
+}
+
+const emptyForm = {
+  delegateUserId: '',
+  startsOn: '',
+  endsOn: '',
+  reason: '',
+};
+
+export default function DelegationsModal({ onClose }: DelegationsModalProps) {
+  const [delegations, setDelegations] = useState<ApprovalDelegationWithUsers[]>([]);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [currentUserId, setCurrentUserId] = useState('');
+  const [today, setToday] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchDelegations();
+  }, []);
+
+  const fetchDelegations = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/delegations');
+      const data = await response.json();
+
+      if (data.success) {
+        setDelegations(data.delegations);
+        setCandidates(data.candidates);
+        setCurrentUserId(data.currentUserId);
+        setToday(data.today);
+        setFormData(prev => ({ ...prev, startsOn: prev.startsOn || data.today, endsOn: prev.endsOn || data.today }));
+      } else {
+        setError(data.error);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!formData.delegateUserId) {
+      toast.warning('Choose who should approve while you are away');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/delegations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setDelegations(prev => [...prev, data.delegation].sort((a, b) => a.starts_on.localeCompare(b.starts_on)));
+        setFormData({ ...emptyForm, startsOn: today, endsOn: today });
+        toast.success(`Approvals delegated to ${data.delegation.delegate_name}`);
+      } else {
+        toast.error(`Failed to delegate: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (delegation: ApprovalDelegationWithUsers) => {
+    if (!confirm(`Stop ${delegation.delegate_name} approving on your behalf?`)) return;
+
+    try {
+      const response = await fetch(`/api/delegations/${delegation.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        setDelegations(prev => prev.filter(d => d.id !== delegation.id));
+        toast.success('Delegation revoked');
+      } else {
+        toast.error(`Failed to revoke: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    }
+  };
+
+  const given = delegations.filter(d => d.delegator_user_id === currentUserId);
+  const received = delegations.filter(d => d.delegate_user_id === currentUserId);
+
+  const stateLabel = (delegation: ApprovalDelegationWithUsers) =>
+    getDelegationState(delegation, today) === 'active' ? (
+      <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Active</span>
+    ) : (
+      <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">Upcoming</span>
+    );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-xl font-semibold text-gray-900">Out of Office</h3>
+          <p className="text-sm text-gray-700 mt-1">
+            Let someone else approve your branches&apos; and departments&apos; expenses while you are away. Their approvals are recorded as on your behalf.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="p-6 text-sm text-gray-700">Loading delegations...</div>
+        ) : error ? (
+          <div className="p-6">
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-red-800">Error: {error}</p>
+            </div>
+          </div>
+        ) : (
+          <div className="p-6 space-y-6">
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Delegate to *
+                </label>
+                <select
+                  value={formData.delegateUserId}
+                  onChange={(e) => setFormData({ ...formData, delegateUserId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Choose a person...</option>
+                  {candidates.map(c => (
+                    <option key={c.id} value={c.id}>{c.full_name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    From
+                  </label>
+                  <input
+                    type="date"
+                    min={today}
+                    value={formData.startsOn}
+                    onChange={(e) => setFormData({ ...formData, startsOn: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Until
+                  </label>
+                  <input
+                    type="date"
+                    min={formData.startsOn || today}
+                    value={formData.endsOn}
+                    onChange={(e) => setFormData({ ...formData, endsOn: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Reason
+                </label>
+                <input
+                  type="text"
+                  value={formData.reason}
+                  onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                  placeholder="e.g. Vacation"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+                >
+                  {saving ? 'Saving...' : 'Delegate Approvals'}
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">Your delegations</h4>
+              {given.length === 0 ? (
+                <p className="text-sm text-gray-700">You haven&apos;t delegated your approvals.</p>
+              ) : (
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                  {given.map(d => (
+                    <div key={d.id} className="flex items-center justify-between px-4 py-3 gap-3">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-gray-900 truncate">{d.delegate_name}</div>
+                        <div className="text-xs text-gray-700">
+                          {formatDelegationDates(d)}{d.reason ? ` · ${d.reason}` : ''}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3 shrink-0">
+                        {stateLabel(d)}
+                        <button
+                          onClick={() => handleRevoke(d)}
+                          className="text-red-600 hover:text-red-800 text-sm font-medium"
+                        >
+                          Revoke
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {received.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 mb-2">Approving on behalf of</h4>
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                  {received.map(d => (
+                    <div key={d.id} className="flex items-center justify-between px-4 py-3 gap-3">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-gray-900 truncate">{d.delegator_name}</div>
+                        <div className="text-xs text-gray-700">{formatDelegationDates(d)}</div>
+                      </div>
+                      {stateLabel(d)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="p-6 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
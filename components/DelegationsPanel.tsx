@@ -0,0 +1,319 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import {
+  ApprovalDelegationWithUsers,
+  formatDelegationDates,
+  getDelegationState,
+} from '@/types/delegation';
+import { User } from '@/types/user';
+
+interface DelegationsPanelProps {
+  users: User[];
+}
+
+const emptyForm = {
+  delegatorUserId: '',
+  delegateUserId: '',
+  startsOn: '',
+  endsOn: '',
+  reason: '',
+};
+
+export default function DelegationsPanel({ users }: DelegationsPanelProps) {
+  const [delegations, setDelegations] = useState<ApprovalDelegationWithUsers[]>([]);
+  const [today, setToday] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchDelegations();
+  }, []);
+
+  const fetchDelegations = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/delegations?scope=all');
+      const data = await response.json();
+
+      if (data.success) {
+        setDelegations(data.delegations);
+        setToday(data.today);
+      } else {
+        setError(data.error);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeModal = () => {
+    setShowCreateModal(false);
+    setFormData(emptyForm);
+  };
+
+  const handleSave = async () => {
+    if (!formData.delegatorUserId || !formData.delegateUserId) {
+      toast.warning('Both the manager and the delegate are required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/delegations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setDelegations(prev => [...prev, data.delegation].sort((a, b) => a.starts_on.localeCompare(b.starts_on)));
+        toast.success('Delegation created');
+        closeModal();
+      } else {
+        toast.error(`Failed to save delegation: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (delegation: ApprovalDelegationWithUsers) => {
+    if (!confirm(`Stop ${delegation.delegate_name} approving on behalf of ${delegation.delegator_name}?`)) return;
+
+    try {
+      const response = await fetch(`/api/delegations/${delegation.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        setDelegations(prev => prev.filter(d => d.id !== delegation.id));
+      } else {
+        toast.error(`Failed to revoke delegation: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-gray-700">Loading delegations...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-800">Error: {error}</p>
+      </div>
+    );
+  }
+
+  const activeUsers = users.filter(u => u.is_active);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Delegations</h2>
+          <p className="text-sm text-gray-700 mt-1">
+            Current and upcoming out-of-office delegations. Delegates can see and approve the manager&apos;s expenses, recorded as on their behalf.
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setFormData({ ...emptyForm, startsOn: today, endsOn: today });
+            setShowCreateModal(true);
+          }}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          + Add Delegation
+        </button>
+      </div>
+
+      {/* Delegations Table */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Manager
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Delegate
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Dates
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Reason
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {delegations.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-700">
+                    No current or upcoming delegations.
+                  </td>
+                </tr>
+              ) : delegations.map(delegation => {
+                const isActive = getDelegationState(delegation, today) === 'active';
+                return (
+                  <tr key={delegation.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {delegation.delegator_name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {delegation.delegate_name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDelegationDates(delegation)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {delegation.reason || '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-center">
+                      <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                        isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                      }`}>
+                        {isActive ? 'Active' : 'Upcoming'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-center">
+                      <button
+                        onClick={() => handleRevoke(delegation)}
+                        className="text-red-600 hover:text-red-800 text-sm font-medium"
+                      >
+                        Revoke
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Create Modal */}
+      {showCreateModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">New Delegation</h3>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Manager *
+                </label>
+                <select
+                  value={formData.delegatorUserId}
+                  onChange={(e) => setFormData({ ...formData, delegatorUserId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Choose a person...</option>
+                  {activeUsers.map(u => (
+                    <option key={u.id} value={u.id}>{u.full_name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Delegate *
+                </label>
+                <select
+                  value={formData.delegateUserId}
+                  onChange={(e) => setFormData({ ...formData, delegateUserId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Choose a person...</option>
+                  {activeUsers.filter(u => u.id !== formData.delegatorUserId).map(u => (
+                    <option key={u.id} value={u.id}>{u.full_name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    From
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.startsOn}
+                    onChange={(e) => setFormData({ ...formData, startsOn: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Until
+                  </label>
+                  <input
+                    type="date"
+                    min={formData.startsOn || today}
+                    value={formData.endsOn}
+                    onChange={(e) => setFormData({ ...formData, endsOn: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Reason
+                </label>
+                <input
+                  type="text"
+                  value={formData.reason}
+                  onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={closeModal}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+              >
+                {saving ? 'Saving...' : 'Create Delegation'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
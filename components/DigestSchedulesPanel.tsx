@@ -0,0 +1,446 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import {
+  DigestCadence,
+  DigestHistoryEntry,
+  DigestSchedule,
+  DigestStatus,
+  DIGEST_CADENCE_LABELS,
+  WEEKDAY_LABELS,
+  describeDigestSchedule,
+} from '@/types/digest';
+import { formatCurrency } from '@/lib/format';
+
+interface DigestSchedulesPanelProps {
+  availableBranches: string[];
+  availableDepartments: string[];
+}
+
+const emptyForm = {
+  branch: '',
+  department: '',
+  cadence: 'weekly' as DigestCadence,
+  weekday: 1,
+  days_before_month_end: 3,
+};
+
+const STATUS_STYLES: Record<DigestStatus, string> = {
+  sent: 'bg-green-100 text-green-800',
+  skipped: 'bg-gray-100 text-gray-700',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export default function DigestSchedulesPanel({ availableBranches, availableDepartments }: DigestSchedulesPanelProps) {
+  const [schedules, setSchedules] = useState<DigestSchedule[]>([]);
+  const [history, setHistory] = useState<DigestHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingSchedule, setEditingSchedule] = useState<DigestSchedule | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, []);
+
+  const fetchSchedules = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/digest-schedules');
+      const data = await response.json();
+
+      if (data.success) {
+        setSchedules(data.schedules);
+        setHistory(data.history);
+      } else {
+        setError(data.error);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeModal = () => {
+    setShowCreateModal(false);
+    setEditingSchedule(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSave = async () => {
+    if (!editingSchedule && (!formData.branch || !formData.department)) {
+      toast.warning('Branch and department are required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(editingSchedule ? `/api/digest-schedules/${editingSchedule.id}` : '/api/digest-schedules', {
+        method: editingSchedule ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setSchedules(prev => editingSchedule
+          ? prev.map(s => s.id === data.schedule.id ? data.schedule : s)
+          : [...prev, data.schedule]);
+        toast.success(editingSchedule ? 'Digest updated' : 'Digest scheduled');
+        closeModal();
+      } else {
+        toast.error(`Failed to save digest: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (schedule: DigestSchedule) => {
+    const newValue = !schedule.is_active;
+    // Optimistic update
+    setSchedules(prev => prev.map(s => s.id === schedule.id ? { ...s, is_active: newValue } : s));
+    try {
+      const response = await fetch(`/api/digest-schedules/${schedule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_active: newValue }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setSchedules(prev => prev.map(s => s.id === schedule.id ? { ...s, is_active: !newValue } : s));
+        toast.error(`Failed to update: ${data.error}`);
+      }
+    } catch (err: any) {
+      setSchedules(prev => prev.map(s => s.id === schedule.id ? { ...s, is_active: !newValue } : s));
+      toast.error(`Failed to update: ${err.message}`);
+    }
+  };
+
+  const handleDelete = async (schedule: DigestSchedule) => {
+    if (!confirm(`Stop the digest for ${schedule.branch} / ${schedule.department}?`)) return;
+
+    try {
+      const response = await fetch(`/api/digest-schedules/${schedule.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+      } else {
+        toast.error(`Failed to delete digest: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-gray-700">Loading digests...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-800">Error: {error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Slack Digests</h2>
+          <p className="text-sm text-gray-700 mt-1">
+            Post the department summary to its Slack channel on a schedule. Departments with nothing outstanding are skipped.
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setFormData(emptyForm);
+            setShowCreateModal(true);
+          }}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          + Add Digest
+        </button>
+      </div>
+
+      {/* Schedules Table */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Branch / Department
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Schedule
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Last Run
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Active
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {schedules.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-700">
+                    No digests scheduled. Summaries are only sent from the dashboard.
+                  </td>
+                </tr>
+              ) : schedules.map(schedule => (
+                <tr key={schedule.id} className={`hover:bg-gray-50 ${schedule.is_active ? '' : 'opacity-60'}`}>
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{schedule.department}</div>
+                    <div className="text-xs text-gray-700">{schedule.branch}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {describeDigestSchedule(schedule)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                    {schedule.last_run_on ? format(new Date(`${schedule.last_run_on}T12:00:00`), 'MMM d, yyyy') : 'Never'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center">
+                    <button
+                      onClick={() => handleToggleActive(schedule)}
+                      className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                        schedule.is_active ? 'bg-blue-600' : 'bg-gray-300'
+                      }`}
+                      title={schedule.is_active ? 'Pause digest' : 'Resume digest'}
+                    >
+                      <span className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform ${
+                        schedule.is_active ? 'translate-x-[18px]' : 'translate-x-[2px]'
+                      }`} />
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center">
+                    <button
+                      onClick={() => {
+                        setEditingSchedule(schedule);
+                        setFormData({
+                          branch: schedule.branch,
+                          department: schedule.department,
+                          cadence: schedule.cadence,
+                          weekday: schedule.weekday ?? emptyForm.weekday,
+                          days_before_month_end: schedule.days_before_month_end ?? emptyForm.days_before_month_end,
+                        });
+                      }}
+                      className="text-blue-600 hover:text-blue-800 text-sm font-medium mr-3"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(schedule)}
+                      className="text-red-600 hover:text-red-800 text-sm font-medium"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* History */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-3">Recent Digests</h3>
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                    When
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                    Branch / Department
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">
+                    Unapproved
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {history.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="px-6 py-8 text-center text-sm text-gray-700">
+                      No digests have run yet.
+                    </td>
+                  </tr>
+                ) : history.map(entry => (
+                  <tr key={entry.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-700">
+                      {format(new Date(entry.created_at), 'MMM d, yyyy h:mm a')}
+                    </td>
+                    <td className="px-6 py-3">
+                      <div className="text-sm text-gray-900">{entry.department}</div>
+                      <div className="text-xs text-gray-700">{entry.branch} · {entry.month}</div>
+                    </td>
+                    <td className="px-6 py-3">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[entry.status]}`}>
+                        {entry.status === 'skipped' ? 'Skipped (nothing outstanding)' : entry.status === 'sent' ? 'Sent' : 'Failed'}
+                      </span>
+                      {entry.error && <div className="text-xs text-red-600 mt-1">{entry.error}</div>}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-right text-sm text-gray-900">
+                      {entry.status === 'failed' ? '—' : `${entry.unapproved_count} · ${formatCurrency(Number(entry.unapproved_amount))}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {/* Create/Edit Modal */}
+      {(showCreateModal || editingSchedule) && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">
+                {editingSchedule ? `Edit Digest: ${editingSchedule.branch} / ${editingSchedule.department}` : 'New Digest'}
+              </h3>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {!editingSchedule && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Branch *
+                    </label>
+                    <select
+                      value={formData.branch}
+                      onChange={(e) => setFormData({ ...formData, branch: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Select a branch</option>
+                      {availableBranches.map(branch => (
+                        <option key={branch} value={branch}>{branch}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Department *
+                    </label>
+                    <select
+                      value={formData.department}
+                      onChange={(e) => setFormData({ ...formData, department: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Select a department</option>
+                      {availableDepartments.map(department => (
+                        <option key={department} value={department}>{department}</option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-gray-700 mt-1">
+                      Needs a channel route under Slack Channels
+                    </p>
+                  </div>
+                </>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Cadence
+                </label>
+                <select
+                  value={formData.cadence}
+                  onChange={(e) => setFormData({ ...formData, cadence: e.target.value as DigestCadence })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {(Object.keys(DIGEST_CADENCE_LABELS) as DigestCadence[]).map(cadence => (
+                    <option key={cadence} value={cadence}>{DIGEST_CADENCE_LABELS[cadence]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {formData.cadence === 'weekly' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Day of the week
+                  </label>
+                  <select
+                    value={formData.weekday}
+                    onChange={(e) => setFormData({ ...formData, weekday: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {WEEKDAY_LABELS.map((label, index) => (
+                      <option key={label} value={index}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Days before month end
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={27}
+                    value={formData.days_before_month_end}
+                    onChange={(e) => setFormData({ ...formData, days_before_month_end: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="text-xs text-gray-700 mt-1">
+                    0 sends on the last day of the month
+                  </p>
+                </div>
+              )}
+
+              <p className="text-xs text-gray-700">
+                Digests go out around 8am Arizona time and cover the current month.
+              </p>
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={closeModal}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+              >
+                {saving ? 'Saving...' : editingSchedule ? 'Update Digest' : 'Schedule Digest'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { BranchManager, EscalationRule, EscalationTarget, ESCALATION_TARGET_LABELS } from '@/types/escalation';
+import { FLAG_CATEGORIES } from '@/types/expense';
+import { User } from '@/types/user';
+
+interface EscalationRulesPanelProps {
+  availableBranches: string[];
+  users: User[];
+}
+
+const emptyForm = {
+  flag_category: '',
+  reminder_after_days: 3,
+  max_reminders: 3,
+  escalate_to: 'branch_manager' as EscalationTarget,
+};
+
+export default function EscalationRulesPanel({ availableBranches, users }: EscalationRulesPanelProps) {
+  const [rules, setRules] = useState<EscalationRule[]>([]);
+  const [managers, setManagers] = useState<BranchManager[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingRule, setEditingRule] = useState<EscalationRule | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      setLoading(true);
+      const [rulesResponse, managersResponse] = await Promise.all([
+        fetch('/api/escalation-rules'),
+        fetch('/api/branch-managers'),
+      ]);
+      const rulesData = await rulesResponse.json();
+      const managersData = await managersResponse.json();
+
+      if (rulesData.success && managersData.success) {
+        setRules(rulesData.rules);
+        setManagers(managersData.managers);
+      } else {
+        setError(rulesData.error || managersData.error);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeModal = () => {
+    setShowCreateModal(false);
+    setEditingRule(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSave = async () => {
+    if (!editingRule && !formData.flag_category) {
+      toast.warning('Flag category is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(editingRule ? `/api/escalation-rules/${editingRule.id}` : '/api/escalation-rules', {
+        method: editingRule ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setRules(prev => editingRule
+          ? prev.map(r => r.id === data.rule.id ? data.rule : r)
+          : [...prev, data.rule]);
+        toast.success(editingRule ? 'Escalation rule updated' : 'Escalation rule created');
+        closeModal();
+      } else {
+        toast.error(`Failed to save rule: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: EscalationRule) => {
+    const newValue = !rule.is_active;
+    // Optimistic update
+    setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: newValue } : r));
+    try {
+      const response = await fetch(`/api/escalation-rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_active: newValue }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: !newValue } : r));
+        toast.error(`Failed to update: ${data.error}`);
+      }
+    } catch (err: any) {
+      setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: !newValue } : r));
+      toast.error(`Failed to update: ${err.message}`);
+    }
+  };
+
+  const handleDelete = async (rule: EscalationRule) => {
+    if (!confirm(`Stop escalating "${rule.flag_category}" expenses?`)) return;
+
+    try {
+      const response = await fetch(`/api/escalation-rules/${rule.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        setRules(prev => prev.filter(r => r.id !== rule.id));
+      } else {
+        toast.error(`Failed to delete rule: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    }
+  };
+
+  const handleManagerChange = async (branch: string, userId: string) => {
+    try {
+      const response = await fetch('/api/branch-managers', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ branch, user_id: userId || null }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setManagers(prev => [
+          ...prev.filter(m => m.branch !== branch),
+          ...(data.manager ? [data.manager] : []),
+        ]);
+        toast.success(userId ? `Manager set for ${branch}` : `Manager cleared for ${branch}`);
+      } else {
+        toast.error(`Failed to update manager: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-gray-700">Loading escalation rules...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-800">Error: {error}</p>
+      </div>
+    );
+  }
+
+  const unusedCategories = FLAG_CATEGORIES.filter(
+    c => c !== 'Good to Sync' && !rules.some(r => r.flag_category === c)
+  );
+  const activeUsers = users.filter(u => u.is_active);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Escalations</h2>
+          <p className="text-sm text-gray-700 mt-1">
+            Re-notify purchasers about flagged expenses they haven&apos;t resolved, then escalate. Runs weekday mornings.
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setFormData({ ...emptyForm, flag_category: unusedCategories[0] || '' });
+            setShowCreateModal(true);
+          }}
+          disabled={unusedCategories.length === 0}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+        >
+          + Add Rule
+        </button>
+      </div>
+
+      {/* Rules Table */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Flag
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Remind Every
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Escalate After
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Escalate To
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Active
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rules.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-700">
+                    No escalation rules. Flagged expenses are only notified manually.
+                  </td>
+                </tr>
+              ) : rules.map(rule => (
+                <tr key={rule.id} className={`hover:bg-gray-50 ${rule.is_active ? '' : 'opacity-60'}`}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {rule.flag_category}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {rule.reminder_after_days} day{rule.reminder_after_days === 1 ? '' : 's'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {rule.max_reminders} notification{rule.max_reminders === 1 ? '' : 's'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {ESCALATION_TARGET_LABELS[rule.escalate_to]}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center">
+                    <button
+                      onClick={() => handleToggleActive(rule)}
+                      className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                        rule.is_active ? 'bg-blue-600' : 'bg-gray-300'
+                      }`}
+                      title={rule.is_active ? 'Pause rule' : 'Resume rule'}
+                    >
+                      <span className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform ${
+                        rule.is_active ? 'translate-x-[18px]' : 'translate-x-[2px]'
+                      }`} />
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center">
+                    <button
+                      onClick={() => {
+                        setEditingRule(rule);
+                        setFormData({
+                          flag_category: rule.flag_category,
+                          reminder_after_days: rule.reminder_after_days,
+                          max_reminders: rule.max_reminders,
+                          escalate_to: rule.escalate_to,
+                        });
+                      }}
+                      className="text-blue-600 hover:text-blue-800 text-sm font-medium mr-3"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      className="text-red-600 hover:text-red-800 text-sm font-medium"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Branch Managers */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Branch Managers</h3>
+        <p className="text-sm text-gray-700 mt-1 mb-3">
+          Who receives &quot;Branch manager&quot; escalations and approves &quot;Branch manager&quot; steps of approval chains. Branches without a manager escalate to the department channel.
+        </p>
+        <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-200">
+          {availableBranches.map(branch => {
+            const manager = managers.find(m => m.branch === branch);
+            const managerUser = manager && users.find(u => u.id === manager.user_id);
+            return (
+              <div key={branch} className="flex items-center justify-between px-6 py-3 gap-4">
+                <div className="text-sm font-medium text-gray-900">{branch}</div>
+                <div className="flex items-center gap-2">
+                  {managerUser && !managerUser.slack_id && (
+                    <span className="text-xs text-amber-700" title="Run Sync Slack Users to link their account">
+                      No Slack ID
+                    </span>
+                  )}
+                  <select
+                    value={manager?.user_id || ''}
+                    onChange={(e) => handleManagerChange(branch, e.target.value)}
+                    className="w-64 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">No manager</option>
+                    {activeUsers.map(u => (
+                      <option key={u.id} value={u.id}>{u.full_name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Create/Edit Modal */}
+      {(showCreateModal || editingRule) && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">
+                {editingRule ? `Edit Escalation: ${editingRule.flag_category}` : 'New Escalation Rule'}
+              </h3>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {!editingRule && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Flag *
+                  </label>
+                  <select
+                    value={formData.flag_category}
+                    onChange={(e) => setFormData({ ...formData, flag_category: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {unusedCategories.map(category => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Days between reminders
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={formData.reminder_after_days}
+                  onChange={(e) => setFormData({ ...formData, reminder_after_days: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-700 mt-1">
+                  Counted from the last notification, manual or automatic
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notifications before escalating
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={formData.max_reminders}
+                  onChange={(e) => setFormData({ ...formData, max_reminders: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-700 mt-1">
+                  Includes the first notification sent from the dashboard
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Escalate to
+                </label>
+                <select
+                  value={formData.escalate_to}
+                  onChange={(e) => setFormData({ ...formData, escalate_to: e.target.value as EscalationTarget })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {(Object.keys(ESCALATION_TARGET_LABELS) as EscalationTarget[]).map(target => (
+                    <option key={target} value={target}>{ESCALATION_TARGET_LABELS[target]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={closeModal}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+              >
+                {saving ? 'Saving...' : editingRule ? 'Update Rule' : 'Create Rule'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import {
+  ExclusionAction,
+  ExclusionMatchField,
+  ExclusionRule,
+  EXCLUSION_ACTION_LABELS,
+  EXCLUSION_MATCH_FIELD_LABELS,
+} from '@/types/exclusionRule';
+import { TRANSACTION_TYPES } from '@/types/expense';
+
+interface ExclusionRulesPanelProps {
+  availableBranches: string[];
+  availableDepartments: string[];
+}
+
+const emptyForm = {
+  match_field: 'vendor' as ExclusionMatchField,
+  match_value: '',
+  action: 'hide_from_dashboard' as ExclusionAction,
+  note: '',
+};
+
+export default function ExclusionRulesPanel({ availableBranches, availableDepartments }: ExclusionRulesPanelProps) {
+  const [rules, setRules] = useState<ExclusionRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingRule, setEditingRule] = useState<ExclusionRule | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/exclusion-rules');
+      const data = await response.json();
+
+      if (data.success) {
+        setRules(data.rules);
+      } else {
+        setError(data.error);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeModal = () => {
+    setShowCreateModal(false);
+    setEditingRule(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSave = async () => {
+    if (!formData.match_value.trim()) {
+      toast.warning('Match value is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(editingRule ? `/api/exclusion-rules/${editingRule.id}` : '/api/exclusion-rules', {
+        method: editingRule ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setRules(prev => editingRule
+          ? prev.map(r => r.id === data.rule.id ? data.rule : r)
+          : [...prev, data.rule]);
+        toast.success(editingRule ? 'Rule updated' : 'Rule created');
+        closeModal();
+      } else {
+        toast.error(`Failed to save rule: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: ExclusionRule) => {
+    const newValue = !rule.is_active;
+    // Optimistic update
+    setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: newValue } : r));
+    try {
+      const response = await fetch(`/api/exclusion-rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_active: newValue }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: !newValue } : r));
+        toast.error(`Failed to update: ${data.error}`);
+      }
+    } catch (err: any) {
+      setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: !newValue } : r));
+      toast.error(`Failed to update: ${err.message}`);
+    }
+  };
+
+  const handleDelete = async (rule: ExclusionRule) => {
+    if (!confirm(`Delete the rule "${EXCLUSION_MATCH_FIELD_LABELS[rule.match_field]} ${rule.match_value}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/exclusion-rules/${rule.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        setRules(prev => prev.filter(r => r.id !== rule.id));
+      } else {
+        toast.error(`Failed to delete rule: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    }
+  };
+
+  // Branch/department values must match exactly, so suggest the known names
+  const valueSuggestions =
+    formData.match_field === 'branch' ? availableBranches
+    : formData.match_field === 'department' ? availableDepartments
+    : formData.match_field === 'transaction_type' ? [...TRANSACTION_TYPES]
+    : [];
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-gray-700">Loading exclusion rules...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-800">Error: {error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Exclusion Rules</h2>
+          <p className="text-sm text-gray-700 mt-1">
+            Keep expenses out of the sync, or synced but hidden from the dashboard and Slack summaries
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setFormData(emptyForm);
+            setShowCreateModal(true);
+          }}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          + Add Rule
+        </button>
+      </div>
+
+      {/* Rules Table */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Match
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Action
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Note
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Active
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rules.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-700">
+                    No exclusion rules. Every synced expense is shown.
+                  </td>
+                </tr>
+              ) : rules.map(rule => (
+                <tr key={rule.id} className={`hover:bg-gray-50 ${rule.is_active ? '' : 'opacity-60'}`}>
+                  <td className="px-6 py-4">
+                    <div className="text-xs text-gray-700">{EXCLUSION_MATCH_FIELD_LABELS[rule.match_field]}</div>
+                    <div className="text-sm font-medium text-gray-900">{rule.match_value}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      rule.action === 'exclude_from_sync' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                    }`}>
+                      {EXCLUSION_ACTION_LABELS[rule.action]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="text-sm text-gray-700">{rule.note || '—'}</div>
+                    {rule.created_by && (
+                      <div className="text-xs text-gray-500">Added by {rule.created_by}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center">
+                    <button
+                      onClick={() => handleToggleActive(rule)}
+                      className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                        rule.is_active ? 'bg-blue-600' : 'bg-gray-300'
+                      }`}
+                      title={rule.is_active ? 'Pause rule' : 'Enable rule'}
+                    >
+                      <span className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform ${
+                        rule.is_active ? 'translate-x-[18px]' : 'translate-x-[2px]'
+                      }`} />
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center">
+                    <button
+                      onClick={() => {
+                        setEditingRule(rule);
+                        setFormData({
+                          match_field: rule.match_field,
+                          match_value: rule.match_value,
+                          action: rule.action,
+                          note: rule.note || '',
+                        });
+                      }}
+                      className="text-blue-600 hover:text-blue-800 text-sm font-medium mr-3"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      className="text-red-600 hover:text-red-800 text-sm font-medium"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Create/Edit Modal */}
+      {(showCreateModal || editingRule) && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">
+                {editingRule ? 'Edit Exclusion Rule' : 'New Exclusion Rule'}
+              </h3>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Match
+                </label>
+                <select
+                  value={formData.match_field}
+                  onChange={(e) => setFormData({ ...formData, match_field: e.target.value as ExclusionMatchField })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {(Object.keys(EXCLUSION_MATCH_FIELD_LABELS) as ExclusionMatchField[]).map(field => (
+                    <option key={field} value={field}>{EXCLUSION_MATCH_FIELD_LABELS[field]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Value *
+                </label>
+                <input
+                  type="text"
+                  list="exclusion-value-suggestions"
+                  value={formData.match_value}
+                  onChange={(e) => setFormData({ ...formData, match_value: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder={formData.match_field === 'category_prefix' ? '6150.2.2' : 'Blue Cross - Portal'}
+                />
+                <datalist id="exclusion-value-suggestions">
+                  {valueSuggestions.map(v => <option key={v} value={v} />)}
+                </datalist>
+                <p className="text-xs text-gray-700 mt-1">
+                  {formData.match_field === 'category_prefix'
+                    ? 'Matches any category (GL account) starting with this text'
+                    : 'Exact match, ignoring case'}
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Action
+                </label>
+                <select
+                  value={formData.action}
+                  onChange={(e) => setFormData({ ...formData, action: e.target.value as ExclusionAction })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {(Object.keys(EXCLUSION_ACTION_LABELS) as ExclusionAction[]).map(action => (
+                    <option key={action} value={action}>{EXCLUSION_ACTION_LABELS[action]}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-700 mt-1">
+                  {formData.action === 'exclude_from_sync'
+                    ? 'Matching expenses are never synced. Existing vendor bills are removed on the next full reconcile.'
+                    : 'Matching expenses stay in the database but are hidden from the dashboard and Slack summaries.'}
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Note
+                </label>
+                <input
+                  type="text"
+                  value={formData.note}
+                  onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Why this is excluded"
+                />
+              </div>
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={closeModal}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+              >
+                {saving ? 'Saving...' : editingRule ? 'Update Rule' : 'Create Rule'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ApprovalChainStepStatus, APPROVER_ROLE_LABELS } from '@/types/approval';
+
+interface ExpenseApprovalChainProps {
+  expenseId: string;
+  // Changes when the expense is approved or rejected from the row, so the chain reloads
+  refreshKey?: string;
+}
+
+const STATUS_DOT_COLORS: Record<ApprovalChainStepStatus['status'], string> = {
+  approved: 'bg-green-500',
+  rejected: 'bg-red-500',
+  current: 'bg-blue-500',
+  upcoming: 'bg-gray-300',
+};
+
+export default function ExpenseApprovalChain({ expenseId, refreshKey }: ExpenseApprovalChainProps) {
+  const [steps, setSteps] = useState<ApprovalChainStepStatus[]>([]);
+  const [policyName, setPolicyName] = useState<string | null>(null);
+  const [canAct, setCanAct] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetch(`/api/expenses/${expenseId}/approvals`)
+      .then(res => res.json())
+      .then(data => {
+        if (cancelled) return;
+        if (data.success) {
+          setSteps(data.steps);
+          setPolicyName(data.policyName);
+          setCanAct(data.canAct);
+        } else {
+          setError(data.error || 'Failed to load approval chain');
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load approval chain');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [expenseId, refreshKey]);
+
+  const describeStatus = (step: ApprovalChainStepStatus) => {
+    if (step.status === 'current') return canAct ? 'Waiting on you' : 'Waiting';
+    if (step.status === 'upcoming') return 'Not started';
+    const decided = step.status === 'approved' ? 'Approved' : 'Rejected';
+    return step.decided_at
+      ? `${decided} by ${step.decided_by} on ${format(new Date(step.decided_at), 'MMM d, yyyy h:mm a')}`
+      : decided;
+  };
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wider mb-2">
+        Approval Chain
+        {policyName && <span className="normal-case font-normal text-gray-500"> · {policyName}</span>}
+      </h4>
+      {loading ? (
+        <div className="flex items-center gap-2 py-2">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          <span className="text-xs text-gray-700">Loading approval chain...</span>
+        </div>
+      ) : error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : steps.length === 0 ? (
+        <p className="text-xs text-gray-500">No approval policy applies; anyone who can see this expense can approve it.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-1.5 space-y-3">
+          {steps.map(step => (
+            <li key={step.step_order} className="ml-4">
+              <span className={`absolute -left-1.5 mt-1 w-3 h-3 rounded-full border-2 border-white ${STATUS_DOT_COLORS[step.status]}`} />
+              <p className="text-xs text-gray-900">
+                <span className="font-medium">Step {step.step_order + 1}: {APPROVER_ROLE_LABELS[step.approver_role]}</span>
+                {step.approver_role === 'finance'
+                  ? <span className="text-gray-500"> (any finance approver)</span>
+                  : <span className="text-gray-500"> ({step.approver_name || 'not assigned, an admin can act'})</span>}
+              </p>
+              <p className={`text-xs ${step.status === 'current' && canAct ? 'text-blue-700 font-medium' : 'text-gray-500'}`}>
+                {describeStatus(step)}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
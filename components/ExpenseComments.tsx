@@ -0,0 +1,350 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { ExpenseComment, MentionableUser } from '@/types/expense';
+
+export interface CommentCounts {
+  comment_count: number;
+  unresolved_comment_count: number;
+}
+
+interface ExpenseCommentsProps {
+  expenseId: string;
+  refreshKey?: string;
+  // Keeps the row's badge and the unresolved filter in step with the thread
+  onCountsChange?: (counts: CommentCounts) => void;
+}
+
+// Slack escapes &, < and > and wraps links and mentions in <...>
+function slackTextToPlain(text: string): string {
+  return text
+    .replace(/<@([A-Z0-9]+)>/g, '@$1')
+    .replace(/<(https?:[^|>]+)\|([^>]+)>/g, '$2')
+    .replace(/<(https?:[^>]+)>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Highlight "@Full Name" for the users the comment actually mentioned
+function renderBody(comment: ExpenseComment, usersById: Map<string, string>) {
+  const text = comment.source === 'slack' ? slackTextToPlain(comment.body) : comment.body;
+  const names = comment.mentioned_user_ids
+    .map(id => usersById.get(id))
+    .filter((name): name is string => !!name);
+  if (names.length === 0) return text;
+
+  const pattern = new RegExp(`(${names.map(n => `@${escapeRegExp(n)}`).join('|')})`, 'gi');
+  return text.split(pattern).map((part, i) =>
+    i % 2 === 1
+      ? <span key={i} className="font-medium text-blue-700">{part}</span>
+      : part
+  );
+}
+
+const countsOf = (comments: ExpenseComment[]): CommentCounts => ({
+  comment_count: comments.length,
+  unresolved_comment_count: comments.filter(c => !c.resolved_at).length,
+});
+
+export default function ExpenseComments({ expenseId, refreshKey, onCountsChange }: ExpenseCommentsProps) {
+  const [comments, setComments] = useState<ExpenseComment[]>([]);
+  const [mentionableUsers, setMentionableUsers] = useState<MentionableUser[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [canDeleteAny, setCanDeleteAny] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [draftMentions, setDraftMentions] = useState<string[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [posting, setPosting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const onCountsChangeRef = useRef(onCountsChange);
+  onCountsChangeRef.current = onCountsChange;
+
+  const applyComments = (next: ExpenseComment[]) => {
+    setComments(next);
+    onCountsChangeRef.current?.(countsOf(next));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetch(`/api/expenses/${expenseId}/comments`)
+      .then(res => res.json())
+      .then(data => {
+        if (cancelled) return;
+        if (data.success) {
+          applyComments(data.comments);
+          setMentionableUsers(data.mentionableUsers);
+          setCurrentUserId(data.currentUserId);
+          setCanDeleteAny(data.canDeleteAny);
+        } else {
+          setError(data.error || 'Failed to load comments');
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load comments');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [expenseId, refreshKey]);
+
+  const usersById = new Map(mentionableUsers.map(u => [u.id, u.full_name]));
+
+  const mentionSuggestions = mentionQuery === null
+    ? []
+    : mentionableUsers
+        .filter(u => u.id !== currentUserId && u.full_name.toLowerCase().includes(mentionQuery.toLowerCase()))
+        .slice(0, 6);
+
+  // Open the picker while the text before the cursor ends in "@partial name"
+  const handleDraftChange = (value: string) => {
+    setDraft(value);
+    const caret = textareaRef.current?.selectionStart ?? value.length;
+    const match = /(?:^|\s)@([\w.'-]*(?: [\w.'-]*)?)$/.exec(value.slice(0, caret));
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  const insertMention = (user: MentionableUser) => {
+    const caret = textareaRef.current?.selectionStart ?? draft.length;
+    const before = draft.slice(0, caret).replace(/@[\w.'-]*(?: [\w.'-]*)?$/, `@${user.full_name} `);
+    setDraft(before + draft.slice(caret));
+    setDraftMentions(prev => prev.includes(user.id) ? prev : [...prev, user.id]);
+    setMentionQuery(null);
+    textareaRef.current?.focus();
+  };
+
+  const handlePost = async () => {
+    if (!draft.trim()) return;
+    try {
+      setPosting(true);
+      const response = await fetch(`/api/expenses/${expenseId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: draft, mentionedUserIds: draftMentions }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        applyComments([...comments, data.comment]);
+        setDraft('');
+        setDraftMentions([]);
+        if (data.notified > 0) {
+          toast.success(`Notified ${data.notified} ${data.notified === 1 ? 'person' : 'people'} on Slack`);
+        }
+      } else {
+        toast.error(`Failed to add comment: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Failed to add comment: ${err.message}`);
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const updateComment = async (commentId: string, changes: { body?: string; resolved?: boolean }) => {
+    try {
+      setBusyId(commentId);
+      const response = await fetch(`/api/expenses/${expenseId}/comments/${commentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        applyComments(comments.map(c => c.id === commentId ? data.comment : c));
+        setEditingId(null);
+      } else {
+        toast.error(`Failed to update comment: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Failed to update comment: ${err.message}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!confirm('Delete this comment?')) return;
+    try {
+      setBusyId(commentId);
+      const response = await fetch(`/api/expenses/${expenseId}/comments/${commentId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        applyComments(comments.filter(c => c.id !== commentId));
+      } else {
+        toast.error(`Failed to delete comment: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Failed to delete comment: ${err.message}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wider mb-2">Comments</h4>
+      {loading ? (
+        <div className="flex items-center gap-2 py-2">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          <span className="text-xs text-gray-700">Loading comments...</span>
+        </div>
+      ) : error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : (
+        <div className="space-y-2">
+          {comments.length === 0 && (
+            <p className="text-xs text-gray-500">No comments yet.</p>
+          )}
+          <ul className="space-y-2">
+            {comments.map(comment => {
+              const isAuthor = !!currentUserId && comment.author_user_id === currentUserId;
+              return (
+                <li
+                  key={comment.id}
+                  className={`border rounded-md px-3 py-2 ${comment.resolved_at ? 'bg-gray-50 border-gray-200' : 'bg-white border-blue-200'}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="text-[11px] text-gray-500 mb-0.5">
+                      <span className="font-medium text-gray-700">
+                        {comment.author_name || `Slack user ${comment.author_slack_id}`}
+                      </span>
+                      {' · '}
+                      {format(new Date(comment.created_at), 'MMM d, yyyy h:mm a')}
+                      {comment.source === 'slack' && ' · via Slack'}
+                      {comment.updated_at && ' · edited'}
+                    </p>
+                    <div className="flex items-center gap-2 flex-shrink-0 text-[11px]">
+                      <button
+                        onClick={() => updateComment(comment.id, { resolved: !comment.resolved_at })}
+                        disabled={busyId === comment.id}
+                        className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        {comment.resolved_at ? 'Reopen' : 'Resolve'}
+                      </button>
+                      {isAuthor && comment.source === 'dashboard' && editingId !== comment.id && (
+                        <button
+                          onClick={() => {
+                            setEditingId(comment.id);
+                            setEditText(comment.body);
+                          }}
+                          disabled={busyId === comment.id}
+                          className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                        >
+                          Edit
+                        </button>
+                      )}
+                      {(isAuthor || canDeleteAny) && (
+                        <button
+                          onClick={() => handleDelete(comment.id)}
+                          disabled={busyId === comment.id}
+                          className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {editingId === comment.id ? (
+                    <div className="space-y-1.5">
+                      <textarea
+                        value={editText}
+                        onChange={(e) => setEditText(e.target.value)}
+                        rows={3}
+                        className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => updateComment(comment.id, { body: editText })}
+                          disabled={busyId === comment.id || !editText.trim()}
+                          className="px-2.5 py-1 bg-blue-600 text-white text-xs font-medium rounded hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="px-2.5 py-1 text-xs text-gray-700 hover:text-gray-900"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-900 whitespace-pre-wrap break-words">{renderBody(comment, usersById)}</p>
+                  )}
+
+                  {comment.resolved_at && (
+                    <p className="text-[11px] text-green-700 mt-1">
+                      Resolved{comment.resolved_by ? ` by ${comment.resolved_by}` : ''} · {format(new Date(comment.resolved_at), 'MMM d, yyyy')}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {/* Composer */}
+          <div className="relative">
+            <textarea
+              ref={textareaRef}
+              value={draft}
+              onChange={(e) => handleDraftChange(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setMentionQuery(null);
+                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handlePost();
+              }}
+              rows={2}
+              placeholder="Add a comment. Type @ to mention someone."
+              className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {mentionSuggestions.length > 0 && (
+              <div className="absolute z-20 left-0 bottom-full mb-1 w-64 bg-white border border-gray-300 rounded-md shadow-lg">
+                {mentionSuggestions.map(user => (
+                  <button
+                    key={user.id}
+                    type="button"
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      insertMention(user);
+                    }}
+                    className="w-full px-3 py-1.5 text-left text-xs hover:bg-blue-50"
+                  >
+                    {user.full_name}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end mt-1">
+              <button
+                onClick={handlePost}
+                disabled={posting || !draft.trim()}
+                className="px-3 py-1 bg-blue-600 text-white text-xs font-medium rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                {posting ? 'Posting...' : 'Comment'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
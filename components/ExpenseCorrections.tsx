@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Expense, ExpenseCorrection, ExpenseCorrectionStatus } from '@/types/expense';
+
+export interface CorrectionOptions {
+  branches: string[];
+  departments: string[];
+  categories: string[];
+}
+
+interface ExpenseCorrectionsProps {
+  expense: Expense;
+  canCorrect: boolean;
+  options: CorrectionOptions;
+}
+
+const STATUS_STYLES: Record<ExpenseCorrectionStatus, { label: string; className: string }> = {
+  pending: { label: 'Sending', className: 'bg-gray-100 text-gray-700' },
+  applied: { label: 'Awaiting sync', className: 'bg-blue-100 text-blue-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  confirmed: { label: 'Confirmed', className: 'bg-green-100 text-green-800' },
+};
+
+const FIELDS = [
+  { key: 'branch', label: 'Branch', optionsKey: 'branches' },
+  { key: 'department', label: 'Department', optionsKey: 'departments' },
+  { key: 'category', label: 'Category', optionsKey: 'categories' },
+] as const;
+
+/**
+ * Correction history for an expense, plus (for admins) a form that writes the
+ * corrected values back to the source transaction.
+ */
+export default function ExpenseCorrections({ expense, canCorrect, options }: ExpenseCorrectionsProps) {
+  const [corrections, setCorrections] = useState<ExpenseCorrection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [markReviewed, setMarkReviewed] = useState(false);
+  const [values, setValues] = useState({
+    branch: expense.branch || '',
+    department: expense.department || '',
+    category: expense.category || '',
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    fetch(`/api/expenses/${expense.id}/corrections`)
+      .then(res => res.json())
+      .then(data => {
+        if (!cancelled && data.success) setCorrections(data.corrections);
+      })
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [expense.id]);
+
+  const isCreditCard = expense.transaction_type === 'Credit Card';
+  const targetName = isCreditCard ? 'Bill.com' : 'NetSuite';
+
+  const hasChanges =
+    values.branch.trim() !== (expense.branch || '') ||
+    values.department.trim() !== (expense.department || '') ||
+    values.category.trim() !== (expense.category || '');
+
+  const handleApply = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/expenses/${expense.id}/corrections`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...values, markReviewed: isCreditCard && markReviewed }),
+      });
+      const data = await response.json();
+
+      if (data.correction) {
+        setCorrections(prev => [data.correction, ...prev]);
+      }
+      if (data.success) {
+        toast.success(`Correction sent to ${targetName}. The next sync will confirm it.`);
+      } else {
+        toast.error(`Correction failed: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Nothing to show non-admins until a correction exists
+  if (!canCorrect && !loading && corrections.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wider mb-2">Corrections</h4>
+
+      {canCorrect && (
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end mb-3">
+          {FIELDS.map(field => (
+            <div key={field.key}>
+              <label className="block text-[11px] font-medium text-gray-700 mb-0.5">{field.label}</label>
+              <input
+                type="text"
+                list={`correction-${field.key}-${expense.id}`}
+                value={values[field.key]}
+                onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <datalist id={`correction-${field.key}-${expense.id}`}>
+                {options[field.optionsKey].map(option => <option key={option} value={option} />)}
+              </datalist>
+            </div>
+          ))}
+          <button
+            onClick={handleApply}
+            disabled={!hasChanges || saving}
+            className="px-3 py-1.5 bg-blue-600 text-white text-xs font-medium rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+          >
+            {saving ? 'Sending...' : `Apply in ${targetName}`}
+          </button>
+          {isCreditCard && (
+            <label className="flex items-center gap-1.5 md:col-span-4">
+              <input
+                type="checkbox"
+                checked={markReviewed}
+                onChange={(e) => setMarkReviewed(e.target.checked)}
+                className="w-3.5 h-3.5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span className="text-[11px] text-gray-700">Also mark reviewed in Bill.com</span>
+            </label>
+          )}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center gap-2 py-2">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          <span className="text-xs text-gray-700">Loading corrections...</span>
+        </div>
+      ) : corrections.length === 0 ? (
+        <p className="text-xs text-gray-500">No corrections yet.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {corrections.map(correction => (
+            <li key={correction.id} className="text-xs text-gray-900">
+              <span className={`inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium mr-2 ${STATUS_STYLES[correction.status].className}`}>
+                {STATUS_STYLES[correction.status].label}
+              </span>
+              {FIELDS.filter(field => correction[field.key] !== null).map(field => (
+                <span key={field.key} className="mr-2">
+                  <span className="font-medium">{field.label}:</span>{' '}
+                  <span className="text-gray-500 line-through">{correction[`previous_${field.key}`] || 'none'}</span>
+                  {' → '}
+                  <span className="font-medium">{correction[field.key]}</span>
+                </span>
+              ))}
+              {correction.mark_reviewed && <span className="text-[11px] text-gray-500 mr-2">Marked reviewed</span>}
+              <span className="text-[11px] text-gray-500">
+                {correction.requested_by && `${correction.requested_by} · `}
+                {format(new Date(correction.created_at), 'MMM d, yyyy h:mm a')}
+              </span>
+              {correction.status === 'failed' && correction.error && (
+                <p className="text-[11px] text-red-600 mt-0.5">{correction.error}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
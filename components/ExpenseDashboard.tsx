@@ -1,41 +1,41 @@
 'use client';
 
 import { useState, useMemo, useEffect, useRef } from 'react';
-import { Expense, isBillSynced } from '@/types/expense';
+import { Expense, TRANSACTION_TYPE_LABELS } from '@/types/expense';
+import { ApprovalPolicy } from '@/types/approval';
+import { Capability } from '@/types/user';
+import { Branch, getBranchSubtree, getChildBranches, getParentBranch } from '@/types/branch';
+import {
+  EMPTY_EXPENSE_AGGREGATES,
+  ExpenseAggregates,
+  ExpenseFilterOptions,
+  ExpenseFilters,
+  ExpenseSortField,
+  ExpenseTrendRow,
+  SortDirection,
+  toExpenseQueryParams,
+} from '@/types/expenseQuery';
 import ExpenseTable from './ExpenseTable';
 import FilterBar from './FilterBar';
 import KPICard from './KPICard';
 import { toast } from 'sonner';
 
 interface ExpenseDashboardProps {
-  initialExpenses: Expense[];
-  vendors: string[];
-  purchasers: string[];
+  // Admin View As: queries run under this user's scope
+  viewAsUserId: string | null;
+  filterOptions: ExpenseFilterOptions;
   activeTab: 'dashboard' | 'trends' | 'admin';
   onTabChange: (tab: 'dashboard' | 'trends' | 'admin') => void;
-  isAdmin: boolean;
-  canSendSlack?: boolean;
+  // What the signed-in user may do (getCapabilities)
+  capabilities: Capability[];
   isMasquerading?: boolean;
+  approvalPolicies?: ApprovalPolicy[];
+  // Branch hierarchy for the By Branch rollups
+  branches?: Branch[];
 }
 
-// Type definition for filters state
-interface FiltersState {
-  months: string[];
-  branch: string;
-  vendor: string;
-  department: string;
-  purchaser: string[];
-  category: string[];
-  dateFrom: string;
-  dateTo: string;
-  showFlagged: string;
-  flagCategory: string[];
-  excludeFlagCategories: string[];
-  transactionType: string;
-  status: string;
-  approvalStatus: string[];
-  syncStatus: string; // Filter for Bill.com sync status
-}
+// Type definition for filters state (shared with the /api/expenses query)
+type FiltersState = ExpenseFilters;
 
 // Type definition for trends filters
 interface TrendsFiltersState {
@@ -61,16 +61,20 @@ interface SectionsCollapsedState {
   filters: boolean;
 }
 
+// Table rows fetched per request; "Load more" fetches the next page
+const PAGE_SIZE = 100;
+
 export default function ExpenseDashboard({
-  initialExpenses,
-  vendors,
-  purchasers,
+  viewAsUserId,
+  filterOptions,
   activeTab,
   onTabChange,
-  isAdmin = false,
-  canSendSlack = false,
-  isMasquerading = false
+  capabilities,
+  isMasquerading = false,
+  approvalPolicies = [],
+  branches = []
 }: ExpenseDashboardProps) {
+  const canSendSlack = capabilities.includes('notify');
   // Get current month in YYYY-MM format
   const getCurrentMonth = () => {
     const now = new Date();
@@ -131,6 +135,18 @@ export default function ExpenseDashboard({
     return iconMap[branchName] || '';
   };
 
+  const getBranchColor = (branchName: string): string => {
+    const colorMap: Record<string, string> = {
+      'Phoenix': 'bg-orange-100',
+      'Phoenix - North': 'bg-green-100',
+      'Phoenix - SouthEast': 'bg-red-100',
+      'Phoenix - SouthWest': 'bg-blue-100',
+      'Las Vegas': 'bg-yellow-100',
+      'Corporate': 'bg-gray-100',
+    };
+    return colorMap[branchName] || 'bg-gray-100';
+  };
+
   // Initialize filters with defaults first (for SSR)
   const getDefaultFilters = (): FiltersState => ({
     months: [getCurrentMonth()],
@@ -148,6 +164,8 @@ export default function ExpenseDashboard({
     status: 'all',
     approvalStatus: [],
     syncStatus: 'all',
+    receiptStatus: 'all',
+    comments: 'all',
   });
 
   // Helper functions for localStorage
@@ -181,6 +199,27 @@ export default function ExpenseDashboard({
     }
   };
 
+  // Filters passed in the query string (deep links from the Slack /expenses
+  // command). A link starts from the defaults and sets only what it names, so
+  // it shows the same rows the link was built for regardless of stored state.
+  // Array filters are comma-separated.
+  const getUrlFilters = (): FiltersState | null => {
+    if (typeof window === 'undefined') return null;
+    const params = new URLSearchParams(window.location.search);
+    const defaults = getDefaultFilters();
+    const result: Record<string, string | string[]> = { ...defaults };
+    let found = false;
+
+    for (const key of Object.keys(defaults) as (keyof FiltersState)[]) {
+      const value = params.get(key);
+      if (value === null) continue;
+      found = true;
+      result[key] = Array.isArray(defaults[key]) ? value.split(',').filter(Boolean) : value;
+    }
+
+    return found ? (result as unknown as FiltersState) : null;
+  };
+
   const saveFiltersToStorage = (filters: FiltersState) => {
     if (typeof window === 'undefined') return;
     try {
@@ -190,26 +229,27 @@ export default function ExpenseDashboard({
     }
   };
 
-  const [expenses, setExpenses] = useState(initialExpenses);
-  
-  // Update expenses when initialExpenses changes (masquerade mode)
-  useEffect(() => {
-    setExpenses(initialExpenses);
-  }, [initialExpenses]);
-
   const [filters, setFilters] = useState<FiltersState>(getDefaultFilters());
   
   // Track if initial load from localStorage has completed
   const hasLoadedFromStorage = useRef(false);
+  // Queries wait for the stored filters, so the defaults aren't fetched first
+  const [filtersReady, setFiltersReady] = useState(false);
 
-  // Load filters from localStorage after mount (client-side only)
+  // Load filters from the URL or localStorage after mount (client-side only)
   useEffect(() => {
+    const urlFilters = getUrlFilters();
     const storedFilters = getStoredFilters();
-    if (storedFilters) {
+    if (urlFilters) {
+      setFilters(urlFilters);
+      // Drop the params so a reload goes back to the user's own (now saved) filters
+      window.history.replaceState(null, '', window.location.pathname);
+    } else if (storedFilters) {
       setFilters(storedFilters);
     }
     // Mark that we've completed the initial load
     hasLoadedFromStorage.current = true;
+    setFiltersReady(true);
   }, []); // Run once on mount
 
   // Save filters to localStorage whenever they change (but only after initial load)
@@ -273,261 +313,156 @@ export default function ExpenseDashboard({
     }));
   };
 
-  // Helper function to normalize department names (combine variants)
-  const normalizeDepartmentName = (department: string): string => {
-    const lower = department.toLowerCase();
-    // Combine all Maintenance variants into "Maintenance"
-    if (lower.includes('maintenance')) {
-      return 'Maintenance';
-    }
-    // Combine Fleet & Equipment variants
-    if (lower.includes('fleet') || lower.includes('equipment & fleet')) {
-      return 'Fleet & Equipment';
-    }
-    return department;
+  // Table rows, totals and trends are queried server-side (see
+  // lib/expenseQueries); only the loaded page of rows lives here
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [expensesLoading, setExpensesLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [kpis, setKpis] = useState<ExpenseAggregates>(EMPTY_EXPENSE_AGGREGATES);
+  const [sortField, setSortField] = useState<ExpenseSortField>('date');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [trendsRows, setTrendsRows] = useState<ExpenseTrendRow[]>([]);
+  const [trendsLoading, setTrendsLoading] = useState(false);
+
+  // Responses can arrive out of order while filters change quickly; only the
+  // latest request's results are applied
+  const expensesRequest = useRef(0);
+  const aggregatesRequest = useRef(0);
+
+  const buildQuery = (extra: Record<string, string> = {}) => {
+    const params = toExpenseQueryParams(filters);
+    if (viewAsUserId) params.set('viewAs', viewAsUserId);
+    for (const [key, value] of Object.entries(extra)) params.set(key, value);
+    return params.toString();
   };
 
-  // Filter expenses based on current filters
-  const filteredExpenses = useMemo(() => {
-    return expenses.filter(expense => {
-      // Month filter (multi-select YYYY-MM format)
-      if (filters.months.length > 0 && !filters.months.includes('all')) {
-        const expenseMonth = expense.transaction_date.substring(0, 7); // Get YYYY-MM
-        if (!filters.months.includes(expenseMonth)) {
-          return false;
-        }
-      }
-
-      // Branch filter
-      if (filters.branch !== 'all' && expense.branch !== filters.branch) {
-        return false;
-      }
-
-      // Vendor filter
-      if (filters.vendor !== 'all' && expense.vendor_name !== filters.vendor) {
-        return false;
-      }
-
-      // Department filter (use normalized name to match combined departments)
-      if (filters.department !== 'all') {
-        const normalizedExpDept = expense.department ? normalizeDepartmentName(expense.department) : '';
-        if (normalizedExpDept !== filters.department) {
-          return false;
-        }
-      }
-
-      // Purchaser filter (multi-select, matches cardholder)
-      if (filters.purchaser.length > 0 && (!expense.cardholder || !filters.purchaser.includes(expense.cardholder))) {
-        return false;
-      }
-
-      // Category filter (multi-select)
-      if (filters.category.length > 0 && (!expense.category || !filters.category.includes(expense.category))) {
-        return false;
-      }
-
-      // Date from filter (works independently of month selection)
-      // Extract just the date portion (YYYY-MM-DD) to avoid timezone issues
-      if (filters.dateFrom) {
-        const expenseDate = expense.transaction_date.substring(0, 10); // Get YYYY-MM-DD
-        if (expenseDate < filters.dateFrom) {
-          return false;
-        }
-      }
-
-      // Date to filter (works independently of month selection)
-      // Extract just the date portion (YYYY-MM-DD) to avoid timezone issues
-      if (filters.dateTo) {
-        const expenseDate = expense.transaction_date.substring(0, 10); // Get YYYY-MM-DD
-        if (expenseDate > filters.dateTo) {
-          return false;
-        }
-      }
-
-      // Flag filter
-      if (filters.showFlagged === 'flagged' && (!expense.flag_category || expense.flag_category === 'Good to Sync')) {
-        return false;
-      }
-      if (filters.showFlagged === 'unflagged' && expense.flag_category && expense.flag_category !== 'Good to Sync') {
-        return false;
-      }
-
-      // Flag category filter (multi-select)
-      if (filters.flagCategory.length > 0 && (!expense.flag_category || !filters.flagCategory.includes(expense.flag_category))) {
-        return false;
-      }
+  const fetchExpenses = async (cursor: string | null = null) => {
+    const requestId = ++expensesRequest.current;
+    if (cursor) setLoadingMore(true); else setExpensesLoading(true);
+    try {
+      const query = buildQuery({
+        sort: sortField,
+        direction: sortDirection,
+        limit: String(PAGE_SIZE),
+        ...(cursor ? { cursor } : {}),
+      });
+      const response = await fetch(`/api/expenses?${query}`);
+      const data = await response.json();
+      if (requestId !== expensesRequest.current) return;
 
-      // Exclude flag categories filter
-      if (filters.excludeFlagCategories.length > 0 && expense.flag_category && filters.excludeFlagCategories.includes(expense.flag_category)) {
-        return false;
+      if (data.success) {
+        setExpenses(prev => cursor ? [...prev, ...data.expenses] : data.expenses);
+        setNextCursor(data.nextCursor);
+      } else {
+        toast.error(`Failed to load expenses: ${data.error}`);
       }
-
-      // Transaction type filter
-      if (filters.transactionType !== 'all' && expense.transaction_type !== filters.transactionType) {
-        return false;
+    } catch (error: any) {
+      console.error('Error loading expenses:', error);
+      toast.error(`Failed to load expenses: ${error.message}`);
+    } finally {
+      if (requestId === expensesRequest.current) {
+        setExpensesLoading(false);
+        setLoadingMore(false);
       }
+    }
+  };
 
-      // Completion Status filter (renamed from Status)
-      if (filters.status !== 'all' && expense.status !== filters.status) {
-        return false;
-      }
+  const fetchAggregates = async () => {
+    const requestId = ++aggregatesRequest.current;
+    try {
+      const response = await fetch(`/api/expenses/aggregates?${buildQuery()}`);
+      const data = await response.json();
+      if (requestId !== aggregatesRequest.current) return;
 
-      // Approval Status filter (multi-select)
-      if (filters.approvalStatus.length > 0) {
-        const expenseApproval = expense.approval_status === null ? 'pending' : expense.approval_status;
-        if (!filters.approvalStatus.includes(expenseApproval)) {
-          return false;
-        }
+      if (data.success) {
+        setKpis(data.aggregates);
+      } else {
+        toast.error(`Failed to load totals: ${data.error}`);
       }
+    } catch (error: any) {
+      console.error('Error loading totals:', error);
+    }
+  };
 
-      // Sync status filter (Bill.com credit cards only)
-      if (filters.syncStatus !== 'all') {
-        // Only filter credit card transactions by sync status
-        if (expense.transaction_type === 'Credit Card') {
-          if (filters.syncStatus === 'synced' && !isBillSynced(expense.bill_sync_status)) {
-            return false;
-          }
-          if (filters.syncStatus === 'not-synced' && isBillSynced(expense.bill_sync_status)) {
-            return false;
-          }
-        }
-      }
+  useEffect(() => {
+    if (!filtersReady || activeTab !== 'dashboard') return;
+    fetchExpenses();
+  }, [filtersReady, activeTab, filters, sortField, sortDirection, viewAsUserId]);
 
-      return true;
-    });
-  }, [expenses, filters]);
-
-  // Separate filtered expenses for Trends tab
-  const trendsFilteredExpenses = useMemo(() => {
-    return expenses.filter(expense => {
-      // Compare on the date portion only. transaction_date is a full timestamp, so
-      // comparing it directly against a YYYY-MM-DD bound drops the last day of the
-      // range (e.g. "2026-04-30T07:00:00Z" > "2026-04-30").
-      const expenseDate = expense.transaction_date.substring(0, 10);
-
-      // Date from filter
-      if (trendsFilters.dateFrom && expenseDate < trendsFilters.dateFrom) {
-        return false;
-      }
+  useEffect(() => {
+    if (!filtersReady || activeTab !== 'dashboard') return;
+    fetchAggregates();
+  }, [filtersReady, activeTab, filters, viewAsUserId]);
 
-      // Date to filter
-      if (trendsFilters.dateTo && expenseDate > trendsFilters.dateTo) {
-        return false;
-      }
+  const handleSortChange = (field: ExpenseSortField) => {
+    if (sortField === field) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortDirection(field === 'date' || field === 'amount' ? 'desc' : 'asc');
+    }
+  };
 
-      return true;
+  // Trends tab totals, grouped by month and the Stack By dimension in Postgres
+  useEffect(() => {
+    if (activeTab !== 'trends') return;
+
+    let cancelled = false;
+    setTrendsLoading(true);
+    const params = new URLSearchParams({
+      dateFrom: trendsFilters.dateFrom,
+      dateTo: trendsFilters.dateTo,
+      dimension: secondaryView,
     });
-  }, [expenses, trendsFilters]);
+    if (viewAsUserId) params.set('viewAs', viewAsUserId);
+
+    fetch(`/api/expenses/trends?${params.toString()}`)
+      .then(response => response.json())
+      .then(data => {
+        if (cancelled) return;
+        if (data.success) {
+          setTrendsRows(data.rows);
+        } else {
+          toast.error(`Failed to load trends: ${data.error}`);
+        }
+      })
+      .catch(error => console.error('Error loading trends:', error))
+      .finally(() => {
+        if (!cancelled) setTrendsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [activeTab, trendsFilters, secondaryView, viewAsUserId]);
 
   // Single aggregation pass for the Trends tab. The chart, summary stats, and
-  // breakdown table all read from this; previously each re-scanned the full
-  // expense list inline on every render (including unrelated state changes).
+  // breakdown table all read from this.
   const trendsData = useMemo(() => {
     const monthlyData: Record<string, Record<string, number>> = {};
     const dimensionData: Record<string, { byMonth: Record<string, number>; total: number; count: number }> = {};
     const monthTotals: Record<string, number> = {};
     let grandTotal = 0;
+    let totalCount = 0;
 
-    trendsFilteredExpenses.forEach(exp => {
-      const month = exp.transaction_date.substring(0, 7); // YYYY-MM
-      const dimension =
-        secondaryView === 'department' ? (exp.department || 'Unknown')
-        : secondaryView === 'purchaser' ? (exp.cardholder || 'Unknown')
-        : secondaryView === 'vendor' ? (exp.vendor_name || 'Unknown')
-        : (exp.category || 'Unknown');
-      const amount = Number(exp.amount);
-
+    trendsRows.forEach(({ month, dimension, amount, count }) => {
       if (!monthlyData[month]) monthlyData[month] = {};
       monthlyData[month][dimension] = (monthlyData[month][dimension] || 0) + amount;
 
       if (!dimensionData[dimension]) dimensionData[dimension] = { byMonth: {}, total: 0, count: 0 };
       dimensionData[dimension].byMonth[month] = (dimensionData[dimension].byMonth[month] || 0) + amount;
       dimensionData[dimension].total += amount;
-      dimensionData[dimension].count += 1;
+      dimensionData[dimension].count += count;
 
       monthTotals[month] = (monthTotals[month] || 0) + amount;
       grandTotal += amount;
+      totalCount += count;
     });
 
     const sortedMonths = Object.keys(monthlyData).sort();
     const sortedDimensions = Object.entries(dimensionData).sort(([, a], [, b]) => b.total - a.total);
     const topDimensions = sortedDimensions.slice(0, 10).map(([dim]) => dim);
 
-    return { monthlyData, sortedMonths, sortedDimensions, topDimensions, monthTotals, grandTotal };
-  }, [trendsFilteredExpenses, secondaryView]);
-
-  // Calculate KPIs based on filtered data
-  const kpis = useMemo(() => {
-    const totalAmount = filteredExpenses.reduce((sum, exp) => sum + Number(exp.amount), 0);
-    const totalCount = filteredExpenses.length;
-    const flaggedCount = filteredExpenses.filter(exp => exp.flag_category && exp.flag_category !== 'Good to Sync').length;
-
-    const byBranch: Record<string, { amount: number; count: number; unapprovedAmount: number; unapprovedCount: number }> = {};
-    const byDepartment: Record<string, { amount: number; count: number; unapprovedAmount: number; unapprovedCount: number }> = {};
-    const byVendor: Record<string, { amount: number; count: number }> = {};
-    const byPurchaser: Record<string, { amount: number; count: number }> = {};
-    const byCategory: Record<string, { amount: number; count: number }> = {};
-    
-    filteredExpenses.forEach(exp => {
-      const isUnapproved = exp.approval_status !== 'approved';
-      const amount = Number(exp.amount);
-      
-      if (exp.branch) {
-        if (!byBranch[exp.branch]) {
-          byBranch[exp.branch] = { amount: 0, count: 0, unapprovedAmount: 0, unapprovedCount: 0 };
-        }
-        byBranch[exp.branch].amount += amount;
-        byBranch[exp.branch].count += 1;
-        if (isUnapproved) {
-          byBranch[exp.branch].unapprovedAmount += amount;
-          byBranch[exp.branch].unapprovedCount += 1;
-        }
-      }
-      if (exp.department) {
-        // Normalize department name to combine variants (e.g., "Maintenance Recurring" -> "Maintenance")
-        const normalizedDept = normalizeDepartmentName(exp.department);
-        if (!byDepartment[normalizedDept]) {
-          byDepartment[normalizedDept] = { amount: 0, count: 0, unapprovedAmount: 0, unapprovedCount: 0 };
-        }
-        byDepartment[normalizedDept].amount += amount;
-        byDepartment[normalizedDept].count += 1;
-        if (isUnapproved) {
-          byDepartment[normalizedDept].unapprovedAmount += amount;
-          byDepartment[normalizedDept].unapprovedCount += 1;
-        }
-      }
-      if (exp.vendor_name) {
-        if (!byVendor[exp.vendor_name]) {
-          byVendor[exp.vendor_name] = { amount: 0, count: 0 };
-        }
-        byVendor[exp.vendor_name].amount += amount;
-        byVendor[exp.vendor_name].count += 1;
-      }
-      if (exp.cardholder) {
-        if (!byPurchaser[exp.cardholder]) {
-          byPurchaser[exp.cardholder] = { amount: 0, count: 0 };
-        }
-        byPurchaser[exp.cardholder].amount += amount;
-        byPurchaser[exp.cardholder].count += 1;
-      }
-      if (exp.category) {
-        if (!byCategory[exp.category]) {
-          byCategory[exp.category] = { amount: 0, count: 0 };
-        }
-        byCategory[exp.category].amount += amount;
-        byCategory[exp.category].count += 1;
-      }
-    });
-
-    return { totalAmount, totalCount, flaggedCount, byBranch, byDepartment, byVendor, byPurchaser, byCategory };
-  }, [filteredExpenses]);
-
-  // Based on filteredExpenses so the count respects the active filters (month, branch, etc.),
-  // matching the Ready to Review badge.
-  const readyToSyncExpenses = useMemo(() =>
-    filteredExpenses.filter(e => e.transaction_type === 'Credit Card' && e.status === 'Complete' && !isBillSynced(e.bill_sync_status) && e.flag_category === 'Good to Sync'),
-    [filteredExpenses]
-  );
+    return { monthlyData, sortedMonths, sortedDimensions, topDimensions, monthTotals, grandTotal, totalCount };
+  }, [trendsRows]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -546,53 +481,57 @@ export default function ExpenseDashboard({
     return department;
   };
 
-  // Get unique categories from expenses filtered by everything except category
-  const uniqueCategories = useMemo(() => {
-    const baseFiltered = expenses.filter(expense => {
-      if (filters.months.length > 0 && !filters.months.includes('all')) {
-        if (!filters.months.includes(expense.transaction_date.substring(0, 7))) return false;
-      }
-      if (filters.branch !== 'all' && expense.branch !== filters.branch) return false;
-      if (filters.vendor !== 'all' && expense.vendor_name !== filters.vendor) return false;
-      if (filters.department !== 'all') {
-        const normalizedExpDept = expense.department ? normalizeDepartmentName(expense.department) : '';
-        if (normalizedExpDept !== filters.department) return false;
-      }
-      if (filters.purchaser.length > 0 && (!expense.cardholder || !filters.purchaser.includes(expense.cardholder))) return false;
-      if (filters.transactionType !== 'all' && expense.transaction_type !== filters.transactionType) return false;
-      return true;
-    });
-    const categories = new Set(
-      baseFiltered
-        .map(e => e.category)
-        .filter((category): category is string => category !== null && category !== undefined && category !== '')
-    );
-    return Array.from(categories).sort();
-  }, [expenses, filters.months, filters.branch, filters.vendor, filters.department, filters.purchaser, filters.transactionType]);
-
-  // Get unique statuses from all expenses
-  const uniqueStatuses = useMemo(() => {
-    const statuses = new Set(
-      expenses
-        .map(e => e.status)
-        .filter((status): status is string => status !== null && status !== undefined && status !== '')
-    );
-    return Array.from(statuses).sort();
-  }, [expenses]);
+  // Every branch/department/category in scope, as suggestions for the
+  // correction form (unfiltered, since the right value may be filtered out)
+  const correctionOptions = useMemo(() => ({
+    branches: filterOptions.branches,
+    departments: filterOptions.departments,
+    categories: filterOptions.categories,
+  }), [filterOptions]);
 
   const handleFilterChange = (key: string, value: string | string[]) => {
     setFilters(prev => ({ ...prev, [key]: value } as FiltersState));
   };
 
   const handleBranchClick = (branch: string) => {
-    // If clicking the same branch, clear the filter (toggle off)
+    // If clicking the same branch, clear the filter (toggle off), back up to
+    // its region if it has one
     if (filters.branch === branch) {
-      setFilters(prev => ({ ...prev, branch: 'all' }));
+      setFilters(prev => ({ ...prev, branch: getParentBranch(branches, branch)?.name ?? 'all' }));
     } else {
       setFilters(prev => ({ ...prev, branch: branch }));
     }
   };
 
+  // The By Branch cards show one level of the hierarchy: the selected region's
+  // branches, the selected branch and its siblings, or the top level. Each card
+  // rolls up everything below it.
+  const selectedBranch = filters.branch === 'all' ? null : filters.branch;
+  const branchLevel = selectedBranch && getChildBranches(branches, selectedBranch).length > 0
+    ? selectedBranch
+    : selectedBranch ? getParentBranch(branches, selectedBranch)?.name ?? null : null;
+  const branchCards = useMemo(() => {
+    const names = getChildBranches(branches, branchLevel).map(b => b.name);
+    if (branchLevel === null) {
+      // Branches on expenses that aren't in the hierarchy yet still get a card
+      names.push(...Object.keys(kpis.byBranch).filter(name => !branches.some(b => b.name === name)).sort());
+    }
+    return names.map(name => {
+      const subtree = getBranchSubtree(branches, name);
+      return {
+        name,
+        hasSubBranches: subtree.length > 1,
+        amount: subtree.reduce((sum, branch) => sum + (kpis.byBranch[branch]?.amount || 0), 0),
+        count: subtree.reduce((sum, branch) => sum + (kpis.byBranch[branch]?.count || 0), 0),
+      };
+    });
+  }, [branches, branchLevel, kpis.byBranch]);
+  // Breadcrumb from the top level down to the level shown
+  const branchTrail: string[] = [];
+  for (let name = branchLevel; name; name = getParentBranch(branches, name)?.name ?? null) {
+    branchTrail.unshift(name);
+  }
+
   const handleDepartmentClick = (department: string) => {
     // If clicking the same department, clear the filter (toggle off)
     if (filters.department === department) {
@@ -650,6 +589,8 @@ export default function ExpenseDashboard({
       status: 'all',
       approvalStatus: [],
       syncStatus: 'all',
+      receiptStatus: 'all',
+      comments: 'all',
     }));
   };
 
@@ -667,6 +608,13 @@ export default function ExpenseDashboard({
     }));
   };
 
+  const handleMissingReceiptsClick = () => {
+    setFilters(prev => ({
+      ...prev,
+      receiptStatus: prev.receiptStatus === 'missing' ? 'all' : 'missing'
+    }));
+  };
+
   const isReadyToSyncActive = filters.transactionType === 'Credit Card' && filters.status === 'Complete' && filters.syncStatus === 'not-synced' && filters.flagCategory.length === 1 && filters.flagCategory[0] === 'Good to Sync';
 
   const handleReadyToSyncClick = () => {
@@ -713,19 +661,6 @@ export default function ExpenseDashboard({
     }
   };
 
-  // Mirrors the filter set by handleReadyToReviewClick so the badge count matches what clicking will show.
-  // Based on filteredExpenses so the count respects the active filters (month, branch, etc.).
-  const readyToReviewExpenses = useMemo(() =>
-    filteredExpenses.filter(e =>
-      e.transaction_type === 'Credit Card' &&
-      e.status === 'Complete' &&
-      !isBillSynced(e.bill_sync_status) &&
-      e.flag_category !== 'Has WO #' &&
-      e.flag_category !== 'Good to Sync'
-    ),
-    [filteredExpenses]
-  );
-
   // Check if any non-default filters are active (months counts as active when
   // it differs from the current-month default — it's persisted in localStorage,
   // so without a chip a stale month selection is invisible and unexplainable)
@@ -744,14 +679,18 @@ export default function ExpenseDashboard({
       status: 'Status',
       approvalStatus: 'Approval Status',
       syncStatus: 'Sync Status',
+      receiptStatus: 'Receipt',
+      comments: 'Comments',
       dateFrom: 'Date From',
       dateTo: 'Date To',
     };
     const displayValueMap: Record<string, Record<string, string>> = {
       showFlagged: { flagged: 'Flagged Only', unflagged: 'Unflagged Only' },
-      transactionType: { 'Vendor Bill': 'Vendor Bill', 'Credit Card': 'Credit Card' },
+      transactionType: TRANSACTION_TYPE_LABELS,
       approvalStatus: { pending: 'Pending Review', approved: 'Approved', rejected: 'Rejected' },
       syncStatus: { synced: 'Synced to NetSuite', 'not-synced': 'Not Synced' },
+      receiptStatus: { missing: 'Missing Receipt', attached: 'Receipt On File' },
+      comments: { unresolved: 'Has Unresolved Comments', any: 'Has Comments' },
     };
     const branchColorMap: Record<string, { bg: string; border: string; text: string; x: string; xHover: string }> = {
       'Phoenix - North': { bg: 'bg-green-100', border: 'border-green-300', text: 'text-green-800', x: 'text-green-400', xHover: 'hover:text-green-700' },
@@ -820,18 +759,22 @@ export default function ExpenseDashboard({
   };
 
   const handleFlagUpdate = (expenseId: string, newFlagCategory: string | null) => {
-    // Update the local expense state with the new flag
+    // Update the local expense state with the new flag (a flag change also
+    // restarts escalation, see /api/expenses/flag)
     setExpenses(prev => prev.map(expense => 
       expense.id === expenseId 
-        ? { ...expense, flag_category: newFlagCategory }
+        ? { ...expense, flag_category: newFlagCategory, escalated_at: expense.flag_category === newFlagCategory ? expense.escalated_at : null }
         : expense
     ));
+    // Flagged counts and the Ready badges depend on it. The row stays in the
+    // loaded page even if it no longer matches, until the filters change.
+    fetchAggregates();
   };
 
   const handleApprovalUpdate = (
     expenseId: string,
     newApprovalStatus: 'approved' | 'rejected' | null,
-    modified?: { approval_modified_by: string | null; approval_modified_at: string | null }
+    modified?: { approval_modified_by: string | null; approval_modified_at: string | null; approval_step?: number }
   ) => {
     // Update the local expense state with the new approval status (and the
     // server-returned tracking fields, so we don't need a full page reload).
@@ -840,6 +783,16 @@ export default function ExpenseDashboard({
         ? { ...expense, approval_status: newApprovalStatus, ...(modified || {}) }
         : expense
     ));
+    fetchAggregates();
+  };
+
+  const handleCommentCountsChange = (expenseId: string, counts: { comment_count: number; unresolved_comment_count: number }) => {
+    setExpenses(prev => prev.map(expense =>
+      expense.id === expenseId &&
+      (expense.comment_count !== counts.comment_count || expense.unresolved_comment_count !== counts.unresolved_comment_count)
+        ? { ...expense, ...counts }
+        : expense
+    ));
   };
 
   const handleNotificationSent = (expenseId: string) => {
@@ -1063,12 +1016,27 @@ export default function ExpenseDashboard({
           </svg>
           By Branch
         </button>
+        {!sectionsCollapsed.byBranch && branchTrail.length > 0 && (
+          <nav className="flex items-center gap-1 text-sm text-gray-700 mb-3">
+            <button onClick={() => handleFilterChange('branch', 'all')} className="text-blue-600 hover:text-blue-800">
+              All branches
+            </button>
+            {branchTrail.map(name => (
+              <span key={name} className="flex items-center gap-1">
+                <span className="text-gray-400">›</span>
+                <button onClick={() => handleFilterChange('branch', name)} className="text-blue-600 hover:text-blue-800">
+                  {name}
+                </button>
+              </span>
+            ))}
+          </nav>
+        )}
         {!sectionsCollapsed.byBranch && (
         <div className="grid grid-cols-[repeat(auto-fill,minmax(150px,1fr))] gap-3">
           <KPICard
             title="Total Expenses"
             value={formatCurrency(kpis.totalAmount)}
-            subtitle={`${kpis.totalCount} transactions`}
+            subtitle={`${kpis.totalCount} transactions${kpis.creditAmount < 0 ? `, net of ${formatCurrency(-kpis.creditAmount)} credits` : ''}`}
             bgColor="bg-white"
             size="small"
             onClick={handleTotalClick}
@@ -1077,72 +1045,45 @@ export default function ExpenseDashboard({
           <KPICard
             title="Flagged Items"
             value={kpis.flaggedCount.toString()}
-            subtitle={`${formatCurrency(filteredExpenses.filter(e => e.flag_category && e.flag_category !== 'Good to Sync').reduce((sum, e) => sum + Number(e.amount), 0))}`}
+            subtitle={formatCurrency(kpis.flaggedAmount)}
             bgColor={filters.showFlagged === 'flagged' ? 'bg-yellow-100' : 'bg-yellow-50'}
             size="small"
             onClick={handleFlaggedClick}
             isActive={filters.showFlagged === 'flagged'}
           />
           <KPICard
-            title="Phoenix - North"
-            value={formatCurrency(kpis.byBranch['Phoenix - North']?.amount || 0)}
-            subtitle={`${kpis.byBranch['Phoenix - North']?.count || 0} transactions`}
-            bgColor="bg-green-100"
-            size="small"
-            onClick={() => handleBranchClick('Phoenix - North')}
-            isActive={filters.branch === 'Phoenix - North'}
-            icon={getBranchIcon('Phoenix - North')}
-          />
-          <KPICard
-            title="Phoenix - SouthEast"
-            value={formatCurrency(kpis.byBranch['Phoenix - SouthEast']?.amount || 0)}
-            subtitle={`${kpis.byBranch['Phoenix - SouthEast']?.count || 0} transactions`}
-            bgColor="bg-red-100"
-            size="small"
-            onClick={() => handleBranchClick('Phoenix - SouthEast')}
-            isActive={filters.branch === 'Phoenix - SouthEast'}
-            icon={getBranchIcon('Phoenix - SouthEast')}
-          />
-          <KPICard
-            title="Phoenix - SouthWest"
-            value={formatCurrency(kpis.byBranch['Phoenix - SouthWest']?.amount || 0)}
-            subtitle={`${kpis.byBranch['Phoenix - SouthWest']?.count || 0} transactions`}
-            bgColor="bg-blue-100"
-            size="small"
-            onClick={() => handleBranchClick('Phoenix - SouthWest')}
-            isActive={filters.branch === 'Phoenix - SouthWest'}
-            icon={getBranchIcon('Phoenix - SouthWest')}
-          />
-          <KPICard
-            title="Las Vegas"
-            value={formatCurrency(kpis.byBranch['Las Vegas']?.amount || 0)}
-            subtitle={`${kpis.byBranch['Las Vegas']?.count || 0} transactions`}
-            bgColor="bg-yellow-100"
+            title="Missing Receipts"
+            value={kpis.missingReceiptCount.toString()}
+            subtitle={formatCurrency(kpis.missingReceiptAmount)}
+            bgColor={filters.receiptStatus === 'missing' ? 'bg-rose-100' : 'bg-rose-50'}
             size="small"
-            onClick={() => handleBranchClick('Las Vegas')}
-            isActive={filters.branch === 'Las Vegas'}
-            icon={getBranchIcon('Las Vegas')}
-          />
-          <KPICard
-            title="Phoenix"
-            value={formatCurrency(kpis.byBranch['Phoenix']?.amount || 0)}
-            subtitle={`${kpis.byBranch['Phoenix']?.count || 0} transactions`}
-            bgColor="bg-orange-100"
-            size="small"
-            onClick={() => handleBranchClick('Phoenix')}
-            isActive={filters.branch === 'Phoenix'}
-            icon={getBranchIcon('Phoenix')}
-          />
-          <KPICard
-            title="Corporate"
-            value={formatCurrency(kpis.byBranch['Corporate']?.amount || 0)}
-            subtitle={`${kpis.byBranch['Corporate']?.count || 0} transactions`}
-            bgColor="bg-gray-100"
-            size="small"
-            onClick={() => handleBranchClick('Corporate')}
-            isActive={filters.branch === 'Corporate'}
-            icon={getBranchIcon('Corporate')}
+            onClick={handleMissingReceiptsClick}
+            isActive={filters.receiptStatus === 'missing'}
           />
+          {branchCards.map(card => (
+            <KPICard
+              key={card.name}
+              title={card.hasSubBranches ? `${card.name} ›` : card.name}
+              value={formatCurrency(card.amount)}
+              subtitle={`${card.count} transactions`}
+              bgColor={getBranchColor(card.name)}
+              size="small"
+              onClick={() => handleBranchClick(card.name)}
+              isActive={filters.branch === card.name}
+              icon={getBranchIcon(card.name)}
+            />
+          ))}
+          {/* Expenses tagged with the region itself rather than one of its branches */}
+          {branchLevel && (kpis.byBranch[branchLevel]?.count || 0) > 0 && (
+            <KPICard
+              title={`${branchLevel} (no branch)`}
+              value={formatCurrency(kpis.byBranch[branchLevel].amount)}
+              subtitle={`${kpis.byBranch[branchLevel].count} transactions`}
+              bgColor={getBranchColor(branchLevel)}
+              size="small"
+              icon={getBranchIcon(branchLevel)}
+            />
+          )}
         </div>
         )}
       </div>
@@ -1519,7 +1460,7 @@ export default function ExpenseDashboard({
             </svg>
             Filters
           </button>
-          {isAdmin && (
+          {capabilities.includes('sync') && (
             <button
               onClick={handleReadyToSyncClick}
               className={`px-3 py-1 text-xs font-medium rounded-full transition-colors ${
@@ -1528,10 +1469,10 @@ export default function ExpenseDashboard({
                   : 'bg-green-100 text-green-800 hover:bg-green-200'
               }`}
             >
-              Ready to Sync ({readyToSyncExpenses.length})
+              Ready to Sync ({kpis.readyToSyncCount})
             </button>
           )}
-          {isAdmin && (
+          {capabilities.includes('flag') && (
             <button
               onClick={handleReadyToReviewClick}
               className={`px-3 py-1 text-xs font-medium rounded-full transition-colors ${
@@ -1540,16 +1481,16 @@ export default function ExpenseDashboard({
                   : 'bg-blue-100 text-blue-800 hover:bg-blue-200'
               }`}
             >
-              Ready to Review ({readyToReviewExpenses.length})
+              Ready to Review ({kpis.readyToReviewCount})
             </button>
           )}
         </div>
         {!sectionsCollapsed.filters && (
         <FilterBar
-          vendors={vendors}
-          purchasers={purchasers}
-          categories={uniqueCategories}
-          statuses={uniqueStatuses}
+          vendors={filterOptions.vendors}
+          purchasers={filterOptions.purchasers}
+          categories={kpis.categories}
+          statuses={filterOptions.statuses}
           onFilterChange={handleFilterChange}
           currentFilters={filters}
         />
@@ -1558,14 +1499,24 @@ export default function ExpenseDashboard({
 
       {/* Expense Table */}
       <ExpenseTable
-        expenses={filteredExpenses}
+        expenses={expenses}
+        totalCount={kpis.totalCount}
+        loading={expensesLoading}
+        hasMore={nextCursor !== null}
+        loadingMore={loadingMore}
+        onLoadMore={() => fetchExpenses(nextCursor)}
+        sortField={sortField}
+        sortDirection={sortDirection}
+        onSortChange={handleSortChange}
         onFlagUpdate={handleFlagUpdate}
         onApprovalUpdate={handleApprovalUpdate}
         onNotificationSent={handleNotificationSent}
-        isAdmin={isAdmin}
-        canSendSlack={canSendSlack}
+        onCommentCountsChange={handleCommentCountsChange}
+        capabilities={capabilities}
         isMasquerading={isMasquerading}
         onClearFilters={hasActiveFilters ? handleClearAllFilters : undefined}
+        correctionOptions={correctionOptions}
+        approvalPolicies={approvalPolicies}
       />
       </>
       )}
@@ -1673,7 +1624,7 @@ export default function ExpenseDashboard({
                   if (sortedMonths.length === 0) {
                     return (
                       <text x="500" y="200" textAnchor="middle" fill="#6B7280" fontSize="16">
-                        No data available for the selected date range
+                        {trendsLoading ? 'Loading trends...' : 'No data available for the selected date range'}
                       </text>
                     );
                   }
@@ -1848,7 +1799,7 @@ export default function ExpenseDashboard({
               <p className="text-2xl font-bold text-gray-900">
                 {formatCurrency(trendsData.grandTotal)}
               </p>
-              <p className="text-xs text-gray-700 mt-1">{trendsFilteredExpenses.length} transactions</p>
+              <p className="text-xs text-gray-700 mt-1">{trendsData.totalCount} transactions</p>
             </div>
             <div className="bg-white border border-gray-200 rounded-lg p-4">
               <h3 className="text-xs font-medium text-gray-700 mb-1">Avg per Month</h3>
@@ -1915,7 +1866,7 @@ export default function ExpenseDashboard({
                       return (
                         <tr>
                           <td colSpan={months.length + 3} className="px-4 py-8 text-center text-gray-700">
-                            No data available for the selected date range
+                            {trendsLoading ? 'Loading trends...' : 'No data available for the selected date range'}
                           </td>
                         </tr>
                       );
@@ -1942,8 +1893,7 @@ export default function ExpenseDashboard({
                   })()}
                   {/* Total Row */}
                   {(() => {
-                    const { sortedMonths: months, monthTotals, grandTotal } = trendsData;
-                    const totalCount = trendsFilteredExpenses.length;
+                    const { sortedMonths: months, monthTotals, grandTotal, totalCount } = trendsData;
 
                     if (months.length === 0) return null;
                     
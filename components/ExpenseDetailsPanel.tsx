@@ -0,0 +1,52 @@
+'use client';
+
+import { Expense } from '@/types/expense';
+import ExpenseHistory from './ExpenseHistory';
+import ExpenseApprovalChain from './ExpenseApprovalChain';
+import ExpenseNotifications from './ExpenseNotifications';
+import ExpenseComments, { CommentCounts } from './ExpenseComments';
+import ExpenseReceipts from './ExpenseReceipts';
+import ExpenseCorrections, { CorrectionOptions } from './ExpenseCorrections';
+
+interface ExpenseDetailsPanelProps {
+  expense: Expense;
+  canCorrect: boolean;
+  correctionOptions: CorrectionOptions;
+  // Steps in the expense's approval chain; 0 when no policy applies
+  approvalSteps?: number;
+  onCommentCountsChange?: (expenseId: string, counts: CommentCounts) => void;
+}
+
+/**
+ * Detail sections shown when an ExpenseTable row is expanded. Shared by the
+ * desktop table (full-width row under the expense) and the mobile cards.
+ */
+export default function ExpenseDetailsPanel({ expense, canCorrect, correctionOptions, approvalSteps = 0, onCommentCountsChange }: ExpenseDetailsPanelProps) {
+  return (
+    <div className="space-y-4">
+      {expense.transaction_type === 'Credit Card' && <ExpenseReceipts expense={expense} />}
+      <ExpenseCorrections expense={expense} canCorrect={canCorrect} options={correctionOptions} />
+      {approvalSteps > 0 && (
+        <ExpenseApprovalChain
+          expenseId={expense.id}
+          refreshKey={`${expense.approval_status ?? ''}|${expense.approval_step}`}
+        />
+      )}
+      {(expense.slack_notification_count > 0 || expense.escalated_at) && (
+        <ExpenseNotifications
+          expenseId={expense.id}
+          refreshKey={`${expense.slack_notification_count}|${expense.escalated_at ?? ''}`}
+        />
+      )}
+      <ExpenseComments
+        expenseId={expense.id}
+        refreshKey={String(expense.slack_notification_count)}
+        onCountsChange={counts => onCommentCountsChange?.(expense.id, counts)}
+      />
+      <ExpenseHistory
+        expenseId={expense.id}
+        refreshKey={`${expense.flag_category ?? ''}|${expense.approval_status ?? ''}`}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ExpenseChange, ExpenseChangeSource } from '@/types/expense';
+import { formatCurrency } from '@/lib/format';
+
+interface ExpenseHistoryProps {
+  expenseId: string;
+  // Changes whenever the row's flag/approval changes locally, so the timeline
+  // picks up the history row the flag/approval route just wrote.
+  refreshKey?: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  branch: 'Branch',
+  department: 'Department',
+  amount: 'Amount',
+  vendor_name: 'Vendor',
+  category: 'Category',
+  flag_category: 'Flag',
+  approval_status: 'Approval',
+};
+
+const SOURCE_LABELS: Record<ExpenseChangeSource, string> = {
+  netsuite_sync: 'NetSuite sync',
+  bill_sync: 'Bill.com sync',
+  flag: 'Flag',
+  approval: 'Approval',
+  correction: 'Confirmed correction',
+};
+
+const SOURCE_DOT_COLORS: Record<ExpenseChangeSource, string> = {
+  netsuite_sync: 'bg-blue-500',
+  bill_sync: 'bg-orange-500',
+  flag: 'bg-yellow-500',
+  approval: 'bg-green-500',
+  correction: 'bg-purple-500',
+};
+
+const formatValue = (field: string, value: string | null) => {
+  if (value === null) return 'none';
+  if (field === 'amount' && !isNaN(Number(value))) return formatCurrency(Number(value), { cents: true });
+  return value;
+};
+
+export default function ExpenseHistory({ expenseId, refreshKey }: ExpenseHistoryProps) {
+  const [changes, setChanges] = useState<ExpenseChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetch(`/api/expenses/${expenseId}/changes`)
+      .then(res => res.json())
+      .then(data => {
+        if (cancelled) return;
+        if (data.success) {
+          setChanges(data.changes);
+        } else {
+          setError(data.error || 'Failed to load history');
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [expenseId, refreshKey]);
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wider mb-2">History</h4>
+      {loading ? (
+        <div className="flex items-center gap-2 py-2">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          <span className="text-xs text-gray-700">Loading history...</span>
+        </div>
+      ) : error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : changes.length === 0 ? (
+        <p className="text-xs text-gray-500">No changes recorded yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-1.5 space-y-3">
+          {changes.map(change => (
+            <li key={change.id} className="ml-4">
+              <span className={`absolute -left-1.5 mt-1 w-3 h-3 rounded-full border-2 border-white ${SOURCE_DOT_COLORS[change.source] || 'bg-gray-400'}`} />
+              <p className="text-xs text-gray-900">
+                <span className="font-medium">{FIELD_LABELS[change.field] || change.field}</span>
+                {' changed from '}
+                <span className="text-gray-500 line-through">{formatValue(change.field, change.old_value)}</span>
+                {' to '}
+                <span className="font-medium">{formatValue(change.field, change.new_value)}</span>
+              </p>
+              <p className="text-[11px] text-gray-500">
+                {SOURCE_LABELS[change.source] || change.source}
+                {change.changed_by && ` · ${change.changed_by}`}
+                {' · '}
+                {format(new Date(change.changed_at), 'MMM d, yyyy h:mm a')}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
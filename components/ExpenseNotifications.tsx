@@ -0,0 +1,97 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { SlackNotification, SLACK_NOTIFICATION_KIND_LABELS } from '@/types/slackNotification';
+
+interface ExpenseNotificationsProps {
+  expenseId: string;
+  // Changes when a notification is sent from the row, so the list reloads
+  refreshKey?: string;
+}
+
+const KIND_DOT_COLORS: Record<string, string> = {
+  correction: 'bg-blue-500',
+  reminder: 'bg-amber-500',
+  escalation: 'bg-red-500',
+};
+
+export default function ExpenseNotifications({ expenseId, refreshKey }: ExpenseNotificationsProps) {
+  const [notifications, setNotifications] = useState<SlackNotification[]>([]);
+  const [recipientNames, setRecipientNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetch(`/api/expenses/${expenseId}/notifications`)
+      .then(res => res.json())
+      .then(data => {
+        if (cancelled) return;
+        if (data.success) {
+          setNotifications(data.notifications);
+          setRecipientNames(data.recipientNames);
+        } else {
+          setError(data.error || 'Failed to load notifications');
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load notifications');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [expenseId, refreshKey]);
+
+  const describeRecipients = (n: SlackNotification) => {
+    if (n.recipient_slack_ids.length === 0) return 'channel';
+    return n.recipient_slack_ids.map(id => recipientNames[id] || id).join(', ');
+  };
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wider mb-2">Slack Notifications</h4>
+      {loading ? (
+        <div className="flex items-center gap-2 py-2">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          <span className="text-xs text-gray-700">Loading notifications...</span>
+        </div>
+      ) : error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : notifications.length === 0 ? (
+        <p className="text-xs text-gray-500">No notifications recorded.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-1.5 space-y-3">
+          {notifications.map(n => (
+            <li key={n.id} className="ml-4">
+              <span className={`absolute -left-1.5 mt-1 w-3 h-3 rounded-full border-2 border-white ${KIND_DOT_COLORS[n.kind] || 'bg-gray-400'}`} />
+              <p className="text-xs text-gray-900">
+                <span className="font-medium">{SLACK_NOTIFICATION_KIND_LABELS[n.kind] || n.kind}</span>
+                {' to '}
+                {describeRecipients(n)}
+                {n.thread_ts && <span className="text-gray-500"> (in thread)</span>}
+                {n.status === 'failed' && (
+                  <span className="ml-1.5 inline-block px-1.5 py-0.5 rounded text-[10px] font-semibold bg-red-100 text-red-800">
+                    Failed{n.error ? `: ${n.error}` : ''}
+                  </span>
+                )}
+              </p>
+              <p className="text-[11px] text-gray-500">
+                {n.sent_by === 'system' ? 'Automatic' : n.sent_by}
+                {' · '}
+                {format(new Date(n.created_at), 'MMM d, yyyy h:mm a')}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
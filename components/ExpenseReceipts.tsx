@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Expense, isReceiptMissing } from '@/types/expense';
+
+interface ExpenseReceiptsProps {
+  expense: Expense;
+}
+
+interface ReceiptSummary {
+  id: string;
+  fileName: string | null;
+  contentType: string | null;
+  createdTime: string | null;
+}
+
+const isPdf = (receipt: ReceiptSummary) =>
+  receipt.contentType === 'application/pdf' || !!receipt.fileName?.toLowerCase().endsWith('.pdf');
+
+/**
+ * Receipt thumbnails for a credit-card expense, loaded from Bill.com through
+ * the receipts proxy route. Clicking a thumbnail opens it full size.
+ */
+export default function ExpenseReceipts({ expense }: ExpenseReceiptsProps) {
+  const [receipts, setReceipts] = useState<ReceiptSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<ReceiptSummary | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetch(`/api/expenses/${expense.id}/receipts`)
+      .then(res => res.json())
+      .then(data => {
+        if (cancelled) return;
+        if (data.success) {
+          setReceipts(data.receipts);
+        } else {
+          setError(data.error || 'Failed to load receipts');
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load receipts');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [expense.id]);
+
+  const fileUrl = (receipt: ReceiptSummary) => `/api/expenses/${expense.id}/receipts/${receipt.id}`;
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wider mb-2">
+        Receipts
+        {isReceiptMissing(expense) && (
+          <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium normal-case tracking-normal bg-rose-100 text-rose-800">
+            Missing
+          </span>
+        )}
+      </h4>
+
+      {loading ? (
+        <div className="flex items-center gap-2 py-2">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          <span className="text-xs text-gray-700">Loading receipts...</span>
+        </div>
+      ) : error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : receipts.length === 0 ? (
+        <p className="text-xs text-gray-500">No receipts attached in Bill.com.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {receipts.map(receipt => (
+            <button
+              key={receipt.id}
+              onClick={() => setViewing(receipt)}
+              title={receipt.fileName || 'Receipt'}
+              className="w-20 h-20 border border-gray-200 rounded-md overflow-hidden bg-gray-50 hover:ring-2 hover:ring-blue-500 transition-shadow"
+            >
+              {isPdf(receipt) ? (
+                <span className="flex flex-col items-center justify-center h-full text-gray-600">
+                  <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                  <span className="text-[10px] font-medium mt-1">PDF</span>
+                </span>
+              ) : (
+                <img src={fileUrl(receipt)} alt={receipt.fileName || 'Receipt'} loading="lazy" className="w-full h-full object-cover" />
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {viewing && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+          onClick={() => setViewing(null)}
+        >
+          <div
+            className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-900 truncate">{viewing.fileName || 'Receipt'}</h3>
+              <div className="flex items-center gap-3">
+                <a
+                  href={fileUrl(viewing)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-blue-600 hover:text-blue-800 hover:underline"
+                >
+                  Open in new tab
+                </a>
+                <button onClick={() => setViewing(null)} className="text-gray-500 hover:text-gray-700">
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+            <div className="flex-1 overflow-auto p-4 bg-gray-50">
+              {isPdf(viewing) ? (
+                <iframe src={fileUrl(viewing)} title={viewing.fileName || 'Receipt'} className="w-full h-[70vh] border-0" />
+              ) : (
+                <img src={fileUrl(viewing)} alt={viewing.fileName || 'Receipt'} className="max-w-full mx-auto" />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
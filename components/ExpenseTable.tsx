@@ -1,139 +1,97 @@
 'use client';
 
-import { Expense, FLAG_CATEGORIES } from '@/types/expense';
+import { Expense, FLAG_CATEGORIES, getEscalationStage, getTransactionUrl } from '@/types/expense';
+import { ApprovalPolicy, APPROVER_ROLE_LABELS, getApprovalChain } from '@/types/approval';
+import { ExpenseSortField, SortDirection } from '@/types/expenseQuery';
+import { Capability } from '@/types/user';
 import { format } from 'date-fns';
-import { useState, useRef, useMemo, useEffect } from 'react';
+import { Fragment, useState, useRef } from 'react';
 import Image from 'next/image';
 import SlackNotifyButton from './SlackNotifyButton';
 import SyncStatusIcon from './SyncStatusIcon';
+import ExpenseDetailsPanel from './ExpenseDetailsPanel';
+import { CorrectionOptions } from './ExpenseCorrections';
+import { CommentCounts } from './ExpenseComments';
 import { toast } from 'sonner';
 
 interface ExpenseTableProps {
+  // The pages loaded so far, already filtered and sorted by the server
   expenses: Expense[];
+  totalCount: number; // matches for the active filters, across all pages
+  loading?: boolean;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  sortField: ExpenseSortField;
+  sortDirection: SortDirection;
+  onSortChange: (field: ExpenseSortField) => void;
   onFlagUpdate?: (expenseId: string, newFlagCategory: string | null) => void;
   onApprovalUpdate?: (
     expenseId: string,
     newApprovalStatus: 'approved' | 'rejected' | null,
-    modified?: { approval_modified_by: string | null; approval_modified_at: string | null }
+    modified?: { approval_modified_by: string | null; approval_modified_at: string | null; approval_step?: number }
   ) => void;
   onNotificationSent?: (expenseId: string) => void;
-  isAdmin?: boolean;
-  canSendSlack?: boolean;
+  onCommentCountsChange?: (expenseId: string, counts: CommentCounts) => void;
+  // What the signed-in user may do (getCapabilities)
+  capabilities?: Capability[];
   isMasquerading?: boolean;
   // Provided only when filters are active; renders a clear-filters action in the empty state
   onClearFilters?: () => void;
+  // Suggestions for the correction form in the expanded row
+  correctionOptions?: CorrectionOptions;
+  // Active approval policies, to show where each expense is in its chain
+  approvalPolicies?: ApprovalPolicy[];
 }
 
-type SortField = 'date' | 'vendor' | 'purchaser' | 'category' | 'branch' | 'department' | 'amount' | 'status';
-type SortDirection = 'asc' | 'desc';
-
 export default function ExpenseTable({
   expenses,
+  totalCount,
+  loading = false,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  sortField,
+  sortDirection,
+  onSortChange,
   onFlagUpdate,
   onApprovalUpdate,
   onNotificationSent,
-  isAdmin = false,
-  canSendSlack = false,
+  onCommentCountsChange,
+  capabilities = [],
   isMasquerading = false,
-  onClearFilters
+  onClearFilters,
+  correctionOptions = { branches: [], departments: [], categories: [] },
+  approvalPolicies = [],
 }: ExpenseTableProps) {
   const [updatingFlags, setUpdatingFlags] = useState<Set<string>>(new Set());
   const [updatingApprovals, setUpdatingApprovals] = useState<Set<string>>(new Set());
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  // Desktop details rows are tracked separately from the mobile cards so that
+  // expanding one doesn't also mount (and fetch) the hidden layout's panel.
+  const [expandedDesktopRows, setExpandedDesktopRows] = useState<Set<string>>(new Set());
   const [openFlagDropdown, setOpenFlagDropdown] = useState<string | null>(null);
   const [openApprovalDropdown, setOpenApprovalDropdown] = useState<string | null>(null);
   const [dropdownPosition, setDropdownPosition] = useState<'bottom' | 'top'>('bottom');
   const [dropdownCoords, setDropdownCoords] = useState<{ top: number; left: number } | null>(null);
-  const [sortField, setSortField] = useState<SortField>('date');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
-
-  // Render at most this many rows at once; broad filters (e.g. "All Months")
-  // can match thousands of expenses, and mounting a <tr> for each janks the
-  // page. KPI/summary math upstream still uses the full filtered set.
-  const PAGE_SIZE = 100;
-  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
-
-  // Reset the window when the underlying data changes (filter change)
-  useEffect(() => {
-    setVisibleCount(PAGE_SIZE);
-  }, [expenses]);
 
   const flagButtonRefs = useRef<{ [key: string]: HTMLButtonElement | null }>({});
   const approvalButtonRefs = useRef<{ [key: string]: HTMLButtonElement | null }>({});
 
-  // Show Notify column only if user is admin AND not masquerading
-  const showNotifyColumn = canSendSlack && !isMasquerading;
+  // Show Notify column only if user can notify AND not masquerading
+  const showNotifyColumn = capabilities.includes('notify') && !isMasquerading;
   
-  // Show Flag column only if user is admin AND not masquerading
-  const showFlagColumn = isAdmin && !isMasquerading;
-
-  // Handle column sort
-  const handleSort = (field: SortField) => {
-    if (sortField === field) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortField(field);
-      setSortDirection(field === 'date' || field === 'amount' ? 'desc' : 'asc');
-    }
-  };
+  // Show Flag column only if user can flag AND not masquerading
+  const showFlagColumn = capabilities.includes('flag') && !isMasquerading;
 
-  // Sort expenses
-  const sortedExpenses = useMemo(() => {
-    return [...expenses].sort((a, b) => {
-      let aValue: any, bValue: any;
-      switch (sortField) {
-        case 'date':
-          aValue = new Date(a.transaction_date).getTime();
-          bValue = new Date(b.transaction_date).getTime();
-          break;
-        case 'vendor':
-          aValue = a.vendor_name?.toLowerCase() || '';
-          bValue = b.vendor_name?.toLowerCase() || '';
-          break;
-        case 'purchaser':
-          aValue = a.cardholder?.toLowerCase() || '';
-          bValue = b.cardholder?.toLowerCase() || '';
-          break;
-        case 'category':
-          aValue = a.category?.toLowerCase() || '';
-          bValue = b.category?.toLowerCase() || '';
-          break;
-        case 'branch':
-          aValue = a.branch?.toLowerCase() || '';
-          bValue = b.branch?.toLowerCase() || '';
-          break;
-        case 'department':
-          aValue = a.department?.toLowerCase() || '';
-          bValue = b.department?.toLowerCase() || '';
-          break;
-        case 'amount':
-          // Supabase returns numeric columns as strings; without Number() this
-          // sorts lexicographically ("9.50" > "100.00").
-          aValue = Number(a.amount) || 0;
-          bValue = Number(b.amount) || 0;
-          break;
-        case 'status':
-          // This column renders the completion status (expense.status), so sort on
-          // that — not approval_status, which lives in a separate Approval column.
-          aValue = a.status || '';
-          bValue = b.status || '';
-          break;
-        default:
-          return 0;
-      }
-      if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
-      return 0;
-    });
-  }, [expenses, sortField, sortDirection]);
+  // Approval status is shown to everyone; only approvers can change it
+  const canApprove = capabilities.includes('approve') && !isMasquerading;
 
-  const visibleExpenses = useMemo(
-    () => sortedExpenses.slice(0, visibleCount),
-    [sortedExpenses, visibleCount]
-  );
+  // Desktop column count, for full-width rows (empty state, expanded details)
+  const columnCount = 11 + (showFlagColumn ? 1 : 0) + (showNotifyColumn ? 1 : 0);
 
   // Render sort icon
-  const SortIcon = ({ field }: { field: SortField }) => {
+  const SortIcon = ({ field }: { field: ExpenseSortField }) => {
     if (sortField !== field) {
       return (
         <svg className="w-3 h-3 text-gray-300 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -176,6 +134,18 @@ export default function ExpenseTable({
     return { position, coords };
   };
 
+  const toggleDesktopRow = (expenseId: string) => {
+    setExpandedDesktopRows(prev => {
+      const next = new Set(prev);
+      if (next.has(expenseId)) {
+        next.delete(expenseId);
+      } else {
+        next.add(expenseId);
+      }
+      return next;
+    });
+  };
+
   const toggleRow = (expenseId: string) => {
     setExpandedRows(prev => {
       const next = new Set(prev);
@@ -290,6 +260,51 @@ export default function ExpenseTable({
     );
   };
 
+  // Helper function to label where a flagged expense is in the escalation cycle
+  const getEscalationBadge = (expense: Expense) => {
+    const stage = getEscalationStage(expense);
+    if (!stage) return null;
+
+    if (stage === 'escalated') {
+      return (
+        <span
+          className="inline-block mt-1 px-1.5 py-0.5 rounded text-[10px] font-semibold bg-red-100 text-red-800"
+          title={`Escalated${expense.escalated_to ? ` to ${expense.escalated_to}` : ''}${expense.escalated_at ? ` on ${new Date(expense.escalated_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}` : ''}`}
+        >
+          Escalated
+        </span>
+      );
+    }
+
+    const reminders = expense.slack_notification_count - 1;
+    return (
+      <span className={`inline-block mt-1 px-1.5 py-0.5 rounded text-[10px] font-semibold ${
+        stage === 'reminded' ? 'bg-amber-100 text-amber-800' : 'bg-gray-100 text-gray-700'
+      }`}>
+        {stage === 'reminded' ? `Reminder ${reminders}` : 'Notified'}
+      </span>
+    );
+  };
+
+  // Helper function to show how many comments an expense has; blue while any are unresolved
+  const getCommentBadge = (expense: Expense) => {
+    if (!expense.comment_count) return null;
+    const unresolved = expense.unresolved_comment_count > 0;
+    return (
+      <span
+        className={`inline-flex items-center gap-0.5 flex-shrink-0 px-1.5 py-0.5 rounded text-[10px] font-semibold ${
+          unresolved ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-600'
+        }`}
+        title={`${expense.comment_count} comment${expense.comment_count === 1 ? '' : 's'}${unresolved ? `, ${expense.unresolved_comment_count} unresolved` : ''}`}
+      >
+        <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+          <path fillRule="evenodd" d="M18 10c0 3.866-3.582 7-8 7a8.841 8.841 0 01-4.083-.98L2 17l1.338-3.123C2.493 12.767 2 11.434 2 10c0-3.866 3.582-7 8-7s8 3.134 8 7z" clipRule="evenodd" />
+        </svg>
+        {expense.comment_count}
+      </span>
+    );
+  };
+
   // Helper function to get the appropriate approval icon based on status
   const getApprovalIcon = (approvalStatus: 'approved' | 'rejected' | null | undefined) => {
     if (!approvalStatus) {
@@ -329,8 +344,12 @@ export default function ExpenseTable({
 
   // Helper function to format the approval tooltip text
   const getApprovalTooltip = (expense: Expense): string => {
+    const chain = getApprovalChain(approvalPolicies, expense);
     if (!expense.approval_status) {
-      return 'Click to set approval';
+      const step = chain[expense.approval_step];
+      return step
+        ? `Step ${expense.approval_step + 1} of ${chain.length}: waiting on the ${APPROVER_ROLE_LABELS[step.approver_role].toLowerCase()}`
+        : canApprove ? 'Click to set approval' : 'Not yet approved';
     }
 
     const statusText = expense.approval_status === 'approved' ? 'Approved' : 'Rejected';
@@ -344,6 +363,21 @@ export default function ExpenseTable({
     return statusText;
   };
 
+  // "1/3"-style progress through the expense's approval chain; nothing when
+  // no policy applies
+  const getApprovalProgress = (expense: Expense) => {
+    const chain = getApprovalChain(approvalPolicies, expense);
+    if (chain.length === 0) return null;
+    const approved = expense.approval_status === 'approved' ? chain.length : Math.min(expense.approval_step, chain.length);
+    return (
+      <span className={`block text-center text-[10px] font-medium ${
+        expense.approval_status === 'rejected' ? 'text-red-600' : approved === chain.length ? 'text-green-700' : 'text-gray-600'
+      }`}>
+        {approved}/{chain.length}
+      </span>
+    );
+  };
+
   const formatCurrency = (amount: number, currency: string = 'USD') => {
     // Map full currency names to codes
     const currencyMap: Record<string, string> = {
@@ -377,18 +411,6 @@ export default function ExpenseTable({
     return format(date, 'MMM d');
   };
 
-  // Generate transaction URL based on type
-  const getTransactionUrl = (expense: Expense) => {
-    if (expense.transaction_type === 'Credit Card') {
-      // Bill.com URL
-      const billId = expense.netsuite_id.replace('BILL-', '');
-      return `https://spend.bill.com/companies/Q29tcGFueToxNDI3OQ==/transactions/pending-and-cleared/${billId}`;
-    } else {
-      // NetSuite URL
-      return `https://system.netsuite.com/app/accounting/transactions/vendbill.nl?id=${expense.netsuite_id}`;
-    }
-  };
-
   const handleFlagChange = async (expenseId: string, flagCategory: string | null) => {
     setUpdatingFlags(prev => new Set(prev).add(expenseId));
     setOpenFlagDropdown(null); // Close dropdown after selection
@@ -463,14 +485,20 @@ export default function ExpenseTable({
         // server returned (approval_modified_by/at), so no full page reload is
         // needed — preserving filters, scroll position, and avoiding a refetch.
         if (onApprovalUpdate) {
-          onApprovalUpdate(expenseId, approvalStatus, {
+          // With an approval chain, approving a step leaves the expense pending,
+          // so take the status the server settled on rather than the one clicked
+          onApprovalUpdate(expenseId, data.data ? data.data.approval_status : approvalStatus, {
             approval_modified_by: data.data?.approval_modified_by ?? null,
             approval_modified_at: data.data?.approval_modified_at ?? null,
+            approval_step: data.data?.approval_step ?? 0,
           });
         }
       } else {
         console.error('Failed to update approval:', data.error);
-        toast.error('Failed to update approval. Please try again.');
+        // Chain refusals (not your step, already decided) say what to do instead
+        toast.error(response.status === 403 || response.status === 409
+          ? data.error
+          : 'Failed to update approval. Please try again.');
       }
     } catch (error) {
       console.error('Error updating approval:', error);
@@ -485,6 +513,7 @@ export default function ExpenseTable({
   };
 
   const toggleApprovalDropdown = (expenseId: string) => {
+    if (!canApprove) return;
     const newDropdownId = openApprovalDropdown === expenseId ? null : expenseId;
     if (newDropdownId) {
       const { position, coords } = calculateDropdownPosition(approvalButtonRefs.current[expenseId], 120);
@@ -535,7 +564,7 @@ export default function ExpenseTable({
               </th>
               <th 
                 className="px-3 py-3 text-left text-xs font-medium text-white uppercase tracking-wider cursor-pointer hover:brightness-125 [background:#003264]"
-                onClick={() => handleSort('date')}
+                onClick={() => onSortChange('date')}
               >
                 <div className="flex items-center gap-1">
                   <span>Date</span>
@@ -544,7 +573,7 @@ export default function ExpenseTable({
               </th>
               <th 
                 className="px-3 py-3 text-left text-xs font-medium text-white uppercase tracking-wider cursor-pointer hover:brightness-125 [background:#003264]"
-                onClick={() => handleSort('vendor')}
+                onClick={() => onSortChange('vendor')}
               >
                 <div className="flex items-center gap-1">
                   <span>Vendor</span>
@@ -553,7 +582,7 @@ export default function ExpenseTable({
               </th>
               <th 
                 className="px-3 py-3 text-left text-xs font-medium text-white uppercase tracking-wider cursor-pointer hover:brightness-125 [background:#003264]"
-                onClick={() => handleSort('purchaser')}
+                onClick={() => onSortChange('purchaser')}
               >
                 <div className="flex items-center gap-1">
                   <span>Purchaser</span>
@@ -562,7 +591,7 @@ export default function ExpenseTable({
               </th>
               <th
                 className="px-3 py-3 text-left text-xs font-medium text-white uppercase tracking-wider cursor-pointer hover:brightness-125 [background:#003264]"
-                onClick={() => handleSort('category')}
+                onClick={() => onSortChange('category')}
               >
                 <div className="flex items-center gap-1">
                   <span>Category</span>
@@ -571,7 +600,7 @@ export default function ExpenseTable({
               </th>
               <th 
                 className="px-3 py-3 text-left text-xs font-medium text-white uppercase tracking-wider cursor-pointer hover:brightness-125 [background:#003264]"
-                onClick={() => handleSort('branch')}
+                onClick={() => onSortChange('branch')}
               >
                 <div className="flex items-center gap-1">
                   <span>Branch</span>
@@ -580,7 +609,7 @@ export default function ExpenseTable({
               </th>
               <th 
                 className="px-3 py-3 text-left text-xs font-medium text-white uppercase tracking-wider cursor-pointer hover:brightness-125 [background:#003264]"
-                onClick={() => handleSort('department')}
+                onClick={() => onSortChange('department')}
               >
                 <div className="flex items-center gap-1">
                   <span>Department</span>
@@ -589,7 +618,7 @@ export default function ExpenseTable({
               </th>
               <th 
                 className="px-3 py-3 text-right text-xs font-medium text-white uppercase tracking-wider cursor-pointer hover:brightness-125 [background:#003264]"
-                onClick={() => handleSort('amount')}
+                onClick={() => onSortChange('amount')}
               >
                 <div className="flex items-center justify-end gap-1">
                   <span>Amount</span>
@@ -598,7 +627,7 @@ export default function ExpenseTable({
               </th>
               <th 
                 className="px-3 py-3 text-left text-xs font-medium text-white uppercase tracking-wider cursor-pointer hover:brightness-125 [background:#003264]"
-                onClick={() => handleSort('status')}
+                onClick={() => onSortChange('status')}
               >
                 <div className="flex items-center gap-1">
                   <span>Status</span>
@@ -621,8 +650,10 @@ export default function ExpenseTable({
           <tbody className="bg-white divide-y divide-gray-200">
             {expenses.length === 0 ? (
               <tr>
-                <td colSpan={showFlagColumn ? (showNotifyColumn ? 13 : 12) : (showNotifyColumn ? 12 : 11)} className="px-6 py-12 text-center text-gray-700">
-                  {onClearFilters ? (
+                <td colSpan={columnCount} className="px-6 py-12 text-center text-gray-700">
+                  {loading ? (
+                    'Loading expenses...'
+                  ) : onClearFilters ? (
                     <>
                       <p>No expenses match the active filters.</p>
                       <button
@@ -638,9 +669,9 @@ export default function ExpenseTable({
                 </td>
               </tr>
             ) : (
-              visibleExpenses.map((expense) => (
+              expenses.map((expense) => (
+                <Fragment key={expense.id}>
                 <tr
-                  key={expense.id}
                   className={`hover:bg-gray-50 ${getRowBackgroundColor(expense.flag_category)}`}
                 >
                   {/* Flag Column with Icon and Dropdown - Admin Only (Not Masquerading) */}
@@ -711,14 +742,15 @@ export default function ExpenseTable({
                       <button
                         ref={(el) => { approvalButtonRefs.current[expense.id] = el; }}
                         onClick={() => toggleApprovalDropdown(expense.id)}
-                        disabled={updatingApprovals.has(expense.id)}
-                        className={`flex items-center justify-center w-full hover:opacity-70 transition-opacity ${
-                          updatingApprovals.has(expense.id) ? 'opacity-50 cursor-wait' : 'cursor-pointer'
+                        disabled={!canApprove || updatingApprovals.has(expense.id)}
+                        className={`flex items-center justify-center w-full transition-opacity ${
+                          updatingApprovals.has(expense.id) ? 'opacity-50 cursor-wait' : canApprove ? 'cursor-pointer hover:opacity-70' : 'cursor-default'
                         }`}
                         title={getApprovalTooltip(expense)}
                       >
                         {getApprovalIcon(expense.approval_status)}
                       </button>
+                      {getApprovalProgress(expense)}
 
                       {/* Dropdown Menu */}
                       {openApprovalDropdown === expense.id && !updatingApprovals.has(expense.id) && dropdownCoords && (
@@ -772,9 +804,22 @@ export default function ExpenseTable({
                     </div>
                   </td>
 
-                  {/* Date Column */}
+                  {/* Date Column (doubles as the expand toggle for the details row) */}
                   <td className="px-3 py-3 text-sm text-gray-900">
-                    {formatDate(expense.transaction_date)}
+                    <button
+                      onClick={() => toggleDesktopRow(expense.id)}
+                      className="flex items-center gap-1 hover:text-blue-700"
+                      title={expandedDesktopRows.has(expense.id) ? 'Hide details' : 'Show details'}
+                    >
+                      <svg
+                        className={`w-3 h-3 flex-shrink-0 text-gray-500 transition-transform ${expandedDesktopRows.has(expense.id) ? 'rotate-90' : ''}`}
+                        fill="currentColor"
+                        viewBox="0 0 20 20"
+                      >
+                        <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+                      </svg>
+                      {formatDate(expense.transaction_date)}
+                    </button>
                   </td>
 
                   {/* Vendor Column */}
@@ -792,14 +837,15 @@ export default function ExpenseTable({
                       ) : (
                         <Image
                           src="/logos/netsuite.png"
-                          alt="NetSuite Vendor Bill"
+                          alt={`NetSuite ${expense.transaction_type}`}
                           width={16}
                           height={16}
                           className="flex-shrink-0"
-                          title="Vendor Bill"
+                          title={expense.transaction_type}
                         />
                       )}
                       <span className="truncate">{expense.vendor_name}</span>
+                      {getCommentBadge(expense)}
                     </div>
                   </td>
 
@@ -885,7 +931,7 @@ export default function ExpenseTable({
                   {/* View Column */}
                   <td className="px-3 py-3 text-center">
                     <a
-                      href={getTransactionUrl(expense)}
+                      href={getTransactionUrl(expense.transaction_type, expense.netsuite_id)}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-blue-600 hover:text-blue-800"
@@ -916,9 +962,24 @@ export default function ExpenseTable({
                         slackLastNotifiedAt={expense.slack_last_notified_at}
                         onNotificationSent={() => onNotificationSent?.(expense.id)}
                       />
+                      <div>{getEscalationBadge(expense)}</div>
                     </td>
                   )}
                 </tr>
+                {expandedDesktopRows.has(expense.id) && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={columnCount} className="px-6 py-4">
+                      <ExpenseDetailsPanel
+                        expense={expense}
+                        canCorrect={showFlagColumn}
+                        correctionOptions={correctionOptions}
+                        approvalSteps={getApprovalChain(approvalPolicies, expense).length}
+                        onCommentCountsChange={onCommentCountsChange}
+                      />
+                    </td>
+                  </tr>
+                )}
+                </Fragment>
               ))
             )}
           </tbody>
@@ -929,7 +990,9 @@ export default function ExpenseTable({
       <div className="lg:hidden divide-y divide-gray-200">
         {expenses.length === 0 ? (
           <div className="px-6 py-12 text-center text-gray-700">
-            {onClearFilters ? (
+            {loading ? (
+              'Loading expenses...'
+            ) : onClearFilters ? (
               <>
                 <p>No expenses match the active filters.</p>
                 <button
@@ -944,7 +1007,7 @@ export default function ExpenseTable({
             )}
           </div>
         ) : (
-          visibleExpenses.map((expense) => {
+          expenses.map((expense) => {
             const isExpanded = expandedRows.has(expense.id);
             const rowBgColor = getRowBackgroundColor(expense.flag_category);
             
@@ -981,6 +1044,7 @@ export default function ExpenseTable({
                         <div className="font-medium text-gray-900 truncate">
                           {expense.vendor_name}
                         </div>
+                        {getCommentBadge(expense)}
                       </div>
                       <div className="text-sm text-gray-700">
                         {formatDate(expense.transaction_date)}
@@ -1126,7 +1190,8 @@ export default function ExpenseTable({
                           <button
                             ref={(el) => { approvalButtonRefs.current[expense.id] = el; }}
                             onClick={() => toggleApprovalDropdown(expense.id)}
-                            className="w-full flex items-center justify-between gap-2 px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 transition-colors bg-white"
+                            disabled={!canApprove}
+                            className="w-full flex items-center justify-between gap-2 px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 transition-colors bg-white disabled:hover:bg-white disabled:cursor-default"
                           >
                             <span className="flex items-center gap-2">
                               {getApprovalIcon(expense.approval_status)}
@@ -1134,6 +1199,7 @@ export default function ExpenseTable({
                                 {!expense.approval_status ? 'No Status' : 
                                  expense.approval_status === 'approved' ? 'Approved' : 'Rejected'}
                               </span>
+                              {getApprovalProgress(expense)}
                             </span>
                             <svg className="w-3 h-3 ml-1 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
                               <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
@@ -1232,7 +1298,7 @@ export default function ExpenseTable({
                     {/* Action Buttons */}
                     <div className="flex items-center gap-2 pt-2">
                       <a
-                        href={getTransactionUrl(expense)}
+                        href={getTransactionUrl(expense.transaction_type, expense.netsuite_id)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-xs font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100"
@@ -1262,9 +1328,20 @@ export default function ExpenseTable({
                         slackLastNotifiedAt={expense.slack_last_notified_at}
                             onNotificationSent={() => onNotificationSent?.(expense.id)}
                           />
+                          {getEscalationBadge(expense)}
                         </div>
                       )}
                     </div>
+
+                    <div className="pt-3 border-t border-gray-200">
+                      <ExpenseDetailsPanel
+                        expense={expense}
+                        canCorrect={showFlagColumn}
+                        correctionOptions={correctionOptions}
+                        approvalSteps={getApprovalChain(approvalPolicies, expense).length}
+                        onCommentCountsChange={onCommentCountsChange}
+                      />
+                    </div>
                   </div>
                 )}
               </div>
@@ -1274,22 +1351,17 @@ export default function ExpenseTable({
       </div>
 
       {/* Pagination footer (shared by desktop table and mobile cards) */}
-      {sortedExpenses.length > visibleCount && (
+      {hasMore && (
         <div className="flex flex-col sm:flex-row items-center justify-center gap-3 px-6 py-4 border-t border-gray-200 bg-gray-50">
           <span className="text-sm text-gray-600">
-            Showing {visibleCount} of {sortedExpenses.length} expenses
+            Showing {expenses.length} of {totalCount} expenses
           </span>
           <button
-            onClick={() => setVisibleCount(c => c + PAGE_SIZE)}
-            className="px-4 py-2 text-sm font-medium text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
-          >
-            Load {Math.min(PAGE_SIZE, sortedExpenses.length - visibleCount)} more
-          </button>
-          <button
-            onClick={() => setVisibleCount(sortedExpenses.length)}
-            className="px-4 py-2 text-sm font-medium text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+            onClick={onLoadMore}
+            disabled={loadingMore}
+            className="px-4 py-2 text-sm font-medium text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors disabled:text-gray-400 disabled:border-gray-200"
           >
-            Show all
+            {loadingMore ? 'Loading...' : 'Load more'}
           </button>
         </div>
       )}
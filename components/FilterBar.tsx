@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { FLAG_CATEGORIES } from '@/types/expense';
+import { FLAG_CATEGORIES, TRANSACTION_TYPES, TRANSACTION_TYPE_LABELS } from '@/types/expense';
 
 interface MultiSelectOption {
   value: string;
@@ -111,6 +111,8 @@ interface FilterBarProps {
     status: string;
     approvalStatus: string[];
     syncStatus: string;
+    receiptStatus: string;
+    comments: string;
   };
 }
 
@@ -183,8 +185,9 @@ export default function FilterBar({ vendors, purchasers, categories, statuses, o
             onChange={(e) => onFilterChange('transactionType', e.target.value)}
           >
             <option value="all">All Types</option>
-            <option value="Vendor Bill">Vendor Bills</option>
-            <option value="Credit Card">Credit Cards</option>
+            {TRANSACTION_TYPES.map(type => (
+              <option key={type} value={type}>{TRANSACTION_TYPE_LABELS[type]}</option>
+            ))}
           </select>
         </div>
 
@@ -231,6 +234,35 @@ export default function FilterBar({ vendors, purchasers, categories, statuses, o
             <option value="not-synced">Not Synced</option>
           </select>
         </div>
+
+        <div className="flex-1 min-w-[200px]">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Receipt
+            <span className="text-xs text-gray-700 ml-1">(Credit Cards)</span>
+          </label>
+          <select
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            value={currentFilters.receiptStatus}
+            onChange={(e) => onFilterChange('receiptStatus', e.target.value)}
+          >
+            <option value="all">All Receipt States</option>
+            <option value="missing">Missing Receipt</option>
+            <option value="attached">Receipt On File</option>
+          </select>
+        </div>
+
+        <div className="flex-1 min-w-[200px]">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Comments</label>
+          <select
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            value={currentFilters.comments}
+            onChange={(e) => onFilterChange('comments', e.target.value)}
+          >
+            <option value="all">All Expenses</option>
+            <option value="unresolved">Has Unresolved Comments</option>
+            <option value="any">Has Comments</option>
+          </select>
+        </div>
       </div>
     </div>
   );
@@ -2,7 +2,8 @@
 
 import { signOut } from 'next-auth/react';
 import SyncButton from '@/components/SyncButton';
-import { UserWithPermissions } from '@/types/user';
+import DelegationsModal from '@/components/DelegationsModal';
+import { hasCapability, USER_ROLE_LABELS, UserWithPermissions } from '@/types/user';
 import { useState, useEffect } from 'react';
 
 interface HeaderProps {
@@ -24,9 +25,12 @@ export default function Header({
   allUsers,
   usersLoading
 }: HeaderProps) {
+  const canAdminister = hasCapability(currentUser, 'manage_users');
+  const canMasquerade = hasCapability(currentUser, 'masquerade');
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [userMenuOpen, setUserMenuOpen] = useState(false);
   const [mobileUserMenuOpen, setMobileUserMenuOpen] = useState(false);
+  const [showDelegations, setShowDelegations] = useState(false);
 
   useEffect(() => {
     function handleClickOutside(e: MouseEvent) {
@@ -87,7 +91,7 @@ export default function Header({
               >
                 Trends
               </button>
-              {currentUser.is_admin && (
+              {canAdminister && (
                 <button
                   onClick={() => onTabChange('admin')}
                   className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
@@ -104,8 +108,8 @@ export default function Header({
             {/* Divider */}
             <div className="w-px h-8 bg-white/20" />
 
-            {/* View As Dropdown (Admin only) */}
-            {currentUser.is_admin && (usersLoading || allUsers.length > 0) && (
+            {/* View As Dropdown (masquerade capability) */}
+            {canMasquerade && (usersLoading || allUsers.length > 0) && (
               <div className="flex items-center gap-2">
                 <label className="text-xs font-medium text-white/80 uppercase tracking-wider">View As</label>
                 <select
@@ -183,8 +187,8 @@ export default function Header({
                 </div>
                 <div className="text-left hidden xl:block">
                   <div className="text-sm font-medium text-white leading-tight">{currentUser.full_name}</div>
-                  {currentUser.is_admin && (
-                    <div className="text-[10px] text-white/80 font-medium uppercase tracking-wider">Admin</div>
+                  {currentUser.role !== 'viewer' && (
+                    <div className="text-[10px] text-white/80 font-medium uppercase tracking-wider">{USER_ROLE_LABELS[currentUser.role]}</div>
                   )}
                 </div>
                 <svg className={`w-4 h-4 text-white/80 transition-transform duration-200 ${userMenuOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -209,14 +213,26 @@ export default function Header({
                         <div className="text-xs text-gray-500 truncate">{currentUser.email}</div>
                       </div>
                     </div>
-                    {currentUser.is_admin && (
+                    {currentUser.role !== 'viewer' && (
                       <div className="mt-2.5 inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-semibold bg-blue-50 text-blue-700 uppercase tracking-wider">
-                        Administrator
+                        {currentUser.role === 'admin' ? 'Administrator' : USER_ROLE_LABELS[currentUser.role]}
                       </div>
                     )}
                   </div>
 
                   <div className="py-1">
+                    <button
+                      onClick={() => {
+                        setUserMenuOpen(false);
+                        setShowDelegations(true);
+                      }}
+                      className="w-full px-4 py-2.5 text-left text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors flex items-center gap-2.5"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                      </svg>
+                      Out of Office
+                    </button>
                     <button
                       onClick={() => {
                         setUserMenuOpen(false);
@@ -273,14 +289,26 @@ export default function Header({
                         <div className="text-xs text-gray-500 truncate">{currentUser.email}</div>
                       </div>
                     </div>
-                    {currentUser.is_admin && (
+                    {currentUser.role !== 'viewer' && (
                       <div className="mt-2.5 inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-semibold bg-blue-50 text-blue-700 uppercase tracking-wider">
-                        Administrator
+                        {currentUser.role === 'admin' ? 'Administrator' : USER_ROLE_LABELS[currentUser.role]}
                       </div>
                     )}
                   </div>
 
                   <div className="py-1">
+                    <button
+                      onClick={() => {
+                        setMobileUserMenuOpen(false);
+                        setShowDelegations(true);
+                      }}
+                      className="w-full px-4 py-2.5 text-left text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors flex items-center gap-2.5"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                      </svg>
+                      Out of Office
+                    </button>
                     <button
                       onClick={() => {
                         setMobileUserMenuOpen(false);
@@ -343,7 +371,7 @@ export default function Header({
                 >
                   Trends
                 </button>
-                {currentUser.is_admin && (
+                {canAdminister && (
                   <button
                     onClick={() => {
                       onTabChange('admin');
@@ -361,7 +389,7 @@ export default function Header({
               </nav>
 
               {/* View As Dropdown (Admin only - Mobile) */}
-              {currentUser.is_admin && (usersLoading || allUsers.length > 0) && (
+              {canMasquerade && (usersLoading || allUsers.length > 0) && (
                 <div className="px-4 space-y-1.5">
                   <label className="text-xs font-medium text-white/80 uppercase tracking-wider">View As</label>
                   <select
@@ -429,6 +457,8 @@ export default function Header({
           )}
         </div>
       </div>
+
+      {showDelegations && <DelegationsModal onClose={() => setShowDelegations(false)} />}
     </header>
   );
 }
@@ -1,32 +1,36 @@
 'use client';
 
-import { useState, useMemo, useEffect } from 'react';
-import { Expense } from '@/types/expense';
-import { UserWithPermissions } from '@/types/user';
+import { useState, useEffect } from 'react';
+import { EMPTY_FILTER_OPTIONS, ExpenseFilterOptions } from '@/types/expenseQuery';
+import { getCapabilities, hasCapability, UserWithPermissions } from '@/types/user';
+import { ApprovalPolicy } from '@/types/approval';
+import { Branch } from '@/types/branch';
 import Header from './Header';
 import ExpenseDashboard from './ExpenseDashboard';
 import AdminDashboard from './AdminDashboard';
 import { toast } from 'sonner';
 
 interface PageWrapperProps {
-  initialExpenses: Expense[];
-  vendors: string[];
-  purchasers: string[];
+  filterOptions: ExpenseFilterOptions; // for the signed-in user's scope
   currentUser: UserWithPermissions; // The actual logged-in user
+  approvalPolicies: ApprovalPolicy[];
+  branches: Branch[];
 }
 
-export default function PageWrapper({ initialExpenses, vendors, purchasers, currentUser }: PageWrapperProps) {
+export default function PageWrapper({ filterOptions, currentUser, approvalPolicies, branches }: PageWrapperProps) {
   const [activeTab, setActiveTab] = useState<'dashboard' | 'trends' | 'admin'>('dashboard');
   const [masqueradingAsUser, setMasqueradingAsUser] = useState<UserWithPermissions | null>(null);
   const [allUsers, setAllUsers] = useState<UserWithPermissions[]>([]);
   const [usersLoading, setUsersLoading] = useState(false);
+  const [masqueradeOptions, setMasqueradeOptions] = useState<ExpenseFilterOptions | null>(null);
 
-  // Fetch users for masquerading dropdown (only if current user is admin)
+  // Fetch users for masquerading dropdown (only if current user can View As)
+  const canMasquerade = hasCapability(currentUser, 'masquerade');
   useEffect(() => {
-    if (currentUser.is_admin) {
+    if (canMasquerade) {
       fetchUsers();
     }
-  }, [currentUser.is_admin]);
+  }, [canMasquerade]);
 
   const fetchUsers = async () => {
     setUsersLoading(true);
@@ -46,78 +50,53 @@ export default function PageWrapper({ initialExpenses, vendors, purchasers, curr
     }
   };
 
-  // Determine which user's permissions to apply
-  const effectiveUser = masqueradingAsUser || currentUser;
-
-  // Get available branches and departments from expenses
-  const availableBranches = useMemo(() => {
-    const branches = new Set(
-      initialExpenses
-        .map(e => e.branch)
-        .filter((branch): branch is string => branch !== null && branch !== undefined && branch !== '')
-    );
-    return Array.from(branches).sort();
-  }, [initialExpenses]);
-
-  const availableDepartments = useMemo(() => {
-    const departments = new Set(
-      initialExpenses
-        .map(e => e.department)
-        .filter((dept): dept is string => dept !== null && dept !== undefined && dept !== '')
-    );
-    return Array.from(departments).sort();
-  }, [initialExpenses]);
-
-  // Filter expenses based on effective user permissions using useMemo with stable key
-  const filterKey = useMemo(() => 
-    `${effectiveUser.id}-${effectiveUser.is_admin}-${effectiveUser.branches.join(',')}-${effectiveUser.departments.join(',')}`
-  , [effectiveUser.id, effectiveUser.is_admin, effectiveUser.branches, effectiveUser.departments]);
-
-  const filteredExpenses = useMemo(() => {
-    // If effective user is admin, show all
-    if (effectiveUser.is_admin) {
-      return initialExpenses;
+  // Switching "View As" is recorded in the audit log; a failed write doesn't
+  // block the switch, since the admin can already see everything
+  const handleMasqueradeChange = (user: UserWithPermissions | null) => {
+    const previous = masqueradingAsUser;
+    setMasqueradingAsUser(user);
+    if (user?.id === previous?.id) return;
+
+    const events = [];
+    if (previous) events.push({ userId: null, previousUserId: previous.id });
+    if (user) events.push({ userId: user.id });
+    for (const event of events) {
+      fetch('/api/masquerade', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(event),
+      }).catch(error => console.error('Failed to record masquerade:', error));
     }
+  };
 
-    // Filter based on user permissions
-    const filtered = initialExpenses.filter(expense => {
-      // Check branch access
-      if (effectiveUser.branches.length > 0) {
-        if (!expense.branch || !effectiveUser.branches.includes(expense.branch)) {
-          return false;
-        }
-      }
+  // Determine which user's permissions to apply
+  const effectiveUser = masqueradingAsUser || currentUser;
 
-      // Check department access
-      if (effectiveUser.departments.length > 0) {
-        if (!expense.department || !effectiveUser.departments.includes(expense.department)) {
-          return false;
+  // Filter dropdowns follow the effective user's scope, so View As only
+  // offers vendors and purchasers that user can see
+  useEffect(() => {
+    setMasqueradeOptions(null);
+    if (!masqueradingAsUser) return;
+
+    let cancelled = false;
+    fetch(`/api/expenses/options?viewAs=${masqueradingAsUser.id}`)
+      .then(response => response.json())
+      .then(data => {
+        if (cancelled) return;
+        if (data.success) {
+          setMasqueradeOptions(data.options);
+        } else {
+          toast.error(`Failed to load filters: ${data.error}`);
         }
-      }
-
-      return true;
-    });
+      })
+      .catch(error => console.error('Error loading filter options:', error));
+    return () => { cancelled = true; };
+  }, [masqueradingAsUser]);
 
-    return filtered;
-  }, [initialExpenses, filterKey, effectiveUser.full_name, effectiveUser.is_admin, effectiveUser.branches, effectiveUser.departments, masqueradingAsUser]);
+  const effectiveOptions = masqueradingAsUser ? (masqueradeOptions ?? EMPTY_FILTER_OPTIONS) : filterOptions;
 
   // Check if user has no permissions (new user scenario)
-  const hasNoPermissions = !effectiveUser.is_admin && 
-    effectiveUser.branches.length === 0 && 
-    effectiveUser.departments.length === 0;
-
-  // Filter vendors and purchasers based on visible expenses
-  const filteredVendors = useMemo(() => {
-    if (effectiveUser.is_admin && !masqueradingAsUser) return vendors;
-    const vendorSet = new Set(filteredExpenses.map(e => e.vendor_name));
-    return vendors.filter(v => vendorSet.has(v));
-  }, [vendors, filteredExpenses, effectiveUser.is_admin, masqueradingAsUser]);
-
-  const filteredPurchasers = useMemo(() => {
-    if (effectiveUser.is_admin && !masqueradingAsUser) return purchasers;
-    const purchaserSet = new Set(filteredExpenses.map(e => e.cardholder).filter(Boolean));
-    return purchasers.filter(p => purchaserSet.has(p));
-  }, [purchasers, filteredExpenses, effectiveUser.is_admin, masqueradingAsUser]);
+  const hasNoPermissions = !effectiveUser.is_admin && effectiveUser.grants.length === 0;
 
   return (
     <div className="min-h-screen bg-blue-50">
@@ -126,7 +105,7 @@ export default function PageWrapper({ initialExpenses, vendors, purchasers, curr
         onTabChange={setActiveTab}
         currentUser={currentUser}
         masqueradingAsUser={masqueradingAsUser}
-        onMasqueradeChange={setMasqueradingAsUser}
+        onMasqueradeChange={handleMasqueradeChange}
         allUsers={allUsers}
         usersLoading={usersLoading}
       />
@@ -157,10 +136,11 @@ export default function PageWrapper({ initialExpenses, vendors, purchasers, curr
             )}
           </div>
         ) : activeTab === 'admin' ? (
-          currentUser.is_admin ? (
+          hasCapability(currentUser, 'manage_users') ? (
             <AdminDashboard 
-              availableBranches={availableBranches}
-              availableDepartments={availableDepartments}
+              availableBranches={filterOptions.branches}
+              branches={branches}
+              availableDepartments={filterOptions.departments}
               onUsersChange={fetchUsers}
             />
           ) : (
@@ -172,14 +152,16 @@ export default function PageWrapper({ initialExpenses, vendors, purchasers, curr
           )
         ) : (
           <ExpenseDashboard
-            initialExpenses={filteredExpenses}
-            vendors={filteredVendors}
-            purchasers={filteredPurchasers}
+            // Remount on View As so rows, totals and filters reload for that user
+            key={masqueradingAsUser?.id ?? 'self'}
+            viewAsUserId={masqueradingAsUser?.id ?? null}
+            filterOptions={effectiveOptions}
             activeTab={activeTab}
             onTabChange={setActiveTab}
-            isAdmin={currentUser.is_admin}
-            canSendSlack={currentUser.is_admin || currentUser.can_send_slack}
+            capabilities={getCapabilities(currentUser)}
             isMasquerading={masqueradingAsUser !== null}
+            approvalPolicies={approvalPolicies}
+            branches={branches}
           />
         )}
       </main>
@@ -0,0 +1,393 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { SlackChannelRoute, UnroutedCombination } from '@/types/slackChannelRoute';
+
+interface SlackChannelRoutesPanelProps {
+  availableBranches: string[];
+}
+
+const emptyForm = {
+  branch: '',
+  department_pattern: '',
+  channel: '',
+  priority: 0,
+};
+
+export default function SlackChannelRoutesPanel({ availableBranches }: SlackChannelRoutesPanelProps) {
+  const [routes, setRoutes] = useState<SlackChannelRoute[]>([]);
+  const [unrouted, setUnrouted] = useState<UnroutedCombination[]>([]);
+  const [workspaceChannels, setWorkspaceChannels] = useState<{ channelId: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingRoute, setEditingRoute] = useState<SlackChannelRoute | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchRoutes();
+  }, []);
+
+  // Workspace channels for the name picker, loaded the first time the modal opens
+  useEffect(() => {
+    if ((showCreateModal || editingRoute) && workspaceChannels.length === 0) {
+      fetch('/api/slack-channel-routes/channels')
+        .then(response => response.json())
+        .then(data => {
+          if (data.success) setWorkspaceChannels(data.channels);
+        })
+        .catch(err => console.error('Error fetching Slack channels:', err));
+    }
+  }, [showCreateModal, editingRoute, workspaceChannels.length]);
+
+  const fetchRoutes = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/slack-channel-routes');
+      const data = await response.json();
+
+      if (data.success) {
+        setRoutes(data.routes);
+        setUnrouted(data.unrouted);
+      } else {
+        setError(data.error);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeModal = () => {
+    setShowCreateModal(false);
+    setEditingRoute(null);
+    setFormData(emptyForm);
+  };
+
+  const openCreateModal = (prefill: Partial<typeof emptyForm> = {}) => {
+    setFormData({ ...emptyForm, ...prefill });
+    setShowCreateModal(true);
+  };
+
+  const handleSave = async () => {
+    if (!formData.branch.trim() || !formData.department_pattern.trim() || !formData.channel.trim()) {
+      toast.warning('Branch, department and channel are required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(editingRoute ? `/api/slack-channel-routes/${editingRoute.id}` : '/api/slack-channel-routes', {
+        method: editingRoute ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(editingRoute ? 'Route updated' : `Route created for #${data.route.channel_name}`);
+        closeModal();
+        // Refetch so the unrouted list reflects the change
+        fetchRoutes();
+      } else {
+        toast.error(`Failed to save route: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (route: SlackChannelRoute) => {
+    try {
+      const response = await fetch(`/api/slack-channel-routes/${route.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_active: !route.is_active }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        fetchRoutes();
+      } else {
+        toast.error(`Failed to update: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Failed to update: ${err.message}`);
+    }
+  };
+
+  const handleDelete = async (route: SlackChannelRoute) => {
+    if (!confirm(`Delete the route ${route.branch} / ${route.department_pattern} → #${route.channel_name || route.channel_id}?`)) return;
+
+    try {
+      const response = await fetch(`/api/slack-channel-routes/${route.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        fetchRoutes();
+      } else {
+        toast.error(`Failed to delete route: ${data.error}`);
+      }
+    } catch (err: any) {
+      toast.error(`Error: ${err.message}`);
+    }
+  };
+
+  if (loading && routes.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-gray-700">Loading Slack channels...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-800">Error: {error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Slack Channels</h2>
+          <p className="text-sm text-gray-700 mt-1">
+            Which channel department summaries, digests and escalations post to. Use * in the department to match several names.
+          </p>
+        </div>
+        <button
+          onClick={() => openCreateModal()}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          + Add Route
+        </button>
+      </div>
+
+      {/* Unrouted combinations */}
+      {unrouted.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <p className="text-sm font-medium text-amber-900">
+            {unrouted.length} branch/department combination{unrouted.length === 1 ? '' : 's'} in expenses {unrouted.length === 1 ? 'has' : 'have'} no channel
+          </p>
+          <ul className="mt-2 space-y-1">
+            {unrouted.map(c => (
+              <li key={`${c.branch}|${c.department}`} className="flex items-center justify-between text-sm text-amber-900">
+                <span>
+                  {c.branch} / {c.department}
+                  <span className="text-amber-700"> · {c.expense_count} expense{c.expense_count === 1 ? '' : 's'}</span>
+                </span>
+                <button
+                  onClick={() => openCreateModal({ branch: c.branch, department_pattern: c.department })}
+                  className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                >
+                  Add route
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Routes Table */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Branch
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Department
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Channel
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Priority
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Active
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {routes.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-700">
+                    No channel routes. Slack summaries can&apos;t be sent until one is added.
+                  </td>
+                </tr>
+              ) : routes.map(route => (
+                <tr key={route.id} className={`hover:bg-gray-50 ${route.is_active ? '' : 'opacity-60'}`}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {route.branch}
+                  </td>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                    {route.department_pattern}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900">{route.channel_name ? `#${route.channel_name}` : '—'}</div>
+                    <div className="text-xs text-gray-700 font-mono">{route.channel_id}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center text-sm text-gray-900">
+                    {route.priority}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center">
+                    <button
+                      onClick={() => handleToggleActive(route)}
+                      className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                        route.is_active ? 'bg-blue-600' : 'bg-gray-300'
+                      }`}
+                      title={route.is_active ? 'Disable route' : 'Enable route'}
+                    >
+                      <span className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform ${
+                        route.is_active ? 'translate-x-[18px]' : 'translate-x-[2px]'
+                      }`} />
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center">
+                    <button
+                      onClick={() => {
+                        setEditingRoute(route);
+                        setFormData({
+                          branch: route.branch,
+                          department_pattern: route.department_pattern,
+                          channel: route.channel_name ? `#${route.channel_name}` : route.channel_id,
+                          priority: route.priority,
+                        });
+                      }}
+                      className="text-blue-600 hover:text-blue-800 text-sm font-medium mr-3"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(route)}
+                      className="text-red-600 hover:text-red-800 text-sm font-medium"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Create/Edit Modal */}
+      {(showCreateModal || editingRoute) && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">
+                {editingRoute ? 'Edit Channel Route' : 'New Channel Route'}
+              </h3>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Branch *
+                </label>
+                <input
+                  type="text"
+                  list="route-branch-options"
+                  value={formData.branch}
+                  onChange={(e) => setFormData({ ...formData, branch: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <datalist id="route-branch-options">
+                  {availableBranches.map(branch => (
+                    <option key={branch} value={branch} />
+                  ))}
+                </datalist>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Department *
+                </label>
+                <input
+                  type="text"
+                  value={formData.department_pattern}
+                  onChange={(e) => setFormData({ ...formData, department_pattern: e.target.value })}
+                  placeholder="e.g., Irrigation or Maintenance*"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-700 mt-1">
+                  Case-insensitive; * matches anything. &quot;Parent : Child&quot; departments also match on the child name.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Channel *
+                </label>
+                <input
+                  type="text"
+                  list="route-channel-options"
+                  value={formData.channel}
+                  onChange={(e) => setFormData({ ...formData, channel: e.target.value })}
+                  placeholder="#channel-name or channel ID"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <datalist id="route-channel-options">
+                  {workspaceChannels.map(c => (
+                    <option key={c.channelId} value={`#${c.name}`} />
+                  ))}
+                </datalist>
+                <p className="text-xs text-gray-700 mt-1">
+                  Private channels only appear once the Slack app has been invited
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Priority
+                </label>
+                <input
+                  type="number"
+                  value={formData.priority}
+                  onChange={(e) => setFormData({ ...formData, priority: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-700 mt-1">
+                  When several routes match, the highest priority wins
+                </p>
+              </div>
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={closeModal}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+              >
+                {saving ? 'Saving...' : editingRoute ? 'Update Route' : 'Create Route'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import {
+  SlackNotificationKind,
+  SlackNotificationLogEntry,
+  SLACK_NOTIFICATION_KIND_LABELS,
+} from '@/types/slackNotification';
+import { formatCurrency } from '@/lib/format';
+
+const emptyFilters = {
+  status: '',
+  kind: '',
+  sentBy: '',
+  from: '',
+  to: '',
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function SlackNotificationLogPanel() {
+  const [notifications, setNotifications] = useState<SlackNotificationLogEntry[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState(emptyFilters);
+
+  useEffect(() => {
+    fetchNotifications(emptyFilters);
+  }, []);
+
+  const fetchNotifications = async (applied: typeof emptyFilters) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(applied)) {
+        if (value.trim()) params.set(key, value.trim());
+      }
+      const response = await fetch(`/api/slack-notifications?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setNotifications(data.notifications);
+        setTruncated(data.truncated);
+      } else {
+        setError(data.error);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchNotifications(filters);
+  };
+
+  const handleReset = () => {
+    setFilters(emptyFilters);
+    fetchNotifications(emptyFilters);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Slack Log</h2>
+        <p className="text-sm text-gray-700 mt-1">
+          Every correction notice, reminder and escalation sent to Slack, including the ones Slack rejected.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <form onSubmit={handleApply} className="bg-white border border-gray-200 rounded-lg p-4 grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Status</label>
+          <select
+            value={filters.status}
+            onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">All</option>
+            <option value="sent">Sent</option>
+            <option value="failed">Failed</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Type</label>
+          <select
+            value={filters.kind}
+            onChange={(e) => setFilters({ ...filters, kind: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">All</option>
+            {(Object.keys(SLACK_NOTIFICATION_KIND_LABELS) as SlackNotificationKind[]).map(kind => (
+              <option key={kind} value={kind}>{SLACK_NOTIFICATION_KIND_LABELS[kind]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Sent By</label>
+          <input
+            type="text"
+            value={filters.sentBy}
+            onChange={(e) => setFilters({ ...filters, sentBy: e.target.value })}
+            className={inputClass}
+            placeholder="Name, email or system"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={handleReset}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">Error: {error}</p>
+        </div>
+      )}
+
+      {/* Log Table */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  When
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Expense
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Type
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Sent By
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {loading ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-700">
+                    Loading notifications...
+                  </td>
+                </tr>
+              ) : notifications.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-700">
+                    No notifications match these filters.
+                  </td>
+                </tr>
+              ) : notifications.map(n => (
+                <tr key={n.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-700">
+                    {format(new Date(n.created_at), 'MMM d, yyyy h:mm a')}
+                  </td>
+                  <td className="px-6 py-3">
+                    {n.expenses ? (
+                      <>
+                        <div className="text-sm text-gray-900">
+                          {n.expenses.vendor_name || 'Unknown vendor'} · {formatCurrency(Number(n.expenses.amount), { cents: true })}
+                        </div>
+                        <div className="text-xs text-gray-700">
+                          {[n.expenses.cardholder, n.expenses.branch, n.expenses.transaction_date?.substring(0, 10)].filter(Boolean).join(' · ')}
+                        </div>
+                      </>
+                    ) : (
+                      <span className="text-sm text-gray-500">Expense deleted</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                    {SLACK_NOTIFICATION_KIND_LABELS[n.kind] || n.kind}
+                    {n.thread_ts && <div className="text-xs text-gray-500">In thread</div>}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-900">
+                    {n.sent_by === 'system' ? 'Automatic' : n.sent_by}
+                    <div className="text-xs text-gray-500">
+                      {n.recipient_slack_ids.length === 0 ? `Channel ${n.target}` : `${n.recipient_slack_ids.length} recipient${n.recipient_slack_ids.length === 1 ? '' : 's'}`}
+                    </div>
+                  </td>
+                  <td className="px-6 py-3">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      n.status === 'sent' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                    }`}>
+                      {n.status === 'sent' ? 'Sent' : 'Failed'}
+                    </span>
+                    {n.error && <div className="text-xs text-red-600 mt-1">{n.error}</div>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {truncated && (
+        <p className="text-xs text-gray-700">
+          Showing the most recent {notifications.length} notifications. Narrow the filters to see older ones.
+        </p>
+      )}
+    </div>
+  );
+}
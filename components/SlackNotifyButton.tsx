@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { toast } from 'sonner';
+import { getTransactionUrl } from '@/types/expense';
 
 interface SlackNotifyButtonProps {
   expenseId: string;
@@ -123,15 +124,6 @@ export default function SlackNotifyButton({
     }
   };
 
-  const getTransactionUrl = () => {
-    if (transactionType === 'Credit Card') {
-      const billId = netsuiteId.replace('BILL-', '');
-      return `https://spend.bill.com/companies/Q29tcGFueToxNDI3OQ==/transactions/pending-and-cleared/${billId}`;
-    } else {
-      return `https://system.netsuite.com/app/accounting/transactions/vendbill.nl?id=${netsuiteId}`;
-    }
-  };
-
   const hasChanges = () => {
     return (
       corrections.branch !== currentBranch ||
@@ -216,7 +208,7 @@ export default function SlackNotifyButton({
           amount,
           date,
           memo,
-          billUrl: getTransactionUrl(),
+          billUrl: getTransactionUrl(transactionType, netsuiteId),
           improveDescription,
           additionalSlackIds: sendMode === 'group' && additionalSlackIds.length > 0 ? additionalSlackIds : null,
           additionalMessage: additionalMessage.trim() || null,
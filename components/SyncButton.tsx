@@ -3,7 +3,9 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
-import { UserWithPermissions } from '@/types/user';
+import { hasCapability, UserWithPermissions } from '@/types/user';
+import { VendorBillChangeSet } from '@/types/sync';
+import SyncPreviewModal from './SyncPreviewModal';
 
 interface SyncButtonProps {
   currentUser: UserWithPermissions;
@@ -14,6 +16,15 @@ export default function SyncButton({ currentUser }: SyncButtonProps) {
   const [syncingVendorBills, setSyncingVendorBills] = useState(false);
   const [syncingCreditCards, setSyncingCreditCards] = useState(false);
   const [syncingHistorical, setSyncingHistorical] = useState(false);
+  // Incremental only pulls bills modified since the last successful run; a
+  // full reconcile re-fetches everything and removes bills deleted in NetSuite.
+  const [vendorBillMode, setVendorBillMode] = useState<'incremental' | 'full'>('incremental');
+  const [previewing, setPreviewing] = useState(false);
+  const [preview, setPreview] = useState<{
+    mode: 'incremental' | 'full';
+    fetched: number;
+    changeSet: VendorBillChangeSet;
+  } | null>(null);
   const [message, setMessage] = useState('');
   const [lastSyncTime, setLastSyncTime] = useState<string | null>(null);
 
@@ -63,19 +74,49 @@ export default function SyncButton({ currentUser }: SyncButtonProps) {
     });
   };
 
-  const handleVendorBillSync = async () => {
+  // Dry run: fetch + diff without writing, then let the admin confirm the real
+  // run from the preview modal.
+  const handleVendorBillPreview = async () => {
+    setPreviewing(true);
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode: vendorBillMode, dryRun: true }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setPreview({ mode: data.stats.mode, fetched: data.stats.fetched, changeSet: data.changeSet });
+      } else {
+        setMessage(`✗ Vendor Bill preview failed: ${data.error}`);
+      }
+    } catch (error: any) {
+      setMessage(`✗ Error: ${error.message}`);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleVendorBillSync = async (mode: 'incremental' | 'full' = vendorBillMode) => {
     setSyncingVendorBills(true);
     setMessage('');
 
     try {
       const response = await fetch('/api/sync', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode }),
       });
 
       const data = await response.json();
 
       if (data.success) {
-        setMessage(`✓ Vendor Bills synced: ${data.stats.created} created, ${data.stats.updated} updated`);
+        const deleted = data.stats.mode === 'full' ? `, ${data.stats.deleted} deleted` : '';
+        setMessage(`✓ Vendor Bills synced (${data.stats.mode === 'full' ? 'full reconcile' : 'incremental'}): ${data.stats.created} created, ${data.stats.updated} updated${deleted}`);
         fetchLastSyncTime();
         // Re-runs the server component and streams fresh expenses into the
         // existing tree — unlike a full reload, this keeps scroll position,
@@ -145,11 +186,11 @@ export default function SyncButton({ currentUser }: SyncButtonProps) {
     }
   };
 
-  const isAnySyncing = syncingVendorBills || syncingCreditCards || syncingHistorical;
+  const isAnySyncing = syncingVendorBills || syncingCreditCards || syncingHistorical || previewing;
 
-  // Non-admins don't get sync buttons, but still see how fresh the data is -
-  // MUST be after all hooks
-  if (!currentUser.is_admin) {
+  // Users without the sync capability don't get sync buttons, but still see
+  // how fresh the data is - MUST be after all hooks
+  if (!hasCapability(currentUser, 'sync')) {
     return (
       <span className="text-[10px] text-white/70" title="Last successful data sync">
         Data as of: {formatLastSyncTime()}
@@ -165,16 +206,48 @@ export default function SyncButton({ currentUser }: SyncButtonProps) {
         </span>
       )}
 
+      {preview && (
+        <SyncPreviewModal
+          mode={preview.mode}
+          fetched={preview.fetched}
+          changeSet={preview.changeSet}
+          onClose={() => setPreview(null)}
+          onConfirm={() => {
+            const mode = preview.mode;
+            setPreview(null);
+            handleVendorBillSync(mode);
+          }}
+        />
+      )}
+
       {/* Desktop Layout */}
       <div className="hidden lg:flex items-center gap-2">
         <button
-          onClick={handleVendorBillSync}
+          onClick={() => handleVendorBillSync()}
           disabled={isAnySyncing}
           className="px-2.5 py-1.5 bg-white/15 text-white text-xs font-medium rounded-lg hover:bg-white/25 border border-white/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-1.5"
         >
           <Image src="/logos/netsuite.png" alt="NetSuite" width={14} height={14} className="flex-shrink-0" />
           {syncingVendorBills ? 'Syncing...' : 'Vendor Bills'}
         </button>
+        <select
+          value={vendorBillMode}
+          onChange={(e) => setVendorBillMode(e.target.value as 'incremental' | 'full')}
+          disabled={isAnySyncing}
+          className="px-1.5 py-1.5 bg-white/15 text-white text-xs rounded-lg border border-white/20 disabled:opacity-40 [&>option]:text-gray-900"
+          title="Vendor bill sync mode"
+        >
+          <option value="incremental">Incremental</option>
+          <option value="full">Full reconcile</option>
+        </select>
+        <button
+          onClick={handleVendorBillPreview}
+          disabled={isAnySyncing}
+          className="px-2.5 py-1.5 bg-white/15 text-white text-xs font-medium rounded-lg hover:bg-white/25 border border-white/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Preview what the vendor bill sync would change without writing anything"
+        >
+          {previewing ? 'Previewing...' : 'Preview'}
+        </button>
         <button
           onClick={handleCreditCardSync}
           disabled={isAnySyncing}
@@ -201,7 +274,7 @@ export default function SyncButton({ currentUser }: SyncButtonProps) {
       <div className="lg:hidden w-full">
         <div className="flex gap-2">
           <button
-            onClick={handleVendorBillSync}
+            onClick={() => handleVendorBillSync()}
             disabled={isAnySyncing}
             className="flex-1 px-2 py-2 bg-white/15 text-white text-xs font-medium rounded-lg hover:bg-white/25 border border-white/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center gap-1.5"
           >
@@ -228,7 +301,26 @@ export default function SyncButton({ currentUser }: SyncButtonProps) {
             {syncingHistorical ? 'Importing...' : 'Historical'}
           </button>
         </div>
-        <p className="text-[10px] text-white/70 text-center mt-1.5">{formatLastSyncTime()}</p>
+        <div className="flex items-center justify-center gap-2 mt-1.5">
+          <select
+            value={vendorBillMode}
+            onChange={(e) => setVendorBillMode(e.target.value as 'incremental' | 'full')}
+            disabled={isAnySyncing}
+            className="px-1.5 py-1 bg-white/15 text-white text-[10px] rounded-lg border border-white/20 disabled:opacity-40 [&>option]:text-gray-900"
+            title="Vendor bill sync mode"
+          >
+            <option value="incremental">Vendor Bills: Incremental</option>
+            <option value="full">Vendor Bills: Full reconcile</option>
+          </select>
+          <button
+            onClick={handleVendorBillPreview}
+            disabled={isAnySyncing}
+            className="px-2 py-1 bg-white/15 text-white text-[10px] font-medium rounded-lg border border-white/20 disabled:opacity-40"
+          >
+            {previewing ? 'Previewing...' : 'Preview'}
+          </button>
+          <p className="text-[10px] text-white/70">{formatLastSyncTime()}</p>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { VendorBillChangeSet, VendorBillChangeRow, VendorBillFieldChange } from '@/types/sync';
+import { formatCurrency } from '@/lib/format';
+
+interface SyncPreviewModalProps {
+  mode: 'incremental' | 'full';
+  changeSet: VendorBillChangeSet;
+  fetched: number;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+type Section = 'create' | 'update' | 'delete';
+
+const FIELD_LABELS: Record<VendorBillFieldChange['field'], string> = {
+  branch: 'Branch',
+  department: 'Department',
+  amount: 'Amount',
+  vendor_name: 'Vendor',
+};
+
+const formatValue = (field: VendorBillFieldChange['field'], value: string | number | null) => {
+  if (value == null || value === '') return '—';
+  return field === 'amount' ? formatCurrency(Number(value), { cents: true }) : String(value);
+};
+
+const formatAmount = (amount: number | null) =>
+  amount == null ? '—' : formatCurrency(Number(amount), { cents: true });
+
+export default function SyncPreviewModal({ mode, changeSet, fetched, onConfirm, onClose }: SyncPreviewModalProps) {
+  const [section, setSection] = useState<Section>(
+    changeSet.toUpdate.length > 0 ? 'update' : changeSet.toDelete.length > 0 ? 'delete' : 'create'
+  );
+
+  const tabs: Array<{ key: Section; label: string; count: number; color: string }> = [
+    { key: 'create', label: 'New', count: changeSet.toCreate.length, color: 'text-green-700' },
+    { key: 'update', label: 'Changed', count: changeSet.toUpdate.length, color: 'text-blue-700' },
+    { key: 'delete', label: 'Deleted', count: changeSet.toDelete.length, color: 'text-red-700' },
+  ];
+
+  const renderRowHeader = (row: VendorBillChangeRow) => (
+    <div className="flex items-center justify-between gap-3">
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-gray-900 truncate">{row.vendor_name || 'Unknown vendor'}</p>
+        <p className="text-xs text-gray-500">
+          {row.transaction_date || '—'} · {row.transaction_type || 'NetSuite'} {row.netsuite_id}
+        </p>
+      </div>
+      <span className="text-sm font-semibold text-gray-900 whitespace-nowrap">{formatAmount(row.amount)}</span>
+    </div>
+  );
+
+  const hasChanges = changeSet.toCreate.length + changeSet.toUpdate.length + changeSet.toDelete.length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-xl font-semibold text-gray-900">
+            Vendor Bill Sync Preview ({mode === 'full' ? 'Full reconcile' : 'Incremental'})
+          </h3>
+          <p className="text-sm text-gray-500 mt-1">
+            {fetched} expense lines fetched from NetSuite, {changeSet.unchanged} unchanged. Nothing has been written yet.
+          </p>
+        </div>
+
+        <div className="px-6 pt-4 flex gap-2 border-b border-gray-200">
+          {tabs.map(tab => (
+            <button
+              key={tab.key}
+              onClick={() => setSection(tab.key)}
+              className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                section === tab.key ? `border-blue-600 ${tab.color}` : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab.label} ({tab.count})
+            </button>
+          ))}
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-2">
+          {section === 'create' && (
+            changeSet.toCreate.length === 0 ? (
+              <p className="text-sm text-gray-500">No new expense lines.</p>
+            ) : changeSet.toCreate.map(row => (
+              <div key={row.netsuite_id} className="p-3 rounded-lg border border-green-200 bg-green-50">
+                {renderRowHeader(row)}
+                <p className="text-xs text-gray-600 mt-1">
+                  {row.branch || 'No branch'} · {row.department || 'No department'}
+                </p>
+              </div>
+            ))
+          )}
+
+          {section === 'update' && (
+            changeSet.toUpdate.length === 0 ? (
+              <p className="text-sm text-gray-500">No branch, department, amount or vendor changes.</p>
+            ) : changeSet.toUpdate.map(row => (
+              <div key={row.netsuite_id} className="p-3 rounded-lg border border-blue-200 bg-blue-50">
+                {renderRowHeader(row)}
+                <ul className="mt-2 space-y-0.5">
+                  {row.changes.map(change => (
+                    <li key={change.field} className="text-xs text-gray-700">
+                      <span className="font-medium">{FIELD_LABELS[change.field]}:</span>{' '}
+                      <span className="line-through text-gray-500">{formatValue(change.field, change.from)}</span>
+                      {' → '}
+                      <span className="font-medium text-gray-900">{formatValue(change.field, change.to)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
+          )}
+
+          {section === 'delete' && (
+            changeSet.toDelete.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                {mode === 'incremental'
+                  ? 'Incremental syncs never delete. Run a full reconcile to remove bills deleted in NetSuite.'
+                  : 'No expense lines to delete.'}
+              </p>
+            ) : changeSet.toDelete.map(row => (
+              <div key={row.netsuite_id} className="p-3 rounded-lg border border-red-200 bg-red-50">
+                {renderRowHeader(row)}
+                <p className="text-xs text-red-700 mt-1">
+                  {row.reason === 'old_format'
+                    ? 'Old single-record bill format (flags migrate to the new line rows)'
+                    : 'No longer in NetSuite'}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors"
+          >
+            {hasChanges ? 'Run Sync' : 'Run Sync Anyway'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+import { createUserClient, supabaseAdmin } from '@/lib/supabase';
+import { hasAccessToExpense } from '@/lib/permissions';
+import { recordExpenseChanges } from '@/lib/expenseChanges';
+import { auditActor, recordAuditEvent } from '@/lib/audit';
+import { getActiveDelegators } from '@/lib/delegations';
+import { getBranches } from '@/lib/branches';
+import { Expense } from '@/types/expense';
+import { hasCapability, UserWithPermissions } from '@/types/user';
+import {
+  ApprovalPolicy,
+  ApprovalPolicyStep,
+  APPROVER_ROLE_LABELS,
+  APPROVER_ROLES,
+  getApprovalChain,
+} from '@/types/approval';
+
+export type ApprovalStatus = 'approved' | 'rejected' | null;
+
+export const VALID_APPROVAL_STATUSES: ApprovalStatus[] = ['approved', 'rejected', null];
+
+// Flag set when a reviewer asks the purchaser to fix an expense from Slack
+export const CORRECTION_REQUEST_FLAG = 'Needs Review';
+
+// Where a review action came from, for the audit trail
+export type ReviewActionVia = 'dashboard' | 'slack';
+
+export type ReviewActionResult =
+  | { ok: true; expense: any; chain?: { approved: number; total: number } }
+  | { ok: false; status: 403 | 404 | 409 | 500; error: string };
+
+/** All approval policies, active or not. Throws if they can't be loaded. */
+export async function getApprovalPolicies(): Promise<ApprovalPolicy[]> {
+  const { data, error } = await supabaseAdmin
+    .from('approval_policies')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load approval policies: ${error.message}`);
+  }
+
+  return data as ApprovalPolicy[];
+}
+
+/**
+ * Validate the steps of an approval policy from a request body: a non-empty
+ * array of { approver_role, min_amount, max_amount? } with sane amounts.
+ */
+export function parseApprovalSteps(
+  input: unknown
+): { ok: true; steps: ApprovalPolicyStep[] } | { ok: false; error: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { ok: false, error: 'A policy needs at least one step' };
+  }
+
+  const steps: ApprovalPolicyStep[] = [];
+  for (const [index, raw] of input.entries()) {
+    const label = `Step ${index + 1}`;
+    if (!raw || !APPROVER_ROLES.includes(raw.approver_role)) {
+      return { ok: false, error: `${label}: choose who approves` };
+    }
+    const minAmount = Number(raw.min_amount ?? 0);
+    const maxAmount = raw.max_amount === null || raw.max_amount === undefined || raw.max_amount === ''
+      ? null
+      : Number(raw.max_amount);
+    if (!Number.isFinite(minAmount) || minAmount < 0) {
+      return { ok: false, error: `${label}: minimum amount must be 0 or more` };
+    }
+    if (maxAmount !== null && (!Number.isFinite(maxAmount) || maxAmount <= minAmount)) {
+      return { ok: false, error: `${label}: maximum amount must be above the minimum` };
+    }
+    steps.push({ approver_role: raw.approver_role, min_amount: minAmount, max_amount: maxAmount });
+  }
+
+  return { ok: true, steps };
+}
+
+/**
+ * The user designated to act on `step` of this expense's chain: the branch or
+ * department manager. Finance steps have no single approver, so null.
+ */
+export async function getStepApprover(
+  step: ApprovalPolicyStep,
+  expense: Pick<Expense, 'branch' | 'department'>
+): Promise<{ id: string; full_name: string } | null> {
+  if (step.approver_role === 'finance') return null;
+
+  const { data } = step.approver_role === 'branch_manager'
+    ? await supabaseAdmin
+        .from('branch_managers')
+        .select('users(id, full_name)')
+        .eq('branch', expense.branch ?? '')
+        .maybeSingle()
+    : await supabaseAdmin
+        .from('department_managers')
+        .select('users(id, full_name)')
+        .eq('department', expense.department ?? '')
+        .maybeSingle();
+
+  return (data?.users as unknown as { id: string; full_name: string } | null) ?? null;
+}
+
+/**
+ * Whether `user` may approve or reject `step`: the assigned manager, or a
+ * finance approver for finance steps. When nobody holds the role (no manager
+ * set for the branch, no finance approvers) admins stand in, so an expense
+ * never gets stuck on an unstaffed step.
+ */
+export async function canActOnStep(
+  user: UserWithPermissions,
+  step: ApprovalPolicyStep,
+  expense: Pick<Expense, 'branch' | 'department'>
+): Promise<boolean> {
+  if (step.approver_role === 'finance') {
+    if (user.is_finance_approver) return true;
+    if (!user.is_admin) return false;
+    const { count } = await supabaseAdmin
+      .from('users')
+      .select('id', { count: 'exact', head: true })
+      .eq('is_finance_approver', true)
+      .eq('is_active', true);
+    return !count;
+  }
+
+  const approver = await getStepApprover(step, expense);
+  return approver ? approver.id === user.id : user.is_admin;
+}
+
+/**
+ * Whose approval rights `user` is exercising on this expense (and, in a
+ * chain, on `step`): their own, or those of a manager who has delegated to
+ * them while away. Whoever's rights are used needs the approve capability.
+ * null if neither may act.
+ */
+export async function resolveApprovingUser(
+  user: UserWithPermissions,
+  expense: Pick<Expense, 'branch' | 'department'>,
+  step: ApprovalPolicyStep | null
+): Promise<UserWithPermissions | null> {
+  const branches = await getBranches();
+  const canApprove = async (candidate: UserWithPermissions) =>
+    hasCapability(candidate, 'approve')
+      && hasAccessToExpense(candidate, expense as Expense, branches)
+      && (!step || await canActOnStep(candidate, step, expense));
+
+  if (await canApprove(user)) return user;
+  for (const delegator of await getActiveDelegators(user.id)) {
+    if (await canApprove(delegator)) return delegator;
+  }
+  return null;
+}
+
+/**
+ * Load an expense and check `user` may act on it, directly or through an
+ * active delegation. The user must already be known to be active; callers
+ * resolve them from a session or a Slack id. The read runs as the user, so
+ * row-level security decides what they can see.
+ */
+async function loadActionableExpense(
+  user: UserWithPermissions,
+  expenseId: string,
+  columns: string
+): Promise<ReviewActionResult> {
+  const { data: expense, error } = await createUserClient(user)
+    .from('expenses')
+    .select(columns)
+    .eq('id', expenseId)
+    .single();
+
+  if (error || !expense) {
+    return { ok: false, status: 404, error: 'Expense not found' };
+  }
+
+  return { ok: true, expense };
+}
+
+/**
+ * Set an expense's approval status on behalf of `user` and record the change.
+ * Shared by PATCH /api/expenses/approval and the Slack approve/reject buttons
+ * so both paths apply the same access check and tracking fields.
+ *
+ * When an approval policy applies, 'approved' and 'rejected' decide the
+ * current step of the chain and only its approver may make them; the expense
+ * is approved once the last step is. null resets the chain (admins only).
+ * Expenses without a policy are approved or rejected in one go, as before.
+ * A delegate acting for an absent manager is recorded as "Delegate on behalf
+ * of Manager".
+ */
+export async function setApprovalStatus(
+  user: UserWithPermissions,
+  expenseId: string,
+  approvalStatus: ApprovalStatus,
+  via: ReviewActionVia = 'dashboard'
+): Promise<ReviewActionResult> {
+  const loaded = await loadActionableExpense(
+    user,
+    expenseId,
+    'id, vendor_name, branch, department, amount, approval_status, approval_step'
+  );
+  if (!loaded.ok) return loaded;
+
+  const expense = loaded.expense;
+  const chain = getApprovalChain(await getApprovalPolicies(), expense);
+  const stepIndex: number = expense.approval_step ?? 0;
+  // The chain step being decided; null without a chain and for resets
+  const step = chain.length > 0 && approvalStatus !== null ? chain[stepIndex] ?? null : null;
+
+  if (chain.length > 0) {
+    if (approvalStatus === null && !user.is_admin) {
+      return { ok: false, status: 403, error: 'Only an admin can reset an approval chain' };
+    }
+    if (approvalStatus !== null && expense.approval_status) {
+      return { ok: false, status: 409, error: `This expense is already ${expense.approval_status}` };
+    }
+    if (approvalStatus !== null && !step) {
+      // The policy lost steps after this expense passed them
+      return { ok: false, status: 409, error: 'The approval policy changed; an admin needs to reset this approval' };
+    }
+  }
+
+  const approvingAs = await resolveApprovingUser(user, expense, step);
+  if (!approvingAs) {
+    return step
+      ? {
+          ok: false,
+          status: 403,
+          error: `Waiting on the ${APPROVER_ROLE_LABELS[step.approver_role].toLowerCase()} (step ${stepIndex + 1} of ${chain.length})`,
+        }
+      : { ok: false, status: 403, error: 'Forbidden' };
+  }
+  const username = approvingAs.id === user.id
+    ? user.full_name || user.email
+    : `${user.full_name || user.email} on behalf of ${approvingAs.full_name || approvingAs.email}`;
+
+  const updates: Record<string, unknown> = {
+    approval_status: approvalStatus,
+    approval_modified_by: username,
+    approval_modified_at: new Date().toISOString(),
+  };
+  let summary = `Set approval on ${expense.vendor_name || 'expense'} to ${approvalStatus ?? 'pending'}`;
+
+  if (chain.length > 0 && !step) {
+    const { error: resetError } = await supabaseAdmin
+      .from('expense_approval_steps')
+      .delete()
+      .eq('expense_id', expenseId);
+
+    if (resetError) {
+      console.error('Error resetting approval steps:', resetError);
+      return { ok: false, status: 500, error: 'Failed to update approval' };
+    }
+
+    updates.approval_step = 0;
+    summary = `Reset the approval chain on ${expense.vendor_name || 'expense'}`;
+  } else if (step) {
+    const { error: stepError } = await supabaseAdmin
+      .from('expense_approval_steps')
+      .insert({
+        expense_id: expenseId,
+        step_order: stepIndex,
+        approver_role: step.approver_role,
+        decision: approvalStatus,
+        decided_by_user_id: user.id,
+        decided_by: username,
+      });
+
+    if (stepError) {
+      // Someone else decided this step first
+      if (stepError.code === '23505') {
+        return { ok: false, status: 409, error: 'This approval step was already decided' };
+      }
+      console.error('Error recording approval step:', stepError);
+      return { ok: false, status: 500, error: 'Failed to update approval' };
+    }
+
+    if (approvalStatus === 'approved') {
+      updates.approval_step = stepIndex + 1;
+      if (stepIndex < chain.length - 1) updates.approval_status = null;
+    }
+    summary = `${approvalStatus === 'approved' ? 'Approved' : 'Rejected'} step ${stepIndex + 1} of ${chain.length} (${APPROVER_ROLE_LABELS[step.approver_role]}) on ${expense.vendor_name || 'expense'}`;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('expenses')
+    .update(updates)
+    .eq('id', expenseId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating approval:', error);
+    return { ok: false, status: 500, error: 'Failed to update approval' };
+  }
+
+  if (expense.approval_status !== data.approval_status) {
+    await recordExpenseChanges([{
+      expense_id: expenseId,
+      field: 'approval_status',
+      old_value: expense.approval_status,
+      new_value: data.approval_status,
+      source: 'approval',
+      changed_by: username,
+    }]);
+  }
+
+  await recordAuditEvent({
+    actor: auditActor(user),
+    action: 'expense.approval',
+    entityType: 'expense',
+    entityId: expenseId,
+    summary: approvingAs.id === user.id ? summary : `${summary} on behalf of ${approvingAs.full_name || approvingAs.email}`,
+    details: {
+      from: expense.approval_status,
+      to: data.approval_status,
+      via,
+      ...(chain.length > 0 ? { step: step ? stepIndex : null, steps: chain.length } : {}),
+      ...(approvingAs.id !== user.id ? { onBehalfOf: approvingAs.email } : {}),
+    },
+  });
+
+  return {
+    ok: true,
+    expense: data,
+    ...(chain.length > 0 ? { chain: { approved: data.approval_step, total: chain.length } } : {}),
+  };
+}
+
+/**
+ * Flag an expense for correction on behalf of a reviewer who can see it and
+ * has the flag capability. An existing flag is left alone, since it already
+ * says what is wrong.
+ */
+export async function requestCorrection(
+  user: UserWithPermissions,
+  expenseId: string,
+  via: ReviewActionVia = 'dashboard'
+): Promise<ReviewActionResult> {
+  if (!hasCapability(user, 'flag')) {
+    return { ok: false, status: 403, error: 'Forbidden' };
+  }
+
+  const loaded = await loadActionableExpense(user, expenseId, 'id, vendor_name, branch, department, flag_category');
+  if (!loaded.ok) return loaded;
+  if (loaded.expense.flag_category) return loaded;
+
+  const { data, error } = await supabaseAdmin
+    .from('expenses')
+    .update({
+      flag_category: CORRECTION_REQUEST_FLAG,
+      escalated_at: null,
+      escalated_to: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', expenseId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error flagging expense for correction:', error);
+    return { ok: false, status: 500, error: 'Failed to request correction' };
+  }
+
+  await recordExpenseChanges([{
+    expense_id: expenseId,
+    field: 'flag_category',
+    old_value: null,
+    new_value: CORRECTION_REQUEST_FLAG,
+    source: 'flag',
+    changed_by: user.full_name || user.email,
+  }]);
+
+  await recordAuditEvent({
+    actor: auditActor(user),
+    action: 'expense.correction_request',
+    entityType: 'expense',
+    entityId: expenseId,
+    summary: `Requested a correction on ${loaded.expense.vendor_name || 'expense'}`,
+    details: { flag: CORRECTION_REQUEST_FLAG, via },
+  });
+
+  return { ok: true, expense: data };
+}
@@ -0,0 +1,47 @@
+import { supabaseAdmin } from './supabase';
+import { AuditAction, AuditEntityType, SYSTEM_ACTOR } from '@/types/audit';
+
+export interface AuditActor {
+  email: string;
+  name?: string | null;
+}
+
+export interface AuditEventInput {
+  actor: AuditActor;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  summary: string;
+  details?: Record<string, unknown>;
+}
+
+// Actor for cron jobs, which act on nobody's behalf
+export const SYSTEM_AUDIT_ACTOR: AuditActor = { email: SYSTEM_ACTOR, name: 'Scheduled job' };
+
+/** The actor for a signed-in user (a session user or a `users` row). */
+export function auditActor(user: { email: string; full_name?: string | null; name?: string | null }): AuditActor {
+  return { email: user.email.toLowerCase(), name: user.full_name ?? user.name ?? null };
+}
+
+/**
+ * Append one row to audit_events. Like expense history, the audit trail is
+ * secondary to the action it records, so failures are logged and swallowed
+ * rather than failing a write that already succeeded.
+ */
+export async function recordAuditEvent(event: AuditEventInput): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('audit_events')
+    .insert({
+      actor_email: event.actor.email,
+      actor_name: event.actor.name ?? null,
+      action: event.action,
+      entity_type: event.entityType,
+      entity_id: event.entityId ?? null,
+      summary: event.summary,
+      details: event.details ?? null,
+    });
+
+  if (error) {
+    console.error(`Failed to record audit event ${event.action}:`, error.message);
+  }
+}
@@ -55,7 +55,7 @@ export const authOptions: NextAuthOptions = {
             .insert({
               email: email,
               full_name: fullName,
-              is_admin: false,
+              role: 'viewer',
               is_active: true,
               can_send_slack: false,
             })
@@ -91,7 +91,7 @@ export const authOptions: NextAuthOptions = {
         try {
           const { data: dbUser } = await supabaseAdmin
             .from('users')
-            .select('id, email, full_name, is_admin, is_active, can_send_slack')
+            .select('id, email, full_name, role, is_admin, is_active, can_send_slack')
             .eq('email', token.email.toLowerCase())
             .single();
 
@@ -99,6 +99,7 @@ export const authOptions: NextAuthOptions = {
             session.user.id = dbUser.id;
             session.user.email = dbUser.email;
             session.user.name = dbUser.full_name;
+            session.user.role = dbUser.role;
             session.user.isAdmin = dbUser.is_admin;
             session.user.isActive = dbUser.is_active;
             session.user.canSendSlack = dbUser.can_send_slack;
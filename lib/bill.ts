@@ -56,6 +56,29 @@ interface BillCustomField {
   retired?: boolean;
 }
 
+interface BillCustomFieldValue {
+  id: string;
+  uuid?: string;
+  value: string;
+  retired?: boolean;
+}
+
+/** A receipt image or PDF attached to a transaction. `url` is a download link. */
+export interface BillReceipt {
+  id: string;
+  fileName?: string;
+  contentType?: string;
+  url: string;
+  createdTime?: string;
+}
+
+/** One custom-field assignment in a transaction update: a list value or free text. */
+export interface BillCustomFieldUpdate {
+  customFieldId: string;
+  selectedValues?: string[];
+  note?: string;
+}
+
 interface BillAPIResponse<T> {
   results: T[];
   nextPage?: string;
@@ -87,7 +110,7 @@ export class BillClient {
       signal: AbortSignal.timeout(30000), // 30 second timeout
     };
 
-    if (body && (method === 'POST' || method === 'PUT')) {
+    if (body && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
       options.body = JSON.stringify(body);
       headers['Content-Type'] = 'application/json';
     }
@@ -331,17 +354,11 @@ export class BillClient {
    */
   async getCustomFieldUuidByName(fieldName: string): Promise<string | null> {
     try {
-      const response = await this.getCustomFields({ max: 100 });
+      const field = await this.getCustomFieldByName(fieldName);
       
-      if (response.results && response.results.length > 0) {
-        const field = response.results.find(
-          f => f.name === fieldName && !f.retired
-        );
-        
-        if (field) {
-          console.log(`Found custom field "${fieldName}" with UUID: ${field.uuid}`);
-          return field.uuid;
-        }
+      if (field) {
+        console.log(`Found custom field "${fieldName}" with UUID: ${field.uuid}`);
+        return field.uuid;
       }
       
       console.log(`Custom field "${fieldName}" not found`);
@@ -352,6 +369,83 @@ export class BillClient {
     }
   }
 
+  /**
+   * Get a non-retired custom field definition by name (throws on API errors)
+   */
+  async getCustomFieldByName(fieldName: string): Promise<BillCustomField | null> {
+    const response = await this.getCustomFields({ max: 100 });
+    return (response.results || []).find(f => f.name === fieldName && !f.retired) || null;
+  }
+
+  /**
+   * Find the id of a custom field's list value. `matches` receives each
+   * value's display text, so callers can compare normalized names.
+   */
+  async findCustomFieldValueId(
+    customFieldId: string,
+    matches: (value: string) => boolean
+  ): Promise<string | null> {
+    let nextPage: string | undefined;
+    do {
+      const queryParams = new URLSearchParams({ max: '100' });
+      if (nextPage) queryParams.append('nextPage', nextPage);
+      const response = await this.makeRequest<BillAPIResponse<BillCustomFieldValue>>(
+        `/spend/custom-fields/${customFieldId}/values?${queryParams.toString()}`
+      );
+      const found = (response.results || []).find(v => !v.retired && matches(v.value));
+      if (found) return found.id;
+      nextPage = response.nextPage;
+    } while (nextPage);
+
+    return null;
+  }
+
+  /**
+   * Set custom fields on a transaction, and optionally mark it reviewed
+   */
+  async updateTransaction(
+    transactionId: string,
+    update: { customFields: BillCustomFieldUpdate[]; isReviewed?: boolean }
+  ): Promise<BillTransaction> {
+    const body: Record<string, any> = {
+      customFields: update.customFields.map(cf => ({
+        customFieldId: cf.customFieldId,
+        ...(cf.selectedValues && { selectedValues: cf.selectedValues }),
+        ...(cf.note !== undefined && { note: cf.note }),
+      })),
+    };
+    if (update.isReviewed !== undefined) body.isReviewed = update.isReviewed;
+
+    return this.makeRequest<BillTransaction>(`/spend/transactions/${transactionId}`, 'PATCH', body);
+  }
+
+  /**
+   * List the receipts attached to a transaction
+   */
+  async getTransactionReceipts(transactionId: string): Promise<BillReceipt[]> {
+    const response = await this.makeRequest<BillAPIResponse<BillReceipt>>(`/spend/transactions/${transactionId}/receipts`);
+    return response.results || [];
+  }
+
+  /**
+   * Download a receipt file. Links on the Bill.com API host need the apiToken;
+   * pre-signed storage links are fetched without it so the token never leaves
+   * Bill.com. Returns the raw response for the caller to stream.
+   */
+  async fetchReceiptFile(receiptUrl: string): Promise<Response> {
+    const url = new URL(receiptUrl, this.config.baseUrl);
+    const headers: Record<string, string> = {};
+    if (url.origin === new URL(this.config.baseUrl).origin) {
+      headers['apiToken'] = this.config.apiToken;
+    }
+
+    const response = await fetch(url, { headers, signal: AbortSignal.timeout(30000) });
+    if (!response.ok) {
+      throw new Error(`Bill.com receipt download failed: ${response.status}`);
+    }
+    return response;
+  }
+
   /**
    * Extract custom field value from transaction
    */
@@ -0,0 +1,152 @@
+// Branch hierarchy and the Bill.com / NetSuite names that map onto it,
+// stored in branches and branch_aliases.
+import { supabaseAdmin } from './supabase';
+import { Branch, BranchAlias, BRANCH_SOURCES, BranchSource, BranchWithAliases } from '@/types/branch';
+
+/**
+ * Load every branch. Throws on failure, since a missing hierarchy would
+ * silently narrow region grants and rollups.
+ */
+export async function getBranches(): Promise<Branch[]> {
+  const { data, error } = await supabaseAdmin
+    .from('branches')
+    .select('id, name, parent_id, created_at')
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load branches: ${error.message}`);
+  }
+  return (data || []) as Branch[];
+}
+
+/** Every branch with its source-system aliases, for the admin panel. */
+export async function getBranchesWithAliases(): Promise<BranchWithAliases[]> {
+  const { data, error } = await supabaseAdmin
+    .from('branches')
+    .select('id, name, parent_id, created_at, branch_aliases(source, alias)')
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load branches: ${error.message}`);
+  }
+  return (data || []).map(({ branch_aliases, ...branch }: any) => ({
+    ...branch,
+    aliases: branch_aliases || [],
+  }));
+}
+
+/**
+ * Source name -> branch name for one system. Throws on failure so a sync
+ * doesn't store unmapped names.
+ */
+export async function getBranchAliases(source: BranchSource): Promise<Map<string, string>> {
+  const { data, error } = await supabaseAdmin
+    .from('branch_aliases')
+    .select('alias, branches(name)')
+    .eq('source', source);
+
+  if (error) {
+    throw new Error(`Failed to load ${source} branch aliases: ${error.message}`);
+  }
+  return new Map((data || []).map((row: any) => [row.alias, row.branches?.name ?? row.alias]));
+}
+
+/**
+ * Our name for a source system's branch; unmapped names pass through.
+ * Bill.com nests Phoenix branches as "Phoenix:Phx - North", so an unmapped
+ * Bill.com name with that prefix becomes "Phoenix - North", as it always has.
+ */
+export function resolveBranchName(
+  aliases: Map<string, string>,
+  branchName: string | null,
+  source: BranchSource
+): string | null {
+  if (!branchName) return null;
+  const mapped = aliases.get(branchName);
+  if (mapped) return mapped;
+  if (source === 'bill' && branchName.startsWith('Phoenix:Phx')) {
+    return branchName.replace('Phoenix:Phx', 'Phoenix');
+  }
+  return branchName;
+}
+
+/**
+ * What a source system calls one of our branches, for writing corrections
+ * back. Falls back to our name when the branch has no alias there.
+ */
+export function getSourceBranchName(aliases: Map<string, string>, branchName: string): string {
+  for (const [alias, name] of aliases) {
+    if (name === branchName) return alias;
+  }
+  return branchName;
+}
+
+/**
+ * Validate branch aliases from a request body: an array of { source, alias }.
+ * Blank aliases and duplicates are dropped.
+ */
+export function parseBranchAliases(
+  input: unknown
+): { ok: true; aliases: Pick<BranchAlias, 'source' | 'alias'>[] } | { ok: false; error: string } {
+  if (!Array.isArray(input)) {
+    return { ok: false, error: 'aliases must be an array' };
+  }
+
+  const aliases: Pick<BranchAlias, 'source' | 'alias'>[] = [];
+  for (const raw of input) {
+    if (!BRANCH_SOURCES.includes(raw?.source) || typeof raw?.alias !== 'string') {
+      return { ok: false, error: `Each alias needs a source (${BRANCH_SOURCES.join(', ')}) and a name` };
+    }
+    const alias = raw.alias.trim();
+    if (alias && !aliases.some(existing => existing.source === raw.source && existing.alias === alias)) {
+      aliases.push({ source: raw.source, alias });
+    }
+  }
+
+  return { ok: true, aliases };
+}
+
+/**
+ * The first of `aliases` already mapped to a branch other than `branchId`
+ * (any branch when null), so a save can be refused before anything is written.
+ * Throws if the aliases can't be loaded.
+ */
+export async function findTakenBranchAlias(
+  branchId: string | null,
+  aliases: Pick<BranchAlias, 'source' | 'alias'>[]
+): Promise<Pick<BranchAlias, 'source' | 'alias'> | null> {
+  if (aliases.length === 0) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('branch_aliases')
+    .select('branch_id, source, alias')
+    .in('alias', aliases.map(a => a.alias));
+  if (error) {
+    throw new Error(`Failed to load branch aliases: ${error.message}`);
+  }
+
+  const taken = (data || []).find(row =>
+    row.branch_id !== branchId && aliases.some(a => a.source === row.source && a.alias === row.alias)
+  );
+  return taken ? { source: taken.source, alias: taken.alias } : null;
+}
+
+/**
+ * Replace a branch's aliases in one transaction (replace_branch_aliases), so
+ * a failure keeps the old ones. An alias another branch took in the meantime
+ * is reported rather than thrown; other failures throw.
+ */
+export async function replaceBranchAliases(
+  branchId: string,
+  aliases: Pick<BranchAlias, 'source' | 'alias'>[]
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const { error } = await supabaseAdmin
+    .rpc('replace_branch_aliases', { p_branch_id: branchId, p_aliases: aliases });
+  if (error) {
+    if (error.code === '23505') {
+      return { ok: false, error: 'One of these names is already mapped to another branch' };
+    }
+    throw new Error(`Failed to save branch aliases: ${error.message}`);
+  }
+  return { ok: true };
+}
@@ -0,0 +1,463 @@
+import { createBillClient } from './bill';
+import { getBranchAliases, resolveBranchName } from './branches';
+import { supabaseAdmin } from './supabase';
+import { ExpenseChangeInput, recordExpenseChanges } from './expenseChanges';
+import { confirmCorrections } from './expenseCorrections';
+import { getExclusionRules, isExcludedFromSync } from './exclusionRules';
+import { SyncRunResult, SyncTrigger, createSyncLog, isSyncRunning, markSyncLogFailed } from './syncLog';
+
+export interface CreditCardSyncStats {
+  fetched: number;
+  created: number;
+  updated: number;
+  flagsPreserved: number;
+  errors: number;
+  excluded: number;
+  syncStatusBreakdown: Record<string, number>;
+  /** Historical imports only. */
+  dateRange?: string;
+  daysImported?: number;
+}
+
+/**
+ * Pull recent cleared Bill.com card transactions into `expenses`. Shared by the
+ * admin sync routes and the scheduled runner; auth is the caller's job.
+ *
+ * With `historicalFrom` (YYYY-MM-DD) it becomes the one-off historical import:
+ * everything since that date, via the slower historical Bill.com query.
+ */
+export async function runCreditCardSync(options: {
+  trigger: SyncTrigger;
+  triggeredBy: string | null;
+  historicalFrom?: string;
+}): Promise<SyncRunResult<CreditCardSyncStats>> {
+  const historical = !!options.historicalFrom;
+  console.log(`=== Starting ${historical ? 'HISTORICAL Credit Card Import' : 'Credit Card Sync'} (${options.trigger}) ===`);
+
+  if (await isSyncRunning()) {
+    return { busy: true };
+  }
+
+  // Hoisted so the catch can mark an in-progress sync_log as failed instead of
+  // leaving it stuck "running" forever.
+  let syncLogId: string | null = null;
+  try {
+    syncLogId = await createSyncLog({
+      syncType: historical ? 'credit_cards_historical' : 'credit_cards',
+      trigger: options.trigger,
+      triggeredBy: options.triggeredBy,
+    });
+
+    // Initialize Bill.com client
+    const billClient = createBillClient();
+    console.log('Bill.com client initialized');
+
+    // Fetch transactions by sync status to get complete coverage.
+    // 35-day lookback (not 14): transactions only ingest once they CLEAR, and a
+    // transaction that clears more than 14 days after it occurred would age out
+    // of a 14-day window before ever being picked up. Upserts make re-fetching
+    // already-synced rows harmless.
+    const LOOKBACK_DAYS = 35;
+    const daysBack = options.historicalFrom
+      ? Math.ceil((Date.now() - new Date(options.historicalFrom).getTime()) / (1000 * 60 * 60 * 24))
+      : LOOKBACK_DAYS;
+    const fetchBySyncStatus = (syncStatus: 'SYNCED' | 'MANUAL_SYNCED' | 'NOT_SYNCED' | 'ERROR') =>
+      historical
+        ? billClient.fetchTransactionsBySyncStatusHistorical(daysBack, syncStatus)
+        : billClient.fetchTransactionsBySyncStatus(daysBack, syncStatus, true);
+    console.log(`Fetching credit card transactions from Bill.com (last ${daysBack} days) by sync status...`);
+    if (historical) {
+      console.log('⚠️  This may take several minutes for large transaction volumes...');
+    }
+
+    let allTransactions: Array<{ transaction: any; knownSyncStatus: string | null }> = [];
+
+    try {
+      // Fetch SYNCED transactions
+      console.log('Fetching SYNCED transactions...');
+      const syncedTransactions = await fetchBySyncStatus('SYNCED');
+      console.log(`Found ${syncedTransactions.length} SYNCED transactions`);
+      allTransactions.push(...syncedTransactions.map(t => ({ transaction: t, knownSyncStatus: 'SYNCED' })));
+
+      // Fetch MANUAL_SYNCED transactions
+      console.log('Fetching MANUAL_SYNCED transactions...');
+      const manualSyncedTransactions = await fetchBySyncStatus('MANUAL_SYNCED');
+      console.log(`Found ${manualSyncedTransactions.length} MANUAL_SYNCED transactions`);
+      allTransactions.push(...manualSyncedTransactions.map(t => ({ transaction: t, knownSyncStatus: 'SYNCED' })));
+
+      // Fetch NOT_SYNCED transactions
+      console.log('Fetching NOT_SYNCED transactions...');
+      const notSyncedTransactions = await fetchBySyncStatus('NOT_SYNCED');
+      console.log(`Found ${notSyncedTransactions.length} NOT_SYNCED transactions`);
+      allTransactions.push(...notSyncedTransactions.map(t => ({ transaction: t, knownSyncStatus: null })));
+
+      // Fetch ERROR transactions
+      console.log('Fetching ERROR transactions...');
+      const errorTransactions = await fetchBySyncStatus('ERROR');
+      console.log(`Found ${errorTransactions.length} ERROR transactions`);
+      allTransactions.push(...errorTransactions.map(t => ({ transaction: t, knownSyncStatus: 'ERROR' })));
+      
+      // Remove duplicates (same transaction might appear in multiple queries)
+      const uniqueTransactions = new Map<string, { transaction: any; knownSyncStatus: string | null }>();
+      allTransactions.forEach(item => {
+        const existingItem = uniqueTransactions.get(item.transaction.id);
+        if (!existingItem) {
+          uniqueTransactions.set(item.transaction.id, item);
+        } else {
+          // If duplicate, prefer the one with a sync status (SYNCED or ERROR over null)
+          if (item.knownSyncStatus && !existingItem.knownSyncStatus) {
+            uniqueTransactions.set(item.transaction.id, item);
+          }
+        }
+      });
+      
+      allTransactions = Array.from(uniqueTransactions.values());
+      console.log(`Total unique transactions after deduplication: ${allTransactions.length}`);
+      
+    } catch (fetchError: any) {
+      console.error('Error fetching transactions:', fetchError.message);
+      
+      // Update sync log with error
+      await supabaseAdmin
+        .from('sync_logs')
+        .update({
+          sync_completed_at: new Date().toISOString(),
+          status: 'failed',
+          errors: [{ error: fetchError.message }],
+        })
+        .eq('id', syncLogId);
+      
+      throw new Error(`Failed to fetch transactions from Bill.com: ${fetchError.message}`);
+    }
+
+    const exclusionRules = await getExclusionRules();
+    const branchAliases = await getBranchAliases('bill');
+
+    // Get user name mapping
+    console.log('Fetching user mappings...');
+    const userMapping = await billClient.getUserNameMapping();
+    console.log(`Loaded ${Object.keys(userMapping).length} user mappings`);
+
+    // Get custom field UUIDs
+    console.log('Fetching custom fields...');
+    const purchaseCategoryUuid = await billClient.getCustomFieldUuidByName('Purchase Category');
+    const branchUuid = await billClient.getCustomFieldUuidByName('Branch');
+    const departmentUuid = await billClient.getCustomFieldUuidByName('Department');
+    
+    if (purchaseCategoryUuid) {
+      console.log(`Purchase Category field found: ${purchaseCategoryUuid}`);
+    } else {
+      console.log('Purchase Category custom field not found - will use generic category');
+    }
+    
+    if (branchUuid) {
+      console.log(`Branch field found: ${branchUuid}`);
+    } else {
+      console.log('Branch custom field not found');
+    }
+    
+    if (departmentUuid) {
+      console.log(`Department field found: ${departmentUuid}`);
+    } else {
+      console.log('Department custom field not found');
+    }
+
+    // Batch the existing-record fetching to avoid connection issues with large queries.
+    // Map holds the full set of fields we preserve across syncs (flag + approval state)
+    // plus the sync-owned fields we diff for the change history.
+    console.log('Fetching existing records for flag/approval preservation and change detection...');
+    const netsuiteIds = allTransactions.map(t => `BILL-${t.transaction.id}`);
+    console.log(`Built ${netsuiteIds.length} NetSuite IDs to check`);
+
+    interface PreservedFields {
+      id: string;
+      flag_category: string | null;
+      approval_status: string | null;
+      approval_modified_by: string | null;
+      approval_modified_at: string | null;
+      branch: string | null;
+      department: string | null;
+      category: string | null;
+      vendor_name: string | null;
+      amount: number | null;
+    }
+    const batchSize = 100;
+    const existingMap = new Map<string, PreservedFields>();
+
+    for (let i = 0; i < netsuiteIds.length; i += batchSize) {
+      const batch = netsuiteIds.slice(i, i + batchSize);
+
+      try {
+        const { data: batchRows, error: fetchError } = await supabaseAdmin
+          .from('expenses')
+          .select('id, netsuite_id, flag_category, approval_status, approval_modified_by, approval_modified_at, branch, department, category, vendor_name, amount')
+          .in('netsuite_id', batch);
+
+        if (fetchError) {
+          console.error(`Error fetching batch ${Math.floor(i / batchSize) + 1}:`, fetchError);
+        } else {
+          (batchRows || []).forEach(e => {
+            existingMap.set(e.netsuite_id, {
+              id: e.id,
+              flag_category: e.flag_category,
+              approval_status: e.approval_status,
+              approval_modified_by: e.approval_modified_by,
+              approval_modified_at: e.approval_modified_at,
+              branch: e.branch,
+              department: e.department,
+              category: e.category,
+              vendor_name: e.vendor_name,
+              amount: e.amount,
+            });
+          });
+        }
+      } catch (batchError: any) {
+        console.error(`Exception in batch ${Math.floor(i / batchSize) + 1}:`, batchError.message);
+      }
+    }
+
+    console.log(`Loaded ${existingMap.size} existing records into map`);
+    const recordsWithActualFlags = Array.from(existingMap.values()).filter(v => v.flag_category !== null).length;
+    console.log(`Records with non-null flags: ${recordsWithActualFlags}`);
+
+    let recordsCreated = 0;
+    let recordsUpdated = 0;
+    let flagsPreserved = 0;
+    let recordsExcluded = 0;
+    const errors: any[] = [];
+    
+    // Track sync status statistics
+    const syncStatusBreakdown: Record<string, number> = {
+      'SYNCED': 0,
+      'NOT_SYNCED': 0,
+      'ERROR': 0,
+    };
+
+    // Build expense data + tally created/updated/preserved counts.
+    // We track the netsuite_id on each row so we can decrement counts for upsert failures below.
+    //
+    // Only sync-owned columns are written. Manual columns (flag_category,
+    // approval_*) are omitted from the upsert payload so the DB keeps whatever
+    // value is there — including edits made while this sync is running, which
+    // the old read-snapshot/write-back approach would silently revert.
+    // flag_category appears only on NEW rows (for the reimbursement auto-flag);
+    // new and existing rows are upserted separately since PostgREST requires
+    // uniform keys within a batch.
+    interface ExpenseRow {
+      netsuite_id: string;
+      transaction_date: string;
+      vendor_name: string;
+      amount: number;
+      currency: string;
+      status: string;
+      department: string | null;
+      branch: string | null;
+      memo: string | null;
+      category: string | null;
+      transaction_type: string;
+      cardholder: string;
+      bill_sync_status: string | null;
+      receipt_status: string | null;
+      last_synced_at: string;
+      flag_category?: string | null;
+    }
+    const newRows: ExpenseRow[] = [];
+    const existingRows: ExpenseRow[] = [];
+    const fieldChanges: Array<ExpenseChangeInput & { netsuite_id: string }> = [];
+
+    for (const { transaction, knownSyncStatus } of allTransactions) {
+      try {
+        const vendorName = transaction.merchantName || 'Unknown Merchant';
+        const cardholderName = userMapping[transaction.userId] || 'Unknown User';
+
+        const amount = transaction.amount;
+        if (amount > 10000) {
+          console.warn(`Large transaction amount $${amount} for ${vendorName} (id ${transaction.id}) — verify Bill.com is returning dollars, not cents`);
+        }
+
+        let memo = null;
+        if (transaction.customFields && transaction.customFields.length > 0) {
+          const descriptionField = transaction.customFields.find((cf: any) => cf.note);
+          if (descriptionField && descriptionField.note && descriptionField.note.trim() !== '') {
+            memo = descriptionField.note;
+          }
+        }
+
+        let category = null;
+        if (purchaseCategoryUuid) {
+          const purchaseCategory = billClient.extractCustomFieldValue(transaction, purchaseCategoryUuid);
+          if (purchaseCategory) category = purchaseCategory;
+        }
+
+        let branch = null;
+        if (branchUuid) {
+          const branchValue = billClient.extractCustomFieldValue(transaction, branchUuid);
+          if (branchValue) branch = resolveBranchName(branchAliases, branchValue, 'bill');
+        }
+        if (!branch && transaction.budgetId) {
+          const budgetId = transaction.budgetId;
+          if (!budgetId.includes('=') && !budgetId.includes('-') && budgetId.length < 50) {
+            branch = resolveBranchName(branchAliases, budgetId, 'bill');
+          }
+        }
+
+        let department = null;
+        if (departmentUuid) {
+          const departmentValue = billClient.extractCustomFieldValue(transaction, departmentUuid);
+          if (departmentValue) department = departmentValue;
+        }
+
+        // Before any counters move, so excluded rows don't show up as created/updated
+        if (isExcludedFromSync(exclusionRules, { category, vendor_name: vendorName, department, branch, transaction_type: 'Credit Card' })) {
+          recordsExcluded++;
+          continue;
+        }
+
+        const status = transaction.complete ? 'Complete' : 'Incomplete';
+
+        const netsuiteId = `BILL-${transaction.id}`;
+        const existing = existingMap.get(netsuiteId);
+        if (existing && (existing.flag_category || existing.approval_status)) flagsPreserved++;
+
+        const billSyncStatus = knownSyncStatus;
+        if (billSyncStatus === 'SYNCED') syncStatusBreakdown['SYNCED']++;
+        else if (billSyncStatus === 'ERROR') syncStatusBreakdown['ERROR']++;
+        else syncStatusBreakdown['NOT_SYNCED']++;
+
+        if (existing) recordsUpdated++;
+        else recordsCreated++;
+
+        const row: ExpenseRow = {
+          netsuite_id: netsuiteId,
+          // occurredTime is UTC; truncating it directly dates evening purchases
+          // on the next day. Use the business timezone (en-CA gives YYYY-MM-DD).
+          transaction_date: new Date(transaction.occurredTime).toLocaleDateString('en-CA', { timeZone: 'America/Phoenix' }),
+          vendor_name: vendorName,
+          amount: parseFloat(amount.toString()) || 0,
+          currency: 'USD',
+          status,
+          department,
+          branch,
+          memo,
+          category,
+          transaction_type: 'Credit Card',
+          cardholder: cardholderName,
+          bill_sync_status: billSyncStatus,
+          receipt_status: transaction.receiptStatus ?? null,
+          last_synced_at: new Date().toISOString(),
+        };
+
+        if (existing) {
+          const tracked = ['branch', 'department', 'category', 'vendor_name'] as const;
+          for (const field of tracked) {
+            if (existing[field] !== row[field]) {
+              console.log(`Updating ${field}: ${existing[field] ?? 'null'} → ${row[field] ?? 'null'} for netsuite_id: ${netsuiteId}`);
+              fieldChanges.push({ netsuite_id: netsuiteId, expense_id: existing.id, field, old_value: existing[field], new_value: row[field], source: 'bill_sync' });
+            }
+          }
+          if (existing.amount == null || Math.abs(Number(existing.amount) - row.amount) >= 0.005) {
+            fieldChanges.push({ netsuite_id: netsuiteId, expense_id: existing.id, field: 'amount', old_value: existing.amount, new_value: row.amount, source: 'bill_sync' });
+          }
+          existingRows.push(row);
+        } else {
+          row.flag_category =
+            category && category.toLowerCase().includes('reimburse') ? 'Needs Review' : null;
+          newRows.push(row);
+        }
+      } catch (error: any) {
+        console.error(`Error processing transaction ${transaction.id}:`, error);
+        errors.push({
+          netsuite_id: `BILL-${transaction.id}`,
+          transaction_id: transaction.id,
+          vendor: transaction.merchantName,
+          error: error.message,
+        });
+      }
+    }
+
+    // Batch upsert (with per-record fallback on failure)
+    console.log(`Upserting ${newRows.length + existingRows.length} records (${newRows.length} new, ${existingRows.length} existing)...`);
+    const UPSERT_BATCH = 200;
+    const upsertBatches = async (rows: ExpenseRow[]) => {
+      for (let i = 0; i < rows.length; i += UPSERT_BATCH) {
+        const batch = rows.slice(i, i + UPSERT_BATCH);
+        const { error: batchError } = await supabaseAdmin
+          .from('expenses')
+          .upsert(batch, { onConflict: 'netsuite_id', ignoreDuplicates: false });
+
+        if (batchError) {
+          console.log(`Batch upsert failed at offset ${i}, falling back to per-record...`);
+          for (const item of batch) {
+            const { error: itemError } = await supabaseAdmin
+              .from('expenses')
+              .upsert(item, { onConflict: 'netsuite_id', ignoreDuplicates: false });
+            if (itemError) {
+              errors.push({
+                netsuite_id: item.netsuite_id,
+                vendor: item.vendor_name,
+                error: itemError.message,
+              });
+            }
+          }
+        }
+      }
+    };
+    await upsertBatches(newRows);
+    await upsertBatches(existingRows);
+
+    // Decrement created/updated for any rows that failed to persist
+    const errorIds = new Set(errors.map(e => e.netsuite_id).filter(Boolean));
+    for (const eid of errorIds) {
+      if (existingMap.has(eid)) recordsUpdated--;
+      else recordsCreated--;
+    }
+
+    // Field-level history for the rows that actually persisted
+    await recordExpenseChanges(fieldChanges.filter(c => !errorIds.has(c.netsuite_id)));
+    // Corrections pushed to Bill.com are confirmed once the transaction reads back corrected
+    await confirmCorrections(existingRows.filter(row => !errorIds.has(row.netsuite_id)));
+
+    console.log('=== SYNC STATUS STATISTICS ===');
+    console.log('Sync status breakdown:', syncStatusBreakdown);
+    console.log(`Flags preserved: ${flagsPreserved}`);
+    console.log(`Excluded by rule: ${recordsExcluded}`);
+    console.log('=== END STATISTICS ===');
+
+    await supabaseAdmin
+      .from('sync_logs')
+      .update({
+        sync_completed_at: new Date().toISOString(),
+        records_fetched: allTransactions.length,
+        records_created: recordsCreated,
+        records_updated: recordsUpdated,
+        errors: errors.length > 0 ? errors : null,
+        status: allTransactions.length > 0 && errors.length === allTransactions.length ? 'failed' : errors.length > 0 ? 'partial' : 'success',
+      })
+      .eq('id', syncLogId);
+
+    return {
+      busy: false,
+      message: `${historical ? 'Historical import' : 'Credit card sync'} completed: ${recordsCreated} created, ${recordsUpdated} updated, ${flagsPreserved} flags preserved`,
+      stats: {
+        fetched: allTransactions.length,
+        created: recordsCreated,
+        updated: recordsUpdated,
+        flagsPreserved: flagsPreserved,
+        errors: errors.length,
+        excluded: recordsExcluded,
+        syncStatusBreakdown,
+        ...(options.historicalFrom && {
+          dateRange: `${new Date(`${options.historicalFrom}T00:00:00`).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })} - ${new Date().toLocaleDateString()}`,
+          daysImported: daysBack,
+        }),
+      },
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  } catch (error: any) {
+    console.error(historical ? 'Historical credit card import error:' : 'Credit card sync error:', error);
+    if (syncLogId) {
+      await markSyncLogFailed(syncLogId, error);
+    }
+    throw error;
+  }
+}
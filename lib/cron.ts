@@ -0,0 +1,24 @@
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * True if the request carries CRON_SECRET, either as `Authorization: Bearer
+ * <secret>` (what Vercel Cron sends) or an `x-cron-secret` header for other
+ * schedulers. Fails closed when CRON_SECRET isn't configured.
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error('CRON_SECRET is not set; rejecting scheduled request');
+    return false;
+  }
+
+  const authHeader = request.headers.get('authorization');
+  const provided = authHeader?.startsWith('Bearer ')
+    ? authHeader.slice('Bearer '.length)
+    : request.headers.get('x-cron-secret');
+  if (!provided) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -2,7 +2,7 @@ import { supabaseAdmin } from '@/lib/supabase';
 import { UserWithPermissions } from '@/types/user';
 
 /**
- * Fetch a user by email along with their branch/department permissions.
+ * Fetch a user by email along with their access grants.
  * Returns null if the user does not exist. Email is matched case-insensitively.
  *
  * Shared by the page loader and API routes so authorization decisions use the
@@ -21,19 +21,34 @@ export async function getCurrentUserWithPermissions(
     return null;
   }
 
-  const { data: branchPermissions } = await supabaseAdmin
-    .from('user_branch_permissions')
-    .select('branch_name')
-    .eq('user_id', user.id);
-
-  const { data: departmentPermissions } = await supabaseAdmin
-    .from('user_department_permissions')
-    .select('department_name')
+  const { data: grants } = await supabaseAdmin
+    .from('user_access_grants')
+    .select('branch, department')
     .eq('user_id', user.id);
 
   return {
     ...user,
-    branches: branchPermissions?.map(bp => bp.branch_name) || [],
-    departments: departmentPermissions?.map(dp => dp.department_name) || [],
+    grants: grants || [],
   };
 }
+
+/**
+ * Resolve a Slack user id (from an interaction or slash command) to the
+ * linked `users` row with permissions. Returns null if no user carries that
+ * slack_id; slack_id is filled in by "Sync Slack Users" in Admin.
+ */
+export async function getUserWithPermissionsBySlackId(
+  slackId: string
+): Promise<UserWithPermissions | null> {
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('email')
+    .eq('slack_id', slackId)
+    .maybeSingle();
+
+  if (!user) {
+    return null;
+  }
+
+  return getCurrentUserWithPermissions(user.email);
+}
@@ -0,0 +1,17 @@
+// Base URL of the deployed dashboard, for links in Slack messages
+export const DASHBOARD_URL = (process.env.NEXTAUTH_URL || 'https://expense-tracker-kappa-orcin.vercel.app').replace(/\/$/, '');
+
+/**
+ * Link to the dashboard with filters pre-applied. Keys are ExpenseDashboard
+ * filter names (branch, months, approvalStatus, ...); arrays are sent
+ * comma-separated, which is how the dashboard reads them back.
+ */
+export function buildDashboardUrl(filters: Record<string, string | string[] | undefined> = {}): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined) continue;
+    params.set(key, Array.isArray(value) ? value.join(',') : value);
+  }
+  const query = params.toString();
+  return query ? `${DASHBOARD_URL}/?${query}` : `${DASHBOARD_URL}/`;
+}
@@ -0,0 +1,49 @@
+import { supabaseAdmin } from './supabase';
+import { businessToday } from './digests';
+import { getCurrentUserWithPermissions } from './currentUser';
+import { UserWithPermissions } from '@/types/user';
+import { ApprovalDelegationWithUsers } from '@/types/delegation';
+
+// Columns for ApprovalDelegationWithUsers rows; both users() joins go through
+// their own foreign key since the table references users twice
+export const DELEGATION_COLUMNS =
+  'id, delegator_user_id, delegate_user_id, starts_on, ends_on, reason, created_by, created_at, revoked_at, revoked_by, ' +
+  'delegator:users!approval_delegations_delegator_user_id_fkey(full_name), ' +
+  'delegate:users!approval_delegations_delegate_user_id_fkey(full_name)';
+
+/** Flatten a row selected with DELEGATION_COLUMNS. */
+export function toDelegationWithUsers(row: any): ApprovalDelegationWithUsers {
+  const { delegator, delegate, ...delegation } = row;
+  return {
+    ...delegation,
+    delegator_name: delegator?.full_name ?? 'Unknown user',
+    delegate_name: delegate?.full_name ?? 'Unknown user',
+  };
+}
+
+/**
+ * Active users who have delegated their approval rights to `userId` for
+ * today, with their permissions. Failures are logged and treated as no
+ * delegations, so a lookup problem only ever narrows access.
+ */
+export async function getActiveDelegators(userId: string): Promise<UserWithPermissions[]> {
+  const today = businessToday();
+  const { data, error } = await supabaseAdmin
+    .from('approval_delegations')
+    .select('delegator:users!approval_delegations_delegator_user_id_fkey(email)')
+    .eq('delegate_user_id', userId)
+    .is('revoked_at', null)
+    .lte('starts_on', today)
+    .gte('ends_on', today);
+
+  if (error) {
+    console.error('Failed to load approval delegations:', error.message);
+    return [];
+  }
+
+  const emails = [...new Set(
+    data.map(row => (row.delegator as unknown as { email: string } | null)?.email).filter((email): email is string => !!email)
+  )];
+  const delegators = await Promise.all(emails.map(email => getCurrentUserWithPermissions(email)));
+  return delegators.filter((user): user is UserWithPermissions => !!user && user.is_active);
+}
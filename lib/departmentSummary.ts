@@ -0,0 +1,311 @@
+import { supabaseAdmin } from './supabase';
+import { resolveDepartmentChannel } from './slackChannels';
+import { formatCurrency } from './format';
+import { buildExpenseActionsBlock, postSlackMessage } from './slack';
+import { getExclusionRules, isHiddenFromDashboard } from './exclusionRules';
+import { getBranches } from './branches';
+import { getBranchSubtree } from '@/types/branch';
+
+export type DepartmentSummaryResult =
+  | {
+      ok: true;
+      // false when skipIfNothingOutstanding held the message back
+      sent: boolean;
+      channelId: string;
+      slackTs: string | null;
+      unapprovedCount: number;
+      unapprovedAmount: number;
+    }
+  | { ok: false; status: 404 | 500; error: string; suggestion?: string };
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June',
+                     'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Clean department name for display
+const cleanDepartmentName = (dept: string) => {
+  if (dept.startsWith('Maintenance : Maintenance')) {
+    return dept.replace('Maintenance : ', '');
+  }
+  return dept;
+};
+
+// Get department emoji based on department name
+const getDepartmentEmoji = (dept: string): string => {
+  const lower = dept.toLowerCase();
+  if (lower.includes('arbor')) return ':palm_tree:';
+  if (lower.includes('enhancement')) return ':enh:';
+  if (lower.includes('maintenance')) return ':agave:';
+  if (lower.includes('irrigation')) return ':droplet:';
+  if (lower.includes('spray') || lower.includes('phc')) return ':pesticide:';
+  if (lower.includes('safety')) return ':safety_vest:';
+  if (lower.includes('fleet') || lower.includes('equipment')) return ':truck:';
+  if (lower.includes('office') || lower.includes('operations')) return ':office:';
+  return ':clipboard:'; // Default
+};
+
+/**
+ * Unapproved expenses for a branch/department/month (YYYY-MM), with the
+ * dashboard exclusion rules applied so the summary matches what the
+ * department sees. A region includes its branches. Throws on query failure.
+ */
+export async function loadUnapprovedExpenses(branch: string, department: string, month: string) {
+  const monthStart = `${month}-01`;
+  const [rangeY, rangeM] = month.split('-').map(Number);
+  const nextMonth = rangeM === 12
+    ? `${rangeY + 1}-01-01`
+    : `${rangeY}-${String(rangeM + 1).padStart(2, '0')}-01`;
+
+  const branchNames = getBranchSubtree(await getBranches(), branch);
+
+  const { data: unapprovedRows, error: unapprovedError } = await supabaseAdmin
+    .from('expenses')
+    .select('id, vendor_name, amount, transaction_date, cardholder, memo, flag_category, category, branch, department, transaction_type')
+    .in('branch', branchNames)
+    .ilike('department', `%${department.replace(/ : /g, '%')}%`)
+    .gte('transaction_date', monthStart)
+    .lt('transaction_date', nextMonth)
+    .or('approval_status.neq.approved,approval_status.is.null')
+    .order('transaction_date', { ascending: false });
+
+  if (unapprovedError) {
+    throw new Error(`Failed to load unapproved transactions: ${unapprovedError.message}`);
+  }
+
+  // Exclusion rules are applied in JS: a PostgREST `.neq` filter would also
+  // drop rows with a null vendor_name (neq evaluates to null for nulls),
+  // silently hiding legitimate unapproved bills.
+  const exclusionRules = await getExclusionRules();
+  return (unapprovedRows || []).filter(e => !isHiddenFromDashboard(exclusionRules, e));
+}
+
+/**
+ * Post a branch/department summary for `month` (YYYY-MM) to the department's
+ * Slack channel, with a thread listing each unapproved transaction and its
+ * review buttons. The header figures and the thread come from one query so
+ * they always agree. Used by the dashboard's KPI card button and the digest
+ * scheduler; `skipIfNothingOutstanding` (digests) sends nothing when every
+ * transaction is approved.
+ */
+export async function sendDepartmentSummary(options: {
+  branch: string;
+  department: string;
+  month: string;
+  dashboardUrl?: string;
+  skipIfNothingOutstanding?: boolean;
+}): Promise<DepartmentSummaryResult> {
+  const { branch, department, month, dashboardUrl } = options;
+
+  let channelId: string | null;
+  try {
+    channelId = await resolveDepartmentChannel(branch, department);
+  } catch (error: any) {
+    console.error(error.message);
+    return { ok: false, status: 500, error: 'Failed to load Slack channel routes' };
+  }
+  if (!channelId) {
+    console.log('No Slack channel route for department:', department, 'in branch:', branch);
+    return {
+      ok: false,
+      status: 404,
+      error: `No Slack channel configured for ${department} in ${branch}`,
+      suggestion: 'Add a route for this branch/department under Admin → Slack Channels.',
+    };
+  }
+
+  console.log('Found Slack channel:', channelId, 'for', branch, '/', department);
+
+  let unapprovedExpenses;
+  try {
+    unapprovedExpenses = await loadUnapprovedExpenses(branch, department, month);
+  } catch (error: any) {
+    console.error(error.message);
+    return { ok: false, status: 500, error: 'Failed to load transactions' };
+  }
+
+  const unapprovedCount = unapprovedExpenses.length;
+  const unapprovedAmount = unapprovedExpenses.reduce(
+    (sum, e) => sum + (parseFloat(e.amount) || 0),
+    0
+  );
+
+  if (unapprovedCount === 0 && options.skipIfNothingOutstanding) {
+    console.log(`Nothing outstanding for ${branch} / ${department} (${month}); summary skipped`);
+    return { ok: true, sent: false, channelId, slackTs: null, unapprovedCount, unapprovedAmount };
+  }
+
+  // Format the month for display - parse manually to avoid timezone issues
+  const [year, monthNum] = month.split('-');
+  const monthDisplay = `${MONTH_NAMES[parseInt(monthNum, 10) - 1]} ${year}`;
+
+  // Get month emoji (e.g., :jan:, :feb:, :dec:)
+  const monthAbbreviations = ['jan', 'feb', 'mar', 'apr', 'may', 'jun',
+                               'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+  const monthEmoji = `:${monthAbbreviations[parseInt(monthNum, 10) - 1]}:`;
+  const deptEmoji = getDepartmentEmoji(department);
+
+  // Build blocks for the Slack message
+  const blocks: any[] = [
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: `${branch} - ${cleanDepartmentName(department)}`,
+        emoji: true,
+      },
+    },
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `${deptEmoji} ${cleanDepartmentName(department)}  |  ${monthEmoji} ${monthDisplay}`,
+      },
+    },
+  ];
+
+  if (unapprovedCount > 0) {
+    blocks.push(
+      {
+        type: 'section',
+        fields: [
+          {
+            type: 'mrkdwn',
+            text: `*⚠️ Unapproved*\n*${formatCurrency(unapprovedAmount)}*`,
+          },
+          {
+            type: 'mrkdwn',
+            text: `*Pending Review*\n*${unapprovedCount}* transactions`,
+          },
+        ],
+      }
+    );
+  } else {
+    blocks.push(
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: '✅ All transactions approved!',
+        },
+      }
+    );
+  }
+
+  // Add dashboard link if provided
+  if (dashboardUrl) {
+    blocks.push(
+      {
+        type: 'divider',
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `<${dashboardUrl}|View in Expense Dashboard →>`,
+        },
+      }
+    );
+  }
+
+  // Check for Slack token
+  const slackToken = process.env.SLACK_API_TOKEN;
+  if (!slackToken) {
+    console.error('SLACK_API_TOKEN not configured');
+    return { ok: false, status: 500, error: 'Slack API token not configured on server' };
+  }
+
+  // Build Slack message
+  const message = {
+    channel: channelId,
+    text: `${branch} - ${cleanDepartmentName(department)} (${monthDisplay}): ${unapprovedCount > 0 ? `${unapprovedCount} unapproved (${formatCurrency(unapprovedAmount)})` : 'All approved!'}`,
+    blocks: blocks,
+    unfurl_links: false,
+    unfurl_media: false,
+  };
+
+  console.log('Sending message to Slack channel:', channelId);
+
+  // Send to Slack (retries once on 429)
+  let slackData;
+  try {
+    const slackResponse = await postSlackMessage(slackToken, message);
+    console.log('Slack API response status:', slackResponse.status);
+
+    const responseText = await slackResponse.text();
+    if (!responseText || responseText.trim() === '') {
+      throw new Error('Empty response from Slack');
+    }
+    slackData = JSON.parse(responseText);
+  } catch (fetchError: any) {
+    console.error('Slack request failed:', fetchError);
+    return { ok: false, status: 500, error: `Failed to connect to Slack: ${fetchError.message}` };
+  }
+
+  if (!slackData.ok) {
+    console.error('Slack API error:', slackData.error);
+    return { ok: false, status: 500, error: `Slack API error: ${slackData.error}` };
+  }
+
+  console.log('Department summary sent. Message ID:', slackData.ts);
+
+  // Post thread replies listing all unapproved transactions, each with its
+  // own Approve / Reject / Request correction buttons. Slack caps a message
+  // at 50 blocks, so the list is split across replies.
+  if (unapprovedCount > 0) {
+    try {
+      const THREAD_CHUNK = 20;
+      for (let i = 0; i < unapprovedExpenses.length; i += THREAD_CHUNK) {
+        const chunk = unapprovedExpenses.slice(i, i + THREAD_CHUNK);
+        const lines = chunk.map(e => {
+          const date = e.transaction_date?.substring(0, 10) || 'N/A';
+          const amt = formatCurrency(parseFloat(e.amount) || 0);
+          const vendor = e.vendor_name || 'Unknown';
+          const purchaser = e.cardholder || e.transaction_type;
+          const detail = e.memo && e.memo !== e.vendor_name ? `  |  _${e.memo}_` : '';
+          const flag = e.flag_category ? ` · _${e.flag_category}_` : '';
+          return `• ${date}  |  ${vendor}  |  ${amt}  |  ${purchaser}${detail}${flag}`;
+        });
+
+        const heading = i === 0
+          ? `📋 *Unapproved transactions* (${unapprovedExpenses.length}):`
+          : `📋 *Unapproved transactions* (continued, ${i + 1}–${i + chunk.length}):`;
+        const threadBlocks: any[] = [
+          { type: 'section', text: { type: 'mrkdwn', text: heading } },
+        ];
+        chunk.forEach((e, index) => {
+          threadBlocks.push(
+            { type: 'section', text: { type: 'mrkdwn', text: lines[index] } },
+            buildExpenseActionsBlock(e.id)
+          );
+        });
+
+        await postSlackMessage(slackToken, {
+          channel: channelId,
+          thread_ts: slackData.ts,
+          text: `${heading}\n\n${lines.join('\n')}`,
+          blocks: threadBlocks,
+          unfurl_links: false,
+          unfurl_media: false,
+        });
+      }
+
+      console.log(`Posted thread replies with ${unapprovedExpenses.length} unapproved transactions`);
+    } catch (threadError) {
+      // Don't fail the whole summary if the thread reply fails
+      console.error('Failed to post thread reply:', threadError);
+    }
+  }
+
+  return {
+    ok: true,
+    sent: true,
+    channelId: slackData.channel || channelId,
+    slackTs: slackData.ts,
+    unapprovedCount,
+    unapprovedAmount,
+  };
+}
+
+/** Display name used in the "Summary sent to ..." confirmation. */
+export function departmentSummaryLabel(branch: string, department: string): string {
+  return `${branch} - ${cleanDepartmentName(department)}`;
+}
@@ -0,0 +1,123 @@
+import { supabaseAdmin } from './supabase';
+import { sendDepartmentSummary } from './departmentSummary';
+import { buildDashboardUrl } from './dashboardLinks';
+import { DigestSchedule, DigestStatus } from '@/types/digest';
+
+export interface DigestRunStats {
+  due: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+// YYYY-MM-DD in the business timezone (the same one the syncs date by)
+export function businessToday(): string {
+  return new Date().toLocaleDateString('en-CA', { timeZone: 'America/Phoenix' });
+}
+
+/** Whether `schedule` should post on `today` (YYYY-MM-DD). */
+export function isDigestDue(schedule: DigestSchedule, today: string): boolean {
+  if (!schedule.is_active || schedule.last_run_on === today) return false;
+
+  const [year, month, day] = today.split('-').map(Number);
+  if (schedule.cadence === 'weekly') {
+    // Noon UTC keeps the date from shifting when taking the weekday
+    return new Date(Date.UTC(year, month - 1, day, 12)).getUTCDay() === schedule.weekday;
+  }
+
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return day === lastDay - (schedule.days_before_month_end ?? 0);
+}
+
+/**
+ * Post every digest due today for the current month and record each outcome
+ * in digest_history. Departments with nothing outstanding are skipped. One
+ * failing digest doesn't stop the rest. Throws only if the schedules can't be
+ * loaded.
+ */
+export async function runDueDigests(): Promise<DigestRunStats> {
+  const { data: schedules, error } = await supabaseAdmin
+    .from('digest_schedules')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error) {
+    throw new Error(`Failed to load digest schedules: ${error.message}`);
+  }
+
+  const today = businessToday();
+  const month = today.substring(0, 7);
+  const due = (schedules as DigestSchedule[]).filter(s => isDigestDue(s, today));
+  const stats: DigestRunStats = { due: due.length, sent: 0, skipped: 0, failed: 0 };
+
+  console.log(`${due.length} of ${schedules.length} digest schedules due on ${today}`);
+
+  for (const schedule of due) {
+    // Claim the schedule before sending: a cron run overlapping another (or a
+    // manual retry) finds it already marked and leaves it alone. Marked even
+    // if the send then fails, so a retry doesn't spam the channels that did
+    // get theirs; failures are visible in the history instead.
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('digest_schedules')
+      .update({ last_run_on: today })
+      .eq('id', schedule.id)
+      .or(`last_run_on.is.null,last_run_on.neq.${today}`)
+      .select('id');
+    if (claimError) {
+      console.error(`Failed to claim digest for ${schedule.branch} / ${schedule.department}:`, claimError.message);
+      stats.failed++;
+      continue;
+    }
+    if (!claimed || claimed.length === 0) {
+      console.log(`Digest for ${schedule.branch} / ${schedule.department} already run today; skipping`);
+      stats.skipped++;
+      continue;
+    }
+
+    let status: DigestStatus;
+    let history: Record<string, any>;
+    try {
+      const result = await sendDepartmentSummary({
+        branch: schedule.branch,
+        department: schedule.department,
+        month,
+        dashboardUrl: buildDashboardUrl({ months: [month], branch: schedule.branch, department: schedule.department }),
+        skipIfNothingOutstanding: true,
+      });
+
+      if (result.ok) {
+        status = result.sent ? 'sent' : 'skipped';
+        history = {
+          unapproved_count: result.unapprovedCount,
+          unapproved_amount: result.unapprovedAmount,
+          channel_id: result.channelId,
+          slack_ts: result.slackTs,
+        };
+      } else {
+        status = 'failed';
+        history = { error: result.error };
+      }
+    } catch (sendError: any) {
+      status = 'failed';
+      history = { error: sendError.message || 'Unknown error' };
+    }
+
+    stats[status]++;
+
+    const { error: historyError } = await supabaseAdmin
+      .from('digest_history')
+      .insert({
+        schedule_id: schedule.id,
+        branch: schedule.branch,
+        department: schedule.department,
+        month,
+        status,
+        ...history,
+      });
+    if (historyError) {
+      console.error(`Failed to record digest history for ${schedule.branch} / ${schedule.department}:`, historyError.message);
+    }
+  }
+
+  return stats;
+}
@@ -0,0 +1,253 @@
+import { supabaseAdmin } from './supabase';
+import { formatCurrency, ordinal } from './format';
+import { buildExpenseActionsBlock } from './slack';
+import { sendExpenseNotification } from './slackNotifications';
+import { findPurchaserUser } from './purchasers';
+import { resolveDepartmentChannel } from './slackChannels';
+import { getExclusionRules, isHiddenFromDashboard } from './exclusionRules';
+import { buildDashboardUrl } from './dashboardLinks';
+import { getTransactionUrl } from '@/types/expense';
+import { EscalationRule } from '@/types/escalation';
+
+export interface EscalationRunStats {
+  candidates: number;
+  reminded: number;
+  escalated: number;
+  failed: number;
+}
+
+interface EscalationCandidate {
+  id: string;
+  netsuite_id: string;
+  transaction_date: string;
+  vendor_name: string | null;
+  amount: number;
+  branch: string | null;
+  department: string | null;
+  category: string | null;
+  memo: string | null;
+  cardholder: string;
+  transaction_type: string;
+  flag_category: string;
+  slack_notification_count: number;
+  slack_last_notified_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Active rules keyed by flag category. Throws if they can't be loaded. */
+async function getActiveEscalationRules(): Promise<Map<string, EscalationRule>> {
+  const { data, error } = await supabaseAdmin
+    .from('escalation_rules')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error) {
+    throw new Error(`Failed to load escalation rules: ${error.message}`);
+  }
+
+  return new Map((data as EscalationRule[]).map(rule => [rule.flag_category, rule]));
+}
+
+function transactionText(e: EscalationCandidate): string {
+  const link = `<${getTransactionUrl(e.transaction_type, e.netsuite_id)}|View Transaction>`;
+  return `*Vendor:* ${e.vendor_name || 'Unknown'}  |  *Amount:* ${formatCurrency(Number(e.amount) || 0, { cents: true })}  |  *Date:* ${e.transaction_date?.substring(0, 10)}  |  ${link}`;
+}
+
+/** Re-notify the purchaser and advance the expense's notification count. */
+async function sendReminder(slackToken: string, e: EscalationCandidate): Promise<void> {
+  const lookup = await findPurchaserUser(e.cardholder);
+  if (!lookup.ok) {
+    throw new Error(lookup.error);
+  }
+
+  const name = lookup.user.slack_display_name || lookup.user.full_name;
+  const text = `Hey ${name}! 👋 A flagged credit card transaction still needs your attention.`;
+  const blocks: any[] = [
+    { type: 'header', text: { type: 'plain_text', text: '⏰ Reminder: Correction Still Needed', emoji: true } },
+    { type: 'section', text: { type: 'mrkdwn', text } },
+    {
+      type: 'context',
+      elements: [{
+        type: 'mrkdwn',
+        text: `:noun_alert: This is the ${ordinal(e.slack_notification_count + 1)} reminder. Flagged as *${e.flag_category}*.`,
+      }],
+    },
+    { type: 'divider' },
+    { type: 'section', text: { type: 'mrkdwn', text: transactionText(e) } },
+  ];
+  if (e.memo) {
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: `*Description:* ${e.memo}` } });
+  }
+  blocks.push(buildExpenseActionsBlock(e.id));
+
+  // Threaded under the original notice when it went to the same DM
+  const result = await sendExpenseNotification({
+    slackToken,
+    expenseId: e.id,
+    kind: 'reminder',
+    sentBy: 'system',
+    target: lookup.user.slack_id,
+    recipientSlackIds: [lookup.user.slack_id],
+    text,
+    blocks,
+    threadFollowUp: true,
+  });
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+
+  const { error } = await supabaseAdmin
+    .rpc('increment_slack_notification_count', { p_expense_id: e.id });
+  if (error) {
+    console.error(`Failed to record reminder for expense ${e.id}:`, error.message);
+  }
+}
+
+/**
+ * Tell the branch manager (or the department channel) that the purchaser
+ * hasn't responded, then mark the expense escalated. Falls back to the
+ * department channel when the branch has no manager with a Slack ID.
+ */
+async function sendEscalation(slackToken: string, e: EscalationCandidate, rule: EscalationRule): Promise<void> {
+  let channel: string | null = null;
+  let managerSlackId: string | null = null;
+  let escalatedTo = 'Department channel';
+
+  if (rule.escalate_to === 'branch_manager' && e.branch) {
+    const { data: manager } = await supabaseAdmin
+      .from('branch_managers')
+      .select('users(full_name, slack_id)')
+      .eq('branch', e.branch)
+      .maybeSingle();
+    const managerUser = manager?.users as unknown as { full_name: string; slack_id: string | null } | null;
+    if (managerUser?.slack_id) {
+      channel = managerSlackId = managerUser.slack_id;
+      escalatedTo = managerUser.full_name;
+    } else {
+      console.log(`No branch manager with a Slack ID for ${e.branch}; using the department channel`);
+    }
+  }
+
+  if (!channel && e.branch && e.department) {
+    channel = await resolveDepartmentChannel(e.branch, e.department);
+  }
+  if (!channel) {
+    throw new Error(`No manager or Slack channel to escalate to for ${e.branch || 'no branch'} / ${e.department || 'no department'}`);
+  }
+
+  const text = `🚨 *${e.cardholder}* hasn't responded to ${e.slack_notification_count} notification${e.slack_notification_count === 1 ? '' : 's'} about a transaction flagged *${e.flag_category}*.`;
+  const dashboardUrl = buildDashboardUrl({ months: ['all'], vendor: e.vendor_name || undefined, showFlagged: 'flagged' });
+  const blocks: any[] = [
+    { type: 'header', text: { type: 'plain_text', text: '🚨 Unresolved Expense Escalation', emoji: true } },
+    { type: 'section', text: { type: 'mrkdwn', text } },
+    { type: 'divider' },
+    { type: 'section', text: { type: 'mrkdwn', text: transactionText(e) } },
+    {
+      type: 'context',
+      elements: [{
+        type: 'mrkdwn',
+        text: `${[e.branch, e.department, e.category].filter(Boolean).join(' · ')}  |  <${dashboardUrl}|Open in Expense Dashboard →>`,
+      }],
+    },
+    buildExpenseActionsBlock(e.id),
+  ];
+
+  const result = await sendExpenseNotification({
+    slackToken,
+    expenseId: e.id,
+    kind: 'escalation',
+    sentBy: 'system',
+    target: channel,
+    recipientSlackIds: managerSlackId ? [managerSlackId] : [],
+    text: `Escalation: ${e.cardholder} - ${e.vendor_name || 'Unknown'} (${e.flag_category})`,
+    blocks,
+  });
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+
+  const { error } = await supabaseAdmin
+    .from('expenses')
+    .update({ escalated_at: new Date().toISOString(), escalated_to: escalatedTo })
+    .eq('id', e.id);
+  if (error) {
+    console.error(`Failed to mark expense ${e.id} escalated:`, error.message);
+  }
+}
+
+/**
+ * Apply the escalation rules to every flagged, pending credit card expense
+ * whose purchaser was notified and hasn't resolved it. Once `reminder_after_days`
+ * have passed since the last notification, the purchaser gets another
+ * reminder until `max_reminders` notifications have gone out; after that the
+ * expense is escalated once. One failing expense doesn't stop the rest.
+ * Throws only if the rules or expenses can't be loaded.
+ */
+export async function runEscalations(): Promise<EscalationRunStats> {
+  const rules = await getActiveEscalationRules();
+  const stats: EscalationRunStats = { candidates: 0, reminded: 0, escalated: 0, failed: 0 };
+  if (rules.size === 0) {
+    console.log('No active escalation rules');
+    return stats;
+  }
+
+  const slackToken = process.env.SLACK_API_TOKEN;
+  if (!slackToken) {
+    throw new Error('SLACK_API_TOKEN not configured');
+  }
+
+  // Paginated: PostgREST caps unpaged reads at 1000 rows, which would leave
+  // the rest of a large backlog unreminded.
+  const candidates: EscalationCandidate[] = [];
+  const PAGE = 1000;
+  let pageStart = 0;
+  while (true) {
+    const { data: page, error } = await supabaseAdmin
+      .from('expenses')
+      .select('id, netsuite_id, transaction_date, vendor_name, amount, branch, department, category, memo, cardholder, transaction_type, flag_category, slack_notification_count, slack_last_notified_at')
+      .in('flag_category', [...rules.keys()])
+      .is('approval_status', null)
+      .is('escalated_at', null)
+      .not('cardholder', 'is', null)
+      .not('slack_last_notified_at', 'is', null)
+      .order('id')
+      .range(pageStart, pageStart + PAGE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load expenses to escalate: ${error.message}`);
+    }
+    candidates.push(...((page || []) as EscalationCandidate[]));
+    if (!page || page.length < PAGE) break;
+    pageStart += PAGE;
+  }
+
+  const exclusionRules = await getExclusionRules();
+  const now = Date.now();
+  const due = candidates.filter(e => {
+    const rule = rules.get(e.flag_category)!;
+    return !isHiddenFromDashboard(exclusionRules, e) &&
+      now - Date.parse(e.slack_last_notified_at) >= rule.reminder_after_days * DAY_MS;
+  });
+  stats.candidates = due.length;
+
+  console.log(`${due.length} of ${candidates.length} notified expenses are due for a reminder or escalation`);
+
+  for (const expense of due) {
+    const rule = rules.get(expense.flag_category)!;
+    try {
+      if ((expense.slack_notification_count || 0) < rule.max_reminders) {
+        await sendReminder(slackToken, expense);
+        stats.reminded++;
+      } else {
+        await sendEscalation(slackToken, expense, rule);
+        stats.escalated++;
+      }
+    } catch (escalationError: any) {
+      console.error(`Escalation step failed for expense ${expense.id}:`, escalationError.message);
+      stats.failed++;
+    }
+  }
+
+  return stats;
+}
@@ -0,0 +1,61 @@
+import { supabaseAdmin } from './supabase';
+import { ExclusionRule } from '@/types/exclusionRule';
+
+/** The expense fields a rule can match on. Any may be missing on a row. */
+export interface ExclusionCandidate {
+  category?: string | null;
+  vendor_name?: string | null;
+  department?: string | null;
+  branch?: string | null;
+  transaction_type?: string | null;
+}
+
+/**
+ * Load the active rules. Throws on failure: silently syncing or showing rows
+ * that an admin asked to exclude is worse than failing the request.
+ */
+export async function getExclusionRules(): Promise<ExclusionRule[]> {
+  const { data, error } = await supabaseAdmin
+    .from('exclusion_rules')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error) {
+    throw new Error(`Failed to load exclusion rules: ${error.message}`);
+  }
+  return (data || []) as ExclusionRule[];
+}
+
+const sameText = (a: string | null | undefined, b: string) =>
+  !!a && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export function matchesExclusionRule(rule: ExclusionRule, row: ExclusionCandidate): boolean {
+  switch (rule.match_field) {
+    case 'category_prefix':
+      return !!row.category && row.category.startsWith(rule.match_value.trim());
+    case 'vendor':
+      return sameText(row.vendor_name, rule.match_value);
+    case 'department':
+      return sameText(row.department, rule.match_value);
+    case 'branch':
+      return sameText(row.branch, rule.match_value);
+    case 'transaction_type':
+      return sameText(row.transaction_type, rule.match_value);
+    default:
+      return false;
+  }
+}
+
+/** True if the syncs should skip this row entirely. */
+export function isExcludedFromSync(rules: ExclusionRule[], row: ExclusionCandidate): boolean {
+  return rules.some(rule => rule.action === 'exclude_from_sync' && matchesExclusionRule(rule, row));
+}
+
+/**
+ * True if the row should be left out of the dashboard and Slack summaries.
+ * Sync exclusions count too, so rows synced before a rule was added disappear
+ * without waiting for a cleanup.
+ */
+export function isHiddenFromDashboard(rules: ExclusionRule[], row: ExclusionCandidate): boolean {
+  return rules.some(rule => matchesExclusionRule(rule, row));
+}
@@ -0,0 +1,40 @@
+import { createUserClient } from '@/lib/supabase';
+import { getCurrentUserWithPermissions } from '@/lib/currentUser';
+import { UserWithPermissions } from '@/types/user';
+
+export type ExpenseAccessResult =
+  | { ok: true; user: UserWithPermissions; expense: any }
+  | { ok: false; status: 403 | 404; error: string };
+
+/**
+ * Load an expense on behalf of a signed-in user, applying the same checks as
+ * the approval route: the user must exist and be active, and must be able to
+ * see the expense themselves or through an active approval delegation.
+ * The read runs as the user, so row-level security does the scope check and an
+ * expense outside it is simply not found.
+ *
+ * Used by the per-expense detail routes (history, etc.) so they can't drift
+ * from the permissions the dashboard enforces.
+ */
+export async function getAccessibleExpense(
+  email: string,
+  expenseId: string,
+  columns = 'id, branch, department'
+): Promise<ExpenseAccessResult> {
+  const user = await getCurrentUserWithPermissions(email);
+  if (!user || !user.is_active) {
+    return { ok: false, status: 403, error: 'Forbidden' };
+  }
+
+  const { data: expense, error } = await createUserClient(user)
+    .from('expenses')
+    .select(columns)
+    .eq('id', expenseId)
+    .single();
+
+  if (error || !expense) {
+    return { ok: false, status: 404, error: 'Expense not found' };
+  }
+
+  return { ok: true, user, expense };
+}
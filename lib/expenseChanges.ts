@@ -0,0 +1,42 @@
+import { supabaseAdmin } from './supabase';
+import { ExpenseChangeSource } from '@/types/expense';
+
+export interface ExpenseChangeInput {
+  expense_id: string;
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+  source: ExpenseChangeSource;
+  changed_by?: string | null;
+}
+
+const toText = (value: unknown): string | null =>
+  value === null || value === undefined || value === '' ? null : String(value);
+
+/**
+ * Append rows to expense_changes. History is secondary to the write that
+ * caused it, so failures are logged and swallowed rather than failing a sync
+ * or a flag/approval update that already succeeded.
+ */
+export async function recordExpenseChanges(changes: ExpenseChangeInput[]): Promise<void> {
+  if (changes.length === 0) return;
+
+  const rows = changes.map(c => ({
+    expense_id: c.expense_id,
+    field: c.field,
+    old_value: toText(c.old_value),
+    new_value: toText(c.new_value),
+    source: c.source,
+    changed_by: c.changed_by ?? null,
+  }));
+
+  const BATCH = 500;
+  for (let i = 0; i < rows.length; i += BATCH) {
+    const { error } = await supabaseAdmin
+      .from('expense_changes')
+      .insert(rows.slice(i, i + BATCH));
+    if (error) {
+      console.error(`Failed to record expense changes at offset ${i}:`, error.message);
+    }
+  }
+}
@@ -0,0 +1,229 @@
+import { supabaseAdmin } from './supabase';
+import { postSlackMessage } from './slack';
+import { formatCurrency } from './format';
+import { buildDashboardUrl } from './dashboardLinks';
+import { hasAccessToExpense } from './permissions';
+import { getBranches } from './branches';
+import { auditActor, recordAuditEvent } from './audit';
+import { Expense, ExpenseComment, MentionableUser } from '@/types/expense';
+import { UserWithPermissions } from '@/types/user';
+
+export const MAX_COMMENT_LENGTH = 4000;
+
+// Columns for ExpenseComment rows; users() resolves the author's name
+export const EXPENSE_COMMENT_COLUMNS =
+  'id, expense_id, source, author_user_id, author_slack_id, body, mentioned_user_ids, created_at, updated_at, resolved_at, resolved_by, users(full_name)';
+
+/** Flatten a row selected with EXPENSE_COMMENT_COLUMNS into an ExpenseComment. */
+export function toExpenseComment(row: any): ExpenseComment {
+  const { users, ...comment } = row;
+  return { ...comment, author_name: users?.full_name ?? null };
+}
+
+// The parts of a Slack `message` event we use
+export interface SlackMessageEvent {
+  type: string;
+  subtype?: string;
+  bot_id?: string;
+  user?: string;
+  text?: string;
+  channel: string;
+  ts: string;
+  thread_ts?: string;
+}
+
+export type SlackReplyResult =
+  | { recorded: true; expenseId: string }
+  | { recorded: false; reason: string };
+
+/**
+ * Store a reply in the thread of one of our expense notifications as a comment
+ * on that expense. Anything else (top-level messages, bot posts, edits,
+ * threads we didn't start) is ignored. The reply is matched to the expense
+ * through the notification's stored channel and ts, and its author through
+ * users.slack_id. Throws only if the database can't be read or written.
+ */
+export async function recordSlackReply(event: SlackMessageEvent): Promise<SlackReplyResult> {
+  // thread_broadcast is a reply also sent to the channel; other subtypes are
+  // edits, deletions and joins
+  if (event.subtype && event.subtype !== 'thread_broadcast') {
+    return { recorded: false, reason: `subtype ${event.subtype}` };
+  }
+  if (event.bot_id || !event.user) {
+    return { recorded: false, reason: 'not from a person' };
+  }
+  if (!event.thread_ts || event.thread_ts === event.ts) {
+    return { recorded: false, reason: 'not a thread reply' };
+  }
+  if (!event.text?.trim()) {
+    return { recorded: false, reason: 'empty message' };
+  }
+
+  const { data: notification, error: lookupError } = await supabaseAdmin
+    .from('slack_notifications')
+    .select('expense_id')
+    .eq('slack_channel', event.channel)
+    .eq('slack_ts', event.thread_ts)
+    .not('expense_id', 'is', null)
+    .limit(1)
+    .maybeSingle();
+
+  if (lookupError) {
+    throw new Error(`Failed to look up Slack thread: ${lookupError.message}`);
+  }
+  if (!notification) {
+    return { recorded: false, reason: 'thread is not an expense notification' };
+  }
+
+  const { data: author } = await supabaseAdmin
+    .from('users')
+    .select('id, email, full_name')
+    .eq('slack_id', event.user)
+    .maybeSingle();
+
+  const { data: inserted, error: insertError } = await supabaseAdmin
+    .from('expense_comments')
+    .insert({
+      expense_id: notification.expense_id,
+      source: 'slack',
+      author_user_id: author?.id ?? null,
+      author_slack_id: event.user,
+      body: event.text.trim(),
+      slack_channel: event.channel,
+      slack_ts: event.ts,
+      slack_thread_ts: event.thread_ts,
+    })
+    .select('id')
+    .single();
+
+  if (insertError) {
+    // A retried event we already stored
+    if (insertError.code === '23505') {
+      return { recorded: false, reason: 'already recorded' };
+    }
+    throw new Error(`Failed to save Slack reply: ${insertError.message}`);
+  }
+
+  await recordAuditEvent({
+    actor: author ? auditActor(author) : { email: `slack:${event.user}` },
+    action: 'comment.create',
+    entityType: 'comment',
+    entityId: inserted.id,
+    summary: 'Replied in a Slack notification thread',
+    details: { expenseId: notification.expense_id, via: 'slack' },
+  });
+
+  return { recorded: true, expenseId: notification.expense_id };
+}
+
+/**
+ * Active users who can see `expense`, i.e. the people worth mentioning on it.
+ * Throws if users or permissions can't be loaded.
+ */
+export async function getMentionableUsers(
+  expense: Pick<Expense, 'branch' | 'department'>
+): Promise<MentionableUser[]> {
+  const [usersResult, grantsResult, branches] = await Promise.all([
+    supabaseAdmin.from('users').select('*').eq('is_active', true).order('full_name', { ascending: true }),
+    supabaseAdmin.from('user_access_grants').select('user_id, branch, department'),
+    getBranches(),
+  ]);
+
+  const loadError = usersResult.error || grantsResult.error;
+  if (loadError) {
+    throw new Error(`Failed to load users to mention: ${loadError.message}`);
+  }
+
+  return usersResult.data
+    .map(user => ({
+      ...user,
+      grants: grantsResult.data
+        .filter(grant => grant.user_id === user.id)
+        .map(grant => ({ branch: grant.branch, department: grant.department })),
+    }) as UserWithPermissions)
+    .filter(user => hasAccessToExpense(user, expense as Expense, branches))
+    .map(user => ({ id: user.id, full_name: user.full_name }));
+}
+
+/**
+ * The requested mentions that actually appear in the comment as "@Full Name"
+ * and belong to someone who can see the expense, so a stale picker selection
+ * (or a crafted request) can't DM arbitrary users.
+ */
+export function resolveMentions(
+  body: string,
+  requestedIds: string[],
+  mentionable: MentionableUser[]
+): string[] {
+  const lowerBody = body.toLowerCase();
+  return mentionable
+    .filter(user => requestedIds.includes(user.id) && lowerBody.includes(`@${user.full_name.toLowerCase()}`))
+    .map(user => user.id);
+}
+
+/**
+ * DM each mentioned user a copy of the comment with a link to the expense.
+ * Users without a Slack ID are skipped. Failures are logged and swallowed:
+ * the comment is already saved. Returns how many DMs went out.
+ */
+export async function notifyMentionedUsers(options: {
+  userIds: string[];
+  authorName: string;
+  expense: { vendor_name: string | null; amount: number; transaction_date: string };
+  body: string;
+}): Promise<number> {
+  const { userIds, authorName, expense, body } = options;
+  if (userIds.length === 0) return 0;
+
+  const slackToken = process.env.SLACK_API_TOKEN;
+  if (!slackToken) {
+    console.error('SLACK_API_TOKEN not configured; skipping mention notifications');
+    return 0;
+  }
+
+  const { data: users, error } = await supabaseAdmin
+    .from('users')
+    .select('id, slack_id')
+    .in('id', userIds)
+    .not('slack_id', 'is', null);
+
+  if (error) {
+    console.error('Failed to load mentioned users:', error.message);
+    return 0;
+  }
+
+  const vendor = expense.vendor_name || 'Unknown';
+  const summary = `*Vendor:* ${vendor}  |  *Amount:* ${formatCurrency(Number(expense.amount) || 0, { cents: true })}  |  *Date:* ${expense.transaction_date?.substring(0, 10)}`;
+  const dashboardUrl = buildDashboardUrl({ months: ['all'], vendor: expense.vendor_name || undefined });
+  const quoted = body.split('\n').map(line => `>${line}`).join('\n');
+
+  let sent = 0;
+  for (const user of users) {
+    try {
+      const response = await postSlackMessage(slackToken, {
+        channel: user.slack_id,
+        text: `${authorName} mentioned you on an expense (${vendor})`,
+        blocks: [
+          { type: 'section', text: { type: 'mrkdwn', text: `💬 *${authorName}* mentioned you in a comment:\n${quoted}` } },
+          { type: 'section', text: { type: 'mrkdwn', text: summary } },
+          {
+            type: 'context',
+            elements: [{ type: 'mrkdwn', text: `<${dashboardUrl}|Open in Expense Dashboard →>` }],
+          },
+        ],
+        unfurl_links: false,
+        unfurl_media: false,
+      });
+      const data = await response.json();
+      if (data.ok) {
+        sent++;
+      } else {
+        console.error(`Failed to DM mentioned user ${user.id}:`, data.error);
+      }
+    } catch (dmError: any) {
+      console.error(`Failed to DM mentioned user ${user.id}:`, dmError.message);
+    }
+  }
+
+  return sent;
+}
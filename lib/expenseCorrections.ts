@@ -0,0 +1,249 @@
+import { supabaseAdmin } from './supabase';
+import { createNetSuiteClient } from './netsuite';
+import { BillCustomFieldUpdate, createBillClient } from './bill';
+import { getBranchAliases, getSourceBranchName, resolveBranchName } from './branches';
+import { recordExpenseChanges } from './expenseChanges';
+import { recordAuditEvent, SYSTEM_AUDIT_ACTOR } from './audit';
+import { CORRECTION_FLAGS, ExpenseCorrection } from '@/types/expense';
+
+export interface CorrectionValues {
+  branch?: string | null;
+  department?: string | null;
+  category?: string | null;
+}
+
+/** The synced values of one expense row, as the syncs are about to write them. */
+export interface SyncedCorrectionRow {
+  netsuite_id: string;
+  branch: string | null;
+  department: string | null;
+  category: string | null;
+}
+
+type CorrectableExpense = {
+  id: string;
+  netsuite_id: string;
+  transaction_type: string;
+  branch: string | null;
+  department: string | null;
+  category: string | null;
+};
+
+// Bill.com Spend custom fields behind each correctable column
+const BILL_CUSTOM_FIELDS = {
+  branch: 'Branch',
+  department: 'Department',
+  category: 'Purchase Category',
+} as const;
+
+/** Update the NetSuite expense line behind a NetSuite-sourced expense. */
+async function writeNetSuiteCorrection(expense: CorrectableExpense, values: CorrectionValues) {
+  // netsuite_id is "{transactionId}-{lineSequenceNumber}" for line rows
+  const [transactionId, lineSequenceNumber] = expense.netsuite_id.split('-');
+  if (!lineSequenceNumber) {
+    throw new Error('This expense has no NetSuite expense line to update');
+  }
+
+  // NetSuite may know the branch by another name (branch_aliases)
+  const location = values.branch ? getSourceBranchName(await getBranchAliases('netsuite'), values.branch) : null;
+
+  const client = createNetSuiteClient();
+  await client.updateExpenseLine(expense.transaction_type, transactionId, lineSequenceNumber, {
+    locationId: location ? await client.resolveRecordId('location', location) : undefined,
+    departmentId: values.department ? await client.resolveRecordId('department', values.department) : undefined,
+    accountId: values.category ? await client.resolveRecordId('account', values.category) : undefined,
+  });
+}
+
+/**
+ * Set the custom fields on the Bill.com transaction behind a credit-card
+ * expense. List fields take a value id; free-text fields take a note.
+ */
+async function writeBillCorrection(expense: CorrectableExpense, values: CorrectionValues, markReviewed: boolean) {
+  const client = createBillClient();
+  const customFields: BillCustomFieldUpdate[] = [];
+  const branchAliases = values.branch ? await getBranchAliases('bill') : new Map<string, string>();
+
+  for (const key of ['branch', 'department', 'category'] as const) {
+    const value = values[key];
+    if (!value) continue;
+
+    const fieldName = BILL_CUSTOM_FIELDS[key];
+    const field = await client.getCustomFieldByName(fieldName);
+    if (!field) {
+      throw new Error(`Bill.com custom field "${fieldName}" not found`);
+    }
+
+    if (field.type === 'NOTE') {
+      customFields.push({ customFieldId: field.id, note: value });
+      continue;
+    }
+
+    // Bill.com keeps its own branch names ("Phoenix:Phx - North"), so compare
+    // through branch_aliases the same way the sync maps them in
+    const valueId = await client.findCustomFieldValueId(field.id, v =>
+      key === 'branch' ? resolveBranchName(branchAliases, v, 'bill') === value : v === value
+    );
+    if (!valueId) {
+      throw new Error(`"${value}" is not an option for the Bill.com "${fieldName}" field`);
+    }
+    customFields.push({ customFieldId: field.id, selectedValues: [valueId] });
+  }
+
+  await client.updateTransaction(expense.netsuite_id.replace('BILL-', ''), {
+    customFields,
+    ...(markReviewed && { isReviewed: true }),
+  });
+}
+
+/**
+ * Write a correction to the source transaction behind `expense` (the NetSuite
+ * expense line, or the Bill.com transaction for credit cards) and record the
+ * outcome. The correction row is inserted first (pending) so a crash
+ * mid-request still leaves a trace. Returns the final row; a failed source
+ * call is reported through status/error rather than thrown.
+ */
+export async function applyCorrection(
+  expense: CorrectableExpense,
+  values: CorrectionValues,
+  requestedBy: string,
+  options: { markReviewed?: boolean } = {}
+): Promise<ExpenseCorrection> {
+  const target = expense.transaction_type === 'Credit Card' ? 'bill' : 'netsuite';
+  const markReviewed = target === 'bill' && !!options.markReviewed;
+
+  const { data: correction, error: insertError } = await supabaseAdmin
+    .from('expense_corrections')
+    .insert({
+      expense_id: expense.id,
+      netsuite_id: expense.netsuite_id,
+      target,
+      branch: values.branch ?? null,
+      department: values.department ?? null,
+      category: values.category ?? null,
+      previous_branch: expense.branch,
+      previous_department: expense.department,
+      previous_category: expense.category,
+      mark_reviewed: markReviewed,
+      status: 'pending',
+      requested_by: requestedBy,
+    })
+    .select()
+    .single();
+
+  if (insertError) {
+    throw new Error(`Failed to record correction: ${insertError.message}`);
+  }
+
+  let update: Partial<ExpenseCorrection>;
+  try {
+    if (target === 'bill') {
+      await writeBillCorrection(expense, values, markReviewed);
+    } else {
+      await writeNetSuiteCorrection(expense, values);
+    }
+    update = { status: 'applied', applied_at: new Date().toISOString(), error: null };
+  } catch (error: any) {
+    console.error(`${target === 'bill' ? 'Bill.com' : 'NetSuite'} correction failed for ${expense.netsuite_id}:`, error.message);
+    update = { status: 'failed', error: error.message || 'Unknown error' };
+  }
+
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from('expense_corrections')
+    .update(update)
+    .eq('id', correction.id)
+    .select()
+    .single();
+
+  if (updateError) {
+    console.error(`Failed to record correction outcome for ${correction.id}:`, updateError.message);
+    return { ...correction, ...update };
+  }
+  return updated;
+}
+
+const matches = (requested: string | null, synced: string | null) =>
+  requested === null || requested === synced;
+
+/**
+ * Called by the syncs after their upserts. Any applied correction whose values
+ * the source system now reports is marked confirmed, and a Wrong
+ * Branch/Department/Category flag on the expense is cleared. Like the change
+ * history this is secondary to the sync, so failures are logged, not thrown.
+ * Returns the number of corrections confirmed.
+ */
+export async function confirmCorrections(rows: SyncedCorrectionRow[]): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  const rowMap = new Map(rows.map(r => [r.netsuite_id, r]));
+  const ids = Array.from(rowMap.keys());
+  const applied: ExpenseCorrection[] = [];
+  for (let i = 0; i < ids.length; i += 500) {
+    const { data, error } = await supabaseAdmin
+      .from('expense_corrections')
+      .select('*')
+      .eq('status', 'applied')
+      .in('netsuite_id', ids.slice(i, i + 500));
+    if (error) {
+      console.error('Failed to load applied corrections:', error.message);
+      return 0;
+    }
+    applied.push(...(data || []));
+  }
+
+  const confirmed = applied.filter(c => {
+    const row = rowMap.get(c.netsuite_id)!;
+    return matches(c.branch, row.branch) && matches(c.department, row.department) && matches(c.category, row.category);
+  });
+  if (confirmed.length === 0) return 0;
+
+  const { error: confirmError } = await supabaseAdmin
+    .from('expense_corrections')
+    .update({ status: 'confirmed', confirmed_at: new Date().toISOString() })
+    .in('id', confirmed.map(c => c.id));
+  if (confirmError) {
+    console.error('Failed to mark corrections confirmed:', confirmError.message);
+    return 0;
+  }
+
+  // Clear the flags the corrections resolved, keeping the history in step
+  const expenseIds = [...new Set(confirmed.map(c => c.expense_id))];
+  const { data: flagged } = await supabaseAdmin
+    .from('expenses')
+    .select('id, flag_category, vendor_name')
+    .in('id', expenseIds)
+    .in('flag_category', CORRECTION_FLAGS);
+
+  if (flagged && flagged.length > 0) {
+    const { error: clearError } = await supabaseAdmin
+      .from('expenses')
+      // As when a flag is cleared by hand, the escalation cycle ends with it
+      .update({ flag_category: null, escalated_at: null, escalated_to: null })
+      .in('id', flagged.map(e => e.id))
+      .in('flag_category', CORRECTION_FLAGS);
+    if (clearError) {
+      console.error('Failed to clear corrected flags:', clearError.message);
+    } else {
+      await recordExpenseChanges(flagged.map(e => ({
+        expense_id: e.id,
+        field: 'flag_category',
+        old_value: e.flag_category,
+        new_value: null,
+        source: 'correction' as const,
+      })));
+      for (const e of flagged) {
+        await recordAuditEvent({
+          actor: SYSTEM_AUDIT_ACTOR,
+          action: 'expense.flag',
+          entityType: 'expense',
+          entityId: e.id,
+          summary: `Cleared the flag on ${e.vendor_name || 'expense'} after its correction synced`,
+          details: { from: e.flag_category, to: null },
+        });
+      }
+    }
+  }
+
+  console.log(`Confirmed ${confirmed.length} corrections, cleared ${flagged?.length || 0} flags`);
+  return confirmed.length;
+}
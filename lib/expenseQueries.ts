@@ -0,0 +1,144 @@
+import { createUserClient, UserClient } from './supabase';
+import { getCurrentUserWithPermissions } from './currentUser';
+import { Expense } from '@/types/expense';
+import { hasCapability } from '@/types/user';
+import {
+  ExpenseAggregates,
+  ExpenseFilterOptions,
+  ExpenseFilters,
+  ExpenseSortField,
+  ExpenseTrendRow,
+  EXPENSE_ARRAY_FILTER_KEYS,
+  EXPENSE_FILTER_KEYS,
+  EXPENSE_SORT_FIELDS,
+  TrendsDimension,
+} from '@/types/expenseQuery';
+
+// Columns the dashboard table reads; sync timestamps and created/updated are
+// left out of every page
+export const DASHBOARD_EXPENSE_COLUMNS =
+  'id, netsuite_id, transaction_date, vendor_name, amount, currency, status, department, branch, memo, category, transaction_type, cardholder, flag_category, approval_status, approval_modified_by, approval_modified_at, approval_step, bill_sync_status, receipt_status, slack_notification_count, slack_last_notified_at, escalated_at, escalated_to, comment_count, unresolved_comment_count';
+
+export const MAX_PAGE_SIZE = 500;
+
+export type QueryUserResult =
+  | { ok: true; userId: string; client: UserClient }
+  | { ok: false; status: 403; error: string };
+
+/**
+ * Whose scope a dashboard query runs under: the signed-in user, or for users
+ * who can masquerade the user they are viewing as (`viewAs`, a user id). `client` always queries
+ * as the signed-in user, so row-level security applies on top of the scope.
+ */
+export async function resolveQueryUser(email: string, viewAs: string | null): Promise<QueryUserResult> {
+  const user = await getCurrentUserWithPermissions(email);
+  if (!user || !user.is_active) {
+    return { ok: false, status: 403, error: 'Forbidden' };
+  }
+  if (viewAs && viewAs !== user.id) {
+    if (!hasCapability(user, 'masquerade')) {
+      return { ok: false, status: 403, error: 'Admin access required' };
+    }
+    return { ok: true, userId: viewAs, client: createUserClient(user) };
+  }
+  return { ok: true, userId: user.id, client: createUserClient(user) };
+}
+
+/**
+ * Dashboard filters from a query string. Only keys present are returned;
+ * missing ones don't filter.
+ */
+export function parseExpenseFilters(params: URLSearchParams): Partial<ExpenseFilters> {
+  const filters: Record<string, string | string[]> = {};
+  for (const key of EXPENSE_FILTER_KEYS) {
+    const value = params.get(key);
+    if (value === null) continue;
+    filters[key] = EXPENSE_ARRAY_FILTER_KEYS.includes(key) ? value.split(',').filter(Boolean) : value;
+  }
+  return filters as Partial<ExpenseFilters>;
+}
+
+export function parseSortField(value: string | null): ExpenseSortField {
+  return EXPENSE_SORT_FIELDS.includes(value as ExpenseSortField) ? (value as ExpenseSortField) : 'date';
+}
+
+/**
+ * One page of the user's expenses. `cursor` is the last id of the previous
+ * page; nextCursor is null on the last page.
+ */
+export async function getExpensePage(
+  client: UserClient,
+  userId: string,
+  filters: Partial<ExpenseFilters>,
+  options: { sort: ExpenseSortField; descending: boolean; cursor: string | null; limit: number }
+): Promise<{ expenses: Expense[]; nextCursor: string | null }> {
+  // One extra row tells us whether there is another page
+  const { data, error } = await client
+    .rpc('dashboard_expense_page', {
+      p_user_id: userId,
+      p_filters: filters,
+      p_sort: options.sort,
+      p_descending: options.descending,
+      p_after_id: options.cursor,
+      p_limit: options.limit + 1,
+    })
+    .select(DASHBOARD_EXPENSE_COLUMNS);
+
+  if (error) {
+    throw new Error(`Failed to fetch expenses: ${error.message}`);
+  }
+
+  const rows = (data || []) as unknown as Expense[];
+  const expenses = rows.slice(0, options.limit);
+  return {
+    expenses,
+    nextCursor: rows.length > options.limit ? expenses[expenses.length - 1].id : null,
+  };
+}
+
+export async function getExpenseAggregates(
+  client: UserClient,
+  userId: string,
+  filters: Partial<ExpenseFilters>
+): Promise<ExpenseAggregates> {
+  const { data, error } = await client
+    .rpc('dashboard_expense_aggregates', { p_user_id: userId, p_filters: filters });
+
+  if (error) {
+    throw new Error(`Failed to aggregate expenses: ${error.message}`);
+  }
+  return data as ExpenseAggregates;
+}
+
+export async function getExpenseTrends(
+  client: UserClient,
+  userId: string,
+  options: { dateFrom: string; dateTo: string; dimension: TrendsDimension }
+): Promise<ExpenseTrendRow[]> {
+  const { data, error } = await client.rpc('dashboard_expense_trends', {
+    p_user_id: userId,
+    p_date_from: options.dateFrom,
+    p_date_to: options.dateTo,
+    p_dimension: options.dimension,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch expense trends: ${error.message}`);
+  }
+  // numeric and bigint come back as strings
+  return ((data || []) as ExpenseTrendRow[]).map(row => ({
+    ...row,
+    amount: Number(row.amount),
+    count: Number(row.count),
+  }));
+}
+
+export async function getExpenseFilterOptions(client: UserClient, userId: string): Promise<ExpenseFilterOptions> {
+  const { data, error } = await client
+    .rpc('dashboard_filter_options', { p_user_id: userId });
+
+  if (error) {
+    throw new Error(`Failed to load filter options: ${error.message}`);
+  }
+  return data as ExpenseFilterOptions;
+}
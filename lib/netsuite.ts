@@ -8,6 +8,31 @@ interface NetSuiteConfig {
   tokenSecret: string;
 }
 
+// SuiteQL transaction.type → the transaction_type we store on expenses
+const TRANSACTION_TYPE_NAMES: Record<string, string> = {
+  VendBill: 'Vendor Bill',
+  VendCred: 'Vendor Credit',
+  Check: 'Check',
+  Journal: 'Journal Entry',
+};
+
+// Our transaction_type → REST record type and the sublist holding expense lines
+const RECORD_SUBLISTS: Record<string, { recordType: string; sublist: string }> = {
+  'Vendor Bill': { recordType: 'vendorBill', sublist: 'expense' },
+  'Vendor Credit': { recordType: 'vendorCredit', sublist: 'expense' },
+  'Check': { recordType: 'check', sublist: 'expense' },
+  'Journal Entry': { recordType: 'journalEntry', sublist: 'line' },
+};
+
+/** New values for an expense line, as internal ids. Omitted fields are left alone. */
+export interface ExpenseLineUpdate {
+  departmentId?: string;
+  locationId?: string;
+  accountId?: string;
+}
+
+const escapeSuiteQL = (value: string) => value.replace(/'/g, "''");
+
 export class NetSuiteClient {
   private config: NetSuiteConfig;
   private baseUrl: string;
@@ -107,23 +132,118 @@ export class NetSuiteClient {
       throw new Error(`NetSuite API Error: ${response.status} - ${errorText}`);
     }
 
+    // Record updates (PATCH) answer 204 No Content
+    if (response.status === 204) {
+      return null;
+    }
+
     return response.json();
   }
 
-  async searchVendorBillsFull(fromDate: string) {
+  /**
+   * Look up the internal id of a department, location or account from the
+   * display name we store on expenses (what BUILTIN.DF returned at sync time).
+   * Throws if the name doesn't match exactly one active record.
+   */
+  async resolveRecordId(recordType: 'department' | 'location' | 'account', displayName: string): Promise<string> {
+    const name = escapeSuiteQL(displayName.trim());
+    const where = recordType === 'account'
+      ? `(accountsearchdisplayname = '${name}' OR fullname = '${name}')`
+      : `(fullname = '${name}' OR name = '${name}')`;
+    const response = await this.makeRequest(
+      '/services/rest/query/v1/suiteql?limit=2',
+      'POST',
+      { q: `SELECT id FROM ${recordType} WHERE ${where} AND isinactive = 'F'` }
+    );
+
+    const items = response?.items || [];
+    if (items.length !== 1) {
+      throw new Error(
+        items.length === 0
+          ? `No active NetSuite ${recordType} named "${displayName}"`
+          : `More than one NetSuite ${recordType} matches "${displayName}"`
+      );
+    }
+    return String(items[0].id);
+  }
+
+  /**
+   * Update department/location/account on one expense line through the REST
+   * record API. Lines are addressed by the sublist line id, so the
+   * linesequencenumber we key expenses on is translated first.
+   */
+  async updateExpenseLine(
+    transactionType: string,
+    transactionId: string,
+    lineSequenceNumber: string,
+    update: ExpenseLineUpdate
+  ) {
+    const target = RECORD_SUBLISTS[transactionType];
+    if (!target) {
+      throw new Error(`Can't update NetSuite lines for transaction type "${transactionType}"`);
+    }
+
+    const lineResponse = await this.makeRequest(
+      '/services/rest/query/v1/suiteql?limit=1',
+      'POST',
+      {
+        q: `SELECT id FROM transactionLine WHERE transaction = ${Number(transactionId)} ` +
+          `AND linesequencenumber = ${Number(lineSequenceNumber)}`,
+      }
+    );
+    const lineId = lineResponse?.items?.[0]?.id;
+    if (lineId == null) {
+      throw new Error(`Line ${lineSequenceNumber} not found on NetSuite transaction ${transactionId}`);
+    }
+
+    const item: Record<string, any> = { line: Number(lineId) };
+    if (update.departmentId) item.department = { id: update.departmentId };
+    if (update.locationId) item.location = { id: update.locationId };
+    if (update.accountId) item.account = { id: update.accountId };
+
+    console.log(`Updating NetSuite ${target.recordType} ${transactionId} line ${lineSequenceNumber}:`, item);
+    await this.makeRequest(
+      `/services/rest/record/v1/${target.recordType}/${Number(transactionId)}`,
+      'PATCH',
+      { [target.sublist]: { items: [item] } }
+    );
+  }
+
+  /**
+   * Fetch every expense line dated on/after fromDate from vendor bills, vendor
+   * credits, checks, and journal entries (expense-account lines only). Pass
+   * modifiedSince (YYYY-MM-DD) to limit the result to transactions whose
+   * lastmodifieddate is on/after that day (incremental sync). The filter is on
+   * the transaction, so a modified bill still returns ALL of its lines.
+   */
+  async searchVendorBillsFull(fromDate: string, options: { modifiedSince?: string } = {}) {
     if (!/^\d{4}-\d{2}-\d{2}$/.test(fromDate)) {
       throw new Error(`Invalid date format: ${fromDate}. Expected YYYY-MM-DD.`);
     }
+    const { modifiedSince } = options;
+    if (modifiedSince && !/^\d{4}-\d{2}-\d{2}$/.test(modifiedSince)) {
+      throw new Error(`Invalid date format: ${modifiedSince}. Expected YYYY-MM-DD.`);
+    }
+    const modifiedClause = modifiedSince
+      ? `AND t.lastmodifieddate >= TO_DATE('${modifiedSince}', 'YYYY-MM-DD')`
+      : '';
 
     // Single query fetches bill details + every expense line + vendor name.
     // line_amount uses foreignamount as-is (not negated, not ABS'd): NetSuite
     // stores vendor-bill expense lines with POSITIVE foreignamount, so the raw
     // value is already the reported spend, while genuine credit/discount lines
     // stay negative (ABS would flip a -$50 adjustment into +$50 of spend, and
-    // negation would turn every normal expense line negative).
+    // negation would turn every normal expense line negative). Check lines and
+    // journal debits follow the same convention; vendor credits are forced
+    // negative below.
+    //
+    // Journal entries touch balance-sheet accounts too, so only lines posted to
+    // expense accounts are returned for them. Journals have no header vendor;
+    // the line entity (if any) is used instead.
     const query = `
       SELECT
         t.id,
+        t.type,
         t.tranid,
         t.trandate,
         t.entity,
@@ -133,6 +253,7 @@ export class NetSuiteClient {
         BUILTIN.DF(t.status) as status_display,
         BUILTIN.DF(t.currency) as currency_display,
         BUILTIN.DF(t.entity) as vendor_name,
+        BUILTIN.DF(tl.entity) as line_entity_name,
         BUILTIN.DF(tl.department) as department_name,
         BUILTIN.DF(tl.location) as location_name,
         BUILTIN.DF(tl.account) as account_name,
@@ -140,12 +261,19 @@ export class NetSuiteClient {
         tl.linesequencenumber
       FROM transaction t
       LEFT JOIN transactionLine tl ON t.id = tl.transaction AND tl.mainline = 'F'
-      WHERE t.type = 'VendBill'
+      LEFT JOIN account a ON tl.account = a.id
+      WHERE t.type IN ('VendBill', 'VendCred', 'Check', 'Journal')
+        AND (t.type <> 'Journal' OR a.accttype IN ('Expense', 'OthExpense'))
         AND t.trandate >= TO_DATE('${fromDate}', 'YYYY-MM-DD')
+        ${modifiedClause}
       ORDER BY t.id, tl.linesequencenumber
     `;
 
-    console.log('Executing bulk SuiteQL query for vendor bills with details...');
+    console.log(
+      modifiedSince
+        ? `Executing incremental SuiteQL query for NetSuite expenses modified since ${modifiedSince}...`
+        : 'Executing bulk SuiteQL query for vendor bills, credits, checks and journals...'
+    );
 
     try {
       const allRows: any[] = [];
@@ -189,24 +317,32 @@ export class NetSuiteClient {
         );
       }
 
-      // Return one record per row (one per expense line)
-      const records = allRows.map(row => ({
-        id: row.id,
-        tranid: row.tranid,
-        trandate: row.trandate,
-        entity: row.entity,
-        line_amount: row.line_amount != null ? parseFloat(row.line_amount) : null,
-        bill_total: parseFloat(row.bill_total) || 0,
-        header_memo: row.header_memo,
-        status: row.status_display,
-        currency: row.currency_display || 'USD',
-        vendor_name: row.vendor_name || `Vendor ID: ${row.entity}`,
-        department: row.department_name || null,
-        branch: row.location_name || null,
-        category: row.account_name || null,
-        line_memo: row.line_memo || null,
-        linesequencenumber: row.linesequencenumber != null ? row.linesequencenumber.toString() : null,
-      }));
+      // Return one record per row (one per expense line). A vendor credit
+      // reduces spend whatever sign NetSuite reports, so both its line amount
+      // and its (ABS'd) total are carried negative.
+      const records = allRows.map(row => {
+        const isCredit = row.type === 'VendCred';
+        const lineAmount = row.line_amount != null ? parseFloat(row.line_amount) : null;
+        const billTotal = parseFloat(row.bill_total) || 0;
+        return {
+          id: row.id,
+          transaction_type: TRANSACTION_TYPE_NAMES[row.type] || row.type,
+          tranid: row.tranid,
+          trandate: row.trandate,
+          entity: row.entity,
+          line_amount: lineAmount != null && isCredit ? -Math.abs(lineAmount) : lineAmount,
+          bill_total: isCredit ? -billTotal : billTotal,
+          header_memo: row.header_memo,
+          status: row.status_display,
+          currency: row.currency_display || 'USD',
+          vendor_name: row.vendor_name || row.line_entity_name || (row.entity ? `Vendor ID: ${row.entity}` : 'No Vendor'),
+          department: row.department_name || null,
+          branch: row.location_name || null,
+          category: row.account_name || null,
+          line_memo: row.line_memo || null,
+          linesequencenumber: row.linesequencenumber != null ? row.linesequencenumber.toString() : null,
+        };
+      });
 
       console.log(`Bulk query complete: ${records.length} rows (expense lines)`);
       return records;
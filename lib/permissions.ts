@@ -5,28 +5,41 @@
  */
 
 import { Expense } from '@/types/expense';
-import { UserWithPermissions } from '@/types/user';
+import { Branch, isWithinBranch } from '@/types/branch';
+import { AccessGrant, isSameAccessGrant, UserWithPermissions } from '@/types/user';
 
 /**
- * Check if a user has access to a specific branch
+ * Whether a grant's branch covers `branch`: a wildcard, the branch itself, or
+ * a region above it in the hierarchy.
  */
-export function hasAccessToBranch(user: UserWithPermissions, branchName: string): boolean {
+function grantCoversBranch(grant: AccessGrant, branch: string | null, branches: Branch[]): boolean {
+  return grant.branch === null || isWithinBranch(branches, branch, grant.branch);
+}
+
+/**
+ * Whether a grant covers a branch/department pair. A missing branch or
+ * department only matches a wildcard, so a user can never act on an expense
+ * that wouldn't appear in their view.
+ */
+function grantCovers(grant: AccessGrant, branch: string | null, department: string | null, branches: Branch[]): boolean {
+  return grantCoversBranch(grant, branch, branches)
+    && (grant.department === null || grant.department === department);
+}
+
+/**
+ * Check if a user has access to a specific branch (for any department)
+ */
+export function hasAccessToBranch(user: UserWithPermissions, branchName: string, branches: Branch[]): boolean {
   // Admins have access to everything
   if (user.is_admin) {
     return true;
   }
 
-  // If user has no branch restrictions, they can see all branches
-  if (user.branches.length === 0) {
-    return true;
-  }
-
-  // Check if the branch is in the user's allowed branches
-  return user.branches.includes(branchName);
+  return user.grants.some(grant => grantCoversBranch(grant, branchName, branches));
 }
 
 /**
- * Check if a user has access to a specific department
+ * Check if a user has access to a specific department (in any branch)
  */
 export function hasAccessToDepartment(user: UserWithPermissions, departmentName: string): boolean {
   // Admins have access to everything
@@ -34,47 +47,22 @@ export function hasAccessToDepartment(user: UserWithPermissions, departmentName:
     return true;
   }
 
-  // If user has no department restrictions, they can see all departments
-  if (user.departments.length === 0) {
-    return true;
-  }
-
-  // Check if the department is in the user's allowed departments
-  return user.departments.includes(departmentName);
+  return user.grants.some(grant => grant.department === null || grant.department === departmentName);
 }
 
 /**
  * Check if a user has access to a specific expense
  */
-export function hasAccessToExpense(user: UserWithPermissions, expense: Expense): boolean {
+export function hasAccessToExpense(user: UserWithPermissions, expense: Expense, branches: Branch[]): boolean {
   // Admins have access to everything
   if (user.is_admin) {
     return true;
   }
 
-  // A non-admin with no branch AND no department permissions has access to nothing
-  // (mirrors the "no permissions" welcome screen in PageWrapper).
-  if (user.branches.length === 0 && user.departments.length === 0) {
-    return false;
-  }
-
-  // Branch-restricted users: the expense must carry one of the allowed branches.
-  // A missing branch is treated as no-access (same as the display filter), so a user
-  // can never act on an expense that wouldn't appear in their view.
-  if (user.branches.length > 0) {
-    if (!expense.branch || !user.branches.includes(expense.branch)) {
-      return false;
-    }
-  }
-
-  // Department-restricted users: the expense must carry one of the allowed departments.
-  if (user.departments.length > 0) {
-    if (!expense.department || !user.departments.includes(expense.department)) {
-      return false;
-    }
-  }
-
-  return true;
+  // A non-admin with no grants has access to nothing (mirrors the "no
+  // permissions" welcome screen in PageWrapper). Otherwise one grant must
+  // cover the expense's branch and department together.
+  return user.grants.some(grant => grantCovers(grant, expense.branch, expense.department, branches));
 }
 
 /**
@@ -82,14 +70,15 @@ export function hasAccessToExpense(user: UserWithPermissions, expense: Expense):
  */
 export function filterExpensesByPermissions(
   expenses: Expense[],
-  user: UserWithPermissions
+  user: UserWithPermissions,
+  branches: Branch[]
 ): Expense[] {
   // Admins see everything
   if (user.is_admin) {
     return expenses;
   }
 
-  return expenses.filter(expense => hasAccessToExpense(user, expense));
+  return expenses.filter(expense => hasAccessToExpense(user, expense, branches));
 }
 
 /**
@@ -97,20 +86,16 @@ export function filterExpensesByPermissions(
  */
 export function getAllowedBranches(
   user: UserWithPermissions,
-  allBranches: string[]
+  allBranches: string[],
+  branches: Branch[]
 ): string[] {
-  // Admins see all branches
-  if (user.is_admin) {
+  // Admins, and anyone with a grant for every branch, see all branches
+  if (user.is_admin || user.grants.some(grant => grant.branch === null)) {
     return allBranches;
   }
 
-  // If user has no restrictions, return all branches
-  if (user.branches.length === 0) {
-    return allBranches;
-  }
-
-  // Return only branches the user has access to
-  return allBranches.filter(branch => user.branches.includes(branch));
+  // Return only branches named in the user's grants, or below one of them
+  return allBranches.filter(branch => user.grants.some(grant => grantCoversBranch(grant, branch, branches)));
 }
 
 /**
@@ -120,17 +105,40 @@ export function getAllowedDepartments(
   user: UserWithPermissions,
   allDepartments: string[]
 ): string[] {
-  // Admins see all departments
-  if (user.is_admin) {
+  // Admins, and anyone with a grant for every department, see all departments
+  if (user.is_admin || user.grants.some(grant => grant.department === null)) {
     return allDepartments;
   }
 
-  // If user has no restrictions, return all departments
-  if (user.departments.length === 0) {
-    return allDepartments;
+  // Return only departments named in the user's grants
+  return allDepartments.filter(dept => user.grants.some(grant => grant.department === dept));
+}
+
+/**
+ * Validate access grants from a request body: an array of { branch,
+ * department } where each is a name or null for "any". Duplicates are
+ * dropped.
+ */
+export function parseAccessGrants(
+  input: unknown
+): { ok: true; grants: AccessGrant[] } | { ok: false; error: string } {
+  if (!Array.isArray(input)) {
+    return { ok: false, error: 'grants must be an array' };
   }
 
-  // Return only departments the user has access to
-  return allDepartments.filter(dept => user.departments.includes(dept));
-}
+  const grants: AccessGrant[] = [];
+  for (const raw of input) {
+    if ((raw?.branch != null && typeof raw.branch !== 'string') || (raw?.department != null && typeof raw.department !== 'string')) {
+      return { ok: false, error: 'Each grant needs a branch and department name, or null for any' };
+    }
+    const grant: AccessGrant = {
+      branch: raw?.branch?.trim() || null,
+      department: raw?.department?.trim() || null,
+    };
+    if (!grants.some(existing => isSameAccessGrant(existing, grant))) {
+      grants.push(grant);
+    }
+  }
 
+  return { ok: true, grants };
+}
@@ -0,0 +1,91 @@
+import { supabaseAdmin } from './supabase';
+
+export interface PurchaserUser {
+  id: string;
+  full_name: string;
+  email: string;
+  slack_id: string;
+  slack_display_name: string | null;
+}
+
+export type PurchaserLookupResult =
+  | { ok: true; user: PurchaserUser }
+  | { ok: false; status: 400 | 404 | 500; error: string; suggestion?: string };
+
+const USER_COLUMNS = 'id, full_name, email, slack_id, slack_display_name';
+
+/**
+ * Resolve an expense's purchaser (the Bill.com cardholder name) to the user
+ * they Slack as. Tries an exact, case-insensitive name match, then a
+ * starts-with match for suffixes ("Keylon Ross" → "Keylon Ross Sr"). Fails if
+ * nobody or more than one user matches, or the match has no Slack ID.
+ */
+export async function findPurchaserUser(purchaserName: string): Promise<PurchaserLookupResult> {
+  let users;
+  try {
+    // Try exact match first
+    let result = await supabaseAdmin
+      .from('users')
+      .select(USER_COLUMNS)
+      .ilike('full_name', purchaserName);
+
+    if (result.error) {
+      throw new Error(`Database error: ${result.error.message}`);
+    }
+
+    users = result.data;
+
+    // Fallback: if no exact match, try starts-with match
+    // (handles "Keylon Ross" matching "Keylon Ross Sr" / "Jr" etc.)
+    if ((!users || users.length === 0) && purchaserName.trim()) {
+      console.log('No exact match, trying starts-with for:', purchaserName);
+      result = await supabaseAdmin
+        .from('users')
+        .select(USER_COLUMNS)
+        .ilike('full_name', `${purchaserName}%`);
+
+      if (result.error) {
+        throw new Error(`Database error: ${result.error.message}`);
+      }
+      users = result.data;
+    }
+
+    console.log('Users found:', users?.length || 0);
+  } catch (dbError: any) {
+    console.error('Database error:', dbError);
+    return { ok: false, status: 500, error: `Failed to find user: ${dbError.message}` };
+  }
+
+  if (!users || users.length === 0) {
+    console.log('No user found with name:', purchaserName);
+    return {
+      ok: false,
+      status: 404,
+      error: `No user found with name: ${purchaserName}`,
+      suggestion: 'User may need to be created first. Try the "Auto-Create Users" button in Admin.',
+    };
+  }
+
+  if (users.length > 1) {
+    const matchedNames = users.map(u => u.full_name).join(', ');
+    console.log('Ambiguous purchaser match:', matchedNames);
+    return {
+      ok: false,
+      status: 400,
+      error: `Multiple users match "${purchaserName}": ${matchedNames}. Please disambiguate.`,
+    };
+  }
+
+  const user = users[0];
+  if (!user.slack_id) {
+    console.log('User has no Slack ID');
+    return {
+      ok: false,
+      status: 400,
+      error: `User ${purchaserName} doesn't have a Slack ID`,
+      suggestion: 'Run "Sync Slack Users" in Admin to link their Slack account.',
+    };
+  }
+
+  return { ok: true, user };
+}
@@ -1,4 +1,6 @@
 // lib/slack.ts
+import { createHmac, timingSafeEqual } from 'crypto';
+
 interface SlackUser {
   id: string;
   profile: {
@@ -25,6 +27,21 @@ export interface SlackUserData {
   displayName: string;
 }
 
+interface SlackConversationsListResponse {
+  ok: boolean;
+  channels?: { id: string; name: string; is_private: boolean; is_archived: boolean }[];
+  error?: string;
+  response_metadata?: {
+    next_cursor?: string;
+  };
+}
+
+export interface SlackChannelData {
+  channelId: string;
+  name: string;
+  isPrivate: boolean;
+}
+
 export class SlackClient {
   private apiToken: string;
   private baseUrl: string = 'https://slack.com/api';
@@ -146,6 +163,65 @@ export class SlackClient {
     }
   }
 
+  /**
+   * Fetch all unarchived channels the app can see (paginated via cursor).
+   * Private channels only appear once the app has been invited to them.
+   */
+  async fetchChannels(): Promise<SlackChannelData[]> {
+    const channels: SlackChannelData[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        limit: '200',
+        exclude_archived: 'true',
+        types: 'public_channel,private_channel',
+      });
+      if (cursor) {
+        params.set('cursor', cursor);
+      }
+
+      const response = await fetch(`${this.baseUrl}/conversations.list?${params.toString()}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${this.apiToken}`,
+          'Content-Type': 'application/json',
+        },
+        signal: AbortSignal.timeout(15000),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Slack API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const data: SlackConversationsListResponse = await response.json();
+      if (!data.ok) {
+        throw new Error(`Slack API Error: ${data.error || 'Unknown error'}`);
+      }
+
+      channels.push(...(data.channels || []).map(c => ({
+        channelId: c.id,
+        name: c.name,
+        isPrivate: c.is_private,
+      })));
+      cursor = data.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+
+    console.log(`Fetched ${channels.length} Slack channels`);
+    return channels.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Find a channel by ID ("C0123...") or name ("#ops" / "ops")
+   */
+  async findChannel(idOrName: string, channels?: SlackChannelData[]): Promise<SlackChannelData | null> {
+    const value = idOrName.trim().replace(/^#/, '');
+    const slackChannels = channels || await this.fetchChannels();
+    return slackChannels.find(c => c.channelId === value) ||
+      slackChannels.find(c => c.name.toLowerCase() === value.toLowerCase()) ||
+      null;
+  }
+
   /**
    * Get Slack ID by email
    */
@@ -244,6 +320,93 @@ export async function postSlackMessage(token: string, payload: unknown): Promise
   return response;
 }
 
+/**
+ * Edit a message we posted earlier (chat.update). Used to replace the action
+ * buttons with who acted once someone clicks one.
+ */
+export async function updateSlackMessage(token: string, payload: unknown): Promise<Response> {
+  return fetch('https://slack.com/api/chat.update', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(15000),
+  });
+}
+
+/**
+ * Verify a request from Slack (interactivity, slash commands) against
+ * SLACK_SIGNING_SECRET. Rejects requests older than five minutes to stop
+ * replays. `rawBody` must be the body exactly as received, before parsing.
+ * Fails closed when the secret isn't configured.
+ */
+export function verifySlackSignature(request: Request, rawBody: string): boolean {
+  const secret = process.env.SLACK_SIGNING_SECRET;
+  if (!secret) {
+    console.error('SLACK_SIGNING_SECRET is not set; rejecting Slack request');
+    return false;
+  }
+
+  const timestamp = request.headers.get('x-slack-request-timestamp');
+  const signature = request.headers.get('x-slack-signature');
+  if (!timestamp || !signature) return false;
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (Number.isNaN(age) || age > 60 * 5) return false;
+
+  const expected = Buffer.from(
+    'v0=' + createHmac('sha256', secret).update(`v0:${timestamp}:${rawBody}`).digest('hex')
+  );
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// action_ids on the expense review buttons; the button value is the expense id
+export const EXPENSE_ACTIONS = {
+  approve: 'expense_approve',
+  reject: 'expense_reject',
+  requestCorrection: 'expense_request_correction',
+} as const;
+
+// Prefix of the block_id on each expense's actions block, so the interaction
+// handler can find and replace the right one in a multi-expense message
+export const EXPENSE_ACTIONS_BLOCK_PREFIX = 'expense_actions:';
+
+/**
+ * Approve / Reject / Request correction buttons for one expense, handled by
+ * /api/slack/interactions.
+ */
+export function buildExpenseActionsBlock(expenseId: string) {
+  return {
+    type: 'actions',
+    block_id: `${EXPENSE_ACTIONS_BLOCK_PREFIX}${expenseId}`,
+    elements: [
+      {
+        type: 'button',
+        action_id: EXPENSE_ACTIONS.approve,
+        text: { type: 'plain_text', text: 'Approve', emoji: true },
+        style: 'primary',
+        value: expenseId,
+      },
+      {
+        type: 'button',
+        action_id: EXPENSE_ACTIONS.reject,
+        text: { type: 'plain_text', text: 'Reject', emoji: true },
+        style: 'danger',
+        value: expenseId,
+      },
+      {
+        type: 'button',
+        action_id: EXPENSE_ACTIONS.requestCorrection,
+        text: { type: 'plain_text', text: 'Request correction', emoji: true },
+        value: expenseId,
+      },
+    ],
+  };
+}
+
 /**
  * Create a Slack client instance
  */
@@ -1,95 +1,113 @@
-// Branch + Department -> Slack Channel mapping
-// Shared between notification routes and frontend channel picker
-export const DEPARTMENT_SLACK_CHANNELS: Record<string, Record<string, string>> = {
-  'Phoenix - SouthWest': {
-    'Maintenance': 'C06J7ULQXV4',
-    'Maintenance Recurring': 'C06J7ULQXV4',
-    'Maintenance : Maintenance': 'C06J7ULQXV4',
-    'Maintenance : Maintenance Recurring': 'C06J7ULQXV4',
-    'Irrigation': 'C06J7ULQXV4',
-    // Enhancements/Arbor/Spray/PHC for all Phoenix sub-branches route to the shared Phoenix dept channels
-    'Enhancements': 'C06JTB3QS0Z',
-    'Arbor': 'C06JT9Q4A3B',
-    'Spray': 'C06U9K3EKT7',
-    'PHC': 'C0896PY7EAF',
-  },
-  'Phoenix - SouthEast': {
-    'Maintenance': 'C06JT7JU81F',
-    'Maintenance Recurring': 'C06JT7JU81F',
-    'Maintenance : Maintenance': 'C06JT7JU81F',
-    'Maintenance : Maintenance Recurring': 'C06JT7JU81F',
-    'Irrigation': 'C06JT7JU81F',
-    'Enhancements': 'C06JTB3QS0Z',
-    'Arbor': 'C06JT9Q4A3B',
-    'Spray': 'C06U9K3EKT7',
-    'PHC': 'C0896PY7EAF',
-  },
-  'Phoenix - North': {
-    'Maintenance': 'C0738AHV23H',
-    'Maintenance Recurring': 'C0738AHV23H',
-    'Maintenance : Maintenance': 'C0738AHV23H',
-    'Maintenance : Maintenance Recurring': 'C0738AHV23H',
-    'Irrigation': 'C0738AHV23H',
-    'Enhancements': 'C06JTB3QS0Z',
-    'Arbor': 'C06JT9Q4A3B',
-    'Spray': 'C06U9K3EKT7',
-    'PHC': 'C0896PY7EAF',
-  },
-  'Phoenix': {
-    'Enhancements': 'C06JTB3QS0Z',
-    'Arbor': 'C06JT9Q4A3B',
-    'Spray': 'C06U9K3EKT7',
-    'PHC': 'C0896PY7EAF',
-    'Fleet & Equipment': 'C0896PY7EAF',
-  },
-  'Las Vegas': {
-    'Maintenance': 'C06JBNL7UKX',
-    'Maintenance Recurring': 'C06JBNL7UKX',
-    'Maintenance : Maintenance': 'C06JBNL7UKX',
-    'Maintenance : Maintenance Recurring': 'C06JBNL7UKX',
-    'Arbor': 'C06JBNL7UKX',
-    'Enhancements': 'C06JBNL7UKX',
-    'Irrigation': 'C06JBNL7UKX',
-    'Office Operations': 'C06JBNL7UKX',
-    'Safety': 'C06JBNL7UKX',
-    'PHC': 'C06JBNL7UKX',
-    'Spray': 'C06JBNL7UKX',
-  },
-  'Corporate': {
-    'Safety': 'C0896PY7EAF',
-    'Fleet & Equipment': 'C0896PY7EAF',
-    'Overhead: Equipment & Fleet Operations': 'C0896PY7EAF',
-    'Enhancements': 'C06JTB3QS0Z',
-    'Arbor': 'C06JT9Q4A3B',
-    'Spray': 'C06U9K3EKT7',
-    'PHC': 'C0896PY7EAF',
-  },
-  'Business Development': {
-    'Business Development': 'C02KV91H44Q',
-  },
-  'Test': {
-    'Test Channel': 'C046RPZGEHE',
-  },
-};
+// Branch + Department -> Slack Channel routing, stored in slack_channel_routes.
+// Shared between notification routes and the channel picker.
+import { supabaseAdmin } from './supabase';
+import { getExclusionRules, isHiddenFromDashboard } from './exclusionRules';
+import { createSlackClient, SlackChannelData } from './slack';
+import { SlackChannelRoute, UnroutedCombination } from '@/types/slackChannelRoute';
 
-// Build a deduplicated list of { branch, department, channelId } for the channel picker
-export function getChannelOptions(): { label: string; channelId: string }[] {
-  const options: { label: string; channelId: string }[] = [];
+/**
+ * Load the active routes. Throws on failure so callers report "couldn't load
+ * routing" rather than "no channel configured".
+ */
+export async function getSlackChannelRoutes(): Promise<SlackChannelRoute[]> {
+  const { data, error } = await supabaseAdmin
+    .from('slack_channel_routes')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error) {
+    throw new Error(`Failed to load Slack channel routes: ${error.message}`);
+  }
+  return (data || []) as SlackChannelRoute[];
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+function globMatches(pattern: string, value: string): boolean {
+  const regex = normalize(pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`).test(normalize(value));
+}
+
+/**
+ * Whether a route's department pattern covers `department`. NetSuite nests
+ * departments as "Parent : Child", so the last segment is tried as well.
+ */
+export function matchesDepartmentPattern(pattern: string, department: string): boolean {
+  const segments = department.split(' : ');
+  return globMatches(pattern, department) || globMatches(pattern, segments[segments.length - 1]);
+}
+
+/** The best active route for a branch/department, or null if none matches. */
+export function resolveChannelRoute(
+  routes: SlackChannelRoute[],
+  branch: string,
+  department: string
+): SlackChannelRoute | null {
+  const candidates = routes.filter(route =>
+    route.is_active &&
+    normalize(route.branch) === normalize(branch) &&
+    matchesDepartmentPattern(route.department_pattern, department)
+  );
+  if (candidates.length === 0) return null;
+
+  return candidates.sort((a, b) =>
+    b.priority - a.priority ||
+    Number(a.department_pattern.includes('*')) - Number(b.department_pattern.includes('*'))
+  )[0];
+}
+
+/** Slack channel ID for a branch/department, or null if no route covers it. */
+export async function resolveDepartmentChannel(branch: string, department: string): Promise<string | null> {
+  const routes = await getSlackChannelRoutes();
+  return resolveChannelRoute(routes, branch, department)?.channel_id ?? null;
+}
 
-  for (const [branch, departments] of Object.entries(DEPARTMENT_SLACK_CHANNELS)) {
-    for (const [department, channelId] of Object.entries(departments)) {
-      // Collapse the Maintenance name variants (they all map to one channel and
-      // simplify to the same label), but keep genuinely distinct departments even
-      // when they share a channel (e.g. every Las Vegas department).
-      const simpleDept = department.replace(/^Maintenance : /, '');
-      if (simpleDept === 'Maintenance Recurring') continue; // duplicate of Maintenance
+/**
+ * Look up a channel the admin typed (ID or #name) in the Slack workspace, so
+ * routes always store a real channel ID alongside its current name.
+ */
+export async function lookupSlackChannel(idOrName: string): Promise<SlackChannelData | null> {
+  return createSlackClient().findChannel(idOrName);
+}
+
+// Build a deduplicated list of { label, channelId } for the channel picker
+export function getChannelOptions(routes: SlackChannelRoute[]): { label: string; channelId: string }[] {
+  const options: { label: string; channelId: string }[] = [];
 
-      const label = `${branch} — ${simpleDept}`;
-      if (!options.find(o => o.label === label)) {
-        options.push({ label, channelId });
-      }
+  for (const route of routes) {
+    // Keep genuinely distinct departments even when they share a channel
+    // (e.g. every Las Vegas department)
+    const department = route.department_pattern.replace(/\*/g, '').trim() || 'All departments';
+    const channel = route.channel_name ? `  (#${route.channel_name})` : '';
+    const label = `${route.branch} — ${department}${channel}`;
+    if (!options.find(o => o.label === label)) {
+      options.push({ label, channelId: route.channel_id });
     }
   }
 
   return options.sort((a, b) => a.label.localeCompare(b.label));
 }
+
+/**
+ * Branch/department combinations in expenses that no active route covers, so
+ * their summaries and escalations would have nowhere to go. Combinations the
+ * exclusion rules hide from the dashboard are left out.
+ */
+export async function findUnroutedCombinations(routes: SlackChannelRoute[]): Promise<UnroutedCombination[]> {
+  const { data, error } = await supabaseAdmin
+    .from('expense_branch_departments')
+    .select('branch, department, expense_count');
+
+  if (error) {
+    throw new Error(`Failed to load branch/department combinations: ${error.message}`);
+  }
+
+  const exclusionRules = await getExclusionRules();
+  return (data as UnroutedCombination[])
+    .filter(c => !isHiddenFromDashboard(exclusionRules, c))
+    .filter(c => !resolveChannelRoute(routes, c.branch, c.department))
+    .sort((a, b) => a.branch.localeCompare(b.branch) || a.department.localeCompare(b.department));
+}
@@ -0,0 +1,100 @@
+import { supabaseAdmin } from './supabase';
+import { postSlackMessage } from './slack';
+import { SlackNotificationKind } from '@/types/slackNotification';
+
+export type SlackNotificationResult =
+  | { ok: true; channel: string; ts: string; threaded: boolean }
+  | { ok: false; error: string; slackError?: string };
+
+/**
+ * The first message sent about this expense to `target`, so follow-ups can be
+ * threaded under it. Null when there is none (or the log can't be read).
+ */
+async function findThreadRoot(expenseId: string, target: string): Promise<{ channel: string; ts: string } | null> {
+  const { data, error } = await supabaseAdmin
+    .from('slack_notifications')
+    .select('slack_channel, slack_ts, thread_ts')
+    .eq('expense_id', expenseId)
+    .eq('target', target)
+    .eq('status', 'sent')
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to look up Slack thread root:', error.message);
+    return null;
+  }
+  if (!data?.slack_channel || !data.slack_ts) return null;
+  return { channel: data.slack_channel, ts: data.thread_ts || data.slack_ts };
+}
+
+/**
+ * Post a message about one expense and record it in slack_notifications,
+ * whether or not Slack accepts it. With `threadFollowUp`, the message is
+ * threaded (and broadcast back to the conversation) under the first message
+ * previously sent about the expense to the same target. Logging failures are
+ * swallowed: the message already went out.
+ */
+export async function sendExpenseNotification(options: {
+  slackToken: string;
+  expenseId: string;
+  kind: SlackNotificationKind;
+  sentBy: string;
+  target: string;
+  recipientSlackIds?: string[];
+  text: string;
+  blocks: any[];
+  threadFollowUp?: boolean;
+}): Promise<SlackNotificationResult> {
+  const { slackToken, expenseId, kind, sentBy, target, text, blocks } = options;
+
+  const root = options.threadFollowUp ? await findThreadRoot(expenseId, target) : null;
+
+  let result: SlackNotificationResult;
+  try {
+    const response = await postSlackMessage(slackToken, {
+      channel: root?.channel || target,
+      text,
+      blocks,
+      unfurl_links: false,
+      unfurl_media: false,
+      ...(root && { thread_ts: root.ts, reply_broadcast: true }),
+    });
+
+    const responseText = await response.text();
+    if (!responseText || responseText.trim() === '') {
+      throw new Error('Empty response from Slack');
+    }
+    const data = JSON.parse(responseText);
+
+    result = data.ok
+      ? { ok: true, channel: data.channel, ts: data.ts, threaded: !!root }
+      : { ok: false, error: `Slack API error: ${data.error}`, slackError: data.error };
+  } catch (sendError: any) {
+    console.error('Slack request failed:', sendError);
+    result = { ok: false, error: `Failed to connect to Slack: ${sendError.message}` };
+  }
+
+  const { error: logError } = await supabaseAdmin
+    .from('slack_notifications')
+    .insert({
+      expense_id: expenseId,
+      kind,
+      sent_by: sentBy,
+      target,
+      recipient_slack_ids: options.recipientSlackIds || [],
+      text,
+      blocks,
+      status: result.ok ? 'sent' : 'failed',
+      error: result.ok ? null : result.slackError || result.error,
+      slack_channel: result.ok ? result.channel : null,
+      slack_ts: result.ok ? result.ts : null,
+      thread_ts: result.ok && root ? root.ts : null,
+    });
+  if (logError) {
+    console.error('Failed to record Slack notification:', logError.message);
+  }
+
+  return result;
+}
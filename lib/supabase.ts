@@ -1,8 +1,11 @@
+import { createHmac } from 'crypto';
 import { createClient } from '@supabase/supabase-js';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+// The project's JWT secret (Settings → API), used to sign per-user tokens
+const supabaseJwtSecret = process.env.SUPABASE_JWT_SECRET;
 
 if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing required env vars: NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY must be set.');
@@ -25,3 +28,46 @@ export const supabaseAdmin = createClient(
     }
   }
 );
+
+// How long a per-user token is valid; clients are created per request
+const USER_TOKEN_TTL_SECONDS = 5 * 60;
+
+const base64Url = (value: string | Buffer) => Buffer.from(value).toString('base64url');
+
+/**
+ * A client that queries as a dashboard user rather than the service role, so
+ * the row-level security policies on expenses apply (see the expense_rls
+ * migration). `id` is the users.id, which the policies read as auth.uid().
+ *
+ * Use it for reads on behalf of a signed-in user; writes and background jobs
+ * still go through supabaseAdmin.
+ */
+export function createUserClient(user: { id: string; email: string }) {
+  if (!supabaseJwtSecret) {
+    throw new Error('Missing required env var: SUPABASE_JWT_SECRET must be set.');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64Url(JSON.stringify({
+    sub: user.id,
+    email: user.email.toLowerCase(),
+    role: 'authenticated',
+    aud: 'authenticated',
+    iat: now,
+    exp: now + USER_TOKEN_TTL_SECONDS,
+  }));
+  const signature = base64Url(createHmac('sha256', supabaseJwtSecret).update(`${header}.${payload}`).digest());
+
+  return createClient(supabaseUrl!, supabaseAnonKey!, {
+    global: {
+      headers: { Authorization: `Bearer ${header}.${payload}.${signature}` },
+    },
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  });
+}
+
+export type UserClient = ReturnType<typeof createUserClient>;
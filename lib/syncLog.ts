@@ -0,0 +1,73 @@
+import { supabaseAdmin } from './supabase';
+
+export type SyncType = 'vendor_bills' | 'credit_cards' | 'credit_cards_historical';
+
+/** What started a run: an admin clicking SyncButton, or the cron runner. */
+export type SyncTrigger = 'manual' | 'scheduled';
+
+export const SYNC_IN_PROGRESS_ERROR = 'Another sync is already running. Please wait for it to finish.';
+
+/**
+ * Result of a sync runner. `busy` means another run holds the sync_logs mutex
+ * and nothing was done; callers map it to a 409 (manual) or a skip (cron).
+ */
+export type SyncRunResult<TStats, TExtra = object> =
+  | { busy: true }
+  | ({ busy: false; message: string; stats: TStats; errors?: any[] } & TExtra);
+
+/**
+ * Cheap mutex: refuse to start while another sync is running, so interleaved
+ * delete/upsert phases can't clobber each other. "running" rows older than 10
+ * minutes are treated as dead (crashed before the catch could mark them).
+ */
+export async function isSyncRunning(): Promise<boolean> {
+  const staleCutoff = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+  const { data: activeSyncs } = await supabaseAdmin
+    .from('sync_logs')
+    .select('id')
+    .eq('status', 'running')
+    .gte('sync_started_at', staleCutoff)
+    .limit(1);
+  return !!activeSyncs && activeSyncs.length > 0;
+}
+
+/** Insert a "running" sync_log and return its id. */
+export async function createSyncLog(fields: {
+  syncType: SyncType;
+  trigger: SyncTrigger;
+  triggeredBy: string | null;
+  startedAt?: string;
+  mode?: string;
+}): Promise<string> {
+  const { data: syncLog, error: syncLogError } = await supabaseAdmin
+    .from('sync_logs')
+    .insert({
+      status: 'running',
+      sync_started_at: fields.startedAt ?? new Date().toISOString(),
+      sync_type: fields.syncType,
+      sync_mode: fields.mode ?? null,
+      sync_trigger: fields.trigger,
+      triggered_by: fields.triggeredBy,
+    })
+    .select()
+    .single();
+
+  if (syncLogError) {
+    throw new Error(`Failed to create sync log: ${syncLogError.message}`);
+  }
+
+  console.log('Sync log created with ID:', syncLog.id);
+  return syncLog.id;
+}
+
+/** Don't leave a sync_log stuck "running" if the run threw partway through. */
+export async function markSyncLogFailed(syncLogId: string, error: any) {
+  await supabaseAdmin
+    .from('sync_logs')
+    .update({
+      status: 'failed',
+      sync_completed_at: new Date().toISOString(),
+      errors: [{ error: error?.message || 'Unknown error' }],
+    })
+    .eq('id', syncLogId);
+}
@@ -0,0 +1,492 @@
+import { createNetSuiteClient } from './netsuite';
+import { supabaseAdmin } from './supabase';
+import { SyncRunResult, SyncTrigger, createSyncLog, isSyncRunning, markSyncLogFailed } from './syncLog';
+import { recordExpenseChanges } from './expenseChanges';
+import { confirmCorrections } from './expenseCorrections';
+import { getExclusionRules, isExcludedFromSync } from './exclusionRules';
+import { getBranchAliases, resolveBranchName } from './branches';
+import { VendorBillChangeRow, VendorBillChangeSet, VendorBillFieldChange } from '@/types/sync';
+import { NETSUITE_TRANSACTION_TYPES } from '@/types/expense';
+
+const SYNC_FROM_DATE = '2026-04-01';
+
+// Incremental runs re-fetch from this many days before the last high-water
+// mark. NetSuite's lastmodifieddate is in the account timezone and we filter at
+// day granularity, so the overlap absorbs any offset; re-upserting an
+// unchanged bill is harmless.
+const INCREMENTAL_OVERLAP_DAYS = 1;
+
+export type VendorBillSyncMode = 'incremental' | 'full';
+
+export interface VendorBillSyncStats {
+  mode: VendorBillSyncMode;
+  fetched: number;
+  created: number;
+  updated: number;
+  deleted: number;
+  flagsPreserved: number;
+  errors: number;
+}
+
+/** Start time of the latest successful vendor-bill sync, or null if none. */
+async function getHighWaterMark(): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('sync_logs')
+    .select('high_water_mark')
+    .eq('sync_type', 'vendor_bills')
+    .eq('status', 'success')
+    .not('high_water_mark', 'is', null)
+    .order('high_water_mark', { ascending: false })
+    .limit(1);
+  if (error) {
+    throw new Error(`Failed to read sync high-water mark: ${error.message}`);
+  }
+  return data?.[0]?.high_water_mark ?? null;
+}
+
+const amountsDiffer = (a: unknown, b: unknown) =>
+  a == null || b == null ? a != b : Math.abs(Number(a) - Number(b)) >= 0.005;
+
+/**
+ * Pull NetSuite expense lines (vendor bills, vendor credits, checks and
+ * expense-account journal lines) into `expenses`. Shared by the admin sync
+ * route and the scheduled runner; auth is the caller's job.
+ *
+ * With dryRun the fetch, diff and straggler calculation all run but nothing is
+ * written (no deletes, upserts or sync_log), and the result carries the
+ * change set. A dry run doesn't take the sync mutex since it only reads.
+ */
+export async function runVendorBillSync(options: {
+  mode: VendorBillSyncMode;
+  trigger: SyncTrigger;
+  triggeredBy: string | null;
+  dryRun?: boolean;
+}): Promise<SyncRunResult<VendorBillSyncStats, { changeSet?: VendorBillChangeSet }>> {
+  const dryRun = options.dryRun ?? false;
+  console.log(`=== Starting Vendor Bill Sync (${options.mode}, ${options.trigger}${dryRun ? ', dry run' : ''}) ===`);
+
+  if (!dryRun && await isSyncRunning()) {
+    return { busy: true };
+  }
+
+  // Hoisted so the catch can mark an in-progress sync_log as failed instead of
+  // leaving it stuck "running" forever.
+  let syncLogId: string | null = null;
+  try {
+    // Incremental needs a previous successful run to anchor on; without one,
+    // fall back to a full reconcile.
+    let mode: VendorBillSyncMode = options.mode;
+    let modifiedSince: string | undefined;
+    if (mode === 'incremental') {
+      const highWaterMark = await getHighWaterMark();
+      if (highWaterMark) {
+        const since = new Date(new Date(highWaterMark).getTime() - INCREMENTAL_OVERLAP_DAYS * 86400000);
+        modifiedSince = since.toISOString().slice(0, 10);
+        console.log(`High-water mark ${highWaterMark}, fetching bills modified since ${modifiedSince}`);
+      } else {
+        console.log('No previous successful vendor bill sync, running a full reconcile instead');
+        mode = 'full';
+      }
+    }
+
+    // Captured before the NetSuite fetch so anything modified mid-run is
+    // picked up by the next incremental run.
+    const syncStartedAt = new Date().toISOString();
+
+    if (!dryRun) {
+      syncLogId = await createSyncLog({
+        syncType: 'vendor_bills',
+        trigger: options.trigger,
+        triggeredBy: options.triggeredBy,
+        startedAt: syncStartedAt,
+        mode,
+      });
+    }
+
+    const changeSet: VendorBillChangeSet = { toCreate: [], toUpdate: [], toDelete: [], unchanged: 0 };
+
+    // Initialize NetSuite client
+    const nsClient = createNetSuiteClient();
+
+    // Fetch all bill data + expense lines + vendor names in one bulk SuiteQL query
+    const fromDate = SYNC_FROM_DATE;
+    console.log('Fetching vendor bills with details from NetSuite...');
+
+    // Excluded lines are dropped before anything else, so a full reconcile
+    // also deletes rows that were synced before their rule was added.
+    const exclusionRules = await getExclusionRules();
+    const branchAliases = await getBranchAliases('netsuite');
+    const allBills = (await nsClient.searchVendorBillsFull(fromDate, { modifiedSince }))
+      .map((bill: any) => ({ ...bill, branch: resolveBranchName(branchAliases, bill.branch, 'netsuite') }));
+    const bills = allBills.filter((bill: any) => !isExcludedFromSync(exclusionRules, {
+      category: bill.category,
+      vendor_name: bill.vendor_name,
+      department: bill.department,
+      branch: bill.branch,
+      transaction_type: bill.transaction_type,
+    }));
+    console.log(`Found ${allBills.length} expense line rows, ${allBills.length - bills.length} excluded by rule, ${bills.length} to sync`);
+
+    // Build netsuite_id for each row: {billId}-{lineNumber} or {billId} if no line
+    const newNetsuiteIds = bills.map((bill: any) =>
+      bill.linesequencenumber != null
+        ? `${bill.id}-${bill.linesequencenumber}`
+        : bill.id.toString()
+    );
+    const newIdsSet = new Set(newNetsuiteIds);
+
+    // --- Old-record cleanup: migrate old single-record-per-bill format for Feb+ ---
+    // Skip IDs that this sync will reinsert (e.g., a bill with no expense lines whose new id is also bare).
+    // Full mode only: an incremental run only sees modified bills, so "not in
+    // this result" doesn't mean "gone from NetSuite".
+    const oldFormatRecords: any[] = [];
+    if (mode === 'full') {
+      console.log('Checking for old-format Feb+ records to migrate...');
+      // Paginated (PostgREST caps unpaged reads at 1000 rows) and error-checked:
+      // a partial read here would delete old-format rows without migrating flags.
+      const PAGE = 1000;
+      let pageStart = 0;
+      while (true) {
+        const { data: page, error: pageError } = await supabaseAdmin
+          .from('expenses')
+          .select('netsuite_id, transaction_date, vendor_name, amount, flag_category, approval_status, approval_modified_by, approval_modified_at')
+          .eq('transaction_type', 'Vendor Bill')
+          .gte('transaction_date', '2026-04-01')
+          .not('netsuite_id', 'like', '%-%')
+          .order('netsuite_id')
+          .range(pageStart, pageStart + PAGE - 1);
+        if (pageError) {
+          throw new Error(`Failed to fetch old-format records for migration: ${pageError.message}`);
+        }
+        oldFormatRecords.push(...(page || []));
+        if (!page || page.length < PAGE) break;
+        pageStart += PAGE;
+      }
+    }
+
+    const oldFlagsMap = new Map<string, any>();
+    const oldToDelete = (oldFormatRecords || []).filter(r => !newIdsSet.has(r.netsuite_id));
+    if (oldToDelete.length > 0) {
+      for (const rec of oldToDelete) {
+        oldFlagsMap.set(rec.netsuite_id, {
+          flag_category: rec.flag_category,
+          approval_status: rec.approval_status,
+          approval_modified_by: rec.approval_modified_by,
+          approval_modified_at: rec.approval_modified_at,
+        });
+      }
+      for (const rec of oldToDelete) {
+        changeSet.toDelete.push({
+          netsuite_id: rec.netsuite_id,
+          transaction_date: rec.transaction_date,
+          vendor_name: rec.vendor_name,
+          amount: rec.amount,
+          reason: 'old_format',
+        });
+      }
+      const oldIds = oldToDelete.map(r => r.netsuite_id);
+      if (dryRun) {
+        console.log(`Found ${oldToDelete.length} old-format records (dry run, not deleting)`);
+      } else {
+        console.log(`Found ${oldToDelete.length} old-format records, deleting...`);
+        for (let i = 0; i < oldIds.length; i += 500) {
+          const batch = oldIds.slice(i, i + 500);
+          await supabaseAdmin.from('expenses').delete().in('netsuite_id', batch);
+        }
+        console.log(`Deleted ${oldIds.length} old-format records (flags saved for migration)`);
+      }
+    } else {
+      console.log('No old-format records to migrate');
+    }
+
+    // Fetch existing records for flag preservation and change detection
+    console.log('Fetching existing records...');
+    const existingRecords: any[] = [];
+    for (let i = 0; i < newNetsuiteIds.length; i += 500) {
+      const batch = newNetsuiteIds.slice(i, i + 500);
+      const { data } = await supabaseAdmin
+        .from('expenses')
+        .select('id, netsuite_id, flag_category, approval_status, approval_modified_by, approval_modified_at, branch, department, amount, vendor_name')
+        .in('netsuite_id', batch);
+      existingRecords.push(...(data || []));
+    }
+
+    const existingMap = new Map(
+      existingRecords.map(e => [e.netsuite_id, e])
+    );
+    console.log(`Found ${existingMap.size} existing records`);
+
+    let recordsCreated = 0;
+    let recordsUpdated = 0;
+    let flagsPreserved = 0;
+    const errors: any[] = [];
+
+    // Build expense data array.
+    //
+    // Only sync-owned columns are written for existing rows. Manual columns
+    // (flag_category, approval_*) are omitted from their upsert payload so the
+    // DB keeps whatever value is there — including edits made while this sync
+    // is running, which the old read-snapshot/write-back approach would
+    // silently revert. New rows DO carry the flag/approval fields, since the
+    // old-format migration (oldFlagsMap) re-creates flags under the new
+    // {billId}-{line} ids. New and existing rows are upserted separately since
+    // PostgREST requires uniform keys within a batch.
+    const newRows: any[] = [];
+    const existingRows: any[] = [];
+
+    for (const bill of bills) {
+      const netsuiteId = bill.linesequencenumber != null
+        ? `${bill.id}-${bill.linesequencenumber}`
+        : bill.id.toString();
+      const existing = existingMap.get(netsuiteId);
+      const memo = bill.line_memo || bill.header_memo || bill.tranid || null;
+      const amount = bill.line_amount != null ? bill.line_amount : bill.bill_total;
+
+      // Change detection
+      const changeRow: VendorBillChangeRow = {
+        netsuite_id: netsuiteId,
+        transaction_date: bill.trandate,
+        vendor_name: bill.vendor_name,
+        amount,
+        transaction_type: bill.transaction_type,
+        branch: bill.branch,
+        department: bill.department,
+      };
+      if (existing) {
+        const changes: VendorBillFieldChange[] = [];
+        if (existing.branch !== bill.branch) {
+          console.log(`Updating branch: ${existing.branch ?? 'null'} → ${bill.branch ?? 'null'} for netsuite_id: ${netsuiteId}`);
+          changes.push({ field: 'branch', from: existing.branch, to: bill.branch });
+        }
+        if (existing.department !== bill.department) {
+          console.log(`Updating department: ${existing.department ?? 'null'} → ${bill.department ?? 'null'} for netsuite_id: ${netsuiteId}`);
+          changes.push({ field: 'department', from: existing.department, to: bill.department });
+        }
+        if (amountsDiffer(existing.amount, amount)) {
+          changes.push({ field: 'amount', from: existing.amount, to: amount });
+        }
+        if (existing.vendor_name !== bill.vendor_name) {
+          changes.push({ field: 'vendor_name', from: existing.vendor_name, to: bill.vendor_name });
+        }
+        if (changes.length > 0) {
+          changeSet.toUpdate.push({ ...changeRow, changes });
+        } else {
+          changeSet.unchanged++;
+        }
+        recordsUpdated++;
+      } else {
+        changeSet.toCreate.push(changeRow);
+        recordsCreated++;
+      }
+
+      const row: any = {
+        netsuite_id: netsuiteId,
+        transaction_date: bill.trandate,
+        vendor_name: bill.vendor_name,
+        amount: amount,
+        currency: bill.currency,
+        status: bill.status,
+        department: bill.department,
+        branch: bill.branch,
+        memo: memo,
+        category: bill.category,
+        transaction_type: bill.transaction_type,
+        cardholder: null,
+        last_synced_at: new Date().toISOString(),
+      };
+
+      if (existing) {
+        if (existing.flag_category || existing.approval_status) flagsPreserved++;
+        existingRows.push(row);
+      } else {
+        // Migrate flags from a just-deleted old-format bill record, if any
+        const oldFlags = oldFlagsMap.get(bill.id.toString());
+        row.flag_category = oldFlags?.flag_category ?? null;
+        row.approval_status = oldFlags?.approval_status ?? null;
+        row.approval_modified_by = oldFlags?.approval_modified_by ?? null;
+        row.approval_modified_at = oldFlags?.approval_modified_at ?? null;
+        if (oldFlags && (oldFlags.flag_category || oldFlags.approval_status)) flagsPreserved++;
+        newRows.push(row);
+      }
+    }
+
+    // Batch upsert to Supabase (with per-record fallback on failure)
+    console.log(`Upserting ${newRows.length + existingRows.length} records (${newRows.length} new, ${existingRows.length} existing)...`);
+    const UPSERT_BATCH = 200;
+    const upsertBatches = async (rows: any[]) => {
+      for (let i = 0; i < rows.length; i += UPSERT_BATCH) {
+        const batch = rows.slice(i, i + UPSERT_BATCH);
+        const { error: batchError } = await supabaseAdmin
+          .from('expenses')
+          .upsert(batch, {
+            onConflict: 'netsuite_id',
+            ignoreDuplicates: false,
+          });
+
+        if (batchError) {
+          console.log(`Batch upsert failed at offset ${i}, falling back to per-record...`);
+          for (const item of batch) {
+            const { error: itemError } = await supabaseAdmin
+              .from('expenses')
+              .upsert(item, { onConflict: 'netsuite_id', ignoreDuplicates: false });
+            if (itemError) {
+              errors.push({
+                netsuite_id: item.netsuite_id,
+                vendor: item.vendor_name,
+                error: itemError.message,
+              });
+            }
+          }
+        }
+      }
+    };
+    if (dryRun) {
+      console.log('Dry run: skipping upserts');
+    } else {
+      await upsertBatches(newRows);
+      await upsertBatches(existingRows);
+    }
+
+    // Adjust counts for errors
+    const errorIds = new Set(errors.map(e => e.netsuite_id));
+    for (const eid of errorIds) {
+      if (existingMap.has(eid)) {
+        recordsUpdated--;
+      } else {
+        recordsCreated--;
+      }
+    }
+
+    // Field-level history for the rows that actually persisted
+    if (!dryRun) {
+      await recordExpenseChanges(
+        changeSet.toUpdate
+          .filter(row => !errorIds.has(row.netsuite_id))
+          .flatMap(row => row.changes.map(change => ({
+            expense_id: existingMap.get(row.netsuite_id).id,
+            field: change.field,
+            old_value: change.from,
+            new_value: change.to,
+            source: 'netsuite_sync' as const,
+          })))
+      );
+      // Corrections pushed to NetSuite are confirmed once the line reads back corrected
+      await confirmCorrections(existingRows.filter(row => !errorIds.has(row.netsuite_id)));
+    }
+
+    // --- Delete stragglers: NetSuite rows in Supabase (in date range) no longer in NetSuite ---
+    // Safety: skip cleanup if NetSuite returned nothing (likely a transient error, not "all bills deleted")
+    // Full mode only, for the same reason as the old-format cleanup above.
+    let recordsDeleted = 0;
+    if (mode === 'incremental') {
+      console.log('Skipping straggler cleanup — incremental sync (run a full reconcile to remove deleted bills)');
+    } else if (allBills.length === 0) {
+      console.log('Skipping straggler cleanup — NetSuite returned 0 bills (likely transient error)');
+    } else {
+      console.log('Checking for deleted/stale vendor bills to remove...');
+      // Old-format rows were already deleted above (or, in a dry run, are
+      // already in the change set), so don't count them twice.
+      const returnedIds = new Set([...newNetsuiteIds, ...oldToDelete.map(r => r.netsuite_id)]);
+      const dbRows: VendorBillChangeRow[] = [];
+      let pageStart = 0;
+      const PAGE = 1000;
+      while (true) {
+        const { data: page, error: pageError } = await supabaseAdmin
+          .from('expenses')
+          .select('netsuite_id, transaction_date, vendor_name, amount, transaction_type')
+          .in('transaction_type', [...NETSUITE_TRANSACTION_TYPES])
+          .gte('transaction_date', fromDate)
+          .range(pageStart, pageStart + PAGE - 1);
+        if (pageError) {
+          console.error('Failed to fetch existing db ids for cleanup:', pageError.message);
+          break;
+        }
+        if (!page || page.length === 0) break;
+        dbRows.push(...page);
+        if (page.length < PAGE) break;
+        pageStart += PAGE;
+      }
+
+      const stragglerRows = dbRows.filter(r => !returnedIds.has(r.netsuite_id));
+      const stragglers = stragglerRows.map(r => r.netsuite_id);
+      changeSet.toDelete.push(...stragglerRows.map(r => ({ ...r, reason: 'straggler' as const })));
+      if (stragglers.length > 0 && dryRun) {
+        console.log(`Found ${stragglers.length} stragglers (dry run, not deleting)`);
+      } else if (stragglers.length > 0) {
+        console.log(`Found ${stragglers.length} stragglers to delete (no longer in NetSuite)`);
+        for (let i = 0; i < stragglers.length; i += 500) {
+          const batch = stragglers.slice(i, i + 500);
+          const { error: deleteError } = await supabaseAdmin
+            .from('expenses')
+            .delete()
+            .in('netsuite_id', batch);
+          if (deleteError) {
+            console.error(`Failed to delete straggler batch at offset ${i}:`, deleteError.message);
+          } else {
+            recordsDeleted += batch.length;
+          }
+        }
+        console.log(`Deleted ${recordsDeleted} stale records`);
+      } else {
+        console.log('No stragglers to delete');
+      }
+    }
+
+    console.log(`✓ Processing complete: ${recordsCreated} created, ${recordsUpdated} updated, ${recordsDeleted} deleted`);
+    console.log(`Flags preserved: ${flagsPreserved}`);
+
+    if (dryRun) {
+      return {
+        busy: false,
+        message: `Vendor bill ${mode === 'full' ? 'full reconcile' : 'incremental sync'} preview: ${changeSet.toCreate.length} to create, ${changeSet.toUpdate.length} to update, ${changeSet.toDelete.length} to delete`,
+        stats: {
+          mode,
+          fetched: bills.length,
+          created: changeSet.toCreate.length,
+          updated: changeSet.toUpdate.length,
+          deleted: changeSet.toDelete.length,
+          flagsPreserved: flagsPreserved,
+          errors: 0,
+        },
+        changeSet,
+      };
+    }
+
+    // Update sync log
+    await supabaseAdmin
+      .from('sync_logs')
+      .update({
+        sync_completed_at: new Date().toISOString(),
+        records_fetched: bills.length,
+        records_created: recordsCreated,
+        records_updated: recordsUpdated,
+        errors: errors.length > 0 ? errors : null,
+        status: bills.length > 0 && errors.length === bills.length ? 'failed' : errors.length > 0 ? 'partial' : 'success',
+        // Only read back from 'success' rows, so a partial run doesn't advance
+        // the next incremental window past the rows that failed.
+        high_water_mark: syncStartedAt,
+      })
+      .eq('id', syncLogId!);
+
+    return {
+      busy: false,
+      message: `Vendor bill ${mode === 'full' ? 'full reconcile' : 'incremental sync'} completed: ${recordsCreated} created, ${recordsUpdated} updated, ${recordsDeleted} deleted, ${flagsPreserved} flags preserved`,
+      stats: {
+        mode,
+        fetched: bills.length,
+        created: recordsCreated,
+        updated: recordsUpdated,
+        deleted: recordsDeleted,
+        flagsPreserved: flagsPreserved,
+        errors: errors.length,
+      },
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  } catch (error: any) {
+    console.error('Vendor bill sync error:', error);
+    if (syncLogId) {
+      await markSyncLogFailed(syncLogId, error);
+    }
+    throw error;
+  }
+}
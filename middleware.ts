@@ -11,6 +11,8 @@ export const config = {
     /*
      * Match all request paths except:
      * - /api/auth (auth API routes)
+     * - /api/cron (scheduled jobs; authenticated with CRON_SECRET instead)
+     * - /api/slack/ (Slack callbacks; authenticated by the Slack request signature)
      * - /auth/signin (sign in page)
      * - /auth/error (error page)
      * - /_next/static (static files)
@@ -19,6 +21,6 @@ export const config = {
      * - /logos (your logo folder)
      * - Any file with an extension (*.png, *.txt, etc.)
      */
-    '/((?!api/auth|auth|_next/static|_next/image|favicon.ico|.*\\..*).*)',
+    '/((?!api/auth|api/cron|api/slack/|auth|_next/static|_next/image|favicon.ico|.*\\..*).*)',
   ],
 };
\ No newline at end of file
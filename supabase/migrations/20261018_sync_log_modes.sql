@@ -0,0 +1,24 @@
+-- Incremental vendor-bill sync.
+--
+-- The vendor-bill sync used to re-fetch every bill since the sync start date on
+-- every run. It now supports an "incremental" mode that only asks NetSuite for
+-- bills whose lastmodifieddate is on/after the previous successful run, plus the
+-- original "full" reconcile mode (which is the only mode that deletes
+-- stragglers and migrates old-format rows).
+--
+--   sync_type        which sync wrote the row: vendor_bills, credit_cards,
+--                    credit_cards_historical. Rows written before this
+--                    migration are null.
+--   sync_mode        incremental | full (vendor_bills only)
+--   high_water_mark  start time of the run. The next incremental run reads the
+--                    latest high_water_mark from a successful vendor_bills row.
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`) BEFORE deploying
+-- the route change, since the sync now writes these columns.
+alter table sync_logs
+  add column if not exists sync_type text,
+  add column if not exists sync_mode text,
+  add column if not exists high_water_mark timestamptz;
+
+create index if not exists sync_logs_type_status_started_idx
+  on sync_logs (sync_type, status, sync_started_at desc);
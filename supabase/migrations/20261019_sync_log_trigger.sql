@@ -0,0 +1,13 @@
+-- Record what started each sync run.
+--
+-- Syncs can now be started by the cron runner (/api/cron/sync) as well as by an
+-- admin clicking SyncButton, so sync_logs records which one it was:
+--
+--   sync_trigger  manual | scheduled (null on rows written before this migration)
+--   triggered_by  email of the admin for manual runs, null for scheduled runs
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`) BEFORE deploying
+-- the route change, since every sync now writes these columns.
+alter table sync_logs
+  add column if not exists sync_trigger text,
+  add column if not exists triggered_by text;
@@ -0,0 +1,28 @@
+-- Field-level change history for expenses.
+--
+-- The syncs used to notice branch/department moves only in console.log, so a
+-- reviewer had no way to see why an expense left their branch. Every write
+-- path now appends a row here:
+--
+--   source  netsuite_sync | bill_sync  (sync-owned fields that changed)
+--           flag | approval            (manual edits from the dashboard)
+--
+-- Values are stored as text so one table covers strings and amounts.
+-- changed_by is the user's name/email for manual edits and null for syncs.
+-- Rows are removed with their expense (deleted stragglers).
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`). Writers log and
+-- continue if the insert fails, so deploy order is flexible.
+create table if not exists expense_changes (
+  id uuid primary key default gen_random_uuid(),
+  expense_id uuid not null references expenses(id) on delete cascade,
+  field text not null,
+  old_value text,
+  new_value text,
+  source text not null,
+  changed_by text,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists expense_changes_expense_id_idx
+  on expense_changes (expense_id, changed_at desc);
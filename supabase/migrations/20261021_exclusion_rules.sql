@@ -0,0 +1,36 @@
+-- Admin-managed exclusion rules.
+--
+-- Replaces the hard-coded EXCLUDED_CATEGORY_PREFIXES (vendor bill sync) and
+-- EXCLUDED_VENDORS (dashboard + Slack department summary) lists so hiding a new
+-- GL account or vendor no longer needs a deploy.
+--
+--   match_field  category_prefix | vendor | department | branch | transaction_type
+--                category_prefix is a startsWith match; the rest are exact,
+--                case-insensitive matches.
+--   action       exclude_from_sync    never written to expenses by any sync
+--                hide_from_dashboard  synced, but left out of the dashboard
+--                                     and the Slack summaries
+--
+-- Only is_active rules apply, so a rule can be paused without losing it.
+-- The seed rows reproduce the old hard-coded behavior.
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`) BEFORE deploying
+-- the code that reads it: syncs refuse to run if the rules can't be loaded.
+create table if not exists exclusion_rules (
+  id uuid primary key default gen_random_uuid(),
+  match_field text not null
+    check (match_field in ('category_prefix', 'vendor', 'department', 'branch', 'transaction_type')),
+  match_value text not null,
+  action text not null
+    check (action in ('exclude_from_sync', 'hide_from_dashboard')),
+  note text,
+  is_active boolean not null default true,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+insert into exclusion_rules (match_field, match_value, action, note, created_by)
+values
+  ('category_prefix', '6150.2.2', 'exclude_from_sync', 'Previously hard-coded in the vendor bill sync', 'migration'),
+  ('vendor', 'Blue Cross - Portal', 'hide_from_dashboard', 'Previously hard-coded in the dashboard and Slack summary', 'migration');
@@ -0,0 +1,43 @@
+-- Corrections pushed from the dashboard back to the source system.
+--
+-- An admin enters the correct branch/department/category on an expense; the
+-- app writes it to the source transaction (target = 'netsuite' for NetSuite
+-- expense lines) and records the outcome here:
+--
+--   status  pending    row written, source system not yet called
+--           applied    source system accepted the update
+--           failed     source system rejected it (see error)
+--           confirmed  a later sync pulled the corrected values back, and
+--                      any Wrong Branch/Department/Category flag was cleared
+--
+-- branch/department/category hold the requested values (null = unchanged);
+-- previous_* hold what the expense showed when the correction was made.
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`) before
+-- deploying; the corrections route fails without it.
+create table if not exists expense_corrections (
+  id uuid primary key default gen_random_uuid(),
+  expense_id uuid not null references expenses(id) on delete cascade,
+  netsuite_id text not null,
+  target text not null check (target in ('netsuite')),
+  branch text,
+  department text,
+  category text,
+  previous_branch text,
+  previous_department text,
+  previous_category text,
+  status text not null default 'pending'
+    check (status in ('pending', 'applied', 'failed', 'confirmed')),
+  error text,
+  requested_by text,
+  created_at timestamptz not null default now(),
+  applied_at timestamptz,
+  confirmed_at timestamptz
+);
+
+create index if not exists expense_corrections_expense_id_idx
+  on expense_corrections (expense_id, created_at desc);
+
+-- The syncs look up applied corrections by netsuite_id on every run
+create index if not exists expense_corrections_applied_idx
+  on expense_corrections (netsuite_id) where status = 'applied';
@@ -0,0 +1,16 @@
+-- Bill.com write-back for expense_corrections.
+--
+-- Credit-card corrections set the Branch/Department/Purchase Category custom
+-- fields on the Bill.com Spend transaction (target = 'bill'). mark_reviewed
+-- records whether the admin also marked the transaction reviewed.
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`) before
+-- deploying; credit-card corrections fail to insert without it.
+alter table expense_corrections
+  drop constraint if exists expense_corrections_target_check;
+
+alter table expense_corrections
+  add constraint expense_corrections_target_check check (target in ('netsuite', 'bill'));
+
+alter table expense_corrections
+  add column if not exists mark_reviewed boolean not null default false;
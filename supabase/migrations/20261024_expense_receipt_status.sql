@@ -0,0 +1,14 @@
+-- Receipt status for credit-card expenses.
+--
+-- The credit card sync now stores Bill.com's receiptStatus on each card
+-- transaction so the dashboard can filter and count swipes that still lack a
+-- receipt. NetSuite-sourced rows leave it null (receipts don't apply).
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`) before
+-- deploying; the credit card sync fails to upsert without it.
+alter table expenses
+  add column if not exists receipt_status text;
+
+create index if not exists expenses_receipt_status_idx
+  on expenses (receipt_status)
+  where transaction_type = 'Credit Card';
@@ -0,0 +1,56 @@
+-- Scheduled Slack department digests.
+--
+-- digest_schedules: one row per branch/department that should get the
+-- department summary (same message as the Slack button on the dashboard's
+-- department KPI cards) on a cadence, posted to the department's channel
+-- from DEPARTMENT_SLACK_CHANNELS by /api/cron/digests.
+--
+--   cadence                weekly     on `weekday` (0 = Sunday .. 6 = Saturday)
+--                          month_end  `days_before_month_end` days before the
+--                                     last day of the month (0 = the last day)
+--   last_run_on            business-timezone date of the last run, so a cron
+--                          retry on the same day doesn't post twice
+--
+-- The digest always covers the current month and is skipped when nothing in
+-- it is outstanding.
+--
+-- digest_history: one row per due schedule per run, including skips and
+-- failures, shown in the Admin dashboard.
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`) before
+-- deploying; the digests cron and admin tab fail without it.
+create table if not exists digest_schedules (
+  id uuid primary key default gen_random_uuid(),
+  branch text not null,
+  department text not null,
+  cadence text not null check (cadence in ('weekly', 'month_end')),
+  weekday smallint check (weekday between 0 and 6),
+  days_before_month_end smallint check (days_before_month_end between 0 and 27),
+  is_active boolean not null default true,
+  last_run_on date,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (branch, department),
+  check (
+    (cadence = 'weekly' and weekday is not null)
+    or (cadence = 'month_end' and days_before_month_end is not null)
+  )
+);
+
+create table if not exists digest_history (
+  id uuid primary key default gen_random_uuid(),
+  schedule_id uuid references digest_schedules (id) on delete set null,
+  branch text not null,
+  department text not null,
+  month text not null,
+  status text not null check (status in ('sent', 'skipped', 'failed')),
+  unapproved_count integer not null default 0,
+  unapproved_amount numeric not null default 0,
+  channel_id text,
+  slack_ts text,
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists digest_history_created_at_idx on digest_history (created_at desc);
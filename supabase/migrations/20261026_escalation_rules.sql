@@ -0,0 +1,53 @@
+-- Escalating reminders for unanswered purchaser notifications.
+--
+-- A daily cron (/api/cron/escalations) looks at flagged, still-pending credit
+-- card expenses whose purchaser has already been notified at least once and
+-- applies the escalation rule for the expense's flag_category:
+--
+--   escalation_rules
+--     flag_category          one rule per flag (FLAG_CATEGORIES); flags
+--                            without an active rule never escalate
+--     reminder_after_days    N: days since slack_last_notified_at before the
+--                            next step runs
+--     max_reminders          M: notifications (the manual one included) sent
+--                            to the purchaser before escalating
+--     escalate_to            branch_manager      DM the expense branch's manager
+--                                                 (falls back to the channel)
+--                            department_channel  post in the department's
+--                                                Slack channel
+--
+--   branch_managers          who a branch escalates to, one user per branch
+--
+--   expenses.escalated_at / escalated_to
+--                            set once an expense has been escalated so the
+--                            cron doesn't repeat it; cleared when its flag
+--                            changes
+--
+-- Reminders go through increment_slack_notification_count, so the existing
+-- count/last-notified columns keep meaning "purchaser notifications sent".
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`) before
+-- deploying the code that reads it.
+create table if not exists escalation_rules (
+  id uuid primary key default gen_random_uuid(),
+  flag_category text not null unique,
+  reminder_after_days integer not null default 3 check (reminder_after_days >= 1),
+  max_reminders integer not null default 3 check (max_reminders >= 1),
+  escalate_to text not null default 'branch_manager'
+    check (escalate_to in ('branch_manager', 'department_channel')),
+  is_active boolean not null default true,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists branch_managers (
+  branch text primary key,
+  user_id uuid not null references users(id) on delete cascade,
+  updated_by text,
+  updated_at timestamptz not null default now()
+);
+
+alter table expenses
+  add column if not exists escalated_at timestamptz,
+  add column if not exists escalated_to text;
@@ -0,0 +1,92 @@
+-- Slack channel routing, managed in the Admin dashboard.
+--
+-- Replaces the hand-edited DEPARTMENT_SLACK_CHANNELS map in lib/slackChannels.ts
+-- (and the fuzzy "Maintenance" fallbacks in the department summary) so adding
+-- a department or moving a channel no longer needs a deploy.
+--
+--   branch              exact, case-insensitive match on expenses.branch
+--   department_pattern  case-insensitive; `*` matches any run of characters.
+--                       Tested against the whole department name and against
+--                       its last " : " segment, so "Maintenance*" covers
+--                       "Maintenance : Maintenance Recurring"
+--   channel_id          Slack channel ID (C...); channel_name is the #name
+--                       looked up from Slack when the route was saved
+--   priority            highest wins when several active routes match; on a
+--                       tie a pattern without `*` beats one with
+--
+-- expense_branch_departments lists every branch/department combination in
+-- expenses so the admin editor can flag the ones with no route.
+--
+-- The seed rows reproduce the old map. Apply in the Supabase SQL editor (or via
+-- `supabase db push`) BEFORE deploying the code that reads it: department
+-- summaries, digests and escalations can't find a channel without it.
+create table if not exists slack_channel_routes (
+  id uuid primary key default gen_random_uuid(),
+  branch text not null,
+  department_pattern text not null,
+  channel_id text not null,
+  channel_name text,
+  priority integer not null default 0,
+  is_active boolean not null default true,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (branch, department_pattern)
+);
+
+create or replace view expense_branch_departments as
+  select branch, department, count(*)::integer as expense_count
+  from expenses
+  where branch is not null and department is not null
+  group by branch, department;
+
+insert into slack_channel_routes (branch, department_pattern, channel_id, created_by)
+values
+  ('Phoenix - SouthWest', 'Maintenance*', 'C06J7ULQXV4', 'migration'),
+  ('Phoenix - SouthWest', 'Irrigation', 'C06J7ULQXV4', 'migration'),
+  ('Phoenix - SouthWest', 'Enhancements', 'C06JTB3QS0Z', 'migration'),
+  ('Phoenix - SouthWest', 'Arbor', 'C06JT9Q4A3B', 'migration'),
+  ('Phoenix - SouthWest', 'Spray', 'C06U9K3EKT7', 'migration'),
+  ('Phoenix - SouthWest', 'PHC', 'C0896PY7EAF', 'migration'),
+
+  ('Phoenix - SouthEast', 'Maintenance*', 'C06JT7JU81F', 'migration'),
+  ('Phoenix - SouthEast', 'Irrigation', 'C06JT7JU81F', 'migration'),
+  ('Phoenix - SouthEast', 'Enhancements', 'C06JTB3QS0Z', 'migration'),
+  ('Phoenix - SouthEast', 'Arbor', 'C06JT9Q4A3B', 'migration'),
+  ('Phoenix - SouthEast', 'Spray', 'C06U9K3EKT7', 'migration'),
+  ('Phoenix - SouthEast', 'PHC', 'C0896PY7EAF', 'migration'),
+
+  ('Phoenix - North', 'Maintenance*', 'C0738AHV23H', 'migration'),
+  ('Phoenix - North', 'Irrigation', 'C0738AHV23H', 'migration'),
+  ('Phoenix - North', 'Enhancements', 'C06JTB3QS0Z', 'migration'),
+  ('Phoenix - North', 'Arbor', 'C06JT9Q4A3B', 'migration'),
+  ('Phoenix - North', 'Spray', 'C06U9K3EKT7', 'migration'),
+  ('Phoenix - North', 'PHC', 'C0896PY7EAF', 'migration'),
+
+  ('Phoenix', 'Enhancements', 'C06JTB3QS0Z', 'migration'),
+  ('Phoenix', 'Arbor', 'C06JT9Q4A3B', 'migration'),
+  ('Phoenix', 'Spray', 'C06U9K3EKT7', 'migration'),
+  ('Phoenix', 'PHC', 'C0896PY7EAF', 'migration'),
+  ('Phoenix', 'Fleet & Equipment', 'C0896PY7EAF', 'migration'),
+
+  ('Las Vegas', 'Maintenance*', 'C06JBNL7UKX', 'migration'),
+  ('Las Vegas', 'Arbor', 'C06JBNL7UKX', 'migration'),
+  ('Las Vegas', 'Enhancements', 'C06JBNL7UKX', 'migration'),
+  ('Las Vegas', 'Irrigation', 'C06JBNL7UKX', 'migration'),
+  ('Las Vegas', 'Office Operations', 'C06JBNL7UKX', 'migration'),
+  ('Las Vegas', 'Safety', 'C06JBNL7UKX', 'migration'),
+  ('Las Vegas', 'PHC', 'C06JBNL7UKX', 'migration'),
+  ('Las Vegas', 'Spray', 'C06JBNL7UKX', 'migration'),
+
+  ('Corporate', 'Safety', 'C0896PY7EAF', 'migration'),
+  ('Corporate', 'Fleet & Equipment', 'C0896PY7EAF', 'migration'),
+  ('Corporate', 'Overhead: Equipment & Fleet Operations', 'C0896PY7EAF', 'migration'),
+  ('Corporate', 'Enhancements', 'C06JTB3QS0Z', 'migration'),
+  ('Corporate', 'Arbor', 'C06JT9Q4A3B', 'migration'),
+  ('Corporate', 'Spray', 'C06U9K3EKT7', 'migration'),
+  ('Corporate', 'PHC', 'C0896PY7EAF', 'migration'),
+
+  ('Business Development', 'Business Development', 'C02KV91H44Q', 'migration'),
+
+  ('Test', 'Test Channel', 'C046RPZGEHE', 'migration')
+on conflict (branch, department_pattern) do nothing;
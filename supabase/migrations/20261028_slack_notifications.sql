@@ -0,0 +1,46 @@
+-- Log of every Slack message sent about a single expense.
+--
+-- Written by /api/notify/slack (manual correction notices, including the DM
+-- copy for extra recipients of a channel post) and the escalation cron
+-- (reminders and escalations), whether or not Slack accepted the message.
+--
+--   kind              correction | reminder | escalation
+--   sent_by           who sent it (full name or email); 'system' for the cron
+--   target            what was passed to chat.postMessage: a user ID (DM), a
+--                     channel ID, or the group DM opened for several people
+--   recipient_slack_ids
+--                     the people it was meant for; empty for a channel post
+--   text / blocks     the message as rendered
+--   status            sent | failed; error holds Slack's error code or the
+--                     connection failure when failed
+--   slack_channel / slack_ts
+--                     where Slack put it (a DM resolves to a D... channel)
+--   thread_ts         the original message this one was threaded under
+--
+-- Follow-up notices for an expense are threaded onto the first message sent to
+-- the same target, found through (expense_id, target).
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`). Sending works
+-- without it, but nothing is logged and follow-ups aren't threaded.
+create table if not exists slack_notifications (
+  id uuid primary key default gen_random_uuid(),
+  expense_id uuid references expenses(id) on delete cascade,
+  kind text not null check (kind in ('correction', 'reminder', 'escalation')),
+  sent_by text not null,
+  target text not null,
+  recipient_slack_ids text[] not null default '{}',
+  text text,
+  blocks jsonb,
+  status text not null check (status in ('sent', 'failed')),
+  error text,
+  slack_channel text,
+  slack_ts text,
+  thread_ts text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists slack_notifications_expense_idx
+  on slack_notifications (expense_id, created_at desc);
+
+create index if not exists slack_notifications_created_idx
+  on slack_notifications (created_at desc);
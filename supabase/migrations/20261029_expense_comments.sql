@@ -0,0 +1,40 @@
+-- Comments on expenses, starting with purchaser replies captured from Slack.
+--
+-- When a purchaser answers a correction notice in its Slack thread, the
+-- Events API endpoint (/api/slack/events) matches the reply's thread_ts to the
+-- message we sent (slack_notifications.slack_ts) and stores the reply here so
+-- it shows up in the expanded row on the dashboard.
+--
+--   source            slack (replies captured from a notification thread)
+--   author_user_id    the dashboard user whose users.slack_id sent the reply;
+--                     null when the Slack user isn't linked to anyone
+--   author_slack_id   the Slack user who replied
+--   body              the message text as Slack sent it (mrkdwn)
+--   slack_channel / slack_ts
+--                     the reply itself; unique so Slack's event retries
+--                     don't create duplicates
+--   slack_thread_ts   the notification the reply was threaded under
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`), then subscribe
+-- the Slack app to the message.im, message.mpim, message.channels and
+-- message.groups bot events with /api/slack/events as the Request URL.
+create table if not exists expense_comments (
+  id uuid primary key default gen_random_uuid(),
+  expense_id uuid not null references expenses(id) on delete cascade,
+  source text not null check (source in ('slack')),
+  author_user_id uuid references users(id) on delete set null,
+  author_slack_id text,
+  body text not null,
+  slack_channel text,
+  slack_ts text,
+  slack_thread_ts text,
+  created_at timestamptz not null default now(),
+  unique (slack_channel, slack_ts)
+);
+
+create index if not exists expense_comments_expense_idx
+  on expense_comments (expense_id, created_at);
+
+-- Replies are matched to the notification by (channel, ts)
+create index if not exists slack_notifications_message_idx
+  on slack_notifications (slack_channel, slack_ts);
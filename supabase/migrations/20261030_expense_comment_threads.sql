@@ -0,0 +1,70 @@
+-- Dashboard comment threads on expenses.
+--
+-- expense_comments held only Slack replies; reviewers can now leave notes on an
+-- expense from the expanded row, mention other users (who get a Slack DM), and
+-- resolve a comment once it's been dealt with.
+--
+--   source              slack | dashboard
+--   mentioned_user_ids  users mentioned in a dashboard comment
+--   updated_at          set when the author edits the body
+--   resolved_at / resolved_by
+--                       when and by whom (name or email) the comment was
+--                       resolved; null while it still needs attention
+--
+-- expenses.comment_count and expenses.unresolved_comment_count are kept up to
+-- date by a trigger, so the table badge and the "has unresolved comments"
+-- filter work from the expense row alone. Slack replies count as unresolved
+-- until a reviewer resolves them.
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`) BEFORE deploying:
+-- the page now selects the count columns.
+alter table expense_comments drop constraint if exists expense_comments_source_check;
+alter table expense_comments
+  add constraint expense_comments_source_check check (source in ('slack', 'dashboard'));
+
+alter table expense_comments
+  add column if not exists mentioned_user_ids uuid[] not null default '{}',
+  add column if not exists updated_at timestamptz,
+  add column if not exists resolved_at timestamptz,
+  add column if not exists resolved_by text;
+
+alter table expenses
+  add column if not exists comment_count integer not null default 0,
+  add column if not exists unresolved_comment_count integer not null default 0;
+
+create or replace function refresh_expense_comment_counts()
+returns trigger
+language plpgsql
+as $$
+declare
+  target_id uuid := coalesce(new.expense_id, old.expense_id);
+begin
+  update expenses
+  set comment_count = (
+        select count(*) from expense_comments where expense_id = target_id
+      ),
+      unresolved_comment_count = (
+        select count(*) from expense_comments where expense_id = target_id and resolved_at is null
+      )
+  where id = target_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists expense_comments_counts on expense_comments;
+create trigger expense_comments_counts
+  after insert or update of resolved_at or delete on expense_comments
+  for each row execute function refresh_expense_comment_counts();
+
+-- Backfill counts for the Slack replies captured so far
+update expenses e
+set comment_count = c.total,
+    unresolved_comment_count = c.unresolved
+from (
+  select expense_id,
+         count(*) as total,
+         count(*) filter (where resolved_at is null) as unresolved
+  from expense_comments
+  group by expense_id
+) c
+where e.id = c.expense_id;
@@ -0,0 +1,57 @@
+-- Append-only audit trail of user (and scheduled job) actions.
+--
+-- Only approvals recorded who made them (approval_modified_by/_at); flag
+-- changes, user and permission edits, syncs, masquerade sessions and Slack
+-- sends left no trail. Every mutating route now appends a row here via
+-- lib/audit.ts:
+--
+--   actor_email   the signed-in user, the linked user for Slack actions, or
+--                 'system' for cron jobs
+--   actor_name    display name at the time of the action
+--   action        dotted verb, e.g. expense.flag, user.permissions, sync.run
+--                 (the full list is AuditAction in types/audit.ts)
+--   entity_type / entity_id
+--                 what was acted on; entity_id is text so it can hold uuids,
+--                 NetSuite ids or be null for bulk actions
+--   summary       one human-readable line for the admin Audit view and CSV
+--   details       structured before/after values and request parameters
+--
+-- Rows can't be updated or deleted (the trigger below), and have no foreign
+-- keys so they outlive the users and expenses they mention.
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`). Writers log and
+-- continue if the insert fails, so deploy order is flexible.
+create table if not exists audit_events (
+  id uuid primary key default gen_random_uuid(),
+  occurred_at timestamptz not null default now(),
+  actor_email text not null,
+  actor_name text,
+  action text not null,
+  entity_type text not null,
+  entity_id text,
+  summary text not null,
+  details jsonb
+);
+
+create index if not exists audit_events_occurred_idx
+  on audit_events (occurred_at desc);
+
+create index if not exists audit_events_actor_idx
+  on audit_events (actor_email, occurred_at desc);
+
+create index if not exists audit_events_entity_idx
+  on audit_events (entity_type, entity_id, occurred_at desc);
+
+create or replace function audit_events_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_events is append-only';
+end;
+$$;
+
+drop trigger if exists audit_events_no_change on audit_events;
+create trigger audit_events_no_change
+  before update or delete on audit_events
+  for each row execute function audit_events_append_only();
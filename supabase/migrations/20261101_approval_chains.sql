@@ -0,0 +1,78 @@
+-- Multi-step approval chains.
+--
+-- An expense used to carry a single approval_status that anyone who could see
+-- it could set. Admins now configure approval policies; an expense matching a
+-- policy must be approved step by step, each step by its designated approver:
+--
+--   approval_policies
+--     branch / department    scope; null matches any. The most specific
+--                            active policy wins (branch + department, then
+--                            branch, then department, then the default)
+--     steps                  ordered jsonb array of
+--                              { approver_role, min_amount, max_amount }
+--                            approver_role is department_manager,
+--                            branch_manager or finance. A step applies when
+--                            min_amount <= amount (< max_amount, if set), so
+--                            "finance above $10,000" is a step with
+--                            min_amount 10000
+--
+--   department_managers      who approves for a department, one user each
+--                            (branch managers already live in branch_managers)
+--
+--   users.is_finance_approver
+--                            may act on finance steps
+--
+--   expense_approval_steps   one row per decision: who approved or rejected
+--                            which step, and when
+--
+--   expenses.approval_step   steps approved so far; the next step to act on.
+--                            approval_status becomes 'approved' once every
+--                            applicable step is approved and 'rejected' as
+--                            soon as any step rejects
+--
+-- Expenses that match no policy keep the old single-step behaviour. Steps are
+-- resolved from the current policy each time, so editing a policy changes the
+-- remaining steps of expenses already part-way through it.
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`) before
+-- deploying the code that reads it.
+create table if not exists approval_policies (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  branch text,
+  department text,
+  steps jsonb not null default '[]'::jsonb check (jsonb_typeof(steps) = 'array'),
+  is_active boolean not null default true,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists approval_policies_scope_key
+  on approval_policies (coalesce(branch, ''), coalesce(department, ''));
+
+create table if not exists department_managers (
+  department text primary key,
+  user_id uuid not null references users(id) on delete cascade,
+  updated_by text,
+  updated_at timestamptz not null default now()
+);
+
+alter table users
+  add column if not exists is_finance_approver boolean not null default false;
+
+create table if not exists expense_approval_steps (
+  id uuid primary key default gen_random_uuid(),
+  expense_id uuid not null references expenses(id) on delete cascade,
+  step_order integer not null check (step_order >= 0),
+  approver_role text not null
+    check (approver_role in ('department_manager', 'branch_manager', 'finance')),
+  decision text not null check (decision in ('approved', 'rejected')),
+  decided_by_user_id uuid references users(id) on delete set null,
+  decided_by text not null,
+  decided_at timestamptz not null default now(),
+  unique (expense_id, step_order)
+);
+
+alter table expenses
+  add column if not exists approval_step integer not null default 0;
@@ -0,0 +1,38 @@
+-- Approval delegation while a manager is out of office.
+--
+--   approval_delegations
+--     delegator_user_id    whose approval rights are lent: their branch and
+--                          department permissions, and any approval chain
+--                          steps they are the approver for
+--     delegate_user_id     who may approve on their behalf
+--     starts_on / ends_on  inclusive business days (Arizona time)
+--     revoked_at / _by     set when a delegation is ended early; rows are
+--                          kept so the history of who could approve stays
+--
+-- While a delegation is active the delegate sees the delegator's expenses and
+-- their approvals are recorded as "Delegate on behalf of Manager" in
+-- approval_modified_by and expense_approval_steps.decided_by.
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`) before
+-- deploying the code that reads it.
+create table if not exists approval_delegations (
+  id uuid primary key default gen_random_uuid(),
+  delegator_user_id uuid not null references users(id) on delete cascade,
+  delegate_user_id uuid not null references users(id) on delete cascade,
+  starts_on date not null,
+  ends_on date not null,
+  reason text,
+  created_by text,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz,
+  revoked_by text,
+  check (ends_on >= starts_on),
+  check (delegator_user_id <> delegate_user_id)
+);
+
+create index if not exists approval_delegations_delegate_idx
+  on approval_delegations (delegate_user_id, ends_on)
+  where revoked_at is null;
+
+create index if not exists approval_delegations_delegator_idx
+  on approval_delegations (delegator_user_id, ends_on);
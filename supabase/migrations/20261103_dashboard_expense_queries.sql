@@ -0,0 +1,354 @@
+-- Server-side dashboard queries.
+--
+-- The page used to load every expense since 2025-10-01 into the browser and
+-- filter, sort and total it there; the payload had grown to megabytes. These
+-- functions do the same work in Postgres so the dashboard only fetches one
+-- page of rows plus the totals for the active filters.
+--
+--   dashboard_expenses(user, filters)
+--                       every expense the user may see that matches the
+--                       filters: permission scope (their branch/department
+--                       permissions, or those of anyone who delegated to them
+--                       today; admins see everything), active exclusion
+--                       rules, and the dashboard filters. `filters` uses the
+--                       dashboard's filter names (months, branch, purchaser,
+--                       approvalStatus, ...); missing keys don't filter.
+--   dashboard_expense_page(user, filters, sort, descending, after_id, limit)
+--                       one page of the above in table order; pass the last
+--                       row's id as after_id for the next page (keyset, so
+--                       rows don't shift between pages as new ones sync)
+--   dashboard_expense_aggregates(user, filters)
+--                       the KPI cards and By Department/Purchaser/Vendor/
+--                       Category breakdowns, as jsonb
+--   dashboard_expense_trends(user, date_from, date_to, dimension)
+--                       monthly totals per department/purchaser/vendor/category
+--   dashboard_filter_options(user)
+--                       distinct vendors, purchasers, branches, departments,
+--                       categories and statuses in the user's scope
+--
+-- The rules mirror what ExpenseDashboard used to do client-side (lib/permissions,
+-- lib/exclusionRules, isBillSynced, isReceiptMissing), so totals don't move.
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`) BEFORE deploying:
+-- the dashboard now calls these through rpc().
+
+-- Mirrors the dashboard's department grouping (variants of Maintenance and
+-- Fleet & Equipment are combined)
+create or replace function normalize_department(p_department text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when lower(p_department) like '%maintenance%' then 'Maintenance'
+    when lower(p_department) like '%fleet%' then 'Fleet & Equipment'
+    else p_department
+  end;
+$$;
+
+-- A multi-select filter's values; empty when the key is missing
+create or replace function dashboard_filter_values(p_filters jsonb, p_key text)
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce(array(
+    select jsonb_array_elements_text(
+      case when jsonb_typeof(p_filters -> p_key) = 'array' then p_filters -> p_key else '[]'::jsonb end
+    )
+  ), '{}');
+$$;
+
+-- Bill.com card rows still owed a receipt (null receipt_status predates the
+-- column and doesn't count)
+create or replace function expense_receipt_missing(p_transaction_type text, p_receipt_status text)
+returns boolean
+language sql
+immutable
+as $$
+  select p_transaction_type = 'Credit Card'
+    and p_receipt_status is not null
+    and upper(p_receipt_status) not in ('ATTACHED', 'NOT_REQUIRED', 'EXEMPT');
+$$;
+
+create or replace function dashboard_expenses(p_user_id uuid, p_filters jsonb default '{}'::jsonb)
+returns setof expenses
+language sql
+stable
+as $$
+  with scope_users as (
+    select p_user_id as user_id
+    union
+    select d.delegator_user_id
+    from approval_delegations d
+    where d.delegate_user_id = p_user_id
+      and d.revoked_at is null
+      and d.starts_on <= (now() at time zone 'America/Phoenix')::date
+      and d.ends_on >= (now() at time zone 'America/Phoenix')::date
+  ),
+  scopes as (
+    select
+      u.is_admin,
+      array(select bp.branch_name from user_branch_permissions bp where bp.user_id = u.id) as branches,
+      array(select dp.department_name from user_department_permissions dp where dp.user_id = u.id) as departments
+    from users u
+    join scope_users s on s.user_id = u.id
+    where u.is_active
+  )
+  select e.*
+  from expenses e
+  where e.transaction_date >= '2025-10-01'
+    -- Permission scope: a non-admin with no permissions at all sees nothing
+    and exists (
+      select 1 from scopes s
+      where s.is_admin
+         or (
+           (cardinality(s.branches) > 0 or cardinality(s.departments) > 0)
+           and (cardinality(s.branches) = 0 or e.branch = any(s.branches))
+           and (cardinality(s.departments) = 0 or e.department = any(s.departments))
+         )
+    )
+    -- Exclusion rules (both actions hide rows from the dashboard)
+    and not exists (
+      select 1 from exclusion_rules r
+      where r.is_active
+        and case r.match_field
+          when 'category_prefix' then starts_with(e.category, trim(r.match_value))
+          when 'vendor' then lower(trim(e.vendor_name)) = lower(trim(r.match_value))
+          when 'department' then lower(trim(e.department)) = lower(trim(r.match_value))
+          when 'branch' then lower(trim(e.branch)) = lower(trim(r.match_value))
+          when 'transaction_type' then lower(trim(e.transaction_type)) = lower(trim(r.match_value))
+          else false
+        end
+    )
+    -- Dashboard filters
+    and (
+      cardinality(dashboard_filter_values(p_filters, 'months')) = 0
+      or 'all' = any(dashboard_filter_values(p_filters, 'months'))
+      or left(e.transaction_date::text, 7) = any(dashboard_filter_values(p_filters, 'months'))
+    )
+    and (coalesce(p_filters ->> 'branch', 'all') = 'all' or e.branch = p_filters ->> 'branch')
+    and (coalesce(p_filters ->> 'vendor', 'all') = 'all' or e.vendor_name = p_filters ->> 'vendor')
+    and (
+      coalesce(p_filters ->> 'department', 'all') = 'all'
+      or coalesce(normalize_department(e.department), '') = p_filters ->> 'department'
+    )
+    and (cardinality(dashboard_filter_values(p_filters, 'purchaser')) = 0 or e.cardholder = any(dashboard_filter_values(p_filters, 'purchaser')))
+    and (cardinality(dashboard_filter_values(p_filters, 'category')) = 0 or e.category = any(dashboard_filter_values(p_filters, 'category')))
+    and (coalesce(p_filters ->> 'dateFrom', '') = '' or left(e.transaction_date::text, 10) >= p_filters ->> 'dateFrom')
+    and (coalesce(p_filters ->> 'dateTo', '') = '' or left(e.transaction_date::text, 10) <= p_filters ->> 'dateTo')
+    and (
+      coalesce(p_filters ->> 'showFlagged', 'all') = 'all'
+      or (p_filters ->> 'showFlagged' = 'flagged' and e.flag_category is not null and e.flag_category <> 'Good to Sync')
+      or (p_filters ->> 'showFlagged' = 'unflagged' and (e.flag_category is null or e.flag_category = 'Good to Sync'))
+    )
+    and (cardinality(dashboard_filter_values(p_filters, 'flagCategory')) = 0 or e.flag_category = any(dashboard_filter_values(p_filters, 'flagCategory')))
+    and (e.flag_category is null or not (e.flag_category = any(dashboard_filter_values(p_filters, 'excludeFlagCategories'))))
+    and (coalesce(p_filters ->> 'transactionType', 'all') = 'all' or e.transaction_type = p_filters ->> 'transactionType')
+    and (coalesce(p_filters ->> 'status', 'all') = 'all' or e.status = p_filters ->> 'status')
+    and (
+      cardinality(dashboard_filter_values(p_filters, 'approvalStatus')) = 0
+      or coalesce(e.approval_status, 'pending') = any(dashboard_filter_values(p_filters, 'approvalStatus'))
+    )
+    -- Sync status only applies to Bill.com card rows
+    and (
+      coalesce(p_filters ->> 'syncStatus', 'all') = 'all'
+      or e.transaction_type <> 'Credit Card'
+      or (p_filters ->> 'syncStatus' = 'synced' and e.bill_sync_status in ('SYNCED', 'MANUAL_SYNCED'))
+      or (p_filters ->> 'syncStatus' = 'not-synced' and e.bill_sync_status is distinct from 'SYNCED' and e.bill_sync_status is distinct from 'MANUAL_SYNCED')
+    )
+    and (
+      coalesce(p_filters ->> 'receiptStatus', 'all') = 'all'
+      or (p_filters ->> 'receiptStatus' = 'missing' and expense_receipt_missing(e.transaction_type, e.receipt_status))
+      or (p_filters ->> 'receiptStatus' = 'attached' and e.transaction_type = 'Credit Card' and not expense_receipt_missing(e.transaction_type, e.receipt_status))
+    )
+    and (
+      coalesce(p_filters ->> 'comments', 'all') = 'all'
+      or (p_filters ->> 'comments' = 'unresolved' and e.unresolved_comment_count > 0)
+      or (p_filters ->> 'comments' = 'any' and e.comment_count > 0)
+    );
+$$;
+
+create or replace function dashboard_expense_page(
+  p_user_id uuid,
+  p_filters jsonb,
+  p_sort text,
+  p_descending boolean,
+  p_after_id uuid,
+  p_limit integer
+)
+returns setof expenses
+language plpgsql
+stable
+as $$
+declare
+  -- Whitelisted sort keys, matching the table's column sorts. Text columns
+  -- sort case-insensitively with missing values first, as the table did.
+  sort_expr text := case p_sort
+    when 'amount' then 'coalesce(e.amount, 0)'
+    when 'vendor' then 'lower(coalesce(e.vendor_name, ''''))'
+    when 'purchaser' then 'lower(coalesce(e.cardholder, ''''))'
+    when 'category' then 'lower(coalesce(e.category, ''''))'
+    when 'branch' then 'lower(coalesce(e.branch, ''''))'
+    when 'department' then 'lower(coalesce(e.department, ''''))'
+    when 'status' then 'coalesce(e.status, '''')'
+    else 'e.transaction_date'
+  end;
+  direction text := case when p_descending then 'desc' else 'asc' end;
+begin
+  -- The cursor row's own sort value is looked up here, so callers only pass
+  -- its id. The id breaks ties, so equal values never repeat or skip rows.
+  return query execute format(
+    'select e.* from dashboard_expenses($1, $2) e
+     where $3 is null
+        or (%1$s, e.id) %2$s ((select %1$s from expenses e where e.id = $3), $3)
+     order by %1$s %3$s, e.id %3$s
+     limit $4',
+    sort_expr,
+    case when p_descending then '<' else '>' end,
+    direction
+  )
+  using p_user_id, p_filters, p_after_id, p_limit;
+end;
+$$;
+
+create or replace function dashboard_expense_aggregates(p_user_id uuid, p_filters jsonb default '{}'::jsonb)
+returns jsonb
+language sql
+stable
+as $$
+  with filtered as (
+    select * from dashboard_expenses(p_user_id, p_filters)
+  ),
+  -- Category options ignore the category filter itself (and the status-style
+  -- filters), so picking one doesn't hide the others
+  category_base as (
+    select category from dashboard_expenses(p_user_id, jsonb_build_object(
+      'months', p_filters -> 'months',
+      'branch', p_filters -> 'branch',
+      'vendor', p_filters -> 'vendor',
+      'department', p_filters -> 'department',
+      'purchaser', p_filters -> 'purchaser',
+      'transactionType', p_filters -> 'transactionType'
+    ))
+  )
+  select jsonb_build_object(
+    'totalAmount', (select coalesce(sum(amount), 0) from filtered),
+    'totalCount', (select count(*) from filtered),
+    -- Vendor credits are negative, so totalAmount is already net of them
+    'creditAmount', (select coalesce(sum(amount) filter (where amount < 0), 0) from filtered),
+    'flaggedCount', (select count(*) from filtered where flag_category is not null and flag_category <> 'Good to Sync'),
+    'flaggedAmount', (select coalesce(sum(amount), 0) from filtered where flag_category is not null and flag_category <> 'Good to Sync'),
+    'missingReceiptCount', (select count(*) from filtered where expense_receipt_missing(transaction_type, receipt_status)),
+    'missingReceiptAmount', (select coalesce(sum(amount), 0) from filtered where expense_receipt_missing(transaction_type, receipt_status)),
+    'readyToSyncCount', (
+      select count(*) from filtered
+      where transaction_type = 'Credit Card' and status = 'Complete'
+        and bill_sync_status is distinct from 'SYNCED' and bill_sync_status is distinct from 'MANUAL_SYNCED'
+        and flag_category = 'Good to Sync'
+    ),
+    'readyToReviewCount', (
+      select count(*) from filtered
+      where transaction_type = 'Credit Card' and status = 'Complete'
+        and bill_sync_status is distinct from 'SYNCED' and bill_sync_status is distinct from 'MANUAL_SYNCED'
+        and flag_category is distinct from 'Has WO #' and flag_category is distinct from 'Good to Sync'
+    ),
+    'byBranch', (
+      select coalesce(jsonb_object_agg(branch, jsonb_build_object(
+        'amount', amount, 'count', count, 'unapprovedAmount', unapproved_amount, 'unapprovedCount', unapproved_count
+      )), '{}'::jsonb)
+      from (
+        select branch,
+               sum(amount) as amount,
+               count(*) as count,
+               coalesce(sum(amount) filter (where approval_status is distinct from 'approved'), 0) as unapproved_amount,
+               count(*) filter (where approval_status is distinct from 'approved') as unapproved_count
+        from filtered
+        where coalesce(branch, '') <> ''
+        group by branch
+      ) b
+    ),
+    'byDepartment', (
+      select coalesce(jsonb_object_agg(department, jsonb_build_object(
+        'amount', amount, 'count', count, 'unapprovedAmount', unapproved_amount, 'unapprovedCount', unapproved_count
+      )), '{}'::jsonb)
+      from (
+        select normalize_department(department) as department,
+               sum(amount) as amount,
+               count(*) as count,
+               coalesce(sum(amount) filter (where approval_status is distinct from 'approved'), 0) as unapproved_amount,
+               count(*) filter (where approval_status is distinct from 'approved') as unapproved_count
+        from filtered
+        where coalesce(department, '') <> ''
+        group by normalize_department(department)
+      ) d
+    ),
+    'byVendor', (
+      select coalesce(jsonb_object_agg(vendor_name, jsonb_build_object('amount', amount, 'count', count)), '{}'::jsonb)
+      from (
+        select vendor_name, sum(amount) as amount, count(*) as count
+        from filtered where coalesce(vendor_name, '') <> '' group by vendor_name
+      ) v
+    ),
+    'byPurchaser', (
+      select coalesce(jsonb_object_agg(cardholder, jsonb_build_object('amount', amount, 'count', count)), '{}'::jsonb)
+      from (
+        select cardholder, sum(amount) as amount, count(*) as count
+        from filtered where coalesce(cardholder, '') <> '' group by cardholder
+      ) p
+    ),
+    'byCategory', (
+      select coalesce(jsonb_object_agg(category, jsonb_build_object('amount', amount, 'count', count)), '{}'::jsonb)
+      from (
+        select category, sum(amount) as amount, count(*) as count
+        from filtered where coalesce(category, '') <> '' group by category
+      ) c
+    ),
+    'categories', (
+      select coalesce(jsonb_agg(distinct category order by category), '[]'::jsonb)
+      from category_base where coalesce(category, '') <> ''
+    )
+  );
+$$;
+
+create or replace function dashboard_expense_trends(
+  p_user_id uuid,
+  p_date_from text,
+  p_date_to text,
+  p_dimension text
+)
+returns table (month text, dimension text, amount numeric, count bigint)
+language sql
+stable
+as $$
+  select
+    left(e.transaction_date::text, 7) as month,
+    coalesce(nullif(case p_dimension
+      when 'purchaser' then e.cardholder
+      when 'vendor' then e.vendor_name
+      when 'category' then e.category
+      else e.department
+    end, ''), 'Unknown') as dimension,
+    sum(e.amount) as amount,
+    count(*) as count
+  from dashboard_expenses(p_user_id, jsonb_build_object('dateFrom', p_date_from, 'dateTo', p_date_to)) e
+  group by 1, 2;
+$$;
+
+create or replace function dashboard_filter_options(p_user_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  with visible as (
+    select * from dashboard_expenses(p_user_id, '{}'::jsonb)
+  )
+  select jsonb_build_object(
+    'vendors', (select coalesce(jsonb_agg(distinct vendor_name order by vendor_name) filter (where coalesce(vendor_name, '') <> ''), '[]'::jsonb) from visible),
+    'purchasers', (select coalesce(jsonb_agg(distinct cardholder order by cardholder) filter (where coalesce(cardholder, '') <> ''), '[]'::jsonb) from visible),
+    'branches', (select coalesce(jsonb_agg(distinct branch order by branch) filter (where coalesce(branch, '') <> ''), '[]'::jsonb) from visible),
+    'departments', (select coalesce(jsonb_agg(distinct department order by department) filter (where coalesce(department, '') <> ''), '[]'::jsonb) from visible),
+    'categories', (select coalesce(jsonb_agg(distinct category order by category) filter (where coalesce(category, '') <> ''), '[]'::jsonb) from visible),
+    'statuses', (select coalesce(jsonb_agg(distinct status order by status) filter (where coalesce(status, '') <> ''), '[]'::jsonb) from visible)
+  );
+$$;
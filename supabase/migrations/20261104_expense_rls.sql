@@ -0,0 +1,158 @@
+-- Row-level security on expenses.
+--
+-- Every read used to go through the service role, with branch/department
+-- permissions applied afterwards in JavaScript, so a route that forgot the
+-- filter leaked every expense. Reads on behalf of a signed-in user now use a
+-- client that carries their identity (createUserClient in lib/supabase.ts:
+-- a JWT signed with the project's JWT secret, sub = users.id, role
+-- authenticated), and Postgres applies the same rules as hasAccessToExpense:
+--
+--   admins            every expense
+--   branch list       expense.branch must be one of them (if any are set)
+--   department list   expense.department must be one of them (if any are set)
+--   neither           nothing
+--
+-- plus the scope of anyone who has delegated their approvals to the user
+-- for today (approval_delegations).
+--
+--   expense_scopes(user)      the permission sets that apply to a user: their
+--                             own, and each active delegator's. Security
+--                             definer, so the policy doesn't depend on the
+--                             caller being able to read users and the
+--                             permission tables.
+--   can_view_expense(user, branch, department)
+--
+-- Only a select policy is added: writes stay with the service role (syncs,
+-- approval and flag updates), which bypasses RLS. The anon role gets no
+-- access to expenses at all.
+--
+-- dashboard_expenses now takes its scope from expense_scopes as well, so the
+-- dashboard queries and the policy can't drift apart.
+--
+-- Requires SUPABASE_JWT_SECRET in the app's environment. Apply in the Supabase
+-- SQL editor (or via `supabase db push`) after deploying the code that sets it:
+-- until then reads made as the user would see no rows.
+create or replace function expense_scopes(p_user_id uuid)
+returns table (is_admin boolean, branches text[], departments text[])
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with scope_users as (
+    select p_user_id as user_id
+    union
+    select d.delegator_user_id
+    from approval_delegations d
+    where d.delegate_user_id = p_user_id
+      and d.revoked_at is null
+      and d.starts_on <= (now() at time zone 'America/Phoenix')::date
+      and d.ends_on >= (now() at time zone 'America/Phoenix')::date
+  )
+  select
+    u.is_admin,
+    array(select bp.branch_name from user_branch_permissions bp where bp.user_id = u.id),
+    array(select dp.department_name from user_department_permissions dp where dp.user_id = u.id)
+  from users u
+  join scope_users s on s.user_id = u.id
+  where u.is_active;
+$$;
+
+create or replace function can_view_expense(p_user_id uuid, p_branch text, p_department text)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1 from expense_scopes(p_user_id) s
+    where s.is_admin
+       or (
+         (cardinality(s.branches) > 0 or cardinality(s.departments) > 0)
+         and (cardinality(s.branches) = 0 or p_branch = any(s.branches))
+         and (cardinality(s.departments) = 0 or p_department = any(s.departments))
+       )
+  );
+$$;
+
+alter table expenses enable row level security;
+
+drop policy if exists expenses_select_in_scope on expenses;
+create policy expenses_select_in_scope on expenses
+  for select
+  to authenticated
+  using (can_view_expense((select auth.uid()), branch, department));
+
+grant select on expenses to authenticated;
+revoke all on expenses from anon;
+
+-- Same scope rules as the policy; the policy still applies on top when the
+-- caller is a user, so an admin's View As can only narrow what they see
+create or replace function dashboard_expenses(p_user_id uuid, p_filters jsonb default '{}'::jsonb)
+returns setof expenses
+language sql
+stable
+as $$
+  select e.*
+  from expenses e
+  where e.transaction_date >= '2025-10-01'
+    and can_view_expense(p_user_id, e.branch, e.department)
+    -- Exclusion rules (both actions hide rows from the dashboard)
+    and not exists (
+      select 1 from exclusion_rules r
+      where r.is_active
+        and case r.match_field
+          when 'category_prefix' then starts_with(e.category, trim(r.match_value))
+          when 'vendor' then lower(trim(e.vendor_name)) = lower(trim(r.match_value))
+          when 'department' then lower(trim(e.department)) = lower(trim(r.match_value))
+          when 'branch' then lower(trim(e.branch)) = lower(trim(r.match_value))
+          when 'transaction_type' then lower(trim(e.transaction_type)) = lower(trim(r.match_value))
+          else false
+        end
+    )
+    -- Dashboard filters
+    and (
+      cardinality(dashboard_filter_values(p_filters, 'months')) = 0
+      or 'all' = any(dashboard_filter_values(p_filters, 'months'))
+      or left(e.transaction_date::text, 7) = any(dashboard_filter_values(p_filters, 'months'))
+    )
+    and (coalesce(p_filters ->> 'branch', 'all') = 'all' or e.branch = p_filters ->> 'branch')
+    and (coalesce(p_filters ->> 'vendor', 'all') = 'all' or e.vendor_name = p_filters ->> 'vendor')
+    and (
+      coalesce(p_filters ->> 'department', 'all') = 'all'
+      or coalesce(normalize_department(e.department), '') = p_filters ->> 'department'
+    )
+    and (cardinality(dashboard_filter_values(p_filters, 'purchaser')) = 0 or e.cardholder = any(dashboard_filter_values(p_filters, 'purchaser')))
+    and (cardinality(dashboard_filter_values(p_filters, 'category')) = 0 or e.category = any(dashboard_filter_values(p_filters, 'category')))
+    and (coalesce(p_filters ->> 'dateFrom', '') = '' or left(e.transaction_date::text, 10) >= p_filters ->> 'dateFrom')
+    and (coalesce(p_filters ->> 'dateTo', '') = '' or left(e.transaction_date::text, 10) <= p_filters ->> 'dateTo')
+    and (
+      coalesce(p_filters ->> 'showFlagged', 'all') = 'all'
+      or (p_filters ->> 'showFlagged' = 'flagged' and e.flag_category is not null and e.flag_category <> 'Good to Sync')
+      or (p_filters ->> 'showFlagged' = 'unflagged' and (e.flag_category is null or e.flag_category = 'Good to Sync'))
+    )
+    and (cardinality(dashboard_filter_values(p_filters, 'flagCategory')) = 0 or e.flag_category = any(dashboard_filter_values(p_filters, 'flagCategory')))
+    and (e.flag_category is null or not (e.flag_category = any(dashboard_filter_values(p_filters, 'excludeFlagCategories'))))
+    and (coalesce(p_filters ->> 'transactionType', 'all') = 'all' or e.transaction_type = p_filters ->> 'transactionType')
+    and (coalesce(p_filters ->> 'status', 'all') = 'all' or e.status = p_filters ->> 'status')
+    and (
+      cardinality(dashboard_filter_values(p_filters, 'approvalStatus')) = 0
+      or coalesce(e.approval_status, 'pending') = any(dashboard_filter_values(p_filters, 'approvalStatus'))
+    )
+    -- Sync status only applies to Bill.com card rows
+    and (
+      coalesce(p_filters ->> 'syncStatus', 'all') = 'all'
+      or e.transaction_type <> 'Credit Card'
+      or (p_filters ->> 'syncStatus' = 'synced' and e.bill_sync_status in ('SYNCED', 'MANUAL_SYNCED'))
+      or (p_filters ->> 'syncStatus' = 'not-synced' and e.bill_sync_status is distinct from 'SYNCED' and e.bill_sync_status is distinct from 'MANUAL_SYNCED')
+    )
+    and (
+      coalesce(p_filters ->> 'receiptStatus', 'all') = 'all'
+      or (p_filters ->> 'receiptStatus' = 'missing' and expense_receipt_missing(e.transaction_type, e.receipt_status))
+      or (p_filters ->> 'receiptStatus' = 'attached' and e.transaction_type = 'Credit Card' and not expense_receipt_missing(e.transaction_type, e.receipt_status))
+    )
+    and (
+      coalesce(p_filters ->> 'comments', 'all') = 'all'
+      or (p_filters ->> 'comments' = 'unresolved' and e.unresolved_comment_count > 0)
+      or (p_filters ->> 'comments' = 'any' and e.comment_count > 0)
+    );
+$$;
@@ -0,0 +1,48 @@
+-- Named roles for dashboard users.
+--
+-- is_admin / can_send_slack were the only switches, so anyone who needed to
+-- flag or run a sync had to be a full admin. users.role replaces is_admin as
+-- the source of truth; what each role may do lives in ROLE_CAPABILITIES
+-- (types/user.ts):
+--
+--   viewer     sees expenses in their branches/departments
+--   reviewer   + flag and correct expenses
+--   approver   + approve/reject
+--   ap         flag, Slack reminders and syncs, but not approve
+--   admin      everything, including users, settings and View As
+--
+-- can_send_slack stays as a per-user grant of Slack notify for roles without
+-- it. is_finance_approver is unchanged: it picks who approves the finance step
+-- of an approval chain, on top of the user's role.
+--
+-- is_admin is kept, set from role by a trigger, because the expense scope
+-- (expense_scopes, hasAccessToExpense) reads it. Writes to is_admin alone are
+-- overwritten; change role instead.
+--
+-- Existing admins become admin. Every other existing user could approve in
+-- their scope before, so they become approver; new users start as viewer.
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`) before
+-- deploying the code that reads users.role.
+alter table users
+  add column if not exists role text not null default 'viewer'
+    check (role in ('viewer', 'reviewer', 'approver', 'ap', 'admin'));
+
+update users
+set role = case when is_admin then 'admin' else 'approver' end;
+
+create or replace function users_sync_is_admin()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.is_admin := new.role = 'admin';
+  return new;
+end;
+$$;
+
+drop trigger if exists users_sync_is_admin on users;
+create trigger users_sync_is_admin
+  before insert or update of role, is_admin on users
+  for each row
+  execute function users_sync_is_admin();
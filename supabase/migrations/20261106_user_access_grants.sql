@@ -0,0 +1,86 @@
+-- Branch × department access grants.
+--
+-- Access used to be two independent lists per user (user_branch_permissions,
+-- user_department_permissions) combined with AND, so "Maintenance in
+-- Phoenix - North plus Arbor in Las Vegas" couldn't be expressed without also
+-- granting Arbor in Phoenix - North. Each row of user_access_grants is now one
+-- pair, and a user sees an expense when any of their pairs covers it:
+--
+--   branch       the expense's branch, or null for any branch
+--   department   the expense's department, or null for any department
+--
+-- A user with no grants sees nothing (admins see everything, as before).
+--
+-- Existing permissions are migrated to the pairs that give the same access:
+-- every branch × department combination when a user had both lists, and a
+-- wildcard on the other side when they had only one. The old tables are left
+-- in place but no longer read; drop them once the new grants are confirmed.
+--
+-- expense_scopes / can_view_expense (expense_rls migration) are redefined on
+-- the grants, so row-level security and the dashboard queries follow along.
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`) before
+-- deploying the code that reads user_access_grants.
+create table if not exists user_access_grants (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  branch text,
+  department text,
+  created_at timestamptz not null default now(),
+  unique nulls not distinct (user_id, branch, department)
+);
+
+create index if not exists user_access_grants_user_id_idx on user_access_grants (user_id);
+
+insert into user_access_grants (user_id, branch, department)
+select u.id, bp.branch_name, dp.department_name
+from users u
+left join user_branch_permissions bp on bp.user_id = u.id
+left join user_department_permissions dp on dp.user_id = u.id
+where bp.branch_name is not null or dp.department_name is not null
+on conflict do nothing;
+
+-- One row per grant the user holds, directly or through an active delegation.
+-- Admins get a single row with is_admin set.
+drop function if exists expense_scopes(uuid);
+create function expense_scopes(p_user_id uuid)
+returns table (is_admin boolean, branch text, department text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with scope_users as (
+    select p_user_id as user_id
+    union
+    select d.delegator_user_id
+    from approval_delegations d
+    where d.delegate_user_id = p_user_id
+      and d.revoked_at is null
+      and d.starts_on <= (now() at time zone 'America/Phoenix')::date
+      and d.ends_on >= (now() at time zone 'America/Phoenix')::date
+  )
+  select u.is_admin, g.branch, g.department
+  from users u
+  join scope_users s on s.user_id = u.id
+  left join user_access_grants g on g.user_id = u.id and not u.is_admin
+  where u.is_active
+    and (u.is_admin or g.id is not null);
+$$;
+
+-- Mirrors hasAccessToExpense: a missing branch or department only matches a
+-- wildcard
+create or replace function can_view_expense(p_user_id uuid, p_branch text, p_department text)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1 from expense_scopes(p_user_id) s
+    where s.is_admin
+       or (
+         (s.branch is null or s.branch = p_branch)
+         and (s.department is null or s.department = p_department)
+       )
+  );
+$$;
@@ -0,0 +1,185 @@
+-- Branch hierarchy.
+--
+-- Branches were flat strings, so a regional manager needed every Phoenix
+-- branch granted one by one, the By Branch cards were a hard-coded list, and
+-- the Bill.com sync mapped "Phoenix:Phx - North"-style names in code
+-- (normalizeBranchName). Now:
+--
+--   branches          one row per branch or region; parent_id makes a tree
+--                     (region -> branch). name is what expenses, grants and
+--                     filters store.
+--   branch_aliases    what Bill.com or NetSuite call a branch (source, alias),
+--                     mapped to one of ours by the syncs and used in reverse
+--                     when a correction is written back.
+--
+-- A grant, filter or Slack summary on a branch covers the branch and all of
+-- its descendants (branch_subtree), so granting "Phoenix" covers
+-- "Phoenix - North", "Phoenix - SouthEast" and "Phoenix - SouthWest" plus
+-- expenses tagged with the region itself.
+--
+-- Seeded with the current branches and the Bill.com names normalizeBranchName
+-- used to map; any other branch already on an expense is added at the top
+-- level. Apply in the Supabase SQL editor (or via `supabase db push`) before
+-- deploying the code that reads branches.
+create table if not exists branches (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  parent_id uuid references branches(id) on delete restrict,
+  created_at timestamptz not null default now(),
+  check (parent_id is distinct from id)
+);
+
+create index if not exists branches_parent_id_idx on branches (parent_id);
+
+create table if not exists branch_aliases (
+  id uuid primary key default gen_random_uuid(),
+  branch_id uuid not null references branches(id) on delete cascade,
+  source text not null check (source in ('bill', 'netsuite')),
+  alias text not null,
+  created_at timestamptz not null default now(),
+  unique (source, alias)
+);
+
+insert into branches (name) values
+  ('Phoenix'), ('Las Vegas'), ('Corporate')
+on conflict (name) do nothing;
+
+insert into branches (name, parent_id)
+select child.name, (select id from branches where name = 'Phoenix')
+from (values ('Phoenix - North'), ('Phoenix - SouthEast'), ('Phoenix - SouthWest')) as child(name)
+on conflict (name) do nothing;
+
+insert into branches (name)
+select distinct e.branch from expenses e
+where coalesce(e.branch, '') <> ''
+on conflict (name) do nothing;
+
+insert into branch_aliases (branch_id, source, alias)
+select b.id, 'bill', a.alias
+from (values
+  ('Phoenix:Phx - North', 'Phoenix - North'),
+  ('Phoenix:Phx - SouthEast', 'Phoenix - SouthEast'),
+  ('Phoenix:Phx - SouthWest', 'Phoenix - SouthWest')
+) as a(alias, branch_name)
+join branches b on b.name = a.branch_name
+on conflict (source, alias) do nothing;
+
+-- A branch name and every branch below it. Names that aren't in the table
+-- (yet) still cover themselves.
+create or replace function branch_subtree(p_branch text)
+returns setof text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with recursive subtree(id, name) as (
+    select b.id, p_branch
+    from (select p_branch) as requested
+    left join branches b on b.name = p_branch
+    union
+    select child.id, child.name
+    from branches child
+    join subtree s on child.parent_id = s.id
+  )
+  select name from subtree;
+$$;
+
+-- Grants on a region expand to its sub-branches; a null (any) branch stays null
+create or replace function expense_scopes(p_user_id uuid)
+returns table (is_admin boolean, branch text, department text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with scope_users as (
+    select p_user_id as user_id
+    union
+    select d.delegator_user_id
+    from approval_delegations d
+    where d.delegate_user_id = p_user_id
+      and d.revoked_at is null
+      and d.starts_on <= (now() at time zone 'America/Phoenix')::date
+      and d.ends_on >= (now() at time zone 'America/Phoenix')::date
+  )
+  select u.is_admin, covered.name, g.department
+  from users u
+  join scope_users s on s.user_id = u.id
+  left join user_access_grants g on g.user_id = u.id and not u.is_admin
+  left join lateral branch_subtree(g.branch) as covered(name) on true
+  where u.is_active
+    and (u.is_admin or g.id is not null);
+$$;
+
+-- The branch filter now covers the selected branch's sub-branches too, so the
+-- By Branch cards can drill from a region into its branches
+create or replace function dashboard_expenses(p_user_id uuid, p_filters jsonb default '{}'::jsonb)
+returns setof expenses
+language sql
+stable
+as $$
+  select e.*
+  from expenses e
+  where e.transaction_date >= '2025-10-01'
+    and can_view_expense(p_user_id, e.branch, e.department)
+    -- Exclusion rules (both actions hide rows from the dashboard)
+    and not exists (
+      select 1 from exclusion_rules r
+      where r.is_active
+        and case r.match_field
+          when 'category_prefix' then starts_with(e.category, trim(r.match_value))
+          when 'vendor' then lower(trim(e.vendor_name)) = lower(trim(r.match_value))
+          when 'department' then lower(trim(e.department)) = lower(trim(r.match_value))
+          when 'branch' then lower(trim(e.branch)) = lower(trim(r.match_value))
+          when 'transaction_type' then lower(trim(e.transaction_type)) = lower(trim(r.match_value))
+          else false
+        end
+    )
+    -- Dashboard filters
+    and (
+      cardinality(dashboard_filter_values(p_filters, 'months')) = 0
+      or 'all' = any(dashboard_filter_values(p_filters, 'months'))
+      or left(e.transaction_date::text, 7) = any(dashboard_filter_values(p_filters, 'months'))
+    )
+    and (coalesce(p_filters ->> 'branch', 'all') = 'all' or e.branch in (select branch_subtree(p_filters ->> 'branch')))
+    and (coalesce(p_filters ->> 'vendor', 'all') = 'all' or e.vendor_name = p_filters ->> 'vendor')
+    and (
+      coalesce(p_filters ->> 'department', 'all') = 'all'
+      or coalesce(normalize_department(e.department), '') = p_filters ->> 'department'
+    )
+    and (cardinality(dashboard_filter_values(p_filters, 'purchaser')) = 0 or e.cardholder = any(dashboard_filter_values(p_filters, 'purchaser')))
+    and (cardinality(dashboard_filter_values(p_filters, 'category')) = 0 or e.category = any(dashboard_filter_values(p_filters, 'category')))
+    and (coalesce(p_filters ->> 'dateFrom', '') = '' or left(e.transaction_date::text, 10) >= p_filters ->> 'dateFrom')
+    and (coalesce(p_filters ->> 'dateTo', '') = '' or left(e.transaction_date::text, 10) <= p_filters ->> 'dateTo')
+    and (
+      coalesce(p_filters ->> 'showFlagged', 'all') = 'all'
+      or (p_filters ->> 'showFlagged' = 'flagged' and e.flag_category is not null and e.flag_category <> 'Good to Sync')
+      or (p_filters ->> 'showFlagged' = 'unflagged' and (e.flag_category is null or e.flag_category = 'Good to Sync'))
+    )
+    and (cardinality(dashboard_filter_values(p_filters, 'flagCategory')) = 0 or e.flag_category = any(dashboard_filter_values(p_filters, 'flagCategory')))
+    and (e.flag_category is null or not (e.flag_category = any(dashboard_filter_values(p_filters, 'excludeFlagCategories'))))
+    and (coalesce(p_filters ->> 'transactionType', 'all') = 'all' or e.transaction_type = p_filters ->> 'transactionType')
+    and (coalesce(p_filters ->> 'status', 'all') = 'all' or e.status = p_filters ->> 'status')
+    and (
+      cardinality(dashboard_filter_values(p_filters, 'approvalStatus')) = 0
+      or coalesce(e.approval_status, 'pending') = any(dashboard_filter_values(p_filters, 'approvalStatus'))
+    )
+    -- Sync status only applies to Bill.com card rows
+    and (
+      coalesce(p_filters ->> 'syncStatus', 'all') = 'all'
+      or e.transaction_type <> 'Credit Card'
+      or (p_filters ->> 'syncStatus' = 'synced' and e.bill_sync_status in ('SYNCED', 'MANUAL_SYNCED'))
+      or (p_filters ->> 'syncStatus' = 'not-synced' and e.bill_sync_status is distinct from 'SYNCED' and e.bill_sync_status is distinct from 'MANUAL_SYNCED')
+    )
+    and (
+      coalesce(p_filters ->> 'receiptStatus', 'all') = 'all'
+      or (p_filters ->> 'receiptStatus' = 'missing' and expense_receipt_missing(e.transaction_type, e.receipt_status))
+      or (p_filters ->> 'receiptStatus' = 'attached' and e.transaction_type = 'Credit Card' and not expense_receipt_missing(e.transaction_type, e.receipt_status))
+    )
+    and (
+      coalesce(p_filters ->> 'comments', 'all') = 'all'
+      or (p_filters ->> 'comments' = 'unresolved' and e.unresolved_comment_count > 0)
+      or (p_filters ->> 'comments' = 'any' and e.comment_count > 0)
+    );
+$$;
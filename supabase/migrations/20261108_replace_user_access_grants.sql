@@ -0,0 +1,26 @@
+-- Replace a user's access grants in one transaction.
+--
+-- PATCH /api/users/[id] used to delete the user's grants and then insert the
+-- new ones as two requests, so a failed insert left the user with no access
+-- while the admin was told the save worked. replace_user_access_grants does
+-- both in one function call, which Postgres runs as a single transaction: on
+-- any error the old grants are kept.
+--
+--   p_grants   jsonb array of { branch, department }, null meaning any
+--
+-- Only the service role calls it. Apply in the Supabase SQL editor (or via
+-- `supabase db push`) before deploying the code that calls it.
+create or replace function replace_user_access_grants(p_user_id uuid, p_grants jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  delete from user_access_grants where user_id = p_user_id;
+
+  insert into user_access_grants (user_id, branch, department)
+  select distinct p_user_id, g ->> 'branch', g ->> 'department'
+  from jsonb_array_elements(coalesce(p_grants, '[]'::jsonb)) as g;
+end;
+$$;
+
+revoke execute on function replace_user_access_grants(uuid, jsonb) from public, anon, authenticated;
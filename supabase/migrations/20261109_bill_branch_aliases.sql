@@ -0,0 +1,23 @@
+-- Bill.com aliases for every Phoenix branch normalizeBranchName used to map.
+--
+-- Besides the three names it listed, normalizeBranchName turned any Bill.com
+-- "Phoenix:Phx…" value into "Phoenix…". The branch_hierarchy migration only
+-- seeded the three, so any other such branch (already on expenses, and so in
+-- branches at the top level) was stored raw by the next sync and fell outside
+-- "Phoenix" grants and rollups. For each of them this adds the Bill.com alias
+-- the old code would have mapped, and moves top-level ones under Phoenix.
+-- Only "Phoenix - …" names are matched: Bill.com's Phoenix branches are all
+-- "Phoenix:Phx - …", and a looser prefix would catch unrelated branches.
+--
+-- resolveBranchName keeps the same prefix rule for Bill.com names not in the
+-- table yet. Apply in the Supabase SQL editor (or via `supabase db push`).
+insert into branch_aliases (branch_id, source, alias)
+select b.id, 'bill', 'Phoenix:Phx' || substr(b.name, length('Phoenix') + 1)
+from branches b
+where b.name like 'Phoenix - %'
+on conflict (source, alias) do nothing;
+
+update branches b
+set parent_id = (select id from branches where name = 'Phoenix')
+where b.name like 'Phoenix - %'
+  and b.parent_id is null;
@@ -0,0 +1,97 @@
+-- Close the ways around row-level security on expenses.
+--
+-- The expense_rls migration only locked down expenses itself. With the public
+-- anon key (or any signed-in user's token) it could still be bypassed:
+--
+--   expense_branch_departments   a view runs with its owner's rights, so it
+--                                listed every branch/department pair and
+--                                expense count. It now runs as the caller
+--                                (security_invoker); the app reads it with the
+--                                service role.
+--   expense_scopes / can_view_expense / branch_subtree
+--                                executable by PUBLIC by default, so anyone
+--                                could read any user's grants and admin flag.
+--                                Only signed-in users (whose policy needs them)
+--                                can call them now, and expense_scopes only
+--                                answers for the caller themselves, or for
+--                                anyone when the caller is an admin (View As)
+--                                or the service role.
+--   supporting tables            the tables added alongside the dashboard had
+--                                no RLS, so Supabase's default grants let
+--                                anyone read and write them, including the
+--                                append-only audit log. RLS is enabled with no
+--                                policies: only the service role (which
+--                                bypasses RLS, and is what the app uses for
+--                                them) has access. Approval policy steps are a
+--                                column of approval_policies, so they are
+--                                covered by it.
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`). No code change
+-- depends on it.
+alter view expense_branch_departments set (security_invoker = true);
+revoke all on expense_branch_departments from anon, authenticated;
+
+create or replace function expense_scopes(p_user_id uuid)
+returns table (is_admin boolean, branch text, department text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with scope_users as (
+    select p_user_id as user_id
+    union
+    select d.delegator_user_id
+    from approval_delegations d
+    where d.delegate_user_id = p_user_id
+      and d.revoked_at is null
+      and d.starts_on <= (now() at time zone 'America/Phoenix')::date
+      and d.ends_on >= (now() at time zone 'America/Phoenix')::date
+  )
+  select u.is_admin, covered.name, g.department
+  from users u
+  join scope_users s on s.user_id = u.id
+  left join user_access_grants g on g.user_id = u.id and not u.is_admin
+  left join lateral branch_subtree(g.branch) as covered(name) on true
+  where u.is_active
+    and (u.is_admin or g.id is not null)
+    and (
+      p_user_id = (select auth.uid())
+      or (select auth.role()) = 'service_role'
+      or exists (
+        select 1 from users caller
+        where caller.id = (select auth.uid()) and caller.is_admin and caller.is_active
+      )
+    );
+$$;
+
+revoke execute on function expense_scopes(uuid) from public, anon;
+revoke execute on function can_view_expense(uuid, text, text) from public, anon;
+revoke execute on function branch_subtree(text) from public, anon;
+grant execute on function expense_scopes(uuid) to authenticated;
+grant execute on function can_view_expense(uuid, text, text) to authenticated;
+grant execute on function branch_subtree(text) to authenticated;
+
+alter table audit_events enable row level security;
+alter table expense_comments enable row level security;
+alter table slack_notifications enable row level security;
+alter table user_access_grants enable row level security;
+alter table approval_policies enable row level security;
+alter table department_managers enable row level security;
+alter table expense_approval_steps enable row level security;
+alter table approval_delegations enable row level security;
+alter table branches enable row level security;
+alter table branch_aliases enable row level security;
+
+revoke all on
+  audit_events,
+  expense_comments,
+  slack_notifications,
+  user_access_grants,
+  approval_policies,
+  department_managers,
+  expense_approval_steps,
+  approval_delegations,
+  branches,
+  branch_aliases
+from anon, authenticated;
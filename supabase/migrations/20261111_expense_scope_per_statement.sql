@@ -0,0 +1,142 @@
+-- Per-statement expense scopes, and RLS on the rest of the supporting tables.
+--
+-- The expenses policy called can_view_expense for every row, and each call
+-- re-derived the user's scopes (delegations, grants, the branch_subtree
+-- walk); dashboard_expenses then ran the same check again. Both now match rows
+-- against expense_scopes(...) in an exists: its argument doesn't depend on
+-- the row, so Postgres runs the function once per statement and rescans the
+-- stored result. dashboard_expenses only adds its own scope check for View
+-- As, since the policy already covers the caller's own scope.
+--
+-- The rls_hardening migration left these tables open to anyone with the anon
+-- key: expense_changes, exclusion_rules, expense_corrections,
+-- digest_schedules, digest_history, escalation_rules, branch_managers and
+-- slack_channel_routes. They get RLS with no policies too, so only the service
+-- role can use them. dashboard_expenses runs as the user and reads exclusion
+-- rules, so it now goes through active_exclusion_rules (security definer,
+-- active rules only).
+--
+-- Apply in the Supabase SQL editor (or via `supabase db push`). No code change
+-- depends on it.
+drop policy if exists expenses_select_in_scope on expenses;
+create policy expenses_select_in_scope on expenses
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from expense_scopes((select auth.uid())) s
+      where s.is_admin
+         or ((s.branch is null or s.branch = expenses.branch) and (s.department is null or s.department = expenses.department))
+    )
+  );
+
+create or replace function active_exclusion_rules()
+returns setof exclusion_rules
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from exclusion_rules where is_active;
+$$;
+
+revoke execute on function active_exclusion_rules() from public, anon;
+grant execute on function active_exclusion_rules() to authenticated;
+
+create or replace function dashboard_expenses(p_user_id uuid, p_filters jsonb default '{}'::jsonb)
+returns setof expenses
+language sql
+stable
+as $$
+  select e.*
+  from expenses e
+  where e.transaction_date >= '2025-10-01'
+    -- The policy on expenses already limits a user to their own scope; only
+    -- View As (an admin querying as someone else) needs narrowing here
+    and (
+      p_user_id = (select auth.uid())
+      or exists (
+        select 1 from expense_scopes(p_user_id) s
+        where s.is_admin
+           or ((s.branch is null or s.branch = e.branch) and (s.department is null or s.department = e.department))
+      )
+    )
+    -- Exclusion rules (both actions hide rows from the dashboard)
+    and not exists (
+      select 1 from active_exclusion_rules() r
+      where case r.match_field
+          when 'category_prefix' then starts_with(e.category, trim(r.match_value))
+          when 'vendor' then lower(trim(e.vendor_name)) = lower(trim(r.match_value))
+          when 'department' then lower(trim(e.department)) = lower(trim(r.match_value))
+          when 'branch' then lower(trim(e.branch)) = lower(trim(r.match_value))
+          when 'transaction_type' then lower(trim(e.transaction_type)) = lower(trim(r.match_value))
+          else false
+        end
+    )
+    -- Dashboard filters
+    and (
+      cardinality(dashboard_filter_values(p_filters, 'months')) = 0
+      or 'all' = any(dashboard_filter_values(p_filters, 'months'))
+      or left(e.transaction_date::text, 7) = any(dashboard_filter_values(p_filters, 'months'))
+    )
+    and (coalesce(p_filters ->> 'branch', 'all') = 'all' or e.branch in (select branch_subtree(p_filters ->> 'branch')))
+    and (coalesce(p_filters ->> 'vendor', 'all') = 'all' or e.vendor_name = p_filters ->> 'vendor')
+    and (
+      coalesce(p_filters ->> 'department', 'all') = 'all'
+      or coalesce(normalize_department(e.department), '') = p_filters ->> 'department'
+    )
+    and (cardinality(dashboard_filter_values(p_filters, 'purchaser')) = 0 or e.cardholder = any(dashboard_filter_values(p_filters, 'purchaser')))
+    and (cardinality(dashboard_filter_values(p_filters, 'category')) = 0 or e.category = any(dashboard_filter_values(p_filters, 'category')))
+    and (coalesce(p_filters ->> 'dateFrom', '') = '' or left(e.transaction_date::text, 10) >= p_filters ->> 'dateFrom')
+    and (coalesce(p_filters ->> 'dateTo', '') = '' or left(e.transaction_date::text, 10) <= p_filters ->> 'dateTo')
+    and (
+      coalesce(p_filters ->> 'showFlagged', 'all') = 'all'
+      or (p_filters ->> 'showFlagged' = 'flagged' and e.flag_category is not null and e.flag_category <> 'Good to Sync')
+      or (p_filters ->> 'showFlagged' = 'unflagged' and (e.flag_category is null or e.flag_category = 'Good to Sync'))
+    )
+    and (cardinality(dashboard_filter_values(p_filters, 'flagCategory')) = 0 or e.flag_category = any(dashboard_filter_values(p_filters, 'flagCategory')))
+    and (e.flag_category is null or not (e.flag_category = any(dashboard_filter_values(p_filters, 'excludeFlagCategories'))))
+    and (coalesce(p_filters ->> 'transactionType', 'all') = 'all' or e.transaction_type = p_filters ->> 'transactionType')
+    and (coalesce(p_filters ->> 'status', 'all') = 'all' or e.status = p_filters ->> 'status')
+    and (
+      cardinality(dashboard_filter_values(p_filters, 'approvalStatus')) = 0
+      or coalesce(e.approval_status, 'pending') = any(dashboard_filter_values(p_filters, 'approvalStatus'))
+    )
+    -- Sync status only applies to Bill.com card rows
+    and (
+      coalesce(p_filters ->> 'syncStatus', 'all') = 'all'
+      or e.transaction_type <> 'Credit Card'
+      or (p_filters ->> 'syncStatus' = 'synced' and e.bill_sync_status in ('SYNCED', 'MANUAL_SYNCED'))
+      or (p_filters ->> 'syncStatus' = 'not-synced' and e.bill_sync_status is distinct from 'SYNCED' and e.bill_sync_status is distinct from 'MANUAL_SYNCED')
+    )
+    and (
+      coalesce(p_filters ->> 'receiptStatus', 'all') = 'all'
+      or (p_filters ->> 'receiptStatus' = 'missing' and expense_receipt_missing(e.transaction_type, e.receipt_status))
+      or (p_filters ->> 'receiptStatus' = 'attached' and e.transaction_type = 'Credit Card' and not expense_receipt_missing(e.transaction_type, e.receipt_status))
+    )
+    and (
+      coalesce(p_filters ->> 'comments', 'all') = 'all'
+      or (p_filters ->> 'comments' = 'unresolved' and e.unresolved_comment_count > 0)
+      or (p_filters ->> 'comments' = 'any' and e.comment_count > 0)
+    );
+$$;
+
+alter table expense_changes enable row level security;
+alter table exclusion_rules enable row level security;
+alter table expense_corrections enable row level security;
+alter table digest_schedules enable row level security;
+alter table digest_history enable row level security;
+alter table escalation_rules enable row level security;
+alter table branch_managers enable row level security;
+alter table slack_channel_routes enable row level security;
+
+revoke all on
+  expense_changes,
+  exclusion_rules,
+  expense_corrections,
+  digest_schedules,
+  digest_history,
+  escalation_rules,
+  branch_managers,
+  slack_channel_routes
+from anon, authenticated;
@@ -0,0 +1,26 @@
+-- Replace a branch's Bill.com / NetSuite aliases in one transaction.
+--
+-- PATCH /api/branches/[id] deleted the branch's aliases and inserted the new
+-- ones as two requests, so a failed insert (e.g. a name another branch
+-- already uses) left the branch with none and the syncs stopped mapping its
+-- names. replace_branch_aliases does both in one function call, which
+-- Postgres runs as a single transaction: on any error the old aliases stay.
+--
+--   p_aliases   jsonb array of { source, alias }
+--
+-- Only the service role calls it. Apply in the Supabase SQL editor (or via
+-- `supabase db push`) before deploying the code that calls it.
+create or replace function replace_branch_aliases(p_branch_id uuid, p_aliases jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  delete from branch_aliases where branch_id = p_branch_id;
+
+  insert into branch_aliases (branch_id, source, alias)
+  select distinct p_branch_id, a ->> 'source', a ->> 'alias'
+  from jsonb_array_elements(coalesce(p_aliases, '[]'::jsonb)) as a;
+end;
+$$;
+
+revoke execute on function replace_branch_aliases(uuid, jsonb) from public, anon, authenticated;
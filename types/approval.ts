@@ -0,0 +1,98 @@
+// Multi-step approval chains (see the approval_chains migration).
+
+import { Expense } from './expense';
+
+export type ApproverRole = 'department_manager' | 'branch_manager' | 'finance';
+
+export interface ApprovalPolicyStep {
+  approver_role: ApproverRole;
+  min_amount: number;
+  max_amount: number | null; // exclusive; null = no upper bound
+}
+
+export interface ApprovalPolicy {
+  id: string;
+  name: string;
+  branch: string | null; // null = any branch
+  department: string | null; // null = any department
+  steps: ApprovalPolicyStep[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DepartmentManager {
+  department: string;
+  user_id: string;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export type ApprovalDecision = 'approved' | 'rejected';
+
+export interface ExpenseApprovalStep {
+  id: string;
+  expense_id: string;
+  step_order: number;
+  approver_role: ApproverRole;
+  decision: ApprovalDecision;
+  decided_by_user_id: string | null;
+  decided_by: string;
+  decided_at: string;
+}
+
+// One step of an expense's chain as shown in its details panel
+export interface ApprovalChainStepStatus {
+  step_order: number;
+  approver_role: ApproverRole;
+  approver_name: string | null; // null = nobody assigned
+  status: ApprovalDecision | 'current' | 'upcoming';
+  decided_by: string | null;
+  decided_at: string | null;
+}
+
+export const APPROVER_ROLES: ApproverRole[] = ['department_manager', 'branch_manager', 'finance'];
+
+export const APPROVER_ROLE_LABELS: Record<ApproverRole, string> = {
+  department_manager: 'Department manager',
+  branch_manager: 'Branch manager',
+  finance: 'Finance',
+};
+
+type ChainExpense = Pick<Expense, 'branch' | 'department' | 'amount'>;
+
+// The active policy for an expense: branch + department beats branch alone,
+// which beats department alone, which beats the default (neither set).
+export function findApprovalPolicy(
+  policies: ApprovalPolicy[],
+  expense: ChainExpense
+): ApprovalPolicy | null {
+  let best: ApprovalPolicy | null = null;
+  let bestScore = -1;
+  for (const policy of policies) {
+    if (!policy.is_active) continue;
+    if (policy.branch && policy.branch !== expense.branch) continue;
+    if (policy.department && policy.department !== expense.department) continue;
+    const score = (policy.branch ? 2 : 0) + (policy.department ? 1 : 0);
+    if (score > bestScore) {
+      best = policy;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// The steps an expense has to pass, in order. Empty when no policy applies,
+// in which case anyone who can see the expense may approve it in one go.
+export function getApprovalChain(
+  policies: ApprovalPolicy[],
+  expense: ChainExpense
+): ApprovalPolicyStep[] {
+  const policy = findApprovalPolicy(policies, expense);
+  if (!policy) return [];
+  const amount = Math.abs(Number(expense.amount) || 0);
+  return policy.steps.filter(step =>
+    amount >= step.min_amount && (step.max_amount === null || amount < step.max_amount)
+  );
+}
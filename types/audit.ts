@@ -0,0 +1,102 @@
+// Append-only record of who did what (see the audit_events migration).
+
+export type AuditAction =
+  | 'expense.flag'
+  | 'expense.approval'
+  | 'expense.correction_request'
+  | 'expense.correction'
+  | 'comment.create'
+  | 'comment.update'
+  | 'comment.delete'
+  | 'user.create'
+  | 'user.update'
+  | 'user.permissions'
+  | 'user.delete'
+  | 'user.auto_create'
+  | 'user.slack_sync'
+  | 'sync.run'
+  | 'delegation.create'
+  | 'delegation.revoke'
+  | 'masquerade.start'
+  | 'masquerade.end'
+  | 'slack.notify'
+  | 'slack.department_summary'
+  | 'slack.digest_run'
+  | 'slack.escalation_run'
+  | 'settings.create'
+  | 'settings.update'
+  | 'settings.delete';
+
+export type AuditEntityType =
+  | 'expense'
+  | 'comment'
+  | 'user'
+  | 'sync'
+  | 'exclusion_rule'
+  | 'digest_schedule'
+  | 'escalation_rule'
+  | 'branch_manager'
+  | 'department_manager'
+  | 'slack_channel_route'
+  | 'approval_policy'
+  | 'delegation'
+  | 'branch';
+
+export interface AuditEvent {
+  id: string;
+  occurred_at: string;
+  actor_email: string;
+  actor_name: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  summary: string;
+  details: Record<string, unknown> | null;
+}
+
+// Who acted: a dashboard or Slack user, or 'system' for scheduled jobs
+export const SYSTEM_ACTOR = 'system';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'expense.flag': 'Flag changed',
+  'expense.approval': 'Approval changed',
+  'expense.correction_request': 'Correction requested',
+  'expense.correction': 'Correction submitted',
+  'comment.create': 'Comment added',
+  'comment.update': 'Comment edited / resolved',
+  'comment.delete': 'Comment deleted',
+  'user.create': 'User created',
+  'user.update': 'User updated',
+  'user.permissions': 'Permissions changed',
+  'user.delete': 'User deleted',
+  'user.auto_create': 'Users auto-created',
+  'user.slack_sync': 'Slack users synced',
+  'sync.run': 'Sync run',
+  'delegation.create': 'Delegation created',
+  'delegation.revoke': 'Delegation revoked',
+  'masquerade.start': 'Masquerade started',
+  'masquerade.end': 'Masquerade ended',
+  'slack.notify': 'Slack notification',
+  'slack.department_summary': 'Department summary sent',
+  'slack.digest_run': 'Digest run',
+  'slack.escalation_run': 'Escalation run',
+  'settings.create': 'Setting created',
+  'settings.update': 'Setting updated',
+  'settings.delete': 'Setting deleted',
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  expense: 'Expense',
+  comment: 'Comment',
+  user: 'User',
+  sync: 'Sync',
+  exclusion_rule: 'Exclusion rule',
+  digest_schedule: 'Digest schedule',
+  escalation_rule: 'Escalation rule',
+  branch_manager: 'Branch manager',
+  department_manager: 'Department manager',
+  slack_channel_route: 'Slack channel route',
+  approval_policy: 'Approval policy',
+  delegation: 'Delegation',
+  branch: 'Branch',
+};
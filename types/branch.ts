@@ -0,0 +1,85 @@
+// Branch hierarchy (see the branch_hierarchy migration).
+
+export type BranchSource = 'bill' | 'netsuite';
+
+export interface Branch {
+  id: string;
+  name: string;
+  parent_id: string | null; // null = top level (a region or standalone branch)
+  created_at: string;
+}
+
+// What Bill.com or NetSuite call one of our branches
+export interface BranchAlias {
+  id: string;
+  branch_id: string;
+  source: BranchSource;
+  alias: string;
+  created_at: string;
+}
+
+export interface BranchWithAliases extends Branch {
+  aliases: Pick<BranchAlias, 'source' | 'alias'>[];
+}
+
+export const BRANCH_SOURCES: BranchSource[] = ['bill', 'netsuite'];
+
+export const BRANCH_SOURCE_LABELS: Record<BranchSource, string> = {
+  bill: 'Bill.com',
+  netsuite: 'NetSuite',
+};
+
+// The branches directly below `name` (top-level branches for null), by name
+export function getChildBranches(branches: Branch[], name: string | null): Branch[] {
+  const parent = name === null ? null : branches.find(b => b.name === name);
+  if (name !== null && !parent) return [];
+  return branches
+    .filter(b => b.parent_id === (parent ? parent.id : null))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// `name` and every branch below it. A name not in the table covers only itself,
+// matching branch_subtree in SQL.
+export function getBranchSubtree(branches: Branch[], name: string): string[] {
+  const subtree = [name];
+  const root = branches.find(b => b.name === name);
+  if (!root) return subtree;
+
+  const queue = [root.id];
+  const seen = new Set(queue);
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    for (const child of branches.filter(b => b.parent_id === parentId)) {
+      if (seen.has(child.id)) continue;
+      seen.add(child.id);
+      subtree.push(child.name);
+      queue.push(child.id);
+    }
+  }
+  return subtree;
+}
+
+// Whether `branch` is `ancestor` or sits somewhere below it
+export function isWithinBranch(branches: Branch[], branch: string | null, ancestor: string): boolean {
+  return branch !== null && getBranchSubtree(branches, ancestor).includes(branch);
+}
+
+// The branch above `name`, or null at the top level (or for unknown names)
+export function getParentBranch(branches: Branch[], name: string): Branch | null {
+  const branch = branches.find(b => b.name === name);
+  if (!branch?.parent_id) return null;
+  return branches.find(b => b.id === branch.parent_id) ?? null;
+}
+
+// Branches in tree order with their depth, for indented pickers
+export function flattenBranchTree(branches: Branch[]): { branch: Branch; depth: number }[] {
+  const rows: { branch: Branch; depth: number }[] = [];
+  const visit = (name: string | null, depth: number) => {
+    for (const child of getChildBranches(branches, name)) {
+      rows.push({ branch: child, depth });
+      visit(child.name, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return rows;
+}
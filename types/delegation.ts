@@ -0,0 +1,40 @@
+// Out-of-office approval delegation (see the approval_delegations migration).
+
+import { format } from 'date-fns';
+
+export interface ApprovalDelegation {
+  id: string;
+  delegator_user_id: string;
+  delegate_user_id: string;
+  starts_on: string; // YYYY-MM-DD, inclusive
+  ends_on: string; // YYYY-MM-DD, inclusive
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+  revoked_at: string | null;
+  revoked_by: string | null;
+}
+
+// A delegation with both users' names resolved, as the API returns it
+export interface ApprovalDelegationWithUsers extends ApprovalDelegation {
+  delegator_name: string;
+  delegate_name: string;
+}
+
+export type DelegationState = 'active' | 'upcoming' | 'ended' | 'revoked';
+
+// Where a delegation stands on `today` (YYYY-MM-DD, business time)
+export function getDelegationState(delegation: ApprovalDelegation, today: string): DelegationState {
+  if (delegation.revoked_at) return 'revoked';
+  if (delegation.ends_on < today) return 'ended';
+  if (delegation.starts_on > today) return 'upcoming';
+  return 'active';
+}
+
+// "Nov 3 – Nov 7, 2026"; a single day when both ends match
+export function formatDelegationDates(delegation: Pick<ApprovalDelegation, 'starts_on' | 'ends_on'>): string {
+  const start = new Date(`${delegation.starts_on}T12:00:00`);
+  const end = new Date(`${delegation.ends_on}T12:00:00`);
+  if (delegation.starts_on === delegation.ends_on) return format(start, 'MMM d, yyyy');
+  return `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`;
+}
@@ -0,0 +1,51 @@
+// Scheduled Slack department digests (see the digest_schedules migration).
+
+export type DigestCadence = 'weekly' | 'month_end';
+
+export type DigestStatus = 'sent' | 'skipped' | 'failed';
+
+export interface DigestSchedule {
+  id: string;
+  branch: string;
+  department: string;
+  cadence: DigestCadence;
+  weekday: number | null; // weekly: 0 = Sunday .. 6 = Saturday
+  days_before_month_end: number | null; // month_end: 0 = last day of the month
+  is_active: boolean;
+  last_run_on: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DigestHistoryEntry {
+  id: string;
+  schedule_id: string | null;
+  branch: string;
+  department: string;
+  month: string;
+  status: DigestStatus;
+  unapproved_count: number;
+  unapproved_amount: number;
+  channel_id: string | null;
+  slack_ts: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+export const DIGEST_CADENCE_LABELS: Record<DigestCadence, string> = {
+  weekly: 'Weekly',
+  month_end: 'Before month end',
+};
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** "Weekly on Monday" / "3 days before month end" */
+export function describeDigestSchedule(schedule: Pick<DigestSchedule, 'cadence' | 'weekday' | 'days_before_month_end'>): string {
+  if (schedule.cadence === 'weekly') {
+    return `Weekly on ${WEEKDAY_LABELS[schedule.weekday ?? 1]}`;
+  }
+  const days = schedule.days_before_month_end ?? 0;
+  if (days === 0) return 'Last day of the month';
+  return `${days} day${days === 1 ? '' : 's'} before month end`;
+}
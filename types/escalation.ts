@@ -0,0 +1,27 @@
+// Escalating reminders for flagged expenses (see the escalation_rules migration).
+
+export type EscalationTarget = 'branch_manager' | 'department_channel';
+
+export interface EscalationRule {
+  id: string;
+  flag_category: string;
+  reminder_after_days: number;
+  max_reminders: number;
+  escalate_to: EscalationTarget;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BranchManager {
+  branch: string;
+  user_id: string;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export const ESCALATION_TARGET_LABELS: Record<EscalationTarget, string> = {
+  branch_manager: 'Branch manager',
+  department_channel: 'Department channel',
+};
@@ -0,0 +1,34 @@
+// Admin-managed rules that keep expenses out of the sync or off the dashboard.
+
+export type ExclusionMatchField = 'category_prefix' | 'vendor' | 'department' | 'branch' | 'transaction_type';
+
+/**
+ * exclude_from_sync: the syncs never write matching rows.
+ * hide_from_dashboard: rows are synced but left out of the dashboard and Slack summaries.
+ */
+export type ExclusionAction = 'exclude_from_sync' | 'hide_from_dashboard';
+
+export interface ExclusionRule {
+  id: string;
+  match_field: ExclusionMatchField;
+  match_value: string;
+  action: ExclusionAction;
+  note: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const EXCLUSION_MATCH_FIELD_LABELS: Record<ExclusionMatchField, string> = {
+  category_prefix: 'Category starts with',
+  vendor: 'Vendor is',
+  department: 'Department is',
+  branch: 'Branch is',
+  transaction_type: 'Transaction type is',
+};
+
+export const EXCLUSION_ACTION_LABELS: Record<ExclusionAction, string> = {
+  exclude_from_sync: 'Exclude from sync',
+  hide_from_dashboard: 'Hide from dashboard',
+};
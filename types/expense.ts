@@ -20,11 +20,121 @@ export interface Expense {
   updated_at?: string;
   approval_modified_by: string | null;
   approval_modified_at: string | null;
+  approval_step: number; // steps of its approval chain approved so far
   bill_sync_status: string | null; // NEW: PENDING, SYNCED, ERROR, MANUAL_SYNCED, NOT_SYNCED
+  receipt_status: string | null; // Bill.com receiptStatus; null for NetSuite rows
   slack_notification_count: number;
   slack_last_notified_at: string | null;
+  escalated_at: string | null; // set by the escalation cron; cleared when the flag changes
+  escalated_to: string | null;
+  comment_count: number; // maintained by a trigger on expense_comments
+  unresolved_comment_count: number;
 }
 
+// transaction_type values. Credit Card rows come from Bill.com; the others are
+// NetSuite transactions pulled in by the vendor bill sync. Vendor Credit rows
+// carry negative amounts so they net against spend in every total.
+export const NETSUITE_TRANSACTION_TYPES = ['Vendor Bill', 'Vendor Credit', 'Check', 'Journal Entry'] as const;
+export const TRANSACTION_TYPES = [...NETSUITE_TRANSACTION_TYPES, 'Credit Card'] as const;
+
+export type TransactionType = typeof TRANSACTION_TYPES[number];
+
+// Plural labels for filters and summaries
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  'Vendor Bill': 'Vendor Bills',
+  'Vendor Credit': 'Vendor Credits',
+  'Check': 'Checks',
+  'Journal Entry': 'Journal Entries',
+  'Credit Card': 'Credit Cards',
+};
+
+// NetSuite record page for each NetSuite transaction type
+const NETSUITE_RECORD_PATHS: Record<string, string> = {
+  'Vendor Bill': 'vendbill.nl',
+  'Vendor Credit': 'vendcred.nl',
+  'Check': 'check.nl',
+  'Journal Entry': 'journal.nl',
+};
+
+// Link to the source transaction in Bill.com or NetSuite
+export function getTransactionUrl(transactionType: string, netsuiteId: string): string {
+  if (transactionType === 'Credit Card') {
+    const billId = netsuiteId.replace('BILL-', '');
+    return `https://spend.bill.com/companies/Q29tcGFueToxNDI3OQ==/transactions/pending-and-cleared/${billId}`;
+  }
+  // Line rows are "{transactionId}-{line}"; the record page wants the transaction id
+  const transactionId = netsuiteId.split('-')[0];
+  const path = NETSUITE_RECORD_PATHS[transactionType] || 'transaction.nl';
+  return `https://system.netsuite.com/app/accounting/transactions/${path}?id=${transactionId}`;
+}
+
+// Where an expense_changes row came from
+export type ExpenseChangeSource = 'netsuite_sync' | 'bill_sync' | 'flag' | 'approval' | 'correction';
+
+// One field-level change from the expense_changes history table
+export interface ExpenseChange {
+  id: string;
+  expense_id: string;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  source: ExpenseChangeSource;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+// Where an expense_comments row came from (see the migration for details)
+export type ExpenseCommentSource = 'slack' | 'dashboard';
+
+// A comment on an expense; author_name is resolved from author_user_id
+export interface ExpenseComment {
+  id: string;
+  expense_id: string;
+  source: ExpenseCommentSource;
+  author_user_id: string | null;
+  author_slack_id: string | null;
+  author_name: string | null;
+  body: string;
+  mentioned_user_ids: string[];
+  created_at: string;
+  updated_at: string | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+}
+
+// A user who can be mentioned on an expense (active and able to see it)
+export interface MentionableUser {
+  id: string;
+  full_name: string;
+}
+
+// Lifecycle of an expense_corrections row (see the migration for details)
+export type ExpenseCorrectionStatus = 'pending' | 'applied' | 'failed' | 'confirmed';
+
+// A branch/department/category correction written back to the source system
+export interface ExpenseCorrection {
+  id: string;
+  expense_id: string;
+  netsuite_id: string;
+  target: 'netsuite' | 'bill';
+  branch: string | null;
+  department: string | null;
+  category: string | null;
+  previous_branch: string | null;
+  previous_department: string | null;
+  previous_category: string | null;
+  mark_reviewed: boolean;
+  status: ExpenseCorrectionStatus;
+  error: string | null;
+  requested_by: string | null;
+  created_at: string;
+  applied_at: string | null;
+  confirmed_at: string | null;
+}
+
+// Flags a confirmed correction resolves (and so clears)
+export const CORRECTION_FLAGS = ['Wrong Branch', 'Wrong Department', 'Wrong Category'];
+
 export const FLAG_CATEGORIES = [
   'Needs Review',
   'Wrong Department',
@@ -123,6 +233,30 @@ export function isBillSynced(syncStatus: string | null): boolean {
   return syncStatus === 'SYNCED' || syncStatus === 'MANUAL_SYNCED';
 }
 
+// Bill.com receiptStatus values that mean nothing is owed
+const RECEIPT_SATISFIED_STATUSES = ['ATTACHED', 'NOT_REQUIRED', 'EXEMPT'];
+
+// Helper to check if a card transaction still needs a receipt. Rows synced
+// before receipt_status existed (null) are not counted as missing.
+export function isReceiptMissing(expense: Pick<Expense, 'transaction_type' | 'receipt_status'>): boolean {
+  if (expense.transaction_type !== 'Credit Card' || !expense.receipt_status) return false;
+  return !RECEIPT_SATISFIED_STATUSES.includes(expense.receipt_status.toUpperCase());
+}
+
+export type EscalationStage = 'notified' | 'reminded' | 'escalated';
+
+// Where a flagged, still-pending expense is in the reminder/escalation cycle.
+// null once it is approved, rejected or unflagged, or before any notification.
+export function getEscalationStage(
+  expense: Pick<Expense, 'flag_category' | 'approval_status' | 'slack_notification_count' | 'escalated_at'>
+): EscalationStage | null {
+  if (!expense.flag_category || expense.flag_category === 'Good to Sync' || expense.approval_status) return null;
+  if (expense.escalated_at) return 'escalated';
+  if ((expense.slack_notification_count || 0) > 1) return 'reminded';
+  if ((expense.slack_notification_count || 0) === 1) return 'notified';
+  return null;
+}
+
 // Helper to get sync status display info
 export function getSyncStatusInfo(syncStatus: string | null): {
   label: string;
@@ -0,0 +1,131 @@
+// Dashboard expense queries (see the dashboard_expense_queries migration).
+// Filtering, sorting and totals run in Postgres; the dashboard fetches a page
+// of rows and the aggregates for its current filters.
+
+// The dashboard's filter state. Keys double as query-string parameters for
+// /api/expenses and Slack deep links; array filters are comma-separated.
+export interface ExpenseFilters {
+  months: string[];
+  branch: string;
+  vendor: string;
+  department: string;
+  purchaser: string[];
+  category: string[];
+  dateFrom: string;
+  dateTo: string;
+  showFlagged: string;
+  flagCategory: string[];
+  excludeFlagCategories: string[];
+  transactionType: string;
+  status: string;
+  approvalStatus: string[];
+  syncStatus: string; // Filter for Bill.com sync status
+  receiptStatus: string; // 'all' | 'missing' | 'attached' (credit cards)
+  comments: string; // 'all' | 'unresolved' | 'any'
+}
+
+export const EXPENSE_FILTER_KEYS: (keyof ExpenseFilters)[] = [
+  'months', 'branch', 'vendor', 'department', 'purchaser', 'category', 'dateFrom', 'dateTo',
+  'showFlagged', 'flagCategory', 'excludeFlagCategories', 'transactionType', 'status',
+  'approvalStatus', 'syncStatus', 'receiptStatus', 'comments',
+];
+
+export const EXPENSE_ARRAY_FILTER_KEYS: (keyof ExpenseFilters)[] = [
+  'months', 'purchaser', 'category', 'flagCategory', 'excludeFlagCategories', 'approvalStatus',
+];
+
+export type ExpenseSortField = 'date' | 'vendor' | 'purchaser' | 'category' | 'branch' | 'department' | 'amount' | 'status';
+
+export const EXPENSE_SORT_FIELDS: ExpenseSortField[] = [
+  'date', 'vendor', 'purchaser', 'category', 'branch', 'department', 'amount', 'status',
+];
+
+export type SortDirection = 'asc' | 'desc';
+
+// Filters as query-string parameters, in the same shape the dashboard reads
+// deep links back
+export function toExpenseQueryParams(filters: ExpenseFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const key of EXPENSE_FILTER_KEYS) {
+    const value = filters[key];
+    params.set(key, Array.isArray(value) ? value.join(',') : value);
+  }
+  return params;
+}
+
+export interface ExpenseTotals {
+  amount: number;
+  count: number;
+}
+
+export interface ExpenseApprovalTotals extends ExpenseTotals {
+  unapprovedAmount: number;
+  unapprovedCount: number;
+}
+
+// KPI cards and breakdowns for the active filters (dashboard_expense_aggregates)
+export interface ExpenseAggregates {
+  totalAmount: number;
+  totalCount: number;
+  creditAmount: number; // negative lines; totalAmount is already net of them
+  flaggedCount: number;
+  flaggedAmount: number;
+  missingReceiptCount: number;
+  missingReceiptAmount: number;
+  readyToSyncCount: number;
+  readyToReviewCount: number;
+  byBranch: Record<string, ExpenseApprovalTotals>;
+  byDepartment: Record<string, ExpenseApprovalTotals>; // normalized department names
+  byVendor: Record<string, ExpenseTotals>;
+  byPurchaser: Record<string, ExpenseTotals>;
+  byCategory: Record<string, ExpenseTotals>;
+  // Category filter options: matches for the other filters, ignoring category
+  categories: string[];
+}
+
+export const EMPTY_EXPENSE_AGGREGATES: ExpenseAggregates = {
+  totalAmount: 0,
+  totalCount: 0,
+  creditAmount: 0,
+  flaggedCount: 0,
+  flaggedAmount: 0,
+  missingReceiptCount: 0,
+  missingReceiptAmount: 0,
+  readyToSyncCount: 0,
+  readyToReviewCount: 0,
+  byBranch: {},
+  byDepartment: {},
+  byVendor: {},
+  byPurchaser: {},
+  byCategory: {},
+  categories: [],
+};
+
+export type TrendsDimension = 'department' | 'purchaser' | 'vendor' | 'category';
+
+// One month's total for one department/purchaser/vendor/category
+export interface ExpenseTrendRow {
+  month: string; // YYYY-MM
+  dimension: string;
+  amount: number;
+  count: number;
+}
+
+// Distinct values in a user's scope, for filter dropdowns and admin pickers
+export interface ExpenseFilterOptions {
+  vendors: string[];
+  purchasers: string[];
+  branches: string[];
+  departments: string[];
+  categories: string[];
+  statuses: string[];
+}
+
+export const EMPTY_FILTER_OPTIONS: ExpenseFilterOptions = {
+  vendors: [],
+  purchasers: [],
+  branches: [],
+  departments: [],
+  categories: [],
+  statuses: [],
+};
@@ -1,4 +1,5 @@
 import NextAuth, { DefaultSession } from 'next-auth';
+import { UserRole } from '@/types/user';
 
 declare module 'next-auth' {
   interface Session {
@@ -6,6 +7,7 @@ declare module 'next-auth' {
       id: string;
       email: string;
       name: string;
+      role: UserRole;
       isAdmin: boolean;
       isActive: boolean;
       canSendSlack: boolean;
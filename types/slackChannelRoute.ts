@@ -0,0 +1,21 @@
+// Branch/department → Slack channel routing (see the slack_channel_routes migration).
+
+export interface SlackChannelRoute {
+  id: string;
+  branch: string;
+  department_pattern: string; // case-insensitive, `*` wildcard
+  channel_id: string;
+  channel_name: string | null;
+  priority: number;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A branch/department combination seen in expenses that no active route covers
+export interface UnroutedCombination {
+  branch: string;
+  department: string;
+  expense_count: number;
+}
@@ -0,0 +1,40 @@
+// Log of Slack messages sent about an expense (see the slack_notifications migration).
+
+export type SlackNotificationKind = 'correction' | 'reminder' | 'escalation';
+
+export type SlackNotificationStatus = 'sent' | 'failed';
+
+export interface SlackNotification {
+  id: string;
+  expense_id: string | null;
+  kind: SlackNotificationKind;
+  sent_by: string;
+  target: string;
+  recipient_slack_ids: string[];
+  text: string | null;
+  blocks: any[] | null;
+  status: SlackNotificationStatus;
+  error: string | null;
+  slack_channel: string | null;
+  slack_ts: string | null;
+  thread_ts: string | null;
+  created_at: string;
+}
+
+export const SLACK_NOTIFICATION_KIND_LABELS: Record<SlackNotificationKind, string> = {
+  correction: 'Correction',
+  reminder: 'Reminder',
+  escalation: 'Escalation',
+};
+
+/** A row in the admin log, with enough of the expense to identify it. */
+export interface SlackNotificationLogEntry extends Omit<SlackNotification, 'blocks'> {
+  expenses: {
+    vendor_name: string | null;
+    amount: number;
+    transaction_date: string;
+    branch: string | null;
+    department: string | null;
+    cardholder: string | null;
+  } | null;
+}
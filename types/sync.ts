@@ -0,0 +1,26 @@
+// Types shared between the sync runners and the sync UI.
+
+/** A single sync-owned field that would change on an existing row. */
+export interface VendorBillFieldChange {
+  field: 'branch' | 'department' | 'amount' | 'vendor_name';
+  from: string | number | null;
+  to: string | number | null;
+}
+
+export interface VendorBillChangeRow {
+  netsuite_id: string;
+  transaction_date: string | null;
+  vendor_name: string | null;
+  amount: number | null;
+  transaction_type?: string | null;
+  branch?: string | null;
+  department?: string | null;
+}
+
+/** What a sync would do, returned by a dry run instead of writing anything. */
+export interface VendorBillChangeSet {
+  toCreate: VendorBillChangeRow[];
+  toUpdate: Array<VendorBillChangeRow & { changes: VendorBillFieldChange[] }>;
+  toDelete: Array<VendorBillChangeRow & { reason: 'straggler' | 'old_format' }>;
+  unchanged: number;
+}
@@ -1,11 +1,84 @@
 // types/user.ts
+
+// What a user may do is decided by their role (see the user_roles migration).
+// is_admin is kept in step with role = 'admin' by the database, for branch and
+// department scope; capability checks go through hasCapability.
+export type UserRole = 'viewer' | 'reviewer' | 'approver' | 'ap' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'reviewer', 'approver', 'ap', 'admin'];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Viewer',
+  reviewer: 'Reviewer',
+  approver: 'Approver',
+  ap: 'AP',
+  admin: 'Admin',
+};
+
+export const USER_ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  viewer: 'Sees expenses in their branches and departments',
+  reviewer: 'Flags and corrects expenses',
+  approver: 'Flags, corrects and approves expenses',
+  ap: 'Flags and corrects expenses, sends Slack reminders and runs syncs',
+  admin: 'Everything, including users, settings and View As',
+};
+
+export type Capability =
+  | 'flag'             // flag and correct expenses
+  | 'approve'          // approve or reject expenses
+  | 'notify'           // send Slack reminders and summaries
+  | 'sync'             // run NetSuite and Bill.com syncs
+  | 'manage_users'     // users, their access and delegations
+  | 'masquerade'       // View As another user
+  | 'manage_settings'; // rules, policies, schedules and the audit log
+
+export const CAPABILITIES: Capability[] = [
+  'flag', 'approve', 'notify', 'sync', 'manage_users', 'masquerade', 'manage_settings',
+];
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  flag: 'Flag',
+  approve: 'Approve',
+  notify: 'Notify',
+  sync: 'Sync',
+  manage_users: 'Manage users',
+  masquerade: 'View As',
+  manage_settings: 'Settings',
+};
+
+export const ROLE_CAPABILITIES: Record<UserRole, Capability[]> = {
+  viewer: [],
+  reviewer: ['flag'],
+  approver: ['flag', 'approve'],
+  ap: ['flag', 'notify', 'sync'],
+  admin: CAPABILITIES,
+};
+
+/**
+ * Whether a user may do something. can_send_slack still grants notify to
+ * roles that don't include it.
+ */
+export function hasCapability(
+  user: Pick<User, 'role' | 'can_send_slack'>,
+  capability: Capability
+): boolean {
+  if (capability === 'notify' && user.can_send_slack) return true;
+  return (ROLE_CAPABILITIES[user.role] ?? []).includes(capability);
+}
+
+export function getCapabilities(user: Pick<User, 'role' | 'can_send_slack'>): Capability[] {
+  return CAPABILITIES.filter(capability => hasCapability(user, capability));
+}
+
 export interface User {
   id: string;
   email: string;
   full_name: string;
+  role: UserRole;
   is_admin: boolean;
   is_active: boolean;
   can_send_slack: boolean;
+  is_finance_approver: boolean;
   slack_id?: string | null;
   slack_display_name?: string | null;
   slack_synced_at?: string | null;
@@ -13,41 +86,50 @@ export interface User {
   updated_at: string;
 }
 
-export interface UserBranchPermission {
-  id: string;
-  user_id: string;
-  branch_name: string;
-  created_at: string;
+// One (branch, department) pair a user may see; null matches any branch or
+// department. A user sees an expense when any of their grants covers it.
+export interface AccessGrant {
+  branch: string | null;
+  department: string | null;
 }
 
-export interface UserDepartmentPermission {
+export interface UserAccessGrant extends AccessGrant {
   id: string;
   user_id: string;
-  department_name: string;
   created_at: string;
 }
 
 export interface UserWithPermissions extends User {
-  branches: string[];
-  departments: string[];
+  grants: AccessGrant[];
 }
 
 export interface CreateUserRequest {
   email: string;
   full_name: string;
-  is_admin: boolean;
+  role: UserRole;
   can_send_slack: boolean;
-  branches: string[];
-  departments: string[];
+  is_finance_approver?: boolean;
+  grants: AccessGrant[];
 }
 
 export interface UpdateUserRequest {
   full_name?: string;
-  is_admin?: boolean;
+  role?: UserRole;
   is_active?: boolean;
   can_send_slack?: boolean;
-  branches?: string[];
-  departments?: string[];
+  is_finance_approver?: boolean;
+  grants?: AccessGrant[];
+}
+
+export const isSameAccessGrant = (a: AccessGrant, b: AccessGrant) =>
+  a.branch === b.branch && a.department === b.department;
+
+// "Maintenance in Phoenix - North", "All departments in Las Vegas", ...
+export function formatAccessGrant(grant: AccessGrant): string {
+  if (grant.branch === null && grant.department === null) return 'All branches and departments';
+  if (grant.branch === null) return `${grant.department} in all branches`;
+  if (grant.department === null) return `All departments in ${grant.branch}`;
+  return `${grant.department} in ${grant.branch}`;
 }
 
 export interface SlackSyncStats {